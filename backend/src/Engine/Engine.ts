@@ -89,12 +89,13 @@ export class Engine {
     }
 
     public getStatus(): {
-        services: any; running: boolean; eventProcessor: boolean
+        services: any; running: boolean; eventProcessor: boolean; metrics: any
     } {
         return {
             running: this.isRunning,
             eventProcessor: this.isRunning,
             services: undefined,
+            metrics: this.eventProcessor.getStatus().metrics
         };
     }
 }
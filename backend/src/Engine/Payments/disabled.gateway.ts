@@ -0,0 +1,31 @@
+// src/Engine/Payments/disabled.gateway.ts
+import { GatewayResult, PaymentGateway } from '../../types';
+
+/**
+ * Gateway for places where no money may move, such as the event replayer: payment
+ * commands are replayed from the gateway outcome stored with them, so every call
+ * that reaches this gateway is refused.
+ */
+export class DisabledPaymentGateway implements PaymentGateway {
+    public readonly name = 'disabled';
+
+    public async authorize(): Promise<GatewayResult> {
+        throw this.refuse('authorize');
+    }
+
+    public async capture(): Promise<GatewayResult> {
+        throw this.refuse('capture');
+    }
+
+    public async void(): Promise<GatewayResult> {
+        throw this.refuse('void');
+    }
+
+    public async refund(): Promise<GatewayResult> {
+        throw this.refuse('refund');
+    }
+
+    private refuse(action: string): Error {
+        return new Error(`Payment gateway is disabled here; refusing to ${action}`);
+    }
+}
@@ -0,0 +1,33 @@
+// src/Engine/Payments/fake.gateway.ts
+import { config } from '../../config/config';
+import { GatewayAuthorization, GatewayResult, PaymentGateway } from '../../types';
+
+/**
+ * Local stand-in for a payment provider, for development and tests. Approves
+ * everything except authorizations above config.payments.fakeDeclineAbove, and
+ * derives transaction ids from the reference so retries agree.
+ */
+export class FakePaymentGateway implements PaymentGateway {
+    public readonly name = 'fake';
+
+    public async authorize(request: GatewayAuthorization): Promise<GatewayResult> {
+        const declineAbove = config.payments.fakeDeclineAbove;
+        if (declineAbove > 0 && request.amount > declineAbove) {
+            return { success: false, transactionId: null, failureReason: 'Declined by fake gateway: amount over limit' };
+        }
+
+        return { success: true, transactionId: `fake_${request.reference}`, failureReason: null };
+    }
+
+    public async capture(transactionId: string): Promise<GatewayResult> {
+        return { success: true, transactionId, failureReason: null };
+    }
+
+    public async void(transactionId: string): Promise<GatewayResult> {
+        return { success: true, transactionId, failureReason: null };
+    }
+
+    public async refund(transactionId: string, amount: number, reference: string): Promise<GatewayResult> {
+        return { success: true, transactionId: `fake_${reference}`, failureReason: null };
+    }
+}
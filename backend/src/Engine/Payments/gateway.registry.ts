@@ -0,0 +1,22 @@
+// src/Engine/Payments/gateway.registry.ts
+import { config } from '../../config/config';
+import { PaymentGateway } from '../../types';
+import { FakePaymentGateway } from './fake.gateway';
+
+const gatewayFactories = new Map<string, () => PaymentGateway>([
+    ['fake', () => new FakePaymentGateway()]
+]);
+
+// Provider adapters register here; config.payments.gateway picks the one in use
+export const registerPaymentGateway = (name: string, factory: () => PaymentGateway): void => {
+    gatewayFactories.set(name, factory);
+};
+
+export const createPaymentGateway = (name: string = config.payments.gateway): PaymentGateway => {
+    const factory = gatewayFactories.get(name);
+    if (!factory) {
+        throw new Error(`Unknown payment gateway: ${name}`);
+    }
+
+    return factory();
+};
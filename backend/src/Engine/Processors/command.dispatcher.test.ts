@@ -0,0 +1,185 @@
+// src/Engine/Processors/command.dispatcher.test.ts
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { CommandDispatcher } from './command.dispatcher';
+import { DisabledPaymentGateway } from '../Payments/disabled.gateway';
+import { FakeDatabase } from '../../testing/fakeDatabase';
+import {
+    GatewayAuthorization,
+    GatewayResult,
+    OrderStatus,
+    PaymentGateway,
+    PaymentMethod,
+    PaymentStatus
+} from '../../types';
+
+const ORDER_ID = 'order-1';
+
+// Approves everything and notes, per call, whether a transaction was open
+class RecordingGateway implements PaymentGateway {
+    public readonly name = 'recording';
+    public calls: { action: string; args: any[]; inTransaction: boolean }[] = [];
+
+    constructor(private database: FakeDatabase) {}
+
+    public async authorize(request: GatewayAuthorization): Promise<GatewayResult> {
+        return this.record('authorize', [request], `txn_${request.reference}`);
+    }
+
+    public async capture(transactionId: string, amount: number, reference: string): Promise<GatewayResult> {
+        return this.record('capture', [transactionId, amount, reference], transactionId);
+    }
+
+    public async void(transactionId: string, reference: string): Promise<GatewayResult> {
+        return this.record('void', [transactionId, reference], transactionId);
+    }
+
+    public async refund(transactionId: string, amount: number, reference: string): Promise<GatewayResult> {
+        return this.record('refund', [transactionId, amount, reference], `txn_${reference}`);
+    }
+
+    private record(action: string, args: any[], transactionId: string): GatewayResult {
+        this.calls.push({ action, args, inTransaction: this.database.transactionDepth > 0 });
+        return { success: true, transactionId, failureReason: null };
+    }
+}
+
+// An order of 120 with its payments kept in memory
+function setup(gateway: (database: FakeDatabase) => PaymentGateway, payments: Record<string, any>[] = []) {
+    const database = new FakeDatabase()
+        .on(/SELECT \* FROM order_payments WHERE id = \$1/, params => payments.filter(row => row.id === params[0]))
+        .on(/SELECT \* FROM order_payments\s+WHERE order_id/, () => payments)
+        .on(/INSERT INTO order_payments/, params => {
+            const [id, orderId, amount, paymentMethod, paymentStatus, gatewayName, transactionId, failureReason] = params;
+            payments.push(paymentRow({
+                id,
+                order_id: orderId,
+                amount,
+                payment_method: paymentMethod,
+                payment_status: paymentStatus,
+                gateway: gatewayName,
+                transaction_id: transactionId,
+                failure_reason: failureReason
+            }));
+            return [];
+        });
+
+    const dispatcher = new CommandDispatcher(database.asService(), gateway(database));
+    const order = { id: ORDER_ID, orderNumber: 'ORD-1', status: OrderStatus.PENDING, totalAmount: 120, paymentStatus: PaymentStatus.PENDING };
+    dispatcher['orderService'].getOrderById = async (id: string) => id === ORDER_ID ? order as any : null;
+    dispatcher['orderService'].lockOrder = async (id: string) => id === ORDER_ID;
+
+    return { database, dispatcher, payments };
+}
+
+function paymentRow(overrides: Record<string, any>): Record<string, any> {
+    return {
+        order_id: ORDER_ID,
+        captured_amount: '0',
+        refund_amount: '0',
+        processed_at: null,
+        refunded_at: null,
+        created_at: new Date('2026-03-01T12:00:00Z'),
+        updated_at: new Date('2026-03-01T12:00:00Z'),
+        ...overrides
+    };
+}
+
+const AUTHORIZE = { id: ORDER_ID, paymentId: 'pay-1', paymentMethod: PaymentMethod.CREDIT_CARD };
+
+describe('CommandDispatcher payment commands', () => {
+    it('calls the gateway in prepare, outside any transaction, and returns its outcome with the command', async () => {
+        let gateway!: RecordingGateway;
+        const { dispatcher, payments } = setup(database => gateway = new RecordingGateway(database));
+
+        const prepared = await dispatcher.prepare('ORDER', 'ORDER_PAYMENT_AUTHORIZE_REQUESTED', AUTHORIZE);
+
+        assert.deepEqual(prepared, {
+            ...AUTHORIZE,
+            gatewayResult: { success: true, transactionId: 'txn_pay-1', failureReason: null, gateway: 'recording', amount: 120 }
+        });
+        assert.deepEqual(gateway.calls.map(call => [call.action, call.inTransaction]), [['authorize', false]]);
+        assert.equal(payments.length, 0);
+    });
+
+    it('records the outcome stored with the command without calling the gateway', async () => {
+        const { database, dispatcher, payments } = setup(() => new DisabledPaymentGateway());
+        const gatewayResult = { success: true, transactionId: 'txn_pay-1', failureReason: null, gateway: 'recording', amount: 120 };
+
+        const result = await dispatcher.dispatch('ORDER', 'ORDER_PAYMENT_AUTHORIZE_REQUESTED', { ...AUTHORIZE, gatewayResult });
+
+        assert.equal(result.success, true);
+        assert.deepEqual(
+            payments.map(row => [row.id, row.amount, row.payment_status, row.gateway, row.transaction_id]),
+            [['pay-1', 120, PaymentStatus.AUTHORIZED, 'recording', 'txn_pay-1']]
+        );
+        assert.deepEqual(database.find(/UPDATE orders SET payment_status/)[0]?.params, [PaymentStatus.AUTHORIZED, ORDER_ID]);
+    });
+
+    it('records a declined authorization as a failed payment', async () => {
+        const { dispatcher, payments } = setup(() => new DisabledPaymentGateway());
+        const gatewayResult = { success: false, transactionId: null, failureReason: 'Card declined', gateway: 'recording', amount: 120 };
+
+        await dispatcher.dispatch('ORDER', 'ORDER_PAYMENT_AUTHORIZE_REQUESTED', { ...AUTHORIZE, gatewayResult });
+
+        assert.deepEqual(
+            payments.map(row => [row.payment_status, row.failure_reason]),
+            [[PaymentStatus.FAILED, 'Card declined']]
+        );
+    });
+
+    it('captures against the authorization\'s transaction and replays the capture from its outcome', async () => {
+        let gateway!: RecordingGateway;
+        const authorized = [paymentRow({
+            id: 'pay-1',
+            amount: '120',
+            payment_method: PaymentMethod.CREDIT_CARD,
+            payment_status: PaymentStatus.AUTHORIZED,
+            gateway: 'recording',
+            transaction_id: 'txn_pay-1',
+            failure_reason: null
+        })];
+        const live = setup(database => gateway = new RecordingGateway(database), authorized);
+
+        const command = await live.dispatcher.prepare('ORDER', 'ORDER_PAYMENT_CAPTURE_REQUESTED', { id: ORDER_ID, paymentId: 'pay-1', amount: 100 });
+        const replay = setup(() => new DisabledPaymentGateway(), [...authorized]);
+        const result = await replay.dispatcher.dispatch('ORDER', 'ORDER_PAYMENT_CAPTURE_REQUESTED', command);
+
+        assert.deepEqual(gateway.calls.map(call => [call.action, call.args]), [['capture', ['txn_pay-1', 100, 'pay-1']]]);
+        assert.equal(result.success, true);
+        assert.deepEqual(replay.database.find(/UPDATE order_payments/)[0]?.params, [PaymentStatus.PAID, 100, 'pay-1']);
+    });
+
+    it('refuses a payment command that was not prepared', async () => {
+        const { dispatcher } = setup(() => new DisabledPaymentGateway());
+
+        await assert.rejects(
+            dispatcher.dispatch('ORDER', 'ORDER_PAYMENT_AUTHORIZE_REQUESTED', AUTHORIZE),
+            /not prepared/
+        );
+    });
+
+    it('records nothing when prepare found no order', async () => {
+        let gateway!: RecordingGateway;
+        const { dispatcher, payments } = setup(database => gateway = new RecordingGateway(database));
+
+        const prepared = await dispatcher.prepare('ORDER', 'ORDER_PAYMENT_AUTHORIZE_REQUESTED', { ...AUTHORIZE, id: 'order-2' });
+        const result = await dispatcher.dispatch('ORDER', 'ORDER_PAYMENT_AUTHORIZE_REQUESTED', prepared);
+
+        assert.equal(prepared.gatewayResult, null);
+        assert.equal(result.success, false);
+        assert.deepEqual(gateway.calls, []);
+        assert.equal(payments.length, 0);
+    });
+
+    it('leaves other commands as they are in prepare', async () => {
+        let gateway!: RecordingGateway;
+        const { database, dispatcher } = setup(db => gateway = new RecordingGateway(db));
+        const data = { id: ORDER_ID, reason: 'Changed my mind' };
+
+        assert.equal(await dispatcher.prepare('ORDER', 'ORDER_CANCEL_REQUESTED', data), data);
+        assert.equal(await dispatcher.prepare('CUSTOMER', 'CUSTOMER_CREATE_REQUESTED', data), data);
+        assert.deepEqual(gateway.calls, []);
+        assert.equal(database.queries.length, 0);
+    });
+});
@@ -0,0 +1,283 @@
+// src/Engine/Processors/command.dispatcher.ts
+import { DatabaseService } from '../Services/database.service';
+import { CustomerService } from '../Services/customer.service';
+import { ItemService } from '../Services/item.service';
+import { OrderService } from '../Services/order.service';
+import { InventoryService } from '../Services/inventory.service';
+import { PaymentService } from '../Services/payment.service';
+import { runWithCommandContext } from '../../utils/commandContext';
+import {
+    AggregateType,
+    CommandResult,
+    KafkaEventMetadata,
+    OrderCommandType,
+    PaymentGateway,
+    RecordedGatewayResult
+} from '../../types';
+
+// Read requests answered by the Engine; they change nothing and are not stored or replayed
+const QUERY_EVENT_TYPES = ['ITEM_REQUESTED'];
+
+const UNHANDLED: CommandResult = { handled: false, success: false, data: null };
+
+/**
+ * Applies a command event to the domain services, so the EventProcessor and the
+ * event replayer share it. Calls to the payment gateway are made by prepare, which
+ * only the EventProcessor runs; dispatch itself has no Kafka, cache or gateway side
+ * effects and records the outcome prepare stored with the command. Values a command
+ * works out itself, like an order's number and prices, come back as `resolved` to be
+ * stored with it, and a replayed command applies them as they are. Events must be
+ * upcast by the EventRegistry first; retired event names are not handled here.
+ */
+export class CommandDispatcher {
+    private customerService: CustomerService;
+    private itemService: ItemService;
+    private orderService: OrderService;
+    private paymentService: PaymentService;
+
+    constructor(databaseService: DatabaseService, paymentGateway: PaymentGateway) {
+        this.customerService = new CustomerService(databaseService);
+        this.itemService = new ItemService(databaseService);
+        this.orderService = new OrderService(databaseService, this.itemService, new InventoryService(databaseService));
+        this.paymentService = new PaymentService(databaseService, this.orderService, paymentGateway);
+    }
+
+    public isQuery(eventType: string): boolean {
+        return QUERY_EVENT_TYPES.includes(eventType);
+    }
+
+    public async dispatch(
+        aggregateType: AggregateType,
+        eventType: string,
+        data: any,
+        metadata?: KafkaEventMetadata
+    ): Promise<CommandResult> {
+        return await runWithCommandContext(metadata, async () => {
+            switch (aggregateType) {
+                case 'CUSTOMER':
+                    return await this.dispatchCustomerCommand(eventType, data);
+                case 'ITEM':
+                    return await this.dispatchItemCommand(eventType, data);
+                case 'ORDER':
+                    return await this.dispatchOrderCommand(eventType, data);
+                default:
+                    return UNHANDLED;
+            }
+        });
+    }
+
+    /**
+     * Makes the gateway call a payment command needs, before and outside its transaction,
+     * and returns the command data with the outcome as gatewayResult (null when the order
+     * or payment does not exist). Other commands come back unchanged.
+     */
+    public async prepare(
+        aggregateType: AggregateType,
+        eventType: string,
+        data: any,
+        metadata?: KafkaEventMetadata
+    ): Promise<any> {
+        if (aggregateType !== 'ORDER') {
+            return data;
+        }
+
+        return await runWithCommandContext(metadata, async () => {
+            let gatewayResult: RecordedGatewayResult | null;
+
+            switch (eventType) {
+                case 'ORDER_PAYMENT_AUTHORIZE_REQUESTED':
+                    gatewayResult = await this.paymentService.prepareAuthorization(data.id, {
+                        paymentId: data.paymentId,
+                        amount: data.amount ?? undefined,
+                        paymentMethod: data.paymentMethod
+                    });
+                    break;
+                case 'ORDER_PAYMENT_CAPTURE_REQUESTED':
+                    gatewayResult = await this.paymentService.prepareCapture(data.id, data.paymentId, data.amount ?? null);
+                    break;
+                case 'ORDER_PAYMENT_VOID_REQUESTED':
+                    gatewayResult = await this.paymentService.prepareVoid(data.id, data.paymentId);
+                    break;
+                case 'ORDER_PAYMENT_REFUND_REQUESTED':
+                    gatewayResult = await this.paymentService.prepareRefund(data.id, data.paymentId, data.amount ?? null, data.refundId);
+                    break;
+                default:
+                    return data;
+            }
+
+            return { ...data, gatewayResult };
+        });
+    }
+
+    private async dispatchCustomerCommand(eventType: string, data: any): Promise<CommandResult> {
+        switch (eventType) {
+            case 'CUSTOMER_CREATE_REQUESTED': {
+                const customer = await this.customerService.createCustomer(data);
+                return { handled: true, success: true, data: customer };
+            }
+
+            case 'CUSTOMER_UPDATE_REQUESTED': {
+                const customer = await this.customerService.updateCustomer(data.id, data);
+                return { handled: true, success: customer !== null, data: customer };
+            }
+
+            case 'CUSTOMER_DELETE_REQUESTED': {
+                const deleted = await this.customerService.deleteCustomer(data.id);
+                return { handled: true, success: deleted, data: null };
+            }
+
+            default:
+                return UNHANDLED;
+        }
+    }
+
+    private async dispatchItemCommand(eventType: string, data: any): Promise<CommandResult> {
+        switch (eventType) {
+            case 'ITEM_CREATE_REQUESTED': {
+                const item = data.parentItemId
+                    ? await this.itemService.createItemVariant(data.parentItemId, data)
+                    : await this.itemService.createCustomerItem(data);
+                return { handled: true, success: true, data: item };
+            }
+
+            case 'ITEM_UPDATE_REQUESTED': {
+                const item = await this.itemService.updateCustomerItem(data.id, data);
+                return { handled: true, success: item !== null, data: item };
+            }
+
+            case 'ITEM_REQUESTED': {
+                const item = await this.itemService.getCustomerItemById(data.id || data.itemId);
+                return { handled: true, success: true, data: item };
+            }
+
+            case 'ITEM_DELETE_REQUESTED': {
+                const deleted = await this.itemService.deleteCustomerItem(data.id);
+                return { handled: true, success: deleted, data: null };
+            }
+
+            case 'ITEM_QUANTITY_UPDATE_REQUESTED': {
+                const item = await this.itemService.updateItemQuantity(
+                    data.id,
+                    data.quantity,
+                    data.operation || 'set',
+                    { warehouseId: data.warehouseId || null }
+                );
+                return { handled: true, success: item !== null, data: item };
+            }
+
+            case 'ITEM_PRICE_SCHEDULE_REQUESTED': {
+                const price = await this.itemService.scheduleItemPrice(data.id, data.price, new Date(data.effectiveFrom));
+                return { handled: true, success: price !== null, data: price };
+            }
+
+            default:
+                return UNHANDLED;
+        }
+    }
+
+    private async dispatchOrderCommand(eventType: string, data: any): Promise<CommandResult> {
+        if (!Object.prototype.hasOwnProperty.call(this.orderCommandHandlers, eventType)) {
+            return UNHANDLED;
+        }
+
+        return await this.orderCommandHandlers[eventType as OrderCommandType](data);
+    }
+
+    // One handler per order command; the Record type keeps the set in sync with OrderCommandType
+    private orderCommandHandlers: Record<OrderCommandType, (data: any) => Promise<CommandResult>> = {
+        ORDER_CREATE_REQUESTED: async (data) => {
+            const { order, resolved } = await this.orderService.createOrder(data);
+            return { handled: true, success: true, data: order, ...(resolved && { resolved }) };
+        },
+
+        ORDER_UPDATE_REQUESTED: async (data) => {
+            const order = await this.orderService.updateOrder(data.id, data);
+            return { handled: true, success: order !== null, data: order };
+        },
+
+        ORDER_CANCEL_REQUESTED: async (data) => {
+            const order = await this.orderService.cancelOrder(data.id, data.reason || null);
+            return { handled: true, success: order !== null, data: order };
+        },
+
+        ORDER_DELETE_REQUESTED: async (data) => {
+            const deleted = await this.orderService.deleteOrder(data.id);
+            return { handled: true, success: deleted, data: null };
+        },
+
+        ORDER_EXPIRE_REQUESTED: async (data) => {
+            const order = await this.orderService.expireReservation(data.id);
+            return { handled: true, success: order !== null, data: order };
+        },
+
+        ORDER_PAYMENT_AUTHORIZE_REQUESTED: async (data) => {
+            const outcome = this.getGatewayResult(data);
+            const order = outcome && await this.paymentService.authorizePayment(data.id, {
+                paymentId: data.paymentId,
+                paymentMethod: data.paymentMethod
+            }, outcome);
+            return { handled: true, success: !!order, data: order };
+        },
+
+        ORDER_PAYMENT_CAPTURE_REQUESTED: async (data) => {
+            const outcome = this.getGatewayResult(data);
+            const order = outcome && await this.paymentService.capturePayment(data.id, data.paymentId, outcome);
+            return { handled: true, success: !!order, data: order };
+        },
+
+        ORDER_PAYMENT_VOID_REQUESTED: async (data) => {
+            const outcome = this.getGatewayResult(data);
+            const order = outcome && await this.paymentService.voidPayment(data.id, data.paymentId, outcome);
+            return { handled: true, success: !!order, data: order };
+        },
+
+        ORDER_PAYMENT_REFUND_REQUESTED: async (data) => {
+            const outcome = this.getGatewayResult(data);
+            const order = outcome && await this.paymentService.refundPayment(data.id, data.paymentId, data.refundId, outcome);
+            return { handled: true, success: !!order, data: order };
+        },
+
+        ORDER_SHIPMENT_CREATE_REQUESTED: async (data) => {
+            const order = await this.orderService.createShipments(data.id, data.shipments);
+            return { handled: true, success: order !== null, data: order };
+        },
+
+        ORDER_SHIPMENT_TRACK_REQUESTED: async (data) => {
+            const order = await this.orderService.trackShipment(data.id, data.shipmentId, {
+                status: data.status,
+                location: data.location || null,
+                description: data.description || null,
+                ...(data.occurredAt ? { occurredAt: new Date(data.occurredAt) } : {})
+            });
+            return { handled: true, success: order !== null, data: order };
+        },
+
+        ORDER_SHIP_REQUESTED: async (data) => {
+            const order = await this.orderService.shipOrder(data.id, data.trackingNumber || null);
+            return { handled: true, success: order !== null, data: order };
+        },
+
+        ORDER_DELIVER_REQUESTED: async (data) => {
+            const order = await this.orderService.deliverOrder(data.id);
+            return { handled: true, success: order !== null, data: order };
+        },
+
+        ORDER_RETURN_REQUESTED: async (data) => {
+            const order = await this.orderService.returnOrder(data.id, data.reason || null);
+            return { handled: true, success: order !== null, data: order };
+        },
+
+        ORDER_INSPECT_REQUESTED: async (data) => {
+            const order = await this.orderService.inspectOrder(data.id, data.items || null, data.notes || null);
+            return { handled: true, success: order !== null, data: order };
+        }
+    };
+
+    // Null means prepare found no order or payment to act on
+    private getGatewayResult(data: any): RecordedGatewayResult | null {
+        if (data.gatewayResult === undefined) {
+            throw new Error('Payment command carries no gateway result; it was not prepared');
+        }
+        return data.gatewayResult;
+    }
+}
@@ -0,0 +1,301 @@
+// src/Engine/Processors/event.processors.test.ts
+import { before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { EventProcessor } from './event.processors';
+import { KafkaService } from '../../kafka';
+import { RedisService } from '../../cache/redies.service';
+import { DeadLetterService } from '../Services/deadLetter.service';
+import { EventStoreService } from '../Services/eventStore.service';
+import { OutboxService } from '../Services/outbox.service';
+import { RetryQueueService } from '../Services/retryQueue.service';
+import { FakeDatabase } from '../../testing/fakeDatabase';
+import { config } from '../../config/config';
+import { ConflictError, EventValidationError, KafkaEvent, RetryEntry } from '../../types';
+
+const TOPIC = config.Kafka.topics.orderEvents;
+const UPDATE_TOPIC = config.Kafka.topics.orderUpdates;
+const ORDER_A = '0a000000-0000-4000-8000-00000000000a';
+const ORDER_B = '0a000000-0000-4000-8000-00000000000b';
+
+// The retry queue as a table held in memory, each key's entries in the order queued
+class FakeRetryQueue {
+    public entries: RetryEntry[] = [];
+    // Every delay an entry was queued or rescheduled with, in order
+    public delays: number[] = [];
+    private nextId = 1;
+
+    public async enqueue(topic: string, orderingKey: string, event: any, retryCount: number, delay: number, error: string | null) {
+        this.delays.push(delay);
+        this.entries.push({
+            id: String(this.nextId++),
+            eventId: event.eventId,
+            topic,
+            orderingKey,
+            event,
+            retryCount,
+            nextAttemptAt: new Date(Date.now() + delay),
+            lastError: error
+        });
+    }
+
+    public async hasPending(orderingKey: string) {
+        return this.entries.some(entry => entry.orderingKey === orderingKey);
+    }
+
+    public async reschedule(id: string, retryCount: number, delay: number, error: string) {
+        const entry = this.entries.find(candidate => candidate.id === id)!;
+        this.delays.push(delay);
+        Object.assign(entry, { retryCount, nextAttemptAt: new Date(Date.now() + delay), lastError: error });
+    }
+
+    public async remove(id: string) {
+        this.entries = this.entries.filter(entry => entry.id !== id);
+    }
+
+    // The entry claimDue would hand out next for the key
+    public head(orderingKey: string): RetryEntry {
+        return this.entries.find(entry => entry.orderingKey === orderingKey)!;
+    }
+
+    public asService(): RetryQueueService {
+        return this as unknown as RetryQueueService;
+    }
+}
+
+function cancel(eventId: string, orderId: string): KafkaEvent {
+    return {
+        eventId,
+        eventType: 'ORDER_CANCEL_REQUESTED',
+        aggregateId: orderId,
+        timestamp: new Date('2026-03-01T12:00:00Z'),
+        data: { id: orderId }
+    };
+}
+
+function inbound(event: any, offset = '0') {
+    return { topic: TOPIC, partition: 0, offset, value: JSON.stringify(event) };
+}
+
+function pgError(code: string): Error {
+    return Object.assign(new Error(`Postgres error ${code}`), { code });
+}
+
+describe('EventProcessor', () => {
+    let processor: EventProcessor;
+
+    before(() => {
+        const getKafka = KafkaService.getInstance;
+        const getRedis = RedisService.getInstance;
+        KafkaService.getInstance = () => ({}) as KafkaService;
+        RedisService.getInstance = () => ({}) as RedisService;
+        try {
+            processor = EventProcessor.getInstance();
+        } finally {
+            KafkaService.getInstance = getKafka;
+            RedisService.getInstance = getRedis;
+        }
+    });
+
+    // Gives the processor fresh collaborators; the order topic's handler runs `handle`
+    function setup(handle: (event: KafkaEvent) => Promise<void> = async () => {}) {
+        const database = new FakeDatabase();
+        const retries = new FakeRetryQueue();
+        const published: { topic: string; event: KafkaEvent }[] = [];
+        const deadLettered: { event: KafkaEvent; error: string; retryCount: number; retryable: boolean }[] = [];
+        const handled: string[] = [];
+
+        processor['databaseService'] = database.asService();
+        processor['eventStoreService'] = new EventStoreService(database.asService());
+        processor['outboxService'] = new OutboxService(database.asService());
+        processor['retryQueueService'] = retries.asService();
+        processor['kafkaService'] = {
+            publishEvent: async (topic: string, event: KafkaEvent) => { published.push({ topic, event }); }
+        } as unknown as KafkaService;
+        processor['deadLetterService'] = {
+            sendToDeadLetter: async (_topic: string, event: KafkaEvent, error: string, retryCount: number, retryable: boolean) => {
+                deadLettered.push({ event, error, retryCount, retryable });
+            }
+        } as unknown as DeadLetterService;
+
+        const commandTopic = {
+            updateTopic: UPDATE_TOPIC,
+            handler: async (_inbound: unknown, event: KafkaEvent) => {
+                await handle(event);
+                handled.push(event.eventId);
+            }
+        };
+        processor['commandTopics'] = new Map([[TOPIC, commandTopic]]);
+
+        return {
+            database,
+            retries,
+            published,
+            deadLettered,
+            handled,
+            consume: (event: any, offset?: string) => processor['consume'](inbound(event, offset), commandTopic)
+        };
+    }
+
+    describe('retry queue', () => {
+        it('queues a retryable failure and the aggregate\'s later events behind it while others go ahead', async () => {
+            let failing = true;
+            const { retries, handled, published, deadLettered, consume } = setup(async event => {
+                if (event.eventId === 'event-1' && failing) {
+                    failing = false;
+                    throw pgError('40001');
+                }
+            });
+
+            await consume(cancel('event-1', ORDER_A), '1');
+            await consume(cancel('event-2', ORDER_A), '2');
+            await consume(cancel('event-3', ORDER_B), '3');
+
+            assert.deepEqual(handled, ['event-3']);
+            assert.deepEqual(
+                retries.entries.map(entry => [entry.eventId, entry.orderingKey, entry.retryCount, entry.lastError]),
+                [
+                    ['event-1', `${TOPIC}:${ORDER_A}`, 1, 'Postgres error 40001'],
+                    ['event-2', `${TOPIC}:${ORDER_A}`, 0, null]
+                ]
+            );
+
+            await processor['redeliver'](retries.head(`${TOPIC}:${ORDER_A}`));
+            await processor['redeliver'](retries.head(`${TOPIC}:${ORDER_A}`));
+
+            assert.deepEqual(handled, ['event-3', 'event-1', 'event-2']);
+            assert.deepEqual(retries.entries, []);
+            assert.deepEqual(published, []);
+            assert.deepEqual(deadLettered, []);
+        });
+
+        it('backs off exponentially when a redelivered event fails again', async () => {
+            const { retries, consume } = setup(async () => { throw pgError('40P01'); });
+
+            await consume(cancel('event-1', ORDER_A));
+            await processor['redeliver'](retries.head(`${TOPIC}:${ORDER_A}`));
+            await processor['redeliver'](retries.head(`${TOPIC}:${ORDER_A}`));
+
+            const { initialDelay, multiplier } = config.Kafka.retry;
+            assert.deepEqual(retries.delays, [initialDelay, initialDelay * multiplier, initialDelay * multiplier ** 2]);
+            assert.equal(retries.head(`${TOPIC}:${ORDER_A}`).retryCount, 3);
+        });
+
+        it('dead-letters an event that used up its retries and lets the aggregate\'s queue move on', async () => {
+            const { retries, handled, published, deadLettered, consume } = setup(async event => {
+                if (event.eventId === 'event-1') {
+                    throw Object.assign(new Error('socket hang up'), { code: 'ECONNRESET' });
+                }
+            });
+            await consume(cancel('event-1', ORDER_A));
+            await consume(cancel('event-2', ORDER_A));
+            retries.head(`${TOPIC}:${ORDER_A}`).retryCount = config.Kafka.retry.maxRetries;
+
+            await processor['redeliver'](retries.head(`${TOPIC}:${ORDER_A}`));
+
+            assert.deepEqual(
+                deadLettered.map(entry => [entry.event.eventId, entry.retryCount, entry.retryable]),
+                [['event-1', config.Kafka.retry.maxRetries, true]]
+            );
+            assert.deepEqual(published.map(({ topic, event }) => [topic, event.eventType, event.data.errorCode]), [
+                [UPDATE_TOPIC, 'ORDER_CANCEL_FAILED', 'INTERNAL']
+            ]);
+            assert.deepEqual(retries.entries.map(entry => entry.eventId), ['event-2']);
+
+            await processor['redeliver'](retries.head(`${TOPIC}:${ORDER_A}`));
+            assert.deepEqual(handled, ['event-2']);
+            assert.deepEqual(retries.entries, []);
+        });
+    });
+
+    describe('failure handling', () => {
+        it('answers a business-rule rejection with _FAILED and nothing else', async () => {
+            const { retries, published, deadLettered, consume } = setup(async () => {
+                throw new ConflictError('Order is already shipped');
+            });
+
+            await consume(cancel('event-1', ORDER_A));
+
+            assert.deepEqual(published.map(({ event }) => [event.eventType, event.data.error, event.data.errorCode]), [
+                ['ORDER_CANCEL_FAILED', 'Order is already shipped', 'CONFLICT']
+            ]);
+            assert.deepEqual(deadLettered, []);
+            assert.deepEqual(retries.entries, []);
+        });
+
+        it('dead-letters an error that is not worth retrying without queueing it', async () => {
+            const { retries, published, deadLettered, consume } = setup(async () => {
+                throw new TypeError('Cannot read properties of undefined');
+            });
+
+            await consume(cancel('event-1', ORDER_A));
+
+            assert.deepEqual(deadLettered.map(entry => [entry.event.eventId, entry.retryCount, entry.retryable]), [
+                ['event-1', 0, false]
+            ]);
+            assert.deepEqual(published.map(({ event }) => event.data.errorCode), ['INTERNAL']);
+            assert.deepEqual(retries.entries, []);
+        });
+
+        it('dead-letters a message that breaks its contract before it reaches the handler', async () => {
+            const { handled, published, deadLettered, consume } = setup();
+
+            await consume({ ...cancel('event-1', ORDER_A), data: { id: 'not-a-uuid' } });
+
+            assert.deepEqual(handled, []);
+            assert.deepEqual(deadLettered.map(entry => entry.retryable), [false]);
+            assert.deepEqual(published.map(({ event }) => event.data.errorCode), ['VALIDATION']);
+        });
+
+        it('tells transient database and network failures from the rest', () => {
+            const retryable = (error: unknown) => processor['isRetryableError'](error);
+
+            assert.equal(retryable(pgError('40001')), true);
+            assert.equal(retryable(pgError('57P01')), true);
+            assert.equal(retryable(pgError('08006')), true);
+            assert.equal(retryable(pgError('53300')), true);
+            assert.equal(retryable(Object.assign(new Error('connect failed'), { code: 'ECONNREFUSED' })), true);
+            assert.equal(retryable(new Error('Query read timeout')), true);
+            assert.equal(retryable(new Error('Connection terminated unexpectedly')), true);
+            assert.equal(retryable({ code: '55P03' }), true);
+
+            assert.equal(retryable(pgError('23505')), false);
+            assert.equal(retryable(new EventValidationError('Query read timeout', 'ORDER_CANCEL_REQUESTED')), false);
+            assert.equal(retryable(new ConflictError('Insufficient stock')), false);
+            assert.equal(retryable(null), false);
+        });
+    });
+
+    describe('order create', () => {
+        const RESOLVED = { orderNumber: 'ORD-1', totalAmount: 67.25 };
+        const CREATE: KafkaEvent = {
+            eventId: 'event-1',
+            eventType: 'ORDER_CREATE_REQUESTED',
+            aggregateId: ORDER_A,
+            timestamp: new Date('2026-03-01T12:00:00Z'),
+            data: {
+                id: ORDER_A,
+                customerId: ORDER_B,
+                items: [{ itemId: ORDER_B, quantity: 1 }],
+                resolved: { orderNumber: 'ORD-CHEAP', totalAmount: 0.01 }
+            }
+        };
+
+        it('ignores resolved values sent with a live create and stores the ones it worked out', async () => {
+            const { database } = setup();
+            Object.assign(database, { markEventProcessed: async () => true });
+            const dispatched: any[] = [];
+            processor['commandDispatcher'].dispatch = async (_aggregateType, _eventType, data) => {
+                dispatched.push(data);
+                return { handled: true, success: true, data: null, resolved: RESOLVED as any };
+            };
+
+            await processor['applyCommand']('ORDER', inbound(CREATE), CREATE, UPDATE_TOPIC);
+
+            assert.equal(dispatched.length, 1);
+            assert.equal('resolved' in dispatched[0], false);
+            const stored = JSON.parse(database.find(/INSERT INTO event_store/)[0]!.params[6]);
+            assert.equal(stored.eventType, 'ORDER_CREATE_REQUESTED');
+            assert.deepEqual(stored.data.resolved, RESOLVED);
+        });
+    });
+});
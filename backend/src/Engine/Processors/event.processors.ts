@@ -2,30 +2,109 @@
 import { KafkaService } from '../../kafka';
 import { DatabaseService } from '../Services/database.service';
 import { RedisService } from '../../cache/redies.service'; // NEW
-import { CustomerService } from '../Services/customer.service';
-import { ItemService } from '../Services/item.service';
-import { OrderService } from '../Services/order.service';
+import { OperationService } from '../Services/operation.service';
+import { DeadLetterService } from '../Services/deadLetter.service';
+import { OutboxService } from '../Services/outbox.service';
+import { EventStoreService } from '../Services/eventStore.service';
+import { RetryQueueService } from '../Services/retryQueue.service';
+import { OutboxRelay } from './outbox.relay';
+import { RetentionCleaner } from './retention.cleaner';
+import { ReservationSweeper } from './reservation.sweeper';
+import { PriceScheduler } from './price.scheduler';
+import { RetryScheduler } from './retry.scheduler';
+import { CommandDispatcher } from './command.dispatcher';
+import { createPaymentGateway } from '../Payments/gateway.registry';
+import { EventRegistry } from '../../events/eventRegistry';
 import { logger } from '../../utils/logger';
 import { EachMessagePayload } from 'kafkajs';
 import { config } from '../../config/config';
+import {
+    AggregateType,
+    CommandErrorCode,
+    CommandResult,
+    DeadLetterEvent,
+    EventValidationError,
+    KafkaEvent,
+    Order,
+    RetryEntry
+} from '../../types';
+
+// Postgres error codes/classes and socket errors that are worth retrying
+const RETRYABLE_PG_CODES = ['40001', '40P01', '55P03', '57P01', '57P02', '57P03'];
+const RETRYABLE_PG_CLASSES = ['08', '53'];
+const RETRYABLE_NETWORK_CODES = ['ECONNREFUSED', 'ECONNRESET', 'ETIMEDOUT', 'EPIPE'];
+
+// Business-rule rejections: answered with a _FAILED update, never retried or dead-lettered
+const DOMAIN_ERROR_NAMES = ['ValidationError', 'ConflictError', 'NotFoundError'];
+
+// A message from a consumed topic, or one the RetryScheduler hands back from the retry queue
+interface InboundMessage {
+    topic: string;
+    partition: number;
+    offset: string;
+    value: string;
+    retry?: RetryEntry | undefined;
+}
+
+interface CommandTopic {
+    updateTopic: string;
+    handler: (inbound: InboundMessage, message: KafkaEvent) => Promise<void>;
+}
 
 export class EventProcessor {
     private static instance: EventProcessor;
     private kafkaService: KafkaService;
     private databaseService: DatabaseService;
     private redisService: RedisService; // NEW
-    private customerService: CustomerService;
-    private itemService: ItemService;
-    private orderService: OrderService;
+    private commandDispatcher: CommandDispatcher;
+    private operationService: OperationService;
+    private deadLetterService: DeadLetterService;
+    private outboxService: OutboxService;
+    private eventStoreService: EventStoreService;
+    private retryQueueService: RetryQueueService;
+    private outboxRelay: OutboxRelay;
+    private retentionCleaner: RetentionCleaner;
+    private reservationSweeper: ReservationSweeper;
+    private priceScheduler: PriceScheduler;
+    private retryScheduler: RetryScheduler;
+    private eventRegistry: EventRegistry;
+    private commandTopics: Map<string, CommandTopic>;
     private isRunning: boolean = false;
+    private metrics = {
+        processedEvents: 0,
+        duplicatesSkipped: 0
+    };
 
     private constructor() {
         this.kafkaService = KafkaService.getInstance();
         this.databaseService = new DatabaseService();
         this.redisService = RedisService.getInstance(); // NEW
-        this.customerService = new CustomerService(this.databaseService);
-        this.itemService = new ItemService(this.databaseService);
-        this.orderService = new OrderService(this.databaseService, this.itemService);
+        this.commandDispatcher = new CommandDispatcher(this.databaseService, createPaymentGateway());
+        this.operationService = OperationService.getInstance();
+        this.deadLetterService = new DeadLetterService(this.databaseService);
+        this.outboxService = new OutboxService(this.databaseService);
+        this.eventStoreService = new EventStoreService(this.databaseService);
+        this.retryQueueService = new RetryQueueService(this.databaseService);
+        this.outboxRelay = new OutboxRelay(this.databaseService);
+        this.retentionCleaner = new RetentionCleaner(this.databaseService);
+        this.reservationSweeper = new ReservationSweeper(this.databaseService);
+        this.priceScheduler = new PriceScheduler(this.databaseService);
+        this.retryScheduler = new RetryScheduler(this.databaseService, (entry) => this.redeliver(entry));
+        this.eventRegistry = EventRegistry.getInstance();
+        this.commandTopics = new Map([
+            [config.Kafka.topics.customerEvents, {
+                updateTopic: config.Kafka.topics.customerUpdates,
+                handler: this.handleCustomerEvent.bind(this)
+            }],
+            [config.Kafka.topics.customerItemsEvents, {
+                updateTopic: config.Kafka.topics.itemUpdates,
+                handler: this.handleCustomerItemEvent.bind(this)
+            }],
+            [config.Kafka.topics.orderEvents, {
+                updateTopic: config.Kafka.topics.orderUpdates,
+                handler: this.handleOrderEvent.bind(this)
+            }]
+        ]);
     }
 
     public static getInstance(): EventProcessor {
@@ -42,6 +121,9 @@ export class EventProcessor {
             // Connect to database
             await this.databaseService.connect();
 
+            // Replays restore reference data from its snapshots, the seeded default warehouse included
+            await this.eventStoreService.appendMissingReferenceSnapshots();
+
             // Connect to Redis cache
             const redis = this.redisService.getClient();
 
@@ -51,6 +133,21 @@ export class EventProcessor {
             // Start Kafka consumer
             await this.kafkaService.startConsumer(); // NEW
 
+            // Publish update events left in the outbox (e.g. from before a restart)
+            this.outboxRelay.start();
+
+            // Delete old processed_events claims and sent outbox rows
+            this.retentionCleaner.start();
+
+            // Cancel pending orders whose stock reservation ran out
+            this.reservationSweeper.start();
+
+            // Apply scheduled item price changes as they fall due
+            this.priceScheduler.start();
+
+            // Give events that failed with a retryable error their next attempt
+            this.retryScheduler.start();
+
             this.isRunning = true;
             logger.info('Event Processor started successfully');
         } catch (error) {
@@ -61,27 +158,23 @@ export class EventProcessor {
 
     private async subscribeToTopics(): Promise<void> {
         // Subscribe to all topics first (without starting consumer)
-        await this.kafkaService.subscribeToTopic(
-            config.Kafka.topics.customerEvents,
-            this.handleCustomerEvent.bind(this)
-        );
-
-        await this.kafkaService.subscribeToTopic(
-            config.Kafka.topics.customerItemsEvents,
-            this.handleCustomerItemEvent.bind(this)
-        );
+        for (const [topic, commandTopic] of this.commandTopics) {
+            await this.kafkaService.subscribeToTopic(
+                topic,
+                (payload) => this.consume(this.toInbound(payload), commandTopic)
+            );
+        }
 
         await this.kafkaService.subscribeToTopic(
-            config.Kafka.topics.orderEvents,
-            this.handleOrderEvent.bind(this)
+            config.Kafka.topics.deadLetter,
+            this.handleDeadLetterEvent.bind(this)
         );
 
         logger.info('Subscribed to all Kafka topics');
     }
 
-    private async handleCustomerEvent(payload: EachMessagePayload): Promise<void> {
+    private async handleCustomerEvent(inbound: InboundMessage, message: KafkaEvent): Promise<void> {
         try {
-            const message = JSON.parse(payload.message.value?.toString() || '{}');
             const { eventType, data, metadata } = message;
 
             logger.info(`Processing customer event: ${eventType}`, {
@@ -89,82 +182,49 @@ export class EventProcessor {
                 correlationId: metadata?.correlationId
             });
 
-            let responseData: any = null;
-            let success = false;
+            await this.operationService.markProcessing(metadata?.correlationId, eventType);
 
-            switch (eventType) {
-                case 'CUSTOMER_CREATE_REQUESTED':
-                    responseData = await this.customerService.createCustomer(data);
-                    success = true;
+            const result = await this.applyCommand('CUSTOMER', inbound, message, config.Kafka.topics.customerUpdates);
+            if (!result) {
+                return;
+            }
 
-                    if (responseData) {
-                        await this.redisService.cacheCustomer(responseData);
-                        await this.redisService.deletePattern('customers:list:*');
-                    }
-                    break;
+            if (!result.handled) {
+                logger.warn(`Unknown customer event type: ${eventType}`);
+                return;
+            }
 
+            switch (eventType) {
+                case 'CUSTOMER_CREATE_REQUESTED':
                 case 'CUSTOMER_UPDATE_REQUESTED':
-                    responseData = await this.customerService.updateCustomer(data.id, data);
-                    success = true;
-
-                    if (responseData) {
-                        await this.redisService.cacheCustomer(responseData);
+                    if (result.data) {
+                        await this.redisService.cacheCustomer(result.data);
                         await this.redisService.deletePattern('customers:list:*');
                     }
                     break;
 
                 case 'CUSTOMER_DELETE_REQUESTED':
-                    success = await this.customerService.deleteCustomer(data.id);
-
-                    if (success) {
+                    if (result.success) {
                         await this.redisService.invalidateCustomer(data.id);
                     }
                     break;
-
-                default:
-                    logger.warn(`Unknown customer event type: ${eventType}`);
-                    return;
             }
 
-            // Publish update event for real-time notifications
-            await this.kafkaService.publishEvent(config.Kafka.topics.customerUpdates, {
-                eventId: message.eventId + '-response',
-                eventType: eventType.replace('_REQUESTED', '_COMPLETED'),
-                timestamp: new Date(),
-                data: {
-                    success,
-                    data: responseData,
-                    originalEventId: message.eventId
-                },
-                metadata
-            });
+            this.outboxRelay.trigger();
 
             logger.info(`Customer event processed successfully: ${eventType}`, {
-                success,
+                success: result.success,
                 correlationId: metadata?.correlationId
             });
 
         } catch (error) {
             logger.error('Error processing customer event:', error);
-
-            const message = JSON.parse(payload.message.value?.toString() || '{}');
-            await this.kafkaService.publishEvent(config.Kafka.topics.customerUpdates, {
-                eventId: message.eventId + '-error',
-                eventType: message.eventType.replace('_REQUESTED', '_FAILED'),
-                timestamp: new Date(),
-                data: {
-                    success: false,
-                    error: error,
-                    originalEventId: message.eventId
-                },
-                metadata: message.metadata
-            });
+            throw error;
         }
     }
 
-    private async handleCustomerItemEvent(payload: EachMessagePayload): Promise<void> {
+    private async handleCustomerItemEvent(inbound: InboundMessage, message: KafkaEvent): Promise<void> {
         try {
-            const message = JSON.parse(payload.message.value?.toString() || '{}');
             const { eventType, data, metadata } = message;
 
             logger.info(`Processing item event: ${eventType}`, {
@@ -172,110 +232,72 @@ export class EventProcessor {
                 correlationId: metadata?.correlationId
             });
 
-            let responseData: any = null;
-            let success = false;
+            await this.operationService.markProcessing(metadata?.correlationId, eventType);
+
+            const result = await this.applyCommand('ITEM', inbound, message, config.Kafka.topics.itemUpdates);
+            if (!result) {
+                return;
+            }
+
+            if (!result.handled) {
+                logger.warn(`Unknown item event type: ${eventType}`);
+                return;
+            }
 
+            // Update cache
             switch (eventType) {
-                case 'ITEM_CREATED':
                 case 'ITEM_CREATE_REQUESTED':
-                    responseData = await this.itemService.createCustomerItem(data);
-                    success = true;
-
-                    // Update cache
-                    if (responseData) {
-                        await this.redisService.cacheCustomerItem(responseData);
-                        // Invalidate customer item lists
-                        await this.redisService.deletePattern(`items:customer:${data.customerId}*`);
+                    if (result.data) {
+                        await this.redisService.cacheCustomerItem(result.data);
+                        // Invalidate customer item lists (a variant's customer comes from its parent)
+                        await this.redisService.deletePattern(`items:customer:${result.data.customerId}*`);
                         await this.redisService.deletePattern('items:list:*');
                     }
                     break;
-                case 'ITEM_UPDATED':
                 case 'ITEM_UPDATE_REQUESTED':
-                    responseData = await this.itemService.updateCustomerItem(data.id, data);
-                    success = true;
-
-                    // Update cache
-                    if (responseData) {
-                        await this.redisService.cacheCustomerItem(responseData);
-                        await this.redisService.deletePattern(`items:customer:${responseData.customerId}*`);
+                    if (result.data) {
+                        await this.redisService.cacheCustomerItem(result.data);
+                        await this.redisService.deletePattern(`items:customer:${result.data.customerId}*`);
+                        await this.redisService.deletePattern('items:list:*');
+                        // Variants that inherit the price changed with their parent
+                        if (data.price !== undefined && !result.data.parentItemId) {
+                            for (const variant of await this.databaseService.getItemVariants([result.data.id])) {
+                                await this.redisService.invalidateCustomerItem(variant.id);
+                            }
+                        }
                     }
                     break;
                 case 'ITEM_REQUESTED':
-                    responseData = await this.itemService.getCustomerItemById(data.id);
-                    success = true;
-
-                    if (responseData) {
-                        await this.redisService.cacheCustomerItem(responseData);
+                    if (result.data) {
+                        await this.redisService.cacheCustomerItem(result.data);
                     }
                     break;
-                case 'ITEM_DELETED':
                 case 'ITEM_DELETE_REQUESTED':
-                    // Get item first to know which customer cache to invalidate
-                    const existingItem = await this.redisService.getCachedCustomerItem(data.id);
-                    success = await this.itemService.deleteCustomerItem(data.id);
-
-                    // Remove from cache
-                    if (success) {
+                    if (result.success) {
+                        // The cached copy tells us which customer lists to invalidate
+                        const existingItem = await this.redisService.getCachedCustomerItem(data.id);
                         await this.redisService.invalidateCustomerItem(data.id, existingItem?.customerId);
                     }
                     break;
-                case 'ITEM_QUANTITY_UPDATED':
-                    responseData = await this.itemService.updateItemQuantity(
-                        data.id,
-                        data.quantity,
-                        data.operation || 'set'
-                    );
-                    success = true;
-
-                    // Update cache
-                    if (responseData) {
-                        await this.redisService.cacheCustomerItem(responseData);
-                        await this.redisService.deletePattern(`items:customer:${responseData.customerId}*`);
+                case 'ITEM_QUANTITY_UPDATE_REQUESTED':
+                    if (result.data) {
+                        await this.redisService.cacheCustomerItem(result.data);
+                        await this.redisService.deletePattern(`items:customer:${result.data.customerId}*`);
                         await this.redisService.deletePattern('items:list:*');
                     }
                     break;
-
-                default:
-                    logger.warn(`Unknown item event type: ${eventType}`);
-                    return;
             }
 
-
-            // Publish update event
-            await this.kafkaService.publishEvent(config.Kafka.topics.itemUpdates, {
-                eventId: message.eventId + '-response',
-                eventType: eventType.replace('_REQUESTED', '_COMPLETED'),
-                timestamp: new Date(),
-                data: {
-                    success,
-                    data: responseData,
-                    originalEventId: message.eventId
-                },
-                metadata
-            });
+            this.outboxRelay.trigger();
 
         } catch (error) {
             logger.error('Error processing item event:', error);
-
-            // Publish error event
-            const message = JSON.parse(payload.message.value?.toString() || '{}');
-            await this.kafkaService.publishEvent(config.Kafka.topics.itemUpdates, {
-                eventId: message.eventId + '-error',
-                eventType: message.eventType.replace('_REQUESTED', '_FAILED'),
-                timestamp: new Date(),
-                data: {
-                    success: false,
-                    error: error,
-                    originalEventId: message.eventId
-                },
-                metadata: message.metadata
-            });
+            throw error;
         }
     }
 
-    private async handleOrderEvent(payload: EachMessagePayload): Promise<void> {
+    private async handleOrderEvent(inbound: InboundMessage, message: KafkaEvent): Promise<void> {
         try {
-            const message = JSON.parse(payload.message.value?.toString() || '{}');
             const { eventType, data, metadata } = message;
 
             logger.info(`Processing order event: ${eventType}`, {
@@ -283,74 +305,404 @@ export class EventProcessor {
                 correlationId: metadata?.correlationId
             });
 
-            let responseData: any | null = null;
-            let success: boolean = false;
+            await this.operationService.markProcessing(metadata?.correlationId, eventType);
 
+            const result = await this.applyCommand('ORDER', inbound, message, config.Kafka.topics.orderUpdates);
+            if (!result) {
+                return;
+            }
+
+            if (!result.handled) {
+                logger.warn(`Unknown order event type: ${eventType}`);
+                return;
+            }
+
+            // Cache invalidation for orders
             switch (eventType) {
                 case 'ORDER_CREATE_REQUESTED':
-                    responseData = await this.orderService.createOrder(data);
-                    success = true;
-
-                    // Cache invalidation for orders
-                    if (responseData) {
+                    if (result.data) {
                         await this.redisService.deletePattern(`orders:customer:${data.customerId}*`);
                         await this.redisService.deletePattern('orders:list:*');
+                        await this.invalidateOrderItems(result.data);
                     }
                     break;
 
-                case 'ORDER_UPDATE_REQUESTED':
-                    responseData = await this.orderService.updateOrder(data.id, data);
-                    success = true;
-
-                    // Cache invalidation
-                    if (responseData) {
-                        await this.redisService.deletePattern(`orders:customer:${responseData.customerId}*`);
+                default:
+                    // Every other command changes an existing order
+                    if (result.success) {
+                        const customerId = result.data?.customerId
+                            || (await this.redisService.getCachedOrder(data.id))?.customerId;
+                        await this.redisService.invalidateOrder(data.id, customerId);
+                        if (result.data) {
+                            await this.invalidateOrderItems(result.data);
+                        }
                     }
                     break;
+            }
 
-                case 'ORDER_CANCEL_REQUESTED':
-                    const cancelResult = await this.orderService.cancelOrder(data.id);
-                    success = cancelResult !== null; // Convert Order|null to boolean
-                    responseData = cancelResult;
-                    break;
+            this.outboxRelay.trigger();
 
-                default:
-                    logger.warn(`Unknown order event type: ${eventType}`);
+        } catch (error) {
+            logger.error('Error processing order event:', error);
+            throw error;
+        }
+    }
+
+    // Reservations change the stock of every item on the order
+    private async invalidateOrderItems(order: Order): Promise<void> {
+        for (const item of order.items || []) {
+            await this.redisService.invalidateCustomerItem(item.itemId, order.customerId);
+        }
+    }
+
+    /**
+     * Parses the message and runs its topic's handler. While the message's aggregate has
+     * events in the retry queue, the message is queued behind them instead: the partition
+     * keeps moving, and an aggregate's events are still applied in the order consumed.
+     */
+    private async consume(inbound: InboundMessage, commandTopic: CommandTopic): Promise<void> {
+        try {
+            const message = this.parseEvent(inbound);
+
+            if (!inbound.retry) {
+                const raw = this.readRawMessage(inbound);
+                const orderingKey = this.getOrderingKey(inbound.topic, raw);
+                if (await this.retryQueueService.hasPending(orderingKey)) {
+                    await this.retryQueueService.enqueue(inbound.topic, orderingKey, raw, 0, 0, null);
+                    logger.info(`Queued event ${message.eventId} behind a pending retry`, {
+                        eventType: message.eventType,
+                        orderingKey
+                    });
                     return;
+                }
+            }
+
+            await commandTopic.handler(inbound, message);
+
+            if (inbound.retry) {
+                await this.retryQueueService.remove(inbound.retry.id);
+            }
+        } catch (error) {
+            await this.handleProcessingError(inbound, commandTopic.updateTopic, error);
+        }
+    }
+
+    // Called by the RetryScheduler for a due entry of the retry queue
+    private async redeliver(entry: RetryEntry): Promise<void> {
+        const commandTopic = this.commandTopics.get(entry.topic);
+        if (!commandTopic) {
+            throw new Error(`No handler for topic ${entry.topic}`);
+        }
+
+        await this.consume({
+            topic: entry.topic,
+            partition: -1,
+            offset: `retry-${entry.id}`,
+            value: JSON.stringify(entry.event),
+            retry: entry
+        }, commandTopic);
+    }
+
+    private toInbound(payload: EachMessagePayload): InboundMessage {
+        return {
+            topic: payload.topic,
+            partition: payload.partition,
+            offset: payload.message.offset,
+            value: payload.message.value?.toString() || '{}'
+        };
+    }
+
+    // Same aggregate, same queue; the producer keys messages by aggregate id as well
+    private getOrderingKey(topic: string, message: any): string {
+        return `${topic}:${message.aggregateId || message.eventId}`;
+    }
+
+    /**
+     * Parses a message and brings it to the current contract: retired event names and
+     * older schema versions are upcast, then the payload is validated. Invalid messages
+     * throw an EventValidationError, which is never retried and goes to the dead-letter topic.
+     */
+    private parseEvent(inbound: InboundMessage): KafkaEvent {
+        let message: KafkaEvent;
+        try {
+            message = JSON.parse(inbound.value);
+        } catch (error) {
+            throw new EventValidationError('Message is not valid JSON', 'UNKNOWN');
+        }
+
+        const event = this.eventRegistry.upcast(message);
+        this.eventRegistry.validate(event);
+        return event;
+    }
+
+    /**
+     * Applies a command and, in the same transaction, appends it and its update event
+     * to the event store and queues the update event in the outbox. Gateway calls are
+     * made first, outside the transaction, and the command is stored with their outcome
+     * (see CommandDispatcher.prepare). Returns null when the event was already processed.
+     */
+    private async applyCommand(
+        aggregateType: AggregateType,
+        inbound: InboundMessage,
+        received: KafkaEvent,
+        updateTopic: string
+    ): Promise<CommandResult | null> {
+        const command = this.withoutResolved(received);
+        // A redelivered event is skipped by processOnce and must not reach the gateway again
+        const message: KafkaEvent = command.eventId && await this.databaseService.isEventProcessed(command.eventId)
+            ? command
+            : {
+                ...command,
+                data: await this.commandDispatcher.prepare(aggregateType, command.eventType, command.data, command.metadata)
+            };
+
+        return await this.processOnce(inbound, message, async () => {
+            const result = await this.commandDispatcher.dispatch(
+                aggregateType,
+                message.eventType,
+                message.data,
+                message.metadata
+            );
+            if (!result.handled) {
+                return result;
             }
 
-            // Publish update event
-            await this.kafkaService.publishEvent(config.Kafka.topics.orderUpdates, {
+            const updateEvent: KafkaEvent = {
                 eventId: message.eventId + '-response',
-                eventType: eventType.replace('_REQUESTED', '_COMPLETED'),
+                eventType: message.eventType.replace('_REQUESTED', '_COMPLETED'),
+                aggregateId: message.aggregateId,
                 timestamp: new Date(),
                 data: {
-                    success,
-                    data: responseData,
+                    success: result.success,
+                    data: result.data,
+                    error: result.success ? undefined : 'Requested entity was not found',
+                    errorCode: result.success ? undefined : 'NOT_FOUND',
                     originalEventId: message.eventId
                 },
-                metadata
+                ...(message.metadata && { metadata: message.metadata })
+            };
+
+            if (!this.commandDispatcher.isQuery(message.eventType)) {
+                // Stored with what it resolved, so a replay applies the same values
+                const stored = result.resolved ? { ...message, data: { ...message.data, resolved: result.resolved } } : message;
+                await this.eventStoreService.append(aggregateType, inbound.topic, stored);
+                await this.eventStoreService.append(aggregateType, updateTopic, updateEvent);
+            }
+
+            await this.outboxService.enqueue(updateTopic, updateEvent);
+            return result;
+        });
+    }
+
+    // A live create works its values out anew. Only the replayer, reading the event store,
+    // hands createOrder the values stored with the command
+    private withoutResolved(message: KafkaEvent): KafkaEvent {
+        if (message.eventType !== 'ORDER_CREATE_REQUESTED' || !message.data?.resolved) {
+            return message;
+        }
+
+        const { resolved, ...data } = message.data;
+        return { ...message, data };
+    }
+
+    /**
+     * Runs the handler's database writes in one transaction together with the
+     * processed_events claim for the eventId. Kafka delivers at least once, so a
+     * redelivered event finds its claim committed and is skipped; a failed attempt
+     * rolls the claim back and can be retried. Returns null for duplicates.
+     */
+    private async processOnce<T>(
+        inbound: InboundMessage,
+        message: KafkaEvent,
+        handler: () => Promise<T>
+    ): Promise<T | null> {
+        if (!message.eventId) {
+            const result = await this.databaseService.executeTransaction(handler);
+            this.metrics.processedEvents++;
+            return result;
+        }
+
+        const outcome = await this.databaseService.executeTransaction(async () => {
+            const isNew = await this.databaseService.markEventProcessed(
+                message.eventId,
+                message.eventType,
+                inbound.topic
+            );
+            if (!isNew) {
+                return { claimed: false as const };
+            }
+
+            return { claimed: true as const, result: await handler() };
+        });
+
+        if (!outcome.claimed) {
+            this.metrics.duplicatesSkipped++;
+            logger.info(`Skipping already processed event: ${message.eventType}`, {
+                eventId: message.eventId,
+                topic: inbound.topic,
+                partition: inbound.partition,
+                offset: inbound.offset,
+                correlationId: message.metadata?.correlationId
             });
+            return null;
+        }
 
-        } catch (error) {
-            logger.error('Error processing order event:', error);
+        this.metrics.processedEvents++;
+        return outcome.result;
+    }
 
-            // Publish error event
+    private async handleDeadLetterEvent(payload: EachMessagePayload): Promise<void> {
+        try {
             const message = JSON.parse(payload.message.value?.toString() || '{}');
-            await this.kafkaService.publishEvent(config.Kafka.topics.orderUpdates, {
-                eventId: message.eventId + '-error',
-                eventType: message.eventType.replace('_REQUESTED', '_FAILED'),
-                timestamp: new Date(),
-                data: {
-                    success: false,
-                    error: error,
-                    originalEventId: message.eventId
-                },
-                metadata: message.metadata
+            await this.deadLetterService.recordDeadLetter(message.data as DeadLetterEvent);
+        } catch (error) {
+            logger.error('Error recording dead-lettered event:', error);
+        }
+    }
+
+    /**
+     * Business-rule rejections (validation, conflicts, missing entities) are answered
+     * with a _FAILED update and nothing else. Retryable failures wait in the retry queue
+     * with exponential backoff while the partition moves on; the consumer queues later
+     * events of the same aggregate behind them. Anything else, and events that used up
+     * their retries, go to the dead-letter topic and are answered with _FAILED.
+     * Queueing a retry is not caught: if it fails, Kafka redelivers the message instead.
+     */
+    private async handleProcessingError(
+        inbound: InboundMessage,
+        updateTopic: string,
+        error: unknown
+    ): Promise<void> {
+        const message = this.readRawMessage(inbound);
+        const retryCount = inbound.retry ? inbound.retry.retryCount : 0;
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        const retryable = this.isRetryableError(error);
+
+        if (retryable && retryCount < config.Kafka.retry.maxRetries) {
+            const delay = this.getRetryDelay(retryCount);
+
+            logger.warn(`Retrying event ${message.eventId} in ${delay}ms`, {
+                eventType: message.eventType,
+                attempt: retryCount + 1,
+                maxRetries: config.Kafka.retry.maxRetries,
+                error: errorMessage
             });
+
+            if (inbound.retry) {
+                await this.retryQueueService.reschedule(inbound.retry.id, retryCount + 1, delay, errorMessage);
+            } else {
+                await this.retryQueueService.enqueue(
+                    inbound.topic,
+                    this.getOrderingKey(inbound.topic, message),
+                    message,
+                    retryCount + 1,
+                    delay,
+                    errorMessage
+                );
+            }
+            return;
+        }
+
+        try {
+            const event: KafkaEvent = { ...message, timestamp: new Date(message.timestamp || Date.now()) };
+
+            if (!this.isDomainError(error)) {
+                await this.deadLetterService.sendToDeadLetter(
+                    inbound.topic,
+                    event,
+                    errorMessage,
+                    retryCount,
+                    retryable
+                );
+            }
+
+            // Messages with an unknown event type have no _FAILED contract to answer with
+            const failedEventType = message.eventType.replace('_REQUESTED', '_FAILED');
+            if (this.eventRegistry.isRegistered(failedEventType)) {
+                await this.kafkaService.publishEvent(updateTopic, {
+                    eventId: message.eventId + '-error',
+                    eventType: failedEventType,
+                    aggregateId: message.aggregateId,
+                    timestamp: new Date(),
+                    data: {
+                        success: false,
+                        error: errorMessage,
+                        errorCode: this.getErrorCode(error),
+                        originalEventId: message.eventId
+                    },
+                    metadata: message.metadata
+                });
+            }
+        } catch (publishError) {
+            logger.error('Error handling failed event:', publishError);
+        }
+
+        // Lets the events queued behind this one go ahead
+        if (inbound.retry) {
+            await this.retryQueueService.remove(inbound.retry.id);
         }
     }
 
+    private isDomainError(error: unknown): boolean {
+        return error instanceof Error && DOMAIN_ERROR_NAMES.includes(error.name);
+    }
+
+    // Typed errors thrown by the services tell the caller what went wrong; anything else is ours
+    private getErrorCode(error: unknown): CommandErrorCode {
+        const name = error instanceof Error ? error.name : '';
+        switch (name) {
+            case 'NotFoundError':
+                return 'NOT_FOUND';
+            case 'ConflictError':
+                return 'CONFLICT';
+            case 'ValidationError':
+            case 'EventValidationError':
+                return 'VALIDATION';
+            default:
+                return 'INTERNAL';
+        }
+    }
+
+    // Unparseable messages are dead-lettered as raw text under a position-based id
+    private readRawMessage(inbound: InboundMessage): any {
+        try {
+            return JSON.parse(inbound.value);
+        } catch {
+            return {
+                eventId: `${inbound.topic}-${inbound.partition}-${inbound.offset}`,
+                eventType: 'UNKNOWN',
+                data: { raw: inbound.value }
+            };
+        }
+    }
+
+    private isRetryableError(error: unknown): boolean {
+        if (error instanceof EventValidationError) {
+            return false;
+        }
+
+        const code = typeof error === 'object' && error !== null && 'code' in error
+            ? String((error as { code: unknown }).code)
+            : undefined;
+
+        if (code) {
+            if (RETRYABLE_PG_CODES.includes(code) || RETRYABLE_NETWORK_CODES.includes(code)) {
+                return true;
+            }
+            if (RETRYABLE_PG_CLASSES.includes(code.substring(0, 2))) {
+                return true;
+            }
+        }
+
+        const message = error instanceof Error ? error.message : String(error);
+        return /timeout|Connection terminated|connection is closed/i.test(message);
+    }
+
+    private getRetryDelay(retryCount: number): number {
+        const { initialDelay, maxDelay, multiplier } = config.Kafka.retry;
+        return Math.min(initialDelay * Math.pow(multiplier, retryCount), maxDelay);
+    }
+
     public getStatus(): any {
         return {
             running: this.isRunning,
@@ -359,7 +711,13 @@ export class EventProcessor {
                 database: this.databaseService.isConnected(),
                 redis: this.redisService.isHealthy(),
                 kafka: this.kafkaService.isHealthy()
-            }
+            },
+            metrics: { ...this.metrics },
+            outbox: this.outboxRelay.getStatus(),
+            retention: this.retentionCleaner.getStatus(),
+            reservations: this.reservationSweeper.getStatus(),
+            prices: this.priceScheduler.getStatus(),
+            retries: this.retryScheduler.getStatus()
         };
     }
 
@@ -371,6 +729,12 @@ export class EventProcessor {
         try {
             this.isRunning = false;
 
+            this.outboxRelay.stop();
+            this.retentionCleaner.stop();
+            this.reservationSweeper.stop();
+            this.priceScheduler.stop();
+            this.retryScheduler.stop();
+
             // Disconnect Redis
             await this.redisService.disconnect();
 
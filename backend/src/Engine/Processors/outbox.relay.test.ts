@@ -0,0 +1,87 @@
+// src/Engine/Processors/outbox.relay.test.ts
+import { afterEach, beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { OutboxRelay } from './outbox.relay';
+import { KafkaService } from '../../kafka';
+import { FakeDatabase } from '../../testing/fakeDatabase';
+import { KafkaEvent } from '../../types';
+
+function outboxRow(id: number, topic = 'order-events'): Record<string, any> {
+    return {
+        id,
+        event_id: `event-${id}`,
+        topic,
+        payload: { eventId: `event-${id}`, eventType: 'ORDER_CREATED', timestamp: '2026-03-01T12:00:00.000Z', data: {} },
+        attempts: 0
+    };
+}
+
+describe('OutboxRelay', () => {
+    const getKafka = KafkaService.getInstance;
+    let published: { topic: string; event: KafkaEvent }[];
+    let failOn: string | null;
+
+    beforeEach(() => {
+        published = [];
+        failOn = null;
+        KafkaService.getInstance = () => ({
+            publishEvent: async (topic: string, event: KafkaEvent) => {
+                if (event.eventId === failOn) {
+                    throw new Error('Broker unavailable');
+                }
+                published.push({ topic, event });
+            }
+        }) as unknown as KafkaService;
+    });
+
+    afterEach(() => {
+        KafkaService.getInstance = getKafka;
+    });
+
+    function setup(rows: Record<string, any>[], locked = true) {
+        const database = new FakeDatabase()
+            .on(/pg_try_advisory_xact_lock/, [{ locked }])
+            .on(/SELECT \* FROM outbox/, rows);
+        return { database, relay: new OutboxRelay(database.asService()) };
+    }
+
+    it('publishes pending rows in id order and marks them sent', async () => {
+        const { database, relay } = setup([outboxRow(1), outboxRow(2, 'item-updates'), outboxRow(3)]);
+
+        const count = await relay['relayBatch']();
+
+        assert.equal(count, 3);
+        assert.deepEqual(published.map(({ topic, event }) => [topic, event.eventId]), [
+            ['order-events', 'event-1'],
+            ['item-updates', 'event-2'],
+            ['order-events', 'event-3']
+        ]);
+        assert.ok(published[0]?.event.timestamp instanceof Date);
+        assert.deepEqual(database.find(/SET status = 'SENT'/).map(query => query.params), [[['1', '2', '3']]]);
+        assert.equal(relay.getStatus().published, 3);
+    });
+
+    it('stops at the first failed row so later rows are not published ahead of it', async () => {
+        const { database, relay } = setup([outboxRow(1), outboxRow(2), outboxRow(3)]);
+        failOn = 'event-2';
+
+        const count = await relay['relayBatch']();
+
+        assert.equal(count, 0);
+        assert.deepEqual(published.map(({ event }) => event.eventId), ['event-1']);
+        assert.deepEqual(database.find(/SET attempts = attempts \+ 1, last_error/).map(query => query.params), [
+            ['Broker unavailable', '2']
+        ]);
+        assert.deepEqual(database.find(/SET status = 'SENT'/).map(query => query.params), [[['1']]]);
+    });
+
+    it('leaves the outbox alone while another instance holds the relay lock', async () => {
+        const { database, relay } = setup([outboxRow(1)], false);
+
+        const count = await relay['relayBatch']();
+
+        assert.equal(count, 0);
+        assert.deepEqual(published, []);
+        assert.equal(database.find(/FROM outbox/).length, 0);
+    });
+});
@@ -0,0 +1,115 @@
+// src/Engine/Processors/outbox.relay.ts
+import { KafkaService } from '../../kafka';
+import { DatabaseService } from '../Services/database.service';
+import { OutboxService } from '../Services/outbox.service';
+import { logger } from '../../utils/logger';
+import { config } from '../../config/config';
+
+/**
+ * Publishes pending outbox rows to Kafka in id order and marks them SENT. Ids are
+ * taken at insert, not at commit, so a row can commit after one with a higher id
+ * and be published after it: across aggregates there is no ordering guarantee.
+ * Within an aggregate there is, as its commands are applied one at a time (one
+ * partition, one consumer, later events queued behind retries) and their rows
+ * therefore commit in id order. A transaction-scoped advisory lock lets only one
+ * Engine instance relay at a time, so that holds across instances. Publishing is
+ * at least once: a crash after send but before commit republishes the batch.
+ */
+export class OutboxRelay {
+    private kafkaService: KafkaService;
+    private outboxService: OutboxService;
+    private pollTimer: NodeJS.Timeout | null = null;
+    private isFlushing: boolean = false;
+    private flushRequested: boolean = false;
+    private publishedCount: number = 0;
+
+    constructor(private databaseService: DatabaseService) {
+        this.kafkaService = KafkaService.getInstance();
+        this.outboxService = new OutboxService(databaseService);
+    }
+
+    public start(): void {
+        if (this.pollTimer) {
+            return;
+        }
+
+        this.pollTimer = setInterval(() => this.trigger(), config.Kafka.outbox.pollInterval);
+        this.trigger();
+        logger.info('Outbox relay started', { pollInterval: config.Kafka.outbox.pollInterval });
+    }
+
+    public stop(): void {
+        if (this.pollTimer) {
+            clearInterval(this.pollTimer);
+            this.pollTimer = null;
+        }
+    }
+
+    // Called after a commit so updates go out without waiting for the next poll
+    public trigger(): void {
+        if (this.isFlushing) {
+            this.flushRequested = true;
+            return;
+        }
+
+        void this.flush();
+    }
+
+    private async flush(): Promise<void> {
+        this.isFlushing = true;
+
+        try {
+            do {
+                this.flushRequested = false;
+                while (await this.relayBatch() === config.Kafka.outbox.batchSize) {
+                    // Full batch - there may be more pending rows
+                }
+            } while (this.flushRequested);
+        } catch (error) {
+            logger.error('Outbox relay error:', error);
+        } finally {
+            this.isFlushing = false;
+        }
+    }
+
+    // Returns the number of rows published
+    private async relayBatch(): Promise<number> {
+        return await this.databaseService.executeTransaction(async (client) => {
+            const lock = await client.query(
+                `SELECT pg_try_advisory_xact_lock(hashtext('outbox-relay')) AS locked`
+            );
+            if (!lock.rows[0]?.locked) {
+                return 0;
+            }
+
+            const messages = await this.outboxService.lockPending(config.Kafka.outbox.batchSize);
+            const sentIds: string[] = [];
+
+            for (const message of messages) {
+                try {
+                    await this.kafkaService.publishEvent(message.topic, message.event);
+                    sentIds.push(message.id);
+                } catch (error) {
+                    // Stop at the first failure so later rows are not published out of order
+                    await this.outboxService.markFailedAttempt(
+                        message.id,
+                        error instanceof Error ? error.message : String(error)
+                    );
+                    break;
+                }
+            }
+
+            await this.outboxService.markSent(sentIds);
+            this.publishedCount += sentIds.length;
+
+            return sentIds.length === messages.length ? sentIds.length : 0;
+        });
+    }
+
+    public getStatus(): any {
+        return {
+            running: this.pollTimer !== null,
+            published: this.publishedCount
+        };
+    }
+}
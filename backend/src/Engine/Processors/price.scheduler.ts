@@ -0,0 +1,80 @@
+// src/Engine/Processors/price.scheduler.ts
+import { DatabaseService } from '../Services/database.service';
+import { ItemService } from '../Services/item.service';
+import { RedisService } from '../../cache/redies.service';
+import { logger } from '../../utils/logger';
+import { config } from '../../config/config';
+
+/**
+ * Applies scheduled item price changes once they are due. Each item is updated
+ * in its own transaction under the item row lock and skipped when its price is
+ * already current, so it is safe to run on every Engine instance.
+ */
+export class PriceScheduler {
+    private itemService: ItemService;
+    private redisService: RedisService;
+    private scheduleTimer: NodeJS.Timeout | null = null;
+    private isApplying: boolean = false;
+    private appliedCount: number = 0;
+
+    constructor(databaseService: DatabaseService) {
+        this.itemService = new ItemService(databaseService);
+        this.redisService = RedisService.getInstance();
+    }
+
+    public start(): void {
+        if (this.scheduleTimer) {
+            return;
+        }
+
+        this.scheduleTimer = setInterval(() => void this.applyDuePrices(), config.pricing.scheduleInterval);
+        logger.info('Price scheduler started', { scheduleInterval: config.pricing.scheduleInterval });
+    }
+
+    public stop(): void {
+        if (this.scheduleTimer) {
+            clearInterval(this.scheduleTimer);
+            this.scheduleTimer = null;
+        }
+    }
+
+    private async applyDuePrices(): Promise<void> {
+        if (this.isApplying) {
+            return;
+        }
+
+        this.isApplying = true;
+
+        try {
+            const itemIds = await this.itemService.getDuePriceItemIds(config.pricing.scheduleBatchSize);
+
+            for (const itemId of itemIds) {
+                try {
+                    const applied = await this.itemService.applyScheduledPrice(itemId);
+                    if (!applied) {
+                        continue;
+                    }
+
+                    this.appliedCount++;
+                    await this.redisService.invalidateCustomerItem(itemId, applied.item.customerId);
+                    for (const variantId of applied.variantIds) {
+                        await this.redisService.invalidateCustomerItem(variantId);
+                    }
+                } catch (error) {
+                    logger.error(`Failed to apply scheduled price for item ${itemId}:`, error);
+                }
+            }
+        } catch (error) {
+            logger.error('Price scheduler error:', error);
+        } finally {
+            this.isApplying = false;
+        }
+    }
+
+    public getStatus(): any {
+        return {
+            running: this.scheduleTimer !== null,
+            appliedPrices: this.appliedCount
+        };
+    }
+}
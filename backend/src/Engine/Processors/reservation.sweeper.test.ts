@@ -0,0 +1,60 @@
+// src/Engine/Processors/reservation.sweeper.test.ts
+import { afterEach, beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { ReservationSweeper } from './reservation.sweeper';
+import { RedisService } from '../../cache/redies.service';
+import { FakeDatabase } from '../../testing/fakeDatabase';
+import { config } from '../../config/config';
+
+describe('ReservationSweeper', () => {
+    const getRedis = RedisService.getInstance;
+    let invalidated: string[];
+
+    beforeEach(() => {
+        invalidated = [];
+        RedisService.getInstance = () => ({
+            invalidateOrder: async (orderId: string) => { invalidated.push(orderId); },
+            invalidateCustomerItem: async (itemId: string) => { invalidated.push(itemId); }
+        }) as unknown as RedisService;
+    });
+
+    afterEach(() => {
+        RedisService.getInstance = getRedis;
+    });
+
+    function setup(expired: Record<string, boolean>) {
+        const database = new FakeDatabase();
+        const sweeper = new ReservationSweeper(database.asService());
+        sweeper['inventoryService'].getExpiredOrderIds = async () => Object.keys(expired);
+        sweeper['orderService'].expireReservation = async (id: string) => expired[id]
+            ? { id, customerId: 'customer-1', items: [{ itemId: `${id}-item` }] } as any
+            : null;
+        return { database, sweeper };
+    }
+
+    it('records an ORDER_EXPIRE_REQUESTED command for every order it cancels', async () => {
+        const { database, sweeper } = setup({ 'order-1': true, 'order-2': true });
+
+        await sweeper['sweep']();
+
+        const appended = database.find(/INSERT INTO event_store/);
+        assert.deepEqual(appended.map(query => query.params.slice(1, 4)), [
+            ['ORDER_EXPIRE_REQUESTED', 'ORDER', 'order-1'],
+            ['ORDER_EXPIRE_REQUESTED', 'ORDER', 'order-2']
+        ]);
+        assert.equal(appended[0]?.params[5], config.Kafka.topics.orderEvents);
+        assert.deepEqual(JSON.parse(appended[0]!.params[6]).data, { id: 'order-1' });
+        assert.equal(sweeper.getStatus().expiredOrders, 2);
+        assert.deepEqual(invalidated, ['order-1', 'order-1-item', 'order-2', 'order-2-item']);
+    });
+
+    it('records nothing for an order that was no longer pending', async () => {
+        const { database, sweeper } = setup({ 'order-1': false });
+
+        await sweeper['sweep']();
+
+        assert.equal(database.find(/INSERT INTO event_store/).length, 0);
+        assert.equal(sweeper.getStatus().expiredOrders, 0);
+        assert.deepEqual(invalidated, []);
+    });
+});
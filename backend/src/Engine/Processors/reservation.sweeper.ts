@@ -0,0 +1,112 @@
+// src/Engine/Processors/reservation.sweeper.ts
+import { DatabaseService } from '../Services/database.service';
+import { ItemService } from '../Services/item.service';
+import { InventoryService } from '../Services/inventory.service';
+import { OrderService } from '../Services/order.service';
+import { EventStoreService } from '../Services/eventStore.service';
+import { RedisService } from '../../cache/redies.service';
+import { logger } from '../../utils/logger';
+import { config } from '../../config/config';
+import { Order } from '../../types';
+import { v4 as uuidv4 } from 'uuid';
+
+/**
+ * Cancels pending orders whose inventory reservation expired and returns the held
+ * stock. Each order is handled in its own transaction under the order row lock,
+ * so it is safe to run on every Engine instance. The expiry is written to the event
+ * store as an ORDER_EXPIRE_REQUESTED command in the same transaction, so replays
+ * cancel the order at the same point in its history.
+ */
+export class ReservationSweeper {
+    private databaseService: DatabaseService;
+    private inventoryService: InventoryService;
+    private orderService: OrderService;
+    private eventStoreService: EventStoreService;
+    private redisService: RedisService;
+    private sweepTimer: NodeJS.Timeout | null = null;
+    private isSweeping: boolean = false;
+    private expiredCount: number = 0;
+
+    constructor(databaseService: DatabaseService) {
+        this.databaseService = databaseService;
+        this.eventStoreService = new EventStoreService(databaseService);
+        this.inventoryService = new InventoryService(databaseService);
+        this.orderService = new OrderService(databaseService, new ItemService(databaseService), this.inventoryService);
+        this.redisService = RedisService.getInstance();
+    }
+
+    public start(): void {
+        if (this.sweepTimer) {
+            return;
+        }
+
+        this.sweepTimer = setInterval(() => void this.sweep(), config.inventory.sweepInterval);
+        logger.info('Reservation sweeper started', { sweepInterval: config.inventory.sweepInterval });
+    }
+
+    public stop(): void {
+        if (this.sweepTimer) {
+            clearInterval(this.sweepTimer);
+            this.sweepTimer = null;
+        }
+    }
+
+    private async sweep(): Promise<void> {
+        if (this.isSweeping) {
+            return;
+        }
+
+        this.isSweeping = true;
+
+        try {
+            const orderIds = await this.inventoryService.getExpiredOrderIds(config.inventory.sweepBatchSize);
+
+            for (const orderId of orderIds) {
+                try {
+                    const order = await this.expireOrder(orderId);
+                    if (!order) {
+                        continue;
+                    }
+
+                    this.expiredCount++;
+                    await this.redisService.invalidateOrder(order.id, order.customerId);
+                    for (const item of order.items) {
+                        await this.redisService.invalidateCustomerItem(item.itemId, order.customerId);
+                    }
+
+                    logger.warn(`Order cancelled after its inventory reservation expired`, { orderId });
+                } catch (error) {
+                    logger.error(`Failed to expire reservation for order ${orderId}:`, error);
+                }
+            }
+        } catch (error) {
+            logger.error('Reservation sweeper error:', error);
+        } finally {
+            this.isSweeping = false;
+        }
+    }
+
+    private async expireOrder(orderId: string): Promise<Order | null> {
+        return await this.databaseService.executeTransaction(async () => {
+            const order = await this.orderService.expireReservation(orderId);
+            if (order) {
+                await this.eventStoreService.append('ORDER', config.Kafka.topics.orderEvents, {
+                    eventId: uuidv4(),
+                    eventType: 'ORDER_EXPIRE_REQUESTED',
+                    aggregateId: orderId,
+                    timestamp: new Date(),
+                    data: { id: orderId },
+                    metadata: { source: 'SCHEDULER' }
+                });
+            }
+            return order;
+        });
+    }
+
+    public getStatus(): any {
+        return {
+            running: this.sweepTimer !== null,
+            expiredOrders: this.expiredCount
+        };
+    }
+}
@@ -0,0 +1,42 @@
+// src/Engine/Processors/retention.cleaner.test.ts
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { RetentionCleaner } from './retention.cleaner';
+import { DatabaseService } from '../Services/database.service';
+import { FakeDatabase } from '../../testing/fakeDatabase';
+import { config } from '../../config/config';
+
+// Each table answers its deletes with the given row counts, then with none
+function setup(deleted: Record<'processed_events' | 'outbox', number[]>) {
+    const database = new FakeDatabase()
+        .on(/DELETE FROM processed_events/, () => ({ rows: [], rowCount: deleted.processed_events.shift() ?? 0 }))
+        .on(/DELETE FROM outbox/, () => ({ rows: [], rowCount: deleted.outbox.shift() ?? 0 }));
+    Object.assign(database, { deleteProcessedEventsBefore: DatabaseService.prototype.deleteProcessedEventsBefore });
+    return { database, cleaner: new RetentionCleaner(database.asService()) };
+}
+
+describe('RetentionCleaner', () => {
+    const { batchSize, processedEventsAge, sentOutboxAge } = config.Kafka.retention;
+
+    it('deletes old claims and sent outbox rows a batch at a time until a batch comes back short', async () => {
+        const { database, cleaner } = setup({ processed_events: [batchSize, batchSize, 3], outbox: [7] });
+
+        await cleaner['cleanUp']();
+
+        assert.deepEqual(database.find(/DELETE FROM processed_events/).map(query => query.params), [
+            [processedEventsAge, batchSize],
+            [processedEventsAge, batchSize],
+            [processedEventsAge, batchSize]
+        ]);
+        assert.deepEqual(database.find(/DELETE FROM outbox/).map(query => query.params), [[sentOutboxAge, batchSize]]);
+        assert.equal(cleaner.getStatus().deletedRows, 2 * batchSize + 10);
+    });
+
+    it('only deletes outbox rows that were sent', async () => {
+        const { database, cleaner } = setup({ processed_events: [], outbox: [] });
+
+        await cleaner['cleanUp']();
+
+        assert.match(database.find(/DELETE FROM outbox/)[0]!.text, /status = 'SENT' AND sent_at </);
+    });
+});
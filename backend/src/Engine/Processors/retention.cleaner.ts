@@ -0,0 +1,73 @@
+// src/Engine/Processors/retention.cleaner.ts
+import { DatabaseService } from '../Services/database.service';
+import { OutboxService } from '../Services/outbox.service';
+import { logger } from '../../utils/logger';
+import { config } from '../../config/config';
+
+/**
+ * Deletes bookkeeping rows nothing needs any more: processed_events claims older than
+ * any redelivery Kafka could still make, and outbox rows that were sent. Pending
+ * outbox rows are never touched. Rows go in batches so no delete holds its locks for
+ * long, and deleting is safe to run on every Engine instance.
+ */
+export class RetentionCleaner {
+    private outboxService: OutboxService;
+    private cleanupTimer: NodeJS.Timeout | null = null;
+    private isCleaning: boolean = false;
+    private deletedCount: number = 0;
+
+    constructor(private databaseService: DatabaseService) {
+        this.outboxService = new OutboxService(databaseService);
+    }
+
+    public start(): void {
+        if (this.cleanupTimer) {
+            return;
+        }
+
+        this.cleanupTimer = setInterval(() => void this.cleanUp(), config.Kafka.retention.interval);
+        logger.info('Retention cleaner started', { interval: config.Kafka.retention.interval });
+    }
+
+    public stop(): void {
+        if (this.cleanupTimer) {
+            clearInterval(this.cleanupTimer);
+            this.cleanupTimer = null;
+        }
+    }
+
+    private async cleanUp(): Promise<void> {
+        if (this.isCleaning) {
+            return;
+        }
+
+        this.isCleaning = true;
+
+        try {
+            const { processedEventsAge, sentOutboxAge } = config.Kafka.retention;
+            await this.deleteInBatches((limit) => this.databaseService.deleteProcessedEventsBefore(processedEventsAge, limit));
+            await this.deleteInBatches((limit) => this.outboxService.deleteSentBefore(sentOutboxAge, limit));
+        } catch (error) {
+            logger.error('Retention cleaner error:', error);
+        } finally {
+            this.isCleaning = false;
+        }
+    }
+
+    private async deleteInBatches(deleteBatch: (limit: number) => Promise<number>): Promise<void> {
+        const { batchSize } = config.Kafka.retention;
+        let deleted: number;
+
+        do {
+            deleted = await deleteBatch(batchSize);
+            this.deletedCount += deleted;
+        } while (deleted === batchSize);
+    }
+
+    public getStatus(): any {
+        return {
+            running: this.cleanupTimer !== null,
+            deletedRows: this.deletedCount
+        };
+    }
+}
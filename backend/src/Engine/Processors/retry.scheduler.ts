@@ -0,0 +1,77 @@
+// src/Engine/Processors/retry.scheduler.ts
+import { DatabaseService } from '../Services/database.service';
+import { RetryQueueService } from '../Services/retryQueue.service';
+import { logger } from '../../utils/logger';
+import { config } from '../../config/config';
+import { RetryEntry } from '../../types';
+
+/**
+ * Hands due entries of the retry queue back to the EventProcessor. The processor
+ * removes an entry once it is applied or given up on, or reschedules it, which is
+ * what lets the next entry of the same aggregate become due.
+ */
+export class RetryScheduler {
+    private retryQueueService: RetryQueueService;
+    private pollTimer: NodeJS.Timeout | null = null;
+    private isRedelivering: boolean = false;
+    private redeliveredCount: number = 0;
+
+    constructor(
+        databaseService: DatabaseService,
+        private redeliver: (entry: RetryEntry) => Promise<void>
+    ) {
+        this.retryQueueService = new RetryQueueService(databaseService);
+    }
+
+    public start(): void {
+        if (this.pollTimer) {
+            return;
+        }
+
+        this.pollTimer = setInterval(() => void this.redeliverDue(), config.Kafka.retry.pollInterval);
+        logger.info('Retry scheduler started', { pollInterval: config.Kafka.retry.pollInterval });
+    }
+
+    public stop(): void {
+        if (this.pollTimer) {
+            clearInterval(this.pollTimer);
+            this.pollTimer = null;
+        }
+    }
+
+    private async redeliverDue(): Promise<void> {
+        if (this.isRedelivering) {
+            return;
+        }
+
+        this.isRedelivering = true;
+
+        try {
+            const entries = await this.retryQueueService.claimDue(
+                config.Kafka.retry.batchSize,
+                config.Kafka.retry.claimTimeout
+            );
+
+            for (const entry of entries) {
+                try {
+                    await this.redeliver(entry);
+                    this.redeliveredCount++;
+                } catch (error) {
+                    // The claim runs out and the entry is picked up again
+                    logger.error(`Failed to redeliver event ${entry.eventId} from the retry queue:`, error);
+                }
+            }
+        } catch (error) {
+            logger.error('Retry scheduler error:', error);
+        } finally {
+            this.isRedelivering = false;
+        }
+    }
+
+    public getStatus(): any {
+        return {
+            running: this.pollTimer !== null,
+            redelivered: this.redeliveredCount
+        };
+    }
+}
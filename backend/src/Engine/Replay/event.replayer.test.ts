@@ -0,0 +1,163 @@
+// backend/src/Engine/Replay/event.replayer.test.ts
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { EventReplayer } from './event.replayer';
+import { FakeDatabase } from '../../testing/fakeDatabase';
+import { config } from '../../config/config';
+import { StoredEvent } from '../../types';
+
+const CUSTOMER_ID = '0c000000-0000-4000-8000-000000000001';
+const ORDER_ID = '0a000000-0000-4000-8000-000000000001';
+const ITEM_ID = '1a000000-0000-4000-8000-00000000000a';
+const WAREHOUSE_ID = '3a000000-0000-4000-8000-000000000001';
+const CATEGORY_ID = '7a000000-0000-4000-8000-000000000001';
+
+// What the order create resolved when it ran live
+const RESOLVED = {
+    orderNumber: 'ORD-1',
+    orderDate: '2026-03-01T12:00:00.000Z',
+    items: [{ itemId: ITEM_ID, quantity: 1, price: 20 }],
+    shipping: { cost: 5 },
+    totalAmount: 27
+};
+
+function stored(sequence: number, fields: Pick<StoredEvent, 'eventType' | 'aggregateType' | 'aggregateId' | 'topic'>, data: any): StoredEvent {
+    return {
+        sequence: String(sequence),
+        eventId: `event-${sequence}`,
+        version: 1,
+        recordedAt: new Date('2026-03-01T12:00:00Z'),
+        ...fields,
+        event: {
+            eventId: `event-${sequence}`,
+            eventType: fields.eventType,
+            aggregateId: fields.aggregateId,
+            timestamp: new Date('2026-03-01T12:00:00Z'),
+            data
+        }
+    };
+}
+
+const HISTORY: StoredEvent[] = [
+    stored(1, {
+        eventType: 'CUSTOMER_CREATE_REQUESTED',
+        aggregateType: 'CUSTOMER',
+        aggregateId: CUSTOMER_ID,
+        topic: config.Kafka.topics.customerEvents
+    }, { id: CUSTOMER_ID, name: 'Acme', email: 'orders@acme.com' }),
+    stored(2, {
+        eventType: 'WAREHOUSE_SAVED',
+        aggregateType: 'WAREHOUSE',
+        aggregateId: WAREHOUSE_ID,
+        topic: config.eventStore.referenceTopic
+    }, { row: { id: WAREHOUSE_ID, code: 'EAST', priority: 10, 'bad column': 'ignored' } }),
+    stored(3, {
+        eventType: 'ORDER_CREATE_REQUESTED',
+        aggregateType: 'ORDER',
+        aggregateId: ORDER_ID,
+        topic: config.Kafka.topics.orderEvents
+    }, { id: ORDER_ID, customerId: CUSTOMER_ID, items: [{ itemId: ITEM_ID, quantity: 1 }], resolved: RESOLVED }),
+    stored(4, {
+        eventType: 'ORDER_CANCEL_REQUESTED',
+        aggregateType: 'ORDER',
+        aggregateId: ORDER_ID,
+        topic: config.Kafka.topics.orderEvents
+    }, { id: ORDER_ID }),
+    stored(5, {
+        eventType: 'WAREHOUSE_DELETED',
+        aggregateType: 'WAREHOUSE',
+        aggregateId: WAREHOUSE_ID,
+        topic: config.eventStore.referenceTopic
+    }, { id: WAREHOUSE_ID })
+];
+
+// A replayer reading `history` in batches of two, with the target schema and dispatcher faked
+function setup(history: StoredEvent[], failing: string[] = []) {
+    const target = new FakeDatabase();
+    const source = new FakeDatabase();
+    const steps: string[] = [];
+    const dispatched: any[] = [];
+    for (const database of [source, target]) {
+        Object.assign(database, { connect: async () => {}, disconnect: async () => {} });
+    }
+
+    const replayer = new EventReplayer('replay_test');
+    replayer['sourceDatabase'] = source.asService();
+    replayer['targetDatabase'] = target.asService();
+    replayer['eventStoreService'].getEventsAfter = async (sequence: string) =>
+        history.filter(event => Number(event.sequence) > Number(sequence)).slice(0, 2);
+    replayer['commandDispatcher'].dispatch = async (aggregateType, eventType, data) => {
+        steps.push(`${aggregateType} ${eventType} in transaction: ${target.transactionDepth > 0}`);
+        dispatched.push(data);
+        if (failing.includes(eventType)) {
+            throw new Error('Command failed');
+        }
+        return { handled: true, success: true, data: null };
+    };
+    target.on(/./, (params, text) => {
+        steps.push(text.replace(/\s+/g, ' ').trim().split(' ').slice(0, 3).join(' '));
+        return [];
+    });
+
+    return { replayer, target, steps, dispatched };
+}
+
+describe('EventReplayer', () => {
+    it('restores reference snapshots and applies commands in the order they were stored', async () => {
+        const { replayer, steps } = setup(HISTORY);
+
+        const summary = await replayer.run();
+
+        assert.deepEqual(summary, { schema: 'replay_test', applied: 5, failed: 0, lastSequence: '5' });
+        assert.deepEqual(steps, [
+            'DELETE FROM warehouses',
+            'CUSTOMER CUSTOMER_CREATE_REQUESTED in transaction: true',
+            'INSERT INTO warehouses',
+            'ORDER ORDER_CREATE_REQUESTED in transaction: true',
+            'ORDER ORDER_CANCEL_REQUESTED in transaction: true',
+            'DELETE FROM warehouses'
+        ]);
+    });
+
+    it('upserts a snapshot row with its live id, leaving out keys that are not column names', async () => {
+        const { replayer, target } = setup(HISTORY.slice(1, 2));
+
+        await replayer.run();
+
+        const [upsert] = target.find(/INSERT INTO warehouses/);
+        assert.match(upsert!.text, /INSERT INTO warehouses \(id, code, priority\)/);
+        assert.match(upsert!.text, /jsonb_populate_record\(NULL::warehouses, \$1\)/);
+        assert.match(upsert!.text, /ON CONFLICT \(id\) DO UPDATE/);
+        assert.deepEqual(JSON.parse(upsert!.params[0]), HISTORY[1]!.event.data.row);
+    });
+
+    it('carries a category\'s name to its items\' labels', async () => {
+        const { replayer, target } = setup([stored(1, {
+            eventType: 'CATEGORY_SAVED',
+            aggregateType: 'CATEGORY',
+            aggregateId: CATEGORY_ID,
+            topic: config.eventStore.referenceTopic
+        }, { row: { id: CATEGORY_ID, name: 'Drinks' } })]);
+
+        await replayer.run();
+
+        assert.deepEqual(target.find(/UPDATE customer_items/)[0]?.params, [CATEGORY_ID, 'Drinks']);
+    });
+
+    it('hands an order create the values it resolved live', async () => {
+        const { replayer, dispatched } = setup(HISTORY.slice(2, 3));
+
+        await replayer.run();
+
+        assert.deepEqual(dispatched[0]?.resolved, RESOLVED);
+    });
+
+    it('counts a failed command and goes on with the rest of the history', async () => {
+        const { replayer, steps } = setup(HISTORY, ['ORDER_CREATE_REQUESTED']);
+
+        const summary = await replayer.run();
+
+        assert.deepEqual(summary, { schema: 'replay_test', applied: 4, failed: 1, lastSequence: '5' });
+        assert.equal(steps[steps.length - 1], 'DELETE FROM warehouses');
+    });
+});
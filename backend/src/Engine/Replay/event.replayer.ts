@@ -0,0 +1,176 @@
+// backend/src/Engine/Replay/event.replayer.ts
+import { DatabaseService } from '../Services/database.service';
+import { EventStoreService, REFERENCE_TABLES } from '../Services/eventStore.service';
+import { CommandDispatcher } from '../Processors/command.dispatcher';
+import { DisabledPaymentGateway } from '../Payments/disabled.gateway';
+import { EventRegistry } from '../../events/eventRegistry';
+import { logger } from '../../utils/logger';
+import { config } from '../../config/config';
+import { AggregateType, ReferenceType, ReplaySummary, StoredEvent } from '../../types';
+
+/**
+ * Rebuilds the customers, customer_items and orders projections by running every
+ * stored command through the current CommandDispatcher into a fresh schema. Commands
+ * are applied with what they resolved live (order numbers, dates, prices, discounts,
+ * tax, shipping, reservation expiry, gateway outcomes); order creates stored before
+ * that was recorded are priced again. Reference data (warehouses, categories,
+ * discount codes, tax rules, shipping rates) is restored from its stored snapshots
+ * at the point in the history it was written. The live tables are never touched;
+ * swap schemas once the result has been checked.
+ *
+ * Usage: npm run replay -- [schema]   (defaults to replay_<timestamp>)
+ */
+export class EventReplayer {
+    private sourceDatabase: DatabaseService;
+    private targetDatabase: DatabaseService;
+    private eventStoreService: EventStoreService;
+    private commandDispatcher: CommandDispatcher;
+    private eventRegistry: EventRegistry = EventRegistry.getInstance();
+    private commandTopics: string[] = [
+        config.Kafka.topics.customerEvents,
+        config.Kafka.topics.customerItemsEvents,
+        config.Kafka.topics.orderEvents,
+        config.eventStore.referenceTopic
+    ];
+
+    constructor(private schema: string) {
+        this.sourceDatabase = new DatabaseService();
+        this.targetDatabase = new DatabaseService(schema);
+        this.eventStoreService = new EventStoreService(this.sourceDatabase);
+        // Payment commands carry their gateway outcome; a replay must never move money
+        this.commandDispatcher = new CommandDispatcher(this.targetDatabase, new DisabledPaymentGateway());
+    }
+
+    public async run(): Promise<ReplaySummary> {
+        const summary: ReplaySummary = { schema: this.schema, applied: 0, failed: 0, lastSequence: '0' };
+
+        try {
+            await this.sourceDatabase.connect();
+            await this.createFreshSchema();
+            await this.targetDatabase.connect();
+            // The seeded default warehouse comes back from its snapshot, with its live id
+            await this.targetDatabase.executeQuery('DELETE FROM warehouses');
+
+            logger.info(`Replaying event store into schema ${this.schema}...`);
+
+            let events = await this.eventStoreService.getEventsAfter(
+                '0',
+                this.commandTopics,
+                config.eventStore.replayBatchSize
+            );
+
+            while (events.length > 0) {
+                for (const stored of events) {
+                    try {
+                        if (stored.topic === config.eventStore.referenceTopic) {
+                            await this.targetDatabase.executeTransaction(() => this.restoreReferenceChange(stored));
+                        } else {
+                            await this.applyCommand(stored);
+                        }
+                        summary.applied++;
+                    } catch (error) {
+                        summary.failed++;
+                        logger.warn(`Replay of event ${stored.eventId} failed:`, {
+                            sequence: stored.sequence,
+                            eventType: stored.eventType,
+                            aggregateId: stored.aggregateId,
+                            error: error instanceof Error ? error.message : String(error)
+                        });
+                    }
+
+                    summary.lastSequence = stored.sequence;
+                }
+
+                logger.info(`Replayed up to sequence ${summary.lastSequence}`, {
+                    applied: summary.applied,
+                    failed: summary.failed
+                });
+
+                events = await this.eventStoreService.getEventsAfter(
+                    summary.lastSequence,
+                    this.commandTopics,
+                    config.eventStore.replayBatchSize
+                );
+            }
+
+            logger.info('Event replay finished:', summary);
+            return summary;
+        } finally {
+            await this.targetDatabase.disconnect();
+            await this.sourceDatabase.disconnect();
+        }
+    }
+
+    private async applyCommand(stored: StoredEvent): Promise<void> {
+        // Stored events keep the contract they were written with
+        const event = this.eventRegistry.upcast(stored.event);
+        this.eventRegistry.validate(event);
+
+        // Same per-command transaction boundary as the Engine
+        await this.targetDatabase.executeTransaction(() =>
+            this.commandDispatcher.dispatch(stored.aggregateType as AggregateType, event.eventType, event.data, event.metadata)
+        );
+    }
+
+    /**
+     * Writes a reference snapshot into the target schema: the row is upserted as
+     * stored, live id and timestamps included, or deleted, cascading as it did live.
+     * A category rename reaches its items' labels as in CategoryService.updateCategory.
+     */
+    private async restoreReferenceChange(stored: StoredEvent): Promise<void> {
+        const table = REFERENCE_TABLES[stored.aggregateType as ReferenceType];
+        if (!table) {
+            throw new Error(`Unknown reference type ${stored.aggregateType}`);
+        }
+
+        const row = stored.event.data?.row;
+        if (!row) {
+            await this.targetDatabase.executeQuery(`DELETE FROM ${table} WHERE id = $1`, [stored.aggregateId]);
+            return;
+        }
+
+        // Keys are the live table's column names
+        const columns = Object.keys(row).filter(column => /^[a-z_][a-z0-9_]*$/.test(column));
+        await this.targetDatabase.executeQuery(`
+            INSERT INTO ${table} (${columns.join(', ')})
+            SELECT ${columns.join(', ')} FROM jsonb_populate_record(NULL::${table}, $1)
+            ON CONFLICT (id) DO UPDATE
+            SET (${columns.join(', ')}) = ROW(${columns.map(column => `EXCLUDED.${column}`).join(', ')})
+        `, [JSON.stringify(row)]);
+
+        if (stored.aggregateType === 'CATEGORY') {
+            await this.targetDatabase.executeQuery(`
+                UPDATE customer_items
+                SET category = $2, updated_at = CURRENT_TIMESTAMP
+                WHERE category_id = $1 AND category IS DISTINCT FROM $2
+            `, [row.id, row.name]);
+        }
+    }
+
+    // Refuses to replay into a schema that already has tables
+    private async createFreshSchema(): Promise<void> {
+        const existing = await this.sourceDatabase.executeQuery<{ count: string }>(
+            'SELECT COUNT(*) FROM information_schema.tables WHERE table_schema = $1',
+            [this.schema]
+        );
+
+        if (parseInt(existing.rows[0]?.count || '0') > 0) {
+            throw new Error(`Schema ${this.schema} already contains tables; replay needs a fresh schema`);
+        }
+
+        await this.sourceDatabase.executeQuery(`CREATE SCHEMA IF NOT EXISTS ${this.schema}`);
+    }
+}
+
+if (require.main === module) {
+    const schema = process.argv[2] || `replay_${Date.now()}`;
+
+    new EventReplayer(schema).run()
+        .then((summary) => {
+            process.exit(summary.failed > 0 ? 2 : 0);
+        })
+        .catch((error) => {
+            logger.error('Event replay failed:', error);
+            process.exit(1);
+        });
+}
@@ -0,0 +1,279 @@
+// engine/services/category.service.ts
+import { DatabaseService } from './database.service';
+import { EventStoreService } from './eventStore.service';
+import { logger } from '../../utils/logger';
+import {
+    Category,
+    CategoryFacet,
+    ConflictError,
+    CreateCategoryRequest,
+    UpdateCategoryRequest,
+    ValidationError
+} from '../../types';
+import { v4 as uuidv4 } from 'uuid';
+
+const CATEGORY_UPDATE_COLUMNS: Record<keyof UpdateCategoryRequest, string> = {
+    name: 'name',
+    slug: 'slug',
+    parentId: 'parent_id'
+};
+
+/**
+ * The managed category tree. Every category belongs to one tenant (or to none,
+ * like items without a tenant) and only has parents and children in that tenant.
+ */
+export class CategoryService {
+    private eventStoreService: EventStoreService;
+
+    constructor(private databaseService: DatabaseService) {
+        this.eventStoreService = new EventStoreService(databaseService);
+    }
+
+    public async createCategory(data: CreateCategoryRequest, tenantId: string | null): Promise<Category> {
+        try {
+            if (data.parentId) {
+                await this.requireCategory(data.parentId, tenantId);
+            }
+
+            const slug = data.slug || this.toSlug(data.name);
+            const category = await this.databaseService.executeTransaction(async () => {
+                const result = await this.databaseService.executeQuery<any>(`
+                    INSERT INTO categories (id, tenant_id, parent_id, name, slug)
+                    VALUES ($1, $2, $3, $4, $5)
+                    ON CONFLICT ((COALESCE(tenant_id::text, '')), slug) DO NOTHING
+                    RETURNING *
+                `, [uuidv4(), tenantId, data.parentId || null, data.name, slug]);
+
+                if (!result.rows[0]) {
+                    throw new ConflictError(`Category with slug ${slug} already exists`, { slug });
+                }
+
+                await this.eventStoreService.appendReferenceChange('CATEGORY', result.rows[0].id, tenantId);
+                return this.mapRowToCategory(result.rows[0]);
+            });
+            logger.info(`Category created:`, { categoryId: category.id, slug, tenantId });
+
+            return category;
+
+        } catch (error) {
+            logger.error('Error creating category:', error);
+            throw error;
+        }
+    }
+
+    // The tenant's categories as a tree of root categories with nested children
+    public async getCategoryTree(tenantId: string | null): Promise<Category[]> {
+        const result = await this.databaseService.executeQuery<any>(`
+            SELECT * FROM categories
+            WHERE COALESCE(tenant_id::text, '') = COALESCE($1, '')
+            ORDER BY name
+        `, [tenantId]);
+
+        const categories = result.rows.map(row => ({ ...this.mapRowToCategory(row), children: [] as Category[] }));
+        const byId = new Map(categories.map(category => [category.id, category]));
+        const roots: Category[] = [];
+
+        for (const category of categories) {
+            const parent = category.parentId ? byId.get(category.parentId) : undefined;
+            if (parent) {
+                parent.children.push(category);
+            } else {
+                roots.push(category);
+            }
+        }
+
+        return roots;
+    }
+
+    public async getCategoryById(id: string, tenantId: string | null): Promise<Category | null> {
+        const result = await this.databaseService.executeQuery<any>(`
+            SELECT * FROM categories
+            WHERE id = $1 AND COALESCE(tenant_id::text, '') = COALESCE($2, '')
+        `, [id, tenantId]);
+
+        return result.rows[0] ? this.mapRowToCategory(result.rows[0]) : null;
+    }
+
+    public async updateCategory(id: string, updates: UpdateCategoryRequest, tenantId: string | null): Promise<Category | null> {
+        try {
+            const existing = await this.getCategoryById(id, tenantId);
+            if (!existing) {
+                return null;
+            }
+
+            if (updates.parentId) {
+                await this.requireCategory(updates.parentId, tenantId);
+                // Moving a category under itself or one of its descendants would cut it off the tree
+                const subtree = await this.getSubtreeIds(id);
+                if (subtree.includes(updates.parentId)) {
+                    throw new ConflictError(`Category ${existing.slug} cannot be moved under its own subtree`, {
+                        categoryId: id,
+                        parentId: updates.parentId
+                    });
+                }
+            }
+
+            const updateFields: string[] = [];
+            const values: any[] = [id];
+
+            for (const [key, value] of Object.entries(updates)) {
+                const column = CATEGORY_UPDATE_COLUMNS[key as keyof UpdateCategoryRequest];
+                if (column && value !== undefined) {
+                    values.push(value);
+                    updateFields.push(`${column} = $${values.length}`);
+                }
+            }
+
+            if (updateFields.length === 0) {
+                return existing;
+            }
+
+            const category = await this.databaseService.executeTransaction(async () => {
+                const result = await this.databaseService.executeQuery<any>(`
+                    UPDATE categories
+                    SET ${updateFields.join(', ')}, updated_at = CURRENT_TIMESTAMP
+                    WHERE id = $1
+                    RETURNING *
+                `, values);
+
+                // Items carry the category's name as their label
+                if (updates.name !== undefined && updates.name !== existing.name) {
+                    await this.databaseService.executeQuery(`
+                        UPDATE customer_items
+                        SET category = $2, updated_at = CURRENT_TIMESTAMP
+                        WHERE category_id = $1
+                    `, [id, updates.name]);
+                }
+
+                await this.eventStoreService.appendReferenceChange('CATEGORY', id, tenantId);
+                return this.mapRowToCategory(result.rows[0]);
+            });
+
+            logger.info(`Category updated:`, { categoryId: id, updatedFields: Object.keys(updates) });
+
+            return category;
+
+        } catch (error) {
+            if ((error as { code?: string })?.code === '23505') {
+                throw new ConflictError(`Category with slug ${updates.slug} already exists`, { slug: updates.slug });
+            }
+            logger.error('Error updating category:', error);
+            throw error;
+        }
+    }
+
+    // Only leaf categories can be deleted; their items keep the label and leave the tree
+    public async deleteCategory(id: string, tenantId: string | null): Promise<boolean> {
+        try {
+            const existing = await this.getCategoryById(id, tenantId);
+            if (!existing) {
+                return false;
+            }
+
+            const children = await this.databaseService.executeQuery(
+                'SELECT 1 FROM categories WHERE parent_id = $1 LIMIT 1',
+                [id]
+            );
+            if (children.rowCount > 0) {
+                throw new ConflictError(`Category ${existing.slug} has subcategories; move or delete them first`, {
+                    categoryId: id
+                });
+            }
+
+            const deleted = await this.databaseService.executeTransaction(async () => {
+                const result = await this.databaseService.executeQuery('DELETE FROM categories WHERE id = $1', [id]);
+                await this.eventStoreService.appendReferenceChange('CATEGORY', id, tenantId);
+                return result.rowCount > 0;
+            });
+            logger.info(`Category deleted:`, { categoryId: id });
+
+            return deleted;
+
+        } catch (error) {
+            logger.error('Error deleting category:', error);
+            throw error;
+        }
+    }
+
+    // The category and all of its descendants, for filters that include subcategories
+    public async getSubtreeIds(id: string): Promise<string[]> {
+        const result = await this.databaseService.executeQuery<{ id: string }>(`
+            WITH RECURSIVE subtree AS (
+                SELECT id FROM categories WHERE id = $1
+                UNION
+                SELECT c.id FROM categories c JOIN subtree s ON c.parent_id = s.id
+            )
+            SELECT id FROM subtree
+        `, [id]);
+
+        return result.rows.map(row => row.id);
+    }
+
+    /**
+     * Counts the items matched by a list query per category, rolling each item up
+     * into every ancestor so a parent's count covers its whole subtree. The where
+     * clause and its parameters come from the item list query and refer to
+     * customer_items unaliased.
+     */
+    public async getCategoryFacets(where: string, params: any[]): Promise<CategoryFacet[]> {
+        const result = await this.databaseService.executeQuery<any>(`
+            WITH RECURSIVE counted AS (
+                SELECT category_id, COUNT(*) AS item_count
+                FROM customer_items
+                ${where ? `WHERE ${where} AND` : 'WHERE'} category_id IS NOT NULL
+                GROUP BY category_id
+            ),
+            ancestry AS (
+                SELECT category_id, category_id AS ancestor_id FROM counted
+                UNION
+                SELECT a.category_id, c.parent_id
+                FROM ancestry a
+                JOIN categories c ON c.id = a.ancestor_id
+                WHERE c.parent_id IS NOT NULL
+            )
+            SELECT c.id, c.parent_id, c.name, c.slug, SUM(counted.item_count) AS item_count
+            FROM ancestry a
+            JOIN counted ON counted.category_id = a.category_id
+            JOIN categories c ON c.id = a.ancestor_id
+            GROUP BY c.id, c.parent_id, c.name, c.slug
+            ORDER BY c.name
+        `, params);
+
+        return result.rows.map(row => ({
+            categoryId: row.id,
+            parentId: row.parent_id || null,
+            name: row.name,
+            slug: row.slug,
+            count: parseInt(row.item_count)
+        }));
+    }
+
+    // Items may only be filed under a category of their own tenant
+    public async requireCategory(id: string, tenantId: string | null): Promise<Category> {
+        const category = await this.getCategoryById(id, tenantId);
+        if (!category) {
+            throw new ValidationError(`Category ${id} not found`, 'categoryId', id);
+        }
+        return category;
+    }
+
+    private toSlug(name: string): string {
+        return name
+            .toLowerCase()
+            .trim()
+            .replace(/[^a-z0-9]+/g, '-')
+            .replace(/^-+|-+$/g, '') || 'category';
+    }
+
+    private mapRowToCategory(row: any): Category {
+        return {
+            id: row.id,
+            tenantId: row.tenant_id || null,
+            parentId: row.parent_id || null,
+            name: row.name,
+            slug: row.slug,
+            createdAt: new Date(row.created_at),
+            updatedAt: new Date(row.updated_at)
+        };
+    }
+}
@@ -4,7 +4,9 @@ import { logger } from '../../utils/logger';
 import {
     Customer,
     CreateCustomerRequest,
-    UpdateCustomerRequest
+    UpdateCustomerRequest,
+    ConflictError,
+    ValidationError
 } from '../../types';
 import { v4 as uuidv4 } from 'uuid';
 
@@ -15,7 +17,7 @@ export class CustomerService {
         try {
             const existingCustomers = await this.databaseService.getCustomers(1, 1, data.email);
             if (existingCustomers.customers.length > 0) {
-                throw new Error(`Customer with email ${data.email} already exists`);
+                throw new ConflictError(`Customer with email ${data.email} already exists`, { email: data.email });
             }
 
             const customer: Customer = {
@@ -26,7 +28,8 @@ export class CustomerService {
                 address: data.address,
                 createdAt: 'createdAt' in data ? data.createdAt : new Date(),
                 updatedAt: 'updatedAt' in data ? data.updatedAt : new Date(),
-                status: 'ACTIVE'
+                status: 'ACTIVE',
+                taxExempt: data.taxExempt === true
             };
 
             const createdCustomer = await this.databaseService.createCustomer(customer);
@@ -47,7 +50,7 @@ export class CustomerService {
     public async getCustomerById(id: string): Promise<Customer | null> {
         try {
             if (!id || !this.isValidUuid(id)) {
-                throw new Error('Invalid customer ID format');
+                throw new ValidationError('Invalid customer ID format', 'id', id);
             }
 
             const customer = await this.databaseService.getCustomerById(id);
@@ -103,7 +106,7 @@ export class CustomerService {
     public async updateCustomer(id: string, updates: UpdateCustomerRequest): Promise<Customer | null> {
     try {
         if (!id || !this.isValidUuid(id)) {
-            throw new Error('Invalid customer ID format');
+            throw new ValidationError('Invalid customer ID format', 'id', id);
         }
 
         const existingCustomer = await this.databaseService.getCustomerById(id);
@@ -118,10 +121,13 @@ export class CustomerService {
                 if (emailCheck && emailCheck.customers && emailCheck.customers.length > 0) {
                     const existingEmailCustomer = emailCheck.customers[0];
                     if (existingEmailCustomer && existingEmailCustomer.id !== id) {
-                        throw new Error(`Customer with email ${updates.email} already exists`);
+                        throw new ConflictError(`Customer with email ${updates.email} already exists`, { email: updates.email });
                     }
                 }
             } catch (emailCheckError) {
+                if (emailCheckError instanceof ConflictError) {
+                    throw emailCheckError;
+                }
                 logger.error('Error checking email uniqueness:', emailCheckError);
                 throw new Error('Unable to validate email uniqueness');
             }
@@ -147,7 +153,7 @@ export class CustomerService {
     public async deleteCustomer(id: string): Promise<boolean> {
         try {
             if (!id || !this.isValidUuid(id)) {
-                throw new Error('Invalid customer ID format');
+                throw new ValidationError('Invalid customer ID format', 'id', id);
             }
 
             const existingCustomer = await this.databaseService.getCustomerById(id);
@@ -1,20 +1,56 @@
 // engine/services/database.service.ts - Complete Fixed Implementation
+import { AsyncLocalStorage } from 'async_hooks';
 import { Pool, PoolClient } from 'pg';
 import { logger } from '../../utils/logger';
+import { config } from '../../config/config';
 import {
     Customer,
     CustomerItem,
     CreateCustomerRequest,
     UpdateCustomerRequest,
     CreateCustomerItemRequest,
-    UpdateCustomerItemRequest
+    UpdateCustomerItemRequest,
+    ItemAttributes
 } from '../../types';
 
+// Updatable customer fields and their columns
+const CUSTOMER_UPDATE_COLUMNS: Record<keyof UpdateCustomerRequest, string> = {
+    name: 'name',
+    email: 'email',
+    phone: 'phone',
+    address: 'address',
+    status: 'status',
+    taxExempt: 'tax_exempt'
+};
+
+// Updatable item fields and their columns; anything else in an update payload is ignored
+const ITEM_UPDATE_COLUMNS: Record<keyof UpdateCustomerItemRequest, string> = {
+    name: 'name',
+    description: 'description',
+    price: 'price',
+    quantity: 'quantity',
+    category: 'category',
+    status: 'status',
+    minStockLevel: 'min_stock_level',
+    weight: 'weight',
+    sku: 'sku',
+    categoryId: 'category_id',
+    attributes: 'attributes',
+    priceOverride: 'price_override'
+};
+
 export class DatabaseService {
     private pool: Pool;
     private connected: boolean = false;
+    // Client of the transaction the current async call chain is running in, if any
+    private transactionContext = new AsyncLocalStorage<PoolClient>();
+
+    // A schema other than the default is used by the event replayer to build fresh projections
+    constructor(schema?: string) {
+        if (schema && !/^[a-z_][a-z0-9_]*$/.test(schema)) {
+            throw new Error(`Invalid schema name: ${schema}`);
+        }
 
-    constructor() {
         this.pool = new Pool({
             host: process.env.DB_HOST || 'localhost',
             port: parseInt(process.env.DB_PORT || '5432'),
@@ -24,6 +60,7 @@ export class DatabaseService {
             max: parseInt(process.env.DB_MAX_CONNECTIONS || '20'),
             idleTimeoutMillis: 30000,
             connectionTimeoutMillis: 2000,
+            ...(schema && { options: `-c search_path=${schema},public` }),
         });
     }
 
@@ -58,7 +95,33 @@ export class DatabaseService {
                            'taxAmount', oi.tax_amount,
                            'sku', oi.sku
                        )
-                   ) as items
+                   ) as items,
+                   (
+                       SELECT json_agg(json_build_object(
+                           'id', od.id,
+                           'discountCodeId', od.discount_code_id,
+                           'discountCode', od.discount_code,
+                           'discountType', od.discount_type,
+                           'discountValue', od.discount_value,
+                           'appliedAmount', od.applied_amount,
+                           'description', od.description
+                       ))
+                       FROM order_discounts od
+                       WHERE od.order_id = o.id
+                   ) as discounts,
+                   (
+                       SELECT json_agg(json_build_object(
+                           'id', ot.id,
+                           'taxRuleId', ot.tax_rule_id,
+                           'taxType', ot.tax_type,
+                           'jurisdiction', ot.jurisdiction,
+                           'taxRate', ot.tax_rate,
+                           'taxableAmount', ot.taxable_amount,
+                           'taxAmount', ot.tax_amount
+                       ))
+                       FROM order_taxes ot
+                       WHERE ot.order_id = o.id
+                   ) as taxes
             FROM orders o
             LEFT JOIN order_items oi ON o.id = oi.order_id
             WHERE o.id = $1
@@ -85,9 +148,14 @@ export class DatabaseService {
                 discount: parseFloat(row.discount || 0),
                 taxAmount: parseFloat(row.tax_amount || 0),
                 shippingCost: parseFloat(row.shipping_cost || 0),
+                shippingRateId: row.shipping_rate_id || null,
+                shippingCarrier: row.shipping_carrier || null,
+                shippingServiceLevel: row.shipping_service_level || null,
                 orderNumber: row.order_number,
                 priority: row.priority,
                 items: row.items || [],
+                discounts: row.discounts || [],
+                taxes: row.taxes || [],
                 createdAt: new Date(row.created_at),
                 updatedAt: new Date(row.updated_at)
             };
@@ -251,6 +319,66 @@ export class DatabaseService {
                 )
             `);
 
+            // Stock held by pending orders; available stock is quantity - reserved_quantity
+            await client.query(`
+                ALTER TABLE customer_items
+                ADD COLUMN IF NOT EXISTS reserved_quantity INTEGER NOT NULL DEFAULT 0 CHECK (reserved_quantity >= 0)
+            `);
+
+            await client.query(`
+                ALTER TABLE customer_items
+                ADD COLUMN IF NOT EXISTS sku VARCHAR(100)
+            `);
+
+            await client.query(`
+                CREATE TABLE IF NOT EXISTS categories (
+                    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+                    tenant_id UUID,
+                    parent_id UUID REFERENCES categories(id),
+                    name VARCHAR(100) NOT NULL,
+                    slug VARCHAR(100) NOT NULL,
+                    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+                    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+                )
+            `);
+
+            // category stays as the item's label; category_id places it in the tree
+            await client.query(`
+                ALTER TABLE customer_items
+                ADD COLUMN IF NOT EXISTS category_id UUID REFERENCES categories(id) ON DELETE SET NULL
+            `);
+
+            // Price history per item; customer_items.price is the price in effect now
+            await client.query(`
+                CREATE TABLE IF NOT EXISTS item_prices (
+                    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+                    item_id UUID NOT NULL REFERENCES customer_items(id) ON DELETE CASCADE,
+                    price DECIMAL(10,2) NOT NULL CHECK (price >= 0),
+                    effective_from TIMESTAMP NOT NULL,
+                    effective_to TIMESTAMP,
+                    created_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+                    UNIQUE (item_id, effective_from),
+                    CHECK (effective_to IS NULL OR effective_to > effective_from)
+                )
+            `);
+
+            // Items from before price history start it with their current price
+            await client.query(`
+                INSERT INTO item_prices (item_id, price, effective_from)
+                SELECT ci.id, ci.price, COALESCE(ci.created_at, CURRENT_TIMESTAMP)
+                FROM customer_items ci
+                WHERE NOT EXISTS (SELECT 1 FROM item_prices ip WHERE ip.item_id = ci.id)
+            `);
+
+            // Variants are items under a parent product; price holds the effective price
+            // and price_override what the variant set itself (NULL inherits the parent's)
+            await client.query(`
+                ALTER TABLE customer_items
+                ADD COLUMN IF NOT EXISTS parent_item_id UUID REFERENCES customer_items(id) ON DELETE CASCADE,
+                ADD COLUMN IF NOT EXISTS attributes JSONB NOT NULL DEFAULT '{}',
+                ADD COLUMN IF NOT EXISTS price_override DECIMAL(10,2) CHECK (price_override >= 0)
+            `);
+
             await client.query(`
                 CREATE TABLE IF NOT EXISTS orders (
                     id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
@@ -273,6 +401,12 @@ export class DatabaseService {
                 )
             `);
 
+            // Where the order's shipped stock stands after a cancel, return or failed delivery
+            await client.query(`
+                ALTER TABLE orders
+                ADD COLUMN IF NOT EXISTS restock_status VARCHAR(20)
+            `);
+
             await client.query(`
                 CREATE TABLE IF NOT EXISTS order_items (
                     id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
@@ -290,6 +424,338 @@ export class DatabaseService {
                 )
             `);
 
+            await client.query(`
+                CREATE TABLE IF NOT EXISTS processed_events (
+                    event_id VARCHAR(255) PRIMARY KEY,
+                    event_type VARCHAR(100) NOT NULL,
+                    topic VARCHAR(255) NOT NULL,
+                    processed_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP
+                )
+            `);
+
+            await client.query(`
+                CREATE TABLE IF NOT EXISTS dead_letter_events (
+                    id UUID PRIMARY KEY,
+                    event_id VARCHAR(255) NOT NULL,
+                    event_type VARCHAR(100) NOT NULL,
+                    source_topic VARCHAR(255) NOT NULL,
+                    payload JSONB NOT NULL,
+                    error TEXT,
+                    retry_count INTEGER NOT NULL DEFAULT 0,
+                    retryable BOOLEAN NOT NULL DEFAULT false,
+                    status VARCHAR(20) NOT NULL DEFAULT 'PENDING',
+                    failed_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+                    resolved_at TIMESTAMP,
+                    resolved_by VARCHAR(255)
+                )
+            `);
+
+            await client.query(`
+                CREATE TABLE IF NOT EXISTS event_store (
+                    sequence BIGSERIAL PRIMARY KEY,
+                    event_id VARCHAR(255) NOT NULL UNIQUE,
+                    event_type VARCHAR(100) NOT NULL,
+                    aggregate_type VARCHAR(20) NOT NULL,
+                    aggregate_id VARCHAR(255) NOT NULL,
+                    version INTEGER NOT NULL,
+                    tenant_id VARCHAR(255),
+                    topic VARCHAR(255) NOT NULL,
+                    payload JSONB NOT NULL,
+                    recorded_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+                    UNIQUE (aggregate_type, aggregate_id, version)
+                )
+            `);
+
+            await client.query(`
+                CREATE TABLE IF NOT EXISTS outbox (
+                    id BIGSERIAL PRIMARY KEY,
+                    event_id VARCHAR(255) NOT NULL,
+                    topic VARCHAR(255) NOT NULL,
+                    payload JSONB NOT NULL,
+                    status VARCHAR(20) NOT NULL DEFAULT 'PENDING',
+                    attempts INTEGER NOT NULL DEFAULT 0,
+                    last_error TEXT,
+                    created_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+                    sent_at TIMESTAMP
+                )
+            `);
+
+            await client.query(`
+                CREATE TABLE IF NOT EXISTS event_retries (
+                    id BIGSERIAL PRIMARY KEY,
+                    event_id VARCHAR(255) NOT NULL,
+                    topic VARCHAR(255) NOT NULL,
+                    ordering_key VARCHAR(255) NOT NULL,
+                    payload JSONB NOT NULL,
+                    retry_count INTEGER NOT NULL DEFAULT 0,
+                    next_attempt_at TIMESTAMP NOT NULL,
+                    last_error TEXT,
+                    created_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP
+                )
+            `);
+
+            await client.query(`
+                CREATE TABLE IF NOT EXISTS stock_movements (
+                    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+                    item_id UUID NOT NULL REFERENCES customer_items(id) ON DELETE CASCADE,
+                    delta INTEGER NOT NULL,
+                    quantity_after INTEGER NOT NULL,
+                    reason VARCHAR(30) NOT NULL,
+                    reference_id VARCHAR(255),
+                    user_id VARCHAR(255),
+                    tenant_id VARCHAR(255),
+                    created_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP
+                )
+            `);
+
+            await client.query(`
+                CREATE TABLE IF NOT EXISTS inventory_reservations (
+                    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+                    order_id UUID NOT NULL REFERENCES orders(id) ON DELETE CASCADE,
+                    item_id UUID NOT NULL REFERENCES customer_items(id) ON DELETE CASCADE,
+                    quantity INTEGER NOT NULL CHECK (quantity > 0),
+                    status VARCHAR(20) NOT NULL DEFAULT 'HELD',
+                    expires_at TIMESTAMP NOT NULL,
+                    reason TEXT,
+                    created_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+                    updated_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+                    UNIQUE (order_id, item_id)
+                )
+            `);
+
+            await client.query(`
+                CREATE TABLE IF NOT EXISTS warehouses (
+                    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+                    code VARCHAR(50) UNIQUE NOT NULL,
+                    name VARCHAR(200) NOT NULL,
+                    address TEXT,
+                    priority INTEGER NOT NULL DEFAULT 100,
+                    status VARCHAR(20) NOT NULL DEFAULT 'ACTIVE',
+                    created_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+                    updated_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP
+                )
+            `);
+
+            // Per-location split of customer_items.quantity and reserved_quantity
+            await client.query(`
+                CREATE TABLE IF NOT EXISTS warehouse_stock (
+                    item_id UUID NOT NULL REFERENCES customer_items(id) ON DELETE CASCADE,
+                    warehouse_id UUID NOT NULL REFERENCES warehouses(id),
+                    quantity INTEGER NOT NULL DEFAULT 0 CHECK (quantity >= 0),
+                    reserved_quantity INTEGER NOT NULL DEFAULT 0 CHECK (reserved_quantity >= 0),
+                    updated_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+                    PRIMARY KEY (item_id, warehouse_id)
+                )
+            `);
+
+            await client.query(`
+                ALTER TABLE order_items
+                ADD COLUMN IF NOT EXISTS warehouse_id UUID REFERENCES warehouses(id)
+            `);
+
+            await client.query(`
+                ALTER TABLE order_items
+                ADD COLUMN IF NOT EXISTS attributes JSONB
+            `);
+
+            await client.query(`
+                ALTER TABLE inventory_reservations
+                ADD COLUMN IF NOT EXISTS warehouse_id UUID REFERENCES warehouses(id)
+            `);
+
+            await client.query(`
+                ALTER TABLE stock_movements
+                ADD COLUMN IF NOT EXISTS warehouse_id UUID
+            `);
+
+            // One row per authorization; orders.payment_status is derived from them
+            await client.query(`
+                CREATE TABLE IF NOT EXISTS order_payments (
+                    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+                    order_id UUID NOT NULL REFERENCES orders(id) ON DELETE CASCADE,
+                    amount DECIMAL(12,2) NOT NULL CHECK (amount > 0),
+                    captured_amount DECIMAL(12,2) NOT NULL DEFAULT 0 CHECK (captured_amount >= 0),
+                    refund_amount DECIMAL(12,2) NOT NULL DEFAULT 0 CHECK (refund_amount >= 0),
+                    payment_method VARCHAR(30) NOT NULL,
+                    payment_status VARCHAR(20) NOT NULL,
+                    gateway VARCHAR(50) NOT NULL,
+                    transaction_id VARCHAR(255),
+                    failure_reason TEXT,
+                    processed_at TIMESTAMP,
+                    refunded_at TIMESTAMP,
+                    created_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+                    updated_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+                    CHECK (captured_amount <= amount),
+                    CHECK (refund_amount <= captured_amount)
+                )
+            `);
+
+            // Shipments may split an order; shipped quantities per item never exceed what it ordered
+            await client.query(`
+                CREATE TABLE IF NOT EXISTS order_shipments (
+                    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+                    order_id UUID NOT NULL REFERENCES orders(id) ON DELETE CASCADE,
+                    carrier VARCHAR(100) NOT NULL,
+                    tracking_number VARCHAR(100) NOT NULL,
+                    status VARCHAR(30) NOT NULL DEFAULT 'PENDING',
+                    shipped_date TIMESTAMP,
+                    estimated_delivery TIMESTAMP,
+                    actual_delivery TIMESTAMP,
+                    shipping_cost DECIMAL(10,2) NOT NULL DEFAULT 0 CHECK (shipping_cost >= 0),
+                    shipping_address JSONB,
+                    created_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+                    updated_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP
+                )
+            `);
+
+            await client.query(`
+                CREATE TABLE IF NOT EXISTS order_shipment_items (
+                    shipment_id UUID NOT NULL REFERENCES order_shipments(id) ON DELETE CASCADE,
+                    item_id UUID NOT NULL REFERENCES customer_items(id) ON DELETE CASCADE,
+                    quantity INTEGER NOT NULL CHECK (quantity > 0),
+                    PRIMARY KEY (shipment_id, item_id)
+                )
+            `);
+
+            await client.query(`
+                CREATE TABLE IF NOT EXISTS shipment_tracking_events (
+                    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+                    shipment_id UUID NOT NULL REFERENCES order_shipments(id) ON DELETE CASCADE,
+                    status VARCHAR(30) NOT NULL,
+                    location TEXT,
+                    description TEXT,
+                    occurred_at TIMESTAMP NOT NULL,
+                    created_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP
+                )
+            `);
+
+            // Promotion codes per tenant; codes are stored upper-case and matched case-insensitively
+            await client.query(`
+                CREATE TABLE IF NOT EXISTS discount_codes (
+                    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+                    tenant_id UUID,
+                    code VARCHAR(50) NOT NULL,
+                    description TEXT,
+                    discount_type VARCHAR(20) NOT NULL,
+                    discount_value DECIMAL(10,2) NOT NULL DEFAULT 0 CHECK (discount_value >= 0),
+                    valid_from TIMESTAMP,
+                    valid_until TIMESTAMP,
+                    usage_limit INTEGER CHECK (usage_limit > 0),
+                    per_customer_limit INTEGER CHECK (per_customer_limit > 0),
+                    min_order_value DECIMAL(10,2) NOT NULL DEFAULT 0 CHECK (min_order_value >= 0),
+                    eligible_customer_ids UUID[] NOT NULL DEFAULT '{}',
+                    is_active BOOLEAN NOT NULL DEFAULT true,
+                    created_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+                    updated_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+                    CHECK (valid_until IS NULL OR valid_from IS NULL OR valid_until > valid_from)
+                )
+            `);
+
+            // Discounts applied to orders; rows outlive the code they came from
+            await client.query(`
+                CREATE TABLE IF NOT EXISTS order_discounts (
+                    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+                    order_id UUID NOT NULL REFERENCES orders(id) ON DELETE CASCADE,
+                    discount_code_id UUID REFERENCES discount_codes(id) ON DELETE SET NULL,
+                    discount_code VARCHAR(50) NOT NULL,
+                    discount_type VARCHAR(20) NOT NULL,
+                    discount_value DECIMAL(10,2) NOT NULL,
+                    applied_amount DECIMAL(10,2) NOT NULL CHECK (applied_amount >= 0),
+                    description TEXT NOT NULL,
+                    created_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP
+                )
+            `);
+
+            await client.query(`
+                ALTER TABLE customers
+                ADD COLUMN IF NOT EXISTS tax_exempt BOOLEAN NOT NULL DEFAULT false
+            `);
+
+            await client.query(`
+                CREATE TABLE IF NOT EXISTS tax_rules (
+                    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+                    tenant_id UUID,
+                    name VARCHAR(100) NOT NULL,
+                    tax_type VARCHAR(50) NOT NULL,
+                    jurisdiction VARCHAR(50),
+                    category_id UUID REFERENCES categories(id) ON DELETE CASCADE,
+                    rate DECIMAL(6,3) NOT NULL CHECK (rate >= 0 AND rate <= 100),
+                    is_active BOOLEAN NOT NULL DEFAULT true,
+                    created_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+                    updated_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP
+                )
+            `);
+
+            // Tax charged per order and rule; orders.tax_amount is their sum
+            await client.query(`
+                CREATE TABLE IF NOT EXISTS order_taxes (
+                    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+                    order_id UUID NOT NULL REFERENCES orders(id) ON DELETE CASCADE,
+                    tax_rule_id UUID REFERENCES tax_rules(id) ON DELETE SET NULL,
+                    tax_type VARCHAR(50) NOT NULL,
+                    jurisdiction VARCHAR(50),
+                    tax_rate DECIMAL(6,3) NOT NULL,
+                    taxable_amount DECIMAL(12,2) NOT NULL,
+                    tax_amount DECIMAL(12,2) NOT NULL,
+                    created_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP
+                )
+            `);
+
+            await client.query(`
+                ALTER TABLE customer_items
+                ADD COLUMN IF NOT EXISTS weight DECIMAL(10,3) CHECK (weight >= 0)
+            `);
+
+            await client.query(`
+                CREATE TABLE IF NOT EXISTS shipping_rates (
+                    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+                    tenant_id UUID,
+                    name VARCHAR(100) NOT NULL,
+                    carrier VARCHAR(100),
+                    zone VARCHAR(50),
+                    service_level VARCHAR(20) NOT NULL DEFAULT 'STANDARD',
+                    basis VARCHAR(20) NOT NULL,
+                    min_value DECIMAL(12,3) NOT NULL DEFAULT 0 CHECK (min_value >= 0),
+                    max_value DECIMAL(12,3),
+                    base_cost DECIMAL(10,2) NOT NULL CHECK (base_cost >= 0),
+                    per_unit_cost DECIMAL(10,2) NOT NULL DEFAULT 0 CHECK (per_unit_cost >= 0),
+                    free_shipping_threshold DECIMAL(12,2),
+                    is_active BOOLEAN NOT NULL DEFAULT true,
+                    created_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+                    updated_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+                    CHECK (max_value IS NULL OR max_value > min_value)
+                )
+            `);
+
+            // The rate, carrier and service level an order's shipping was quoted from
+            await client.query(`
+                ALTER TABLE orders
+                ADD COLUMN IF NOT EXISTS shipping_rate_id UUID REFERENCES shipping_rates(id) ON DELETE SET NULL,
+                ADD COLUMN IF NOT EXISTS shipping_carrier VARCHAR(100),
+                ADD COLUMN IF NOT EXISTS shipping_service_level VARCHAR(20)
+            `);
+
+            // Stock from before warehouses existed lives in the default warehouse
+            await client.query(`
+                INSERT INTO warehouses (code, name, priority)
+                VALUES ($1, 'Default warehouse', 100)
+                ON CONFLICT (code) DO NOTHING
+            `, [config.inventory.defaultWarehouseCode]);
+
+            await client.query(`
+                INSERT INTO warehouse_stock (item_id, warehouse_id, quantity, reserved_quantity)
+                SELECT ci.id, w.id, ci.quantity, ci.reserved_quantity
+                FROM customer_items ci
+                JOIN warehouses w ON w.code = $1
+                WHERE NOT EXISTS (SELECT 1 FROM warehouse_stock ws WHERE ws.item_id = ci.id)
+            `, [config.inventory.defaultWarehouseCode]);
+
+            await client.query(`
+                UPDATE inventory_reservations
+                SET warehouse_id = (SELECT id FROM warehouses WHERE code = $1)
+                WHERE warehouse_id IS NULL
+            `, [config.inventory.defaultWarehouseCode]);
+
             await client.query('COMMIT');
             logger.info('Database tables created successfully');
 
@@ -357,11 +823,53 @@ export class DatabaseService {
                 ON customer_items (quantity) WHERE quantity <= 10 AND status = 'ACTIVE'
             `);
 
+            await client.query(`
+                CREATE INDEX CONCURRENTLY IF NOT EXISTS idx_customer_items_below_min_stock 
+                ON customer_items (customer_id) WHERE quantity <= COALESCE(min_stock_level, 0) AND status = 'ACTIVE'
+            `);
+
             await client.query(`
                 CREATE INDEX CONCURRENTLY IF NOT EXISTS idx_customer_items_tenant_customer 
                 ON customer_items (tenant_id, customer_id) WHERE tenant_id IS NOT NULL
             `);
 
+            await client.query(`
+                CREATE INDEX CONCURRENTLY IF NOT EXISTS idx_customer_items_parent 
+                ON customer_items (parent_item_id) WHERE parent_item_id IS NOT NULL
+            `);
+
+            // One variant per attribute combination under a parent
+            await client.query(`
+                CREATE UNIQUE INDEX CONCURRENTLY IF NOT EXISTS idx_customer_items_variant_attributes 
+                ON customer_items (parent_item_id, attributes) WHERE parent_item_id IS NOT NULL
+            `);
+
+            await client.query(`
+                CREATE INDEX CONCURRENTLY IF NOT EXISTS idx_customer_items_attributes 
+                ON customer_items USING gin (attributes jsonb_path_ops) WHERE parent_item_id IS NOT NULL
+            `);
+
+            await client.query(`
+                CREATE UNIQUE INDEX CONCURRENTLY IF NOT EXISTS idx_categories_tenant_slug 
+                ON categories ((COALESCE(tenant_id::text, '')), slug)
+            `);
+
+            await client.query(`
+                CREATE INDEX CONCURRENTLY IF NOT EXISTS idx_categories_parent 
+                ON categories (parent_id)
+            `);
+
+            await client.query(`
+                CREATE INDEX CONCURRENTLY IF NOT EXISTS idx_customer_items_category_id 
+                ON customer_items (category_id) WHERE category_id IS NOT NULL
+            `);
+
+            // SKUs are unique per tenant; items without a tenant share one namespace
+            await client.query(`
+                CREATE UNIQUE INDEX CONCURRENTLY IF NOT EXISTS idx_customer_items_tenant_sku 
+                ON customer_items ((COALESCE(tenant_id::text, '')), sku) WHERE sku IS NOT NULL
+            `);
+
             await client.query(`
                 CREATE INDEX CONCURRENTLY IF NOT EXISTS idx_orders_customer_id 
                 ON orders (customer_id)
@@ -412,6 +920,56 @@ export class DatabaseService {
                 ON order_items (order_id, item_id)
             `);
 
+            await client.query(`
+                CREATE INDEX CONCURRENTLY IF NOT EXISTS idx_order_payments_order_id 
+                ON order_payments (order_id, created_at)
+            `);
+
+            await client.query(`
+                CREATE UNIQUE INDEX CONCURRENTLY IF NOT EXISTS idx_order_shipments_carrier_tracking 
+                ON order_shipments (carrier, tracking_number)
+            `);
+
+            await client.query(`
+                CREATE INDEX CONCURRENTLY IF NOT EXISTS idx_order_shipments_order_id 
+                ON order_shipments (order_id, created_at)
+            `);
+
+            await client.query(`
+                CREATE INDEX CONCURRENTLY IF NOT EXISTS idx_shipment_tracking_events_shipment 
+                ON shipment_tracking_events (shipment_id, occurred_at)
+            `);
+
+            await client.query(`
+                CREATE UNIQUE INDEX CONCURRENTLY IF NOT EXISTS idx_discount_codes_tenant_code 
+                ON discount_codes ((COALESCE(tenant_id::text, '')), code)
+            `);
+
+            await client.query(`
+                CREATE INDEX CONCURRENTLY IF NOT EXISTS idx_order_discounts_order_id 
+                ON order_discounts (order_id)
+            `);
+
+            await client.query(`
+                CREATE INDEX CONCURRENTLY IF NOT EXISTS idx_order_discounts_code 
+                ON order_discounts (discount_code_id)
+            `);
+
+            await client.query(`
+                CREATE INDEX CONCURRENTLY IF NOT EXISTS idx_tax_rules_tenant 
+                ON tax_rules ((COALESCE(tenant_id::text, ''))) WHERE is_active
+            `);
+
+            await client.query(`
+                CREATE INDEX CONCURRENTLY IF NOT EXISTS idx_order_taxes_order_id 
+                ON order_taxes (order_id)
+            `);
+
+            await client.query(`
+                CREATE INDEX CONCURRENTLY IF NOT EXISTS idx_shipping_rates_tenant 
+                ON shipping_rates ((COALESCE(tenant_id::text, ''))) WHERE is_active
+            `);
+
             await client.query(`
                 CREATE INDEX CONCURRENTLY IF NOT EXISTS idx_items_customer_category_price 
                 ON customer_items (customer_id, category, price) WHERE status = 'ACTIVE'
@@ -422,6 +980,56 @@ export class DatabaseService {
                 ON orders (customer_id, order_date DESC, status)
             `);
 
+            await client.query(`
+                CREATE INDEX CONCURRENTLY IF NOT EXISTS idx_processed_events_processed_at 
+                ON processed_events (processed_at)
+            `);
+
+            await client.query(`
+                CREATE INDEX CONCURRENTLY IF NOT EXISTS idx_dead_letter_events_status_failed_at 
+                ON dead_letter_events (status, failed_at DESC)
+            `);
+
+            await client.query(`
+                CREATE INDEX CONCURRENTLY IF NOT EXISTS idx_event_store_topic_sequence 
+                ON event_store (topic, sequence)
+            `);
+
+            await client.query(`
+                CREATE INDEX CONCURRENTLY IF NOT EXISTS idx_outbox_pending 
+                ON outbox (id) WHERE status = 'PENDING'
+            `);
+
+            await client.query(`
+                CREATE INDEX CONCURRENTLY IF NOT EXISTS idx_outbox_sent_at 
+                ON outbox (sent_at) WHERE status = 'SENT'
+            `);
+
+            await client.query(`
+                CREATE INDEX CONCURRENTLY IF NOT EXISTS idx_event_retries_ordering_key 
+                ON event_retries (ordering_key, id)
+            `);
+
+            await client.query(`
+                CREATE INDEX CONCURRENTLY IF NOT EXISTS idx_stock_movements_item_created 
+                ON stock_movements (item_id, created_at DESC)
+            `);
+
+            await client.query(`
+                CREATE INDEX CONCURRENTLY IF NOT EXISTS idx_inventory_reservations_held_expiry 
+                ON inventory_reservations (expires_at) WHERE status = 'HELD'
+            `);
+
+            await client.query(`
+                CREATE INDEX CONCURRENTLY IF NOT EXISTS idx_inventory_reservations_item 
+                ON inventory_reservations (item_id, status)
+            `);
+
+            await client.query(`
+                CREATE INDEX CONCURRENTLY IF NOT EXISTS idx_warehouse_stock_warehouse 
+                ON warehouse_stock (warehouse_id)
+            `);
+
             logger.info('Database indexes created successfully');
 
         } catch (error) {
@@ -489,8 +1097,8 @@ export class DatabaseService {
 
     public async createCustomer(customer: Customer): Promise<Customer> {
         const query = `
-            INSERT INTO customers (id, name, email, phone, address, tenant_id, status, created_at, updated_at)
-            VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)
+            INSERT INTO customers (id, name, email, phone, address, tenant_id, status, tax_exempt, created_at, updated_at)
+            VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)
             RETURNING *
         `;
         const values = [
@@ -501,6 +1109,7 @@ export class DatabaseService {
             customer.address,
             customer.tenantId,
             customer.status,
+            customer.taxExempt === true,
             customer.createdAt,
             customer.updatedAt
         ];
@@ -515,6 +1124,7 @@ export class DatabaseService {
             phone: row.phone,
             address: row.address,
             status: row.status,
+            taxExempt: row.tax_exempt === true,
             createdAt: new Date(row.created_at),
             updatedAt: new Date(row.updated_at),
             tenantId: row.tenant_id
@@ -538,6 +1148,7 @@ export class DatabaseService {
                 phone: row.phone || null,
                 address: row.address || null,
                 status: row.status || 'ACTIVE',
+                taxExempt: row.tax_exempt === true,
                 createdAt: new Date(row.created_at),
                 updatedAt: new Date(row.updated_at),
                 tenantId: row.tenant_id || null
@@ -588,6 +1199,7 @@ export class DatabaseService {
                     phone: row.phone,
                     address: row.address,
                     status: row.status,
+                    taxExempt: row.tax_exempt === true,
                     createdAt: new Date(row.created_at),
                     updatedAt: new Date(row.updated_at),
                     tenantId: row.tenant_id
@@ -601,13 +1213,14 @@ export class DatabaseService {
     }
 
     public async updateCustomer(id: string, updates: UpdateCustomerRequest): Promise<Customer | null> {
-        const fields = Object.keys(updates).filter(key => updates[key as keyof UpdateCustomerRequest] !== undefined);
+        const fields = (Object.keys(updates) as (keyof UpdateCustomerRequest)[])
+            .filter(key => key in CUSTOMER_UPDATE_COLUMNS && updates[key] !== undefined);
 
         if (fields.length === 0) {
             return await this.getCustomerById(id);
         }
 
-        const setClause = fields.map((key, index) => `${key} = $${index + 2}`).join(', ');
+        const setClause = fields.map((key, index) => `${CUSTOMER_UPDATE_COLUMNS[key]} = $${index + 2}`).join(', ');
 
         const query = `
             UPDATE customers 
@@ -616,7 +1229,7 @@ export class DatabaseService {
             RETURNING *
         `;
 
-        const values = [id, ...fields.map(key => updates[key as keyof UpdateCustomerRequest])];
+        const values = [id, ...fields.map(key => updates[key])];
         const result = await this.executeQuery<any>(query, values);
 
         if (!result || !result.rows || result.rows.length === 0) {
@@ -631,6 +1244,7 @@ export class DatabaseService {
             phone: row.phone,
             address: row.address,
             status: row.status,
+            taxExempt: row.tax_exempt === true,
             createdAt: new Date(row.created_at),
             updatedAt: new Date(row.updated_at),
             tenantId: row.tenant_id
@@ -647,9 +1261,10 @@ export class DatabaseService {
         const query = `
             INSERT INTO customer_items (
                 id, customer_id, name, description, price, quantity, category, 
-                tenant_id, status, min_stock_level, created_at, updated_at
+                tenant_id, status, min_stock_level, sku, parent_item_id, attributes, price_override,
+                category_id, weight, created_at, updated_at
             )
-            VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12)
+            VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17, $18)
             RETURNING *
         `;
         const values = [
@@ -663,6 +1278,12 @@ export class DatabaseService {
             item.tenantId,
             item.status,
             item.minStockLevel,
+            item.sku || null,
+            item.parentItemId || null,
+            item.attributes || {},
+            item.priceOverride ?? null,
+            item.categoryId || null,
+            item.weight ?? null,
             item.createdAt,
             item.updatedAt
         ];
@@ -689,18 +1310,51 @@ export class DatabaseService {
         }
     }
 
+    public async getCustomerItemBySku(sku: string, tenantId: string | null): Promise<CustomerItem | null> {
+        const query = `
+            SELECT * FROM customer_items
+            WHERE sku = $1 AND COALESCE(tenant_id::text, '') = COALESCE($2, '')
+        `;
+        const result = await this.executeQuery<any>(query, [sku, tenantId]);
+        return result.rows[0] ? this.mapRowToCustomerItem(result.rows[0]) : null;
+    }
+
+    // Every active top-level item of a customer, oldest first, for CSV export
+    public async getAllCustomerItems(customerId: string): Promise<CustomerItem[]> {
+        const result = await this.executeQuery<any>(`
+            SELECT * FROM customer_items
+            WHERE customer_id = $1 AND status = 'ACTIVE' AND parent_item_id IS NULL
+            ORDER BY created_at, id
+        `, [customerId]);
+
+        return result.rows.map(row => this.mapRowToCustomerItem(row));
+    }
+
+    // Top-level items only; variants are listed under their parent (see getItemVariants)
     public async getCustomerItems(
         customerId: string, 
         page: number = 1,
         limit: number = 10,
         category?: string,
-        search?: string
+        search?: string,
+        attributes?: ItemAttributes,
+        categoryIds?: string[]
     ): Promise<{ items: CustomerItem[]; total: number }> {
         const offset = (page - 1) * limit;
-        let query = 'SELECT * FROM customer_items WHERE customer_id = $1 AND status = $2';
-        let countQuery = 'SELECT COUNT(*) FROM customer_items WHERE customer_id = $1 AND status = $2';
+        let query = 'SELECT * FROM customer_items WHERE customer_id = $1 AND status = $2 AND parent_item_id IS NULL';
+        let countQuery = 'SELECT COUNT(*) FROM customer_items WHERE customer_id = $1 AND status = $2 AND parent_item_id IS NULL';
         const params: any[] = [customerId, 'ACTIVE'];
 
+        if (attributes) {
+            const condition = ` AND EXISTS (
+                SELECT 1 FROM customer_items v
+                WHERE v.parent_item_id = customer_items.id AND v.status = 'ACTIVE' AND v.attributes @> $${params.length + 1}
+            )`;
+            query += condition;
+            countQuery += condition;
+            params.push(attributes);
+        }
+
         if (category) {
             query += ' AND category = $' + (params.length + 1);
             countQuery += ' AND category = $' + (params.length + 1);
@@ -713,6 +1367,12 @@ export class DatabaseService {
             params.push(`%${search}%`);
         }
 
+        if (categoryIds) {
+            query += ' AND category_id = ANY($' + (params.length + 1) + ')';
+            countQuery += ' AND category_id = ANY($' + (params.length + 1) + ')';
+            params.push(categoryIds);
+        }
+
         query += ' ORDER BY created_at DESC LIMIT $' + (params.length + 1) + ' OFFSET $' + (params.length + 2);
         const queryParams = [...params, limit, offset];
 
@@ -739,14 +1399,42 @@ export class DatabaseService {
         }
     }
 
+    // Active variants of the given parents, optionally only those having all the given attributes
+    public async getItemVariants(parentIds: string[], attributes?: ItemAttributes): Promise<CustomerItem[]> {
+        if (parentIds.length === 0) {
+            return [];
+        }
+
+        const result = await this.executeQuery<any>(`
+            SELECT * FROM customer_items
+            WHERE parent_item_id = ANY($1) AND status = 'ACTIVE' AND attributes @> $2
+            ORDER BY created_at
+        `, [parentIds, attributes || {}]);
+
+        return result.rows.map(row => this.mapRowToCustomerItem(row));
+    }
+
+    // Variants without their own price follow the parent's; returns the variants that changed
+    public async inheritVariantPrices(parentId: string, price: number): Promise<string[]> {
+        const result = await this.executeQuery<{ id: string }>(`
+            UPDATE customer_items
+            SET price = $2, updated_at = CURRENT_TIMESTAMP
+            WHERE parent_item_id = $1 AND price_override IS NULL
+            RETURNING id
+        `, [parentId, price]);
+
+        return result.rows.map(row => row.id);
+    }
+
     public async updateCustomerItem(id: string, updates: UpdateCustomerItemRequest): Promise<CustomerItem | null> {
-        const fields = Object.keys(updates).filter(key => updates[key as keyof UpdateCustomerItemRequest] !== undefined);
+        const fields = (Object.keys(updates) as (keyof UpdateCustomerItemRequest)[])
+            .filter(key => key in ITEM_UPDATE_COLUMNS && updates[key] !== undefined);
 
         if (fields.length === 0) {
             return await this.getCustomerItemById(id);
         }
 
-        const setClause = fields.map((key, index) => `${key} = $${index + 2}`).join(', ');
+        const setClause = fields.map((key, index) => `${ITEM_UPDATE_COLUMNS[key]} = $${index + 2}`).join(', ');
 
         const query = `
             UPDATE customer_items 
@@ -755,7 +1443,7 @@ export class DatabaseService {
             RETURNING *
         `;
 
-        const values = [id, ...fields.map(key => updates[key as keyof UpdateCustomerItemRequest])];
+        const values = [id, ...fields.map(key => updates[key])];
         const result = await this.executeQuery<any>(query, values);
 
         if (!result || !result.rows || result.rows.length === 0) {
@@ -765,6 +1453,40 @@ export class DatabaseService {
         return this.mapRowToCustomerItem(result.rows[0]);
     }
 
+    /**
+     * Changes stock in a single conditional UPDATE, so concurrent writers can't oversell.
+     * Returns null when the item is missing or the change would eat into reserved stock.
+     */
+    public async adjustCustomerItemQuantity(
+        id: string,
+        quantity: number,
+        operation: 'set' | 'add' | 'subtract'
+    ): Promise<{ item: CustomerItem; previousQuantity: number } | null> {
+        // The locked sub-select hands back the quantity the update started from
+        const query = `
+            UPDATE customer_items ci
+            SET quantity = CASE $3::text
+                    WHEN 'add' THEN ci.quantity + $2
+                    WHEN 'subtract' THEN ci.quantity - $2
+                    ELSE $2
+                END,
+                updated_at = CURRENT_TIMESTAMP
+            FROM (SELECT id, quantity FROM customer_items WHERE id = $1 FOR UPDATE) previous
+            WHERE ci.id = previous.id
+              AND CASE $3::text
+                    WHEN 'add' THEN TRUE
+                    WHEN 'subtract' THEN ci.quantity - ci.reserved_quantity >= $2
+                    ELSE $2 >= ci.reserved_quantity
+                END
+            RETURNING ci.*, previous.quantity AS previous_quantity
+        `;
+
+        const result = await this.executeQuery<any>(query, [id, quantity, operation]);
+        const row = result.rows[0];
+
+        return row ? { item: this.mapRowToCustomerItem(row), previousQuantity: row.previous_quantity } : null;
+    }
+
     public async deleteCustomerItem(id: string): Promise<boolean> {
         const query = 'UPDATE customer_items SET status = $1, updated_at = CURRENT_TIMESTAMP WHERE id = $2';
         const result = await this.executeQuery(query, ['INACTIVE', id]);
@@ -779,9 +1501,19 @@ export class DatabaseService {
             description: row.description,
             price: parseFloat(row.price),
             quantity: row.quantity,
+            reservedQuantity: row.reserved_quantity || 0,
+            availableQuantity: row.quantity - (row.reserved_quantity || 0),
             category: row.category,
             status: row.status,
             minStockLevel: row.min_stock_level,
+            weight: row.weight !== null && row.weight !== undefined ? parseFloat(row.weight) : null,
+            sku: row.sku || undefined,
+            categoryId: row.category_id || null,
+            parentItemId: row.parent_item_id || undefined,
+            attributes: row.attributes || {},
+            priceOverride: row.price_override !== null && row.price_override !== undefined
+                ? parseFloat(row.price_override)
+                : null,
             createdAt: new Date(row.created_at),
             updatedAt: new Date(row.updated_at),
             tenantId: row.tenant_id
@@ -846,6 +1578,7 @@ export class DatabaseService {
                     phone: row.phone,
                     address: row.address,
                     status: row.status,
+                    taxExempt: row.tax_exempt === true,
                     createdAt: new Date(row.created_at),
                     updatedAt: new Date(row.updated_at),
                     tenantId: row.tenant_id
@@ -866,7 +1599,8 @@ export class DatabaseService {
         search?: string,
         lowStock?: boolean,
         page: number = 1,
-        limit: number = 10
+        limit: number = 10,
+        categoryIds?: string[]
     ): Promise<{ items: CustomerItem[]; total: number }> {
         const offset = (page - 1) * limit;
         let query = `
@@ -890,6 +1624,12 @@ export class DatabaseService {
             params.push(category);
         }
 
+        // A managed category with its descendants (see CategoryService.getSubtreeIds)
+        if (categoryIds) {
+            conditions.push(`ci.category_id = ANY($${params.length + 1})`);
+            params.push(categoryIds);
+        }
+
         if (minPrice !== undefined) {
             conditions.push(`ci.price >= $${params.length + 1}`);
             params.push(minPrice);
@@ -901,7 +1641,7 @@ export class DatabaseService {
         }
 
         if (lowStock) {
-            conditions.push(`ci.quantity <= 10`);
+            conditions.push(`ci.quantity <= COALESCE(ci.min_stock_level, 0)`);
         }
 
         if (search) {
@@ -939,6 +1679,38 @@ export class DatabaseService {
         }
     }
 
+    // Active items at or below their own minStockLevel, furthest below it first
+    public async getLowStockItems(
+        customerId?: string,
+        page: number = 1,
+        limit: number = 20
+    ): Promise<{ items: CustomerItem[]; total: number }> {
+        const params: any[] = [];
+        const conditions = [`status = 'ACTIVE'`, 'quantity <= COALESCE(min_stock_level, 0)'];
+
+        if (customerId) {
+            conditions.push(`customer_id = $${params.length + 1}`);
+            params.push(customerId);
+        }
+
+        const whereClause = ' WHERE ' + conditions.join(' AND ');
+        const query = `
+            SELECT * FROM customer_items${whereClause}
+            ORDER BY quantity - COALESCE(min_stock_level, 0), name
+            LIMIT $${params.length + 1} OFFSET $${params.length + 2}
+        `;
+
+        const [itemsResult, countResult] = await Promise.all([
+            this.executeQuery<any>(query, [...params, limit, (page - 1) * limit]),
+            this.executeQuery<{ count: string }>(`SELECT COUNT(*) FROM customer_items${whereClause}`, params)
+        ]);
+
+        return {
+            items: itemsResult.rows.map(row => this.mapRowToCustomerItem(row)),
+            total: parseInt(countResult.rows[0]?.count || '0')
+        };
+    }
+
     public async getOrderAnalytics(
         tenantId?: string,
         startDate?: Date,
@@ -1008,8 +1780,10 @@ export class DatabaseService {
         }
     }
 
+    // Queries issued inside executeTransaction() run on the transaction's client
     public async executeQuery<T = any>(text: string, params?: any[]): Promise<{ rows: T[]; rowCount: number }> {
-        const client = await this.pool.connect();
+        const transactionClient = this.transactionContext.getStore();
+        const client = transactionClient || await this.pool.connect();
         try {
             const result = await client.query(text, params);
             return {
@@ -1020,15 +1794,23 @@ export class DatabaseService {
             logger.error('Database query error:', { query: text, params, error });
             throw error;
         } finally {
-            client.release();
+            if (!transactionClient) {
+                client.release();
+            }
         }
     }
 
+    // Nested calls join the outer transaction instead of opening a second connection
     public async executeTransaction<T>(callback: (client: PoolClient) => Promise<T>): Promise<T> {
+        const activeClient = this.transactionContext.getStore();
+        if (activeClient) {
+            return await callback(activeClient);
+        }
+
         const client = await this.pool.connect();
         try {
             await client.query('BEGIN');
-            const result = await callback(client);
+            const result = await this.transactionContext.run(client, () => callback(client));
             await client.query('COMMIT');
             return result;
         } catch (error) {
@@ -1039,6 +1821,35 @@ export class DatabaseService {
         }
     }
 
+    public async isEventProcessed(eventId: string): Promise<boolean> {
+        const result = await this.executeQuery('SELECT 1 FROM processed_events WHERE event_id = $1', [eventId]);
+        return result.rows.length > 0;
+    }
+
+    // Returns false when the event was already processed (at-least-once redelivery)
+    public async markEventProcessed(eventId: string, eventType: string, topic: string): Promise<boolean> {
+        const query = `
+            INSERT INTO processed_events (event_id, event_type, topic, processed_at)
+            VALUES ($1, $2, $3, CURRENT_TIMESTAMP)
+            ON CONFLICT (event_id) DO NOTHING
+        `;
+        const result = await this.executeQuery(query, [eventId, eventType, topic]);
+        return result.rowCount > 0;
+    }
+
+    // Deletes up to `limit` claims older than `age` ms; returns how many were deleted
+    public async deleteProcessedEventsBefore(age: number, limit: number): Promise<number> {
+        const result = await this.executeQuery(`
+            DELETE FROM processed_events
+            WHERE event_id IN (
+                SELECT event_id FROM processed_events
+                WHERE processed_at < CURRENT_TIMESTAMP - $1 * INTERVAL '1 millisecond'
+                LIMIT $2
+            )
+        `, [age, limit]);
+        return result.rowCount;
+    }
+
     public isConnected(): boolean {
         return this.connected;
     }
@@ -0,0 +1,211 @@
+// engine/services/deadLetter.service.ts
+import { DatabaseService } from './database.service';
+import { KafkaService } from '../../kafka';
+import { logger } from '../../utils/logger';
+import { config } from '../../config/config';
+import { ConflictError, DeadLetterEvent, DeadLetterStatus, KafkaEvent } from '../../types';
+import { v4 as uuidv4 } from 'uuid';
+
+export class DeadLetterService {
+    private kafkaService: KafkaService;
+
+    constructor(private databaseService: DatabaseService) {
+        this.kafkaService = KafkaService.getInstance();
+    }
+
+    // Publishes a failed event to the dead-letter topic; the Engine persists it from there
+    public async sendToDeadLetter(
+        sourceTopic: string,
+        event: KafkaEvent,
+        error: string,
+        retryCount: number,
+        retryable: boolean
+    ): Promise<void> {
+        const deadLetter: DeadLetterEvent = {
+            id: uuidv4(),
+            eventId: event.eventId,
+            eventType: event.eventType,
+            sourceTopic,
+            event,
+            error,
+            retryCount,
+            retryable,
+            status: 'PENDING',
+            failedAt: new Date()
+        };
+
+        await this.kafkaService.publishEvent(config.Kafka.topics.deadLetter, {
+            eventId: deadLetter.id,
+            eventType: 'EVENT_DEAD_LETTERED',
+            aggregateId: event.aggregateId,
+            timestamp: deadLetter.failedAt,
+            data: deadLetter,
+            ...(event.metadata && { metadata: event.metadata })
+        });
+
+        logger.warn(`Event moved to dead-letter topic:`, {
+            eventId: event.eventId,
+            eventType: event.eventType,
+            sourceTopic,
+            retryCount,
+            error
+        });
+    }
+
+    public async recordDeadLetter(deadLetter: DeadLetterEvent): Promise<void> {
+        const query = `
+            INSERT INTO dead_letter_events (
+                id, event_id, event_type, source_topic, payload, error,
+                retry_count, retryable, status, failed_at
+            )
+            VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)
+            ON CONFLICT (id) DO NOTHING
+        `;
+
+        await this.databaseService.executeQuery(query, [
+            deadLetter.id,
+            deadLetter.eventId,
+            deadLetter.eventType,
+            deadLetter.sourceTopic,
+            JSON.stringify(deadLetter.event),
+            deadLetter.error,
+            deadLetter.retryCount,
+            deadLetter.retryable,
+            'PENDING',
+            deadLetter.failedAt
+        ]);
+    }
+
+    public async getDeadLetters(
+        page: number = 1,
+        limit: number = 20,
+        status?: DeadLetterStatus
+    ): Promise<{ deadLetters: DeadLetterEvent[]; total: number }> {
+        if (page < 1) page = 1;
+        if (limit < 1 || limit > 100) limit = 20;
+
+        const offset = (page - 1) * limit;
+        let query = 'SELECT * FROM dead_letter_events';
+        let countQuery = 'SELECT COUNT(*) FROM dead_letter_events';
+        const params: any[] = [];
+
+        if (status) {
+            query += ' WHERE status = $1';
+            countQuery += ' WHERE status = $1';
+            params.push(status);
+        }
+
+        query += ' ORDER BY failed_at DESC LIMIT $' + (params.length + 1) + ' OFFSET $' + (params.length + 2);
+
+        const results = await Promise.all([
+            this.databaseService.executeQuery<any>(query, [...params, limit, offset]),
+            this.databaseService.executeQuery<{ count: string }>(countQuery, params)
+        ]);
+
+        const rows = results[0]?.rows || [];
+        const countRows = results[1]?.rows || [];
+        const total = countRows.length > 0 && countRows[0]?.count ? parseInt(countRows[0].count) : 0;
+
+        return {
+            deadLetters: rows.map(row => this.mapRowToDeadLetter(row)),
+            total
+        };
+    }
+
+    public async getDeadLetterById(id: string): Promise<DeadLetterEvent | null> {
+        const result = await this.databaseService.executeQuery<any>(
+            'SELECT * FROM dead_letter_events WHERE id = $1',
+            [id]
+        );
+
+        if (!result || !result.rows || result.rows.length === 0) {
+            return null;
+        }
+
+        return this.mapRowToDeadLetter(result.rows[0]);
+    }
+
+    // Republishes the original event to its source topic with a fresh retry budget
+    public async requeue(id: string, resolvedBy?: string): Promise<DeadLetterEvent | null> {
+        const deadLetter = await this.getDeadLetterById(id);
+        if (!deadLetter) {
+            return null;
+        }
+
+        if (deadLetter.status !== 'PENDING') {
+            throw new ConflictError(
+                `Dead-lettered event ${id} cannot be requeued from status ${deadLetter.status}`,
+                { status: deadLetter.status }
+            );
+        }
+
+        const event = deadLetter.event;
+        await this.kafkaService.publishEvent(deadLetter.sourceTopic, {
+            ...event,
+            timestamp: new Date(),
+            metadata: {
+                ...event.metadata,
+                retryCount: 0,
+                originalTimestamp: event.metadata?.originalTimestamp || event.timestamp
+            }
+        });
+
+        logger.info(`Dead-lettered event requeued:`, {
+            id,
+            eventId: deadLetter.eventId,
+            sourceTopic: deadLetter.sourceTopic
+        });
+
+        return await this.resolve(id, 'REQUEUED', resolvedBy);
+    }
+
+    public async discard(id: string, resolvedBy?: string): Promise<DeadLetterEvent | null> {
+        const deadLetter = await this.getDeadLetterById(id);
+        if (!deadLetter) {
+            return null;
+        }
+
+        if (deadLetter.status !== 'PENDING') {
+            throw new ConflictError(
+                `Dead-lettered event ${id} cannot be discarded from status ${deadLetter.status}`,
+                { status: deadLetter.status }
+            );
+        }
+
+        logger.info(`Dead-lettered event discarded:`, { id, eventId: deadLetter.eventId });
+
+        return await this.resolve(id, 'DISCARDED', resolvedBy);
+    }
+
+    private async resolve(id: string, status: DeadLetterStatus, resolvedBy?: string): Promise<DeadLetterEvent | null> {
+        const result = await this.databaseService.executeQuery<any>(`
+            UPDATE dead_letter_events
+            SET status = $1, resolved_at = CURRENT_TIMESTAMP, resolved_by = $2
+            WHERE id = $3
+            RETURNING *
+        `, [status, resolvedBy || null, id]);
+
+        if (!result || !result.rows || result.rows.length === 0) {
+            return null;
+        }
+
+        return this.mapRowToDeadLetter(result.rows[0]);
+    }
+
+    private mapRowToDeadLetter(row: any): DeadLetterEvent {
+        return {
+            id: row.id,
+            eventId: row.event_id,
+            eventType: row.event_type,
+            sourceTopic: row.source_topic,
+            event: row.payload,
+            error: row.error,
+            retryCount: row.retry_count,
+            retryable: row.retryable,
+            status: row.status,
+            failedAt: new Date(row.failed_at),
+            resolvedAt: row.resolved_at ? new Date(row.resolved_at) : undefined,
+            resolvedBy: row.resolved_by || undefined
+        };
+    }
+}
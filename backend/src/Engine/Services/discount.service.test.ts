@@ -0,0 +1,136 @@
+// engine/services/discount.service.test.ts
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { DiscountService } from './discount.service';
+import { FakeDatabase } from '../../testing/fakeDatabase';
+import { ConflictError, DiscountContext, DiscountType, OrderItem } from '../../types';
+
+const AT = new Date('2026-03-01T12:00:00Z');
+
+function line(price: number, quantity: number): OrderItem {
+    return {
+        id: `line-${price}-${quantity}`,
+        itemId: 'item-1',
+        name: 'Item',
+        description: null,
+        price,
+        quantity,
+        subtotal: Math.round(price * quantity * 100) / 100,
+        discountAmount: 0,
+        taxAmount: 0,
+        sku: null
+    };
+}
+
+function codeRow(overrides: Record<string, any> = {}): Record<string, any> {
+    return {
+        id: 'code-1',
+        tenant_id: null,
+        code: 'SAVE',
+        description: null,
+        discount_type: DiscountType.PERCENTAGE,
+        discount_value: '10',
+        valid_from: null,
+        valid_until: null,
+        usage_limit: null,
+        per_customer_limit: null,
+        min_order_value: '0',
+        eligible_customer_ids: [],
+        is_active: true,
+        created_at: AT,
+        updated_at: AT,
+        ...overrides
+    };
+}
+
+function setup(row: Record<string, any> | null, usage = { total: '0', customer: '0' }) {
+    const database = new FakeDatabase()
+        .on(/FROM discount_codes/, row ? [row] : [])
+        .on(/FROM order_discounts od/, [usage]);
+    return { database, service: new DiscountService(database.asService()) };
+}
+
+function context(lines: OrderItem[], shippingCost = 5): DiscountContext {
+    return { tenantId: null, customerId: 'customer-1', lines, shippingCost, at: AT };
+}
+
+describe('DiscountService.applyDiscountCode', () => {
+    it('takes a percentage off every line', async () => {
+        const { service } = setup(codeRow({ discount_value: '10' }));
+
+        const application = await service.applyDiscountCode('save', context([line(33.33, 1), line(66.67, 1)]));
+
+        assert.deepEqual(application.lineDiscounts, [3.33, 6.67]);
+        assert.equal(application.shippingDiscount, 0);
+        assert.equal(application.appliedAmount, 10);
+    });
+
+    it('spreads a fixed amount over the lines, the last one taking the rounding', async () => {
+        const { service } = setup(codeRow({ discount_type: DiscountType.FIXED_AMOUNT, discount_value: '10' }));
+
+        const application = await service.applyDiscountCode('SAVE', context([line(10, 1), line(10, 1), line(10, 1)]));
+
+        assert.deepEqual(application.lineDiscounts, [3.33, 3.33, 3.34]);
+        assert.equal(application.appliedAmount, 10);
+    });
+
+    it('never takes more than the subtotal off', async () => {
+        const { service } = setup(codeRow({ discount_type: DiscountType.FIXED_AMOUNT, discount_value: '50' }));
+
+        const application = await service.applyDiscountCode('SAVE', context([line(12.5, 2)]));
+
+        assert.deepEqual(application.lineDiscounts, [25]);
+        assert.equal(application.appliedAmount, 25);
+    });
+
+    it('makes every second unit free for buy one, get one', async () => {
+        const { service } = setup(codeRow({ discount_type: DiscountType.BUY_ONE_GET_ONE, discount_value: '0' }));
+
+        const application = await service.applyDiscountCode('SAVE', context([line(5, 3), line(2.5, 4)]));
+
+        assert.deepEqual(application.lineDiscounts, [5, 5]);
+        assert.equal(application.appliedAmount, 10);
+    });
+
+    it('takes the shipping cost off for free shipping and leaves the lines alone', async () => {
+        const { service } = setup(codeRow({ discount_type: DiscountType.FREE_SHIPPING, discount_value: '0' }));
+
+        const application = await service.applyDiscountCode('SAVE', context([line(20, 1)], 7.5));
+
+        assert.deepEqual(application.lineDiscounts, [0]);
+        assert.equal(application.shippingDiscount, 7.5);
+        assert.equal(application.appliedAmount, 7.5);
+    });
+
+    it('locks the code row while it is applied', async () => {
+        const { database, service } = setup(codeRow());
+
+        await service.applyDiscountCode('save', context([line(10, 1)]));
+
+        const [lookup] = database.find(/FROM discount_codes/);
+        assert.match(lookup!.text, /FOR UPDATE/);
+        assert.equal(lookup!.params[0], 'SAVE');
+    });
+
+    const rejections: [string, Record<string, any> | null, { total: string; customer: string } | undefined, RegExp][] = [
+        ['an unknown code', null, undefined, /is not valid/],
+        ['an inactive code', codeRow({ is_active: false }), undefined, /is not valid/],
+        ['a code before its window', codeRow({ valid_from: new Date('2026-04-01T00:00:00Z') }), undefined, /not valid yet/],
+        ['an expired code', codeRow({ valid_until: AT }), undefined, /has expired/],
+        ['another customer\'s code', codeRow({ eligible_customer_ids: ['customer-2'] }), undefined, /not available/],
+        ['an order below the minimum', codeRow({ min_order_value: '100' }), undefined, /at least 100/],
+        ['a used up code', codeRow({ usage_limit: 3 }), { total: '3', customer: '0' }, /used up/],
+        ['a code the customer already used', codeRow({ per_customer_limit: 1 }), { total: '1', customer: '1' }, /already been used/]
+    ];
+
+    for (const [name, row, usage, message] of rejections) {
+        it(`rejects ${name}`, async () => {
+            const { service } = setup(row, usage);
+
+            await assert.rejects(
+                service.applyDiscountCode('SAVE', context([line(10, 1)])),
+                (error: unknown) => error instanceof ConflictError && message.test(error.message)
+            );
+        });
+    }
+});
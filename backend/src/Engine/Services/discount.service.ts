@@ -0,0 +1,400 @@
+// engine/services/discount.service.ts
+import { DatabaseService } from './database.service';
+import { EventStoreService } from './eventStore.service';
+import { logger } from '../../utils/logger';
+import {
+    ConflictError,
+    CreateDiscountCodeRequest,
+    DiscountApplication,
+    DiscountCode,
+    DiscountContext,
+    DiscountType,
+    OrderDiscount,
+    OrderItem,
+    UpdateDiscountCodeRequest,
+    ValidationError
+} from '../../types';
+import { v4 as uuidv4 } from 'uuid';
+
+const DISCOUNT_CODE_COLUMNS: Record<keyof UpdateDiscountCodeRequest, string> = {
+    code: 'code',
+    description: 'description',
+    discountType: 'discount_type',
+    discountValue: 'discount_value',
+    validFrom: 'valid_from',
+    validUntil: 'valid_until',
+    usageLimit: 'usage_limit',
+    perCustomerLimit: 'per_customer_limit',
+    minOrderValue: 'min_order_value',
+    eligibleCustomerIds: 'eligible_customer_ids',
+    isActive: 'is_active'
+};
+
+// Orders that count against a code's limits
+const USAGE_CONDITION = `o.status <> 'CANCELLED'`;
+
+/**
+ * Per-tenant promotion codes and their application to new orders. A code is
+ * checked and applied under its row lock, so concurrent orders cannot push it
+ * past its usage limits.
+ */
+export class DiscountService {
+    private eventStoreService: EventStoreService;
+
+    constructor(private databaseService: DatabaseService) {
+        this.eventStoreService = new EventStoreService(databaseService);
+    }
+
+    public async createDiscountCode(data: CreateDiscountCodeRequest, tenantId: string | null): Promise<DiscountCode> {
+        try {
+            this.checkDiscountValue(data.discountType, data.discountValue || 0);
+
+            const code = data.code.toUpperCase();
+            const discountCode = await this.databaseService.executeTransaction(async () => {
+                const result = await this.databaseService.executeQuery<any>(`
+                    INSERT INTO discount_codes (
+                        id, tenant_id, code, description, discount_type, discount_value, valid_from, valid_until,
+                        usage_limit, per_customer_limit, min_order_value, eligible_customer_ids, is_active
+                    )
+                    VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13)
+                    ON CONFLICT ((COALESCE(tenant_id::text, '')), code) DO NOTHING
+                    RETURNING *
+                `, [
+                    uuidv4(),
+                    tenantId,
+                    code,
+                    data.description || null,
+                    data.discountType,
+                    data.discountValue || 0,
+                    data.validFrom || null,
+                    data.validUntil || null,
+                    data.usageLimit || null,
+                    data.perCustomerLimit || null,
+                    data.minOrderValue || 0,
+                    data.eligibleCustomerIds || [],
+                    data.isActive ?? true
+                ]);
+
+                if (!result.rows[0]) {
+                    throw new ConflictError(`Discount code ${code} already exists`, { code });
+                }
+
+                await this.eventStoreService.appendReferenceChange('DISCOUNT_CODE', result.rows[0].id, tenantId);
+                return this.mapRowToDiscountCode(result.rows[0]);
+            });
+            logger.info(`Discount code created:`, { discountCodeId: discountCode.id, code, tenantId });
+
+            return discountCode;
+
+        } catch (error) {
+            logger.error('Error creating discount code:', error);
+            throw error;
+        }
+    }
+
+    public async getDiscountCodes(tenantId: string | null): Promise<DiscountCode[]> {
+        const result = await this.databaseService.executeQuery<any>(`
+            SELECT dc.*, (${this.usageQuery('dc')}) AS times_used
+            FROM discount_codes dc
+            WHERE COALESCE(dc.tenant_id::text, '') = COALESCE($1, '')
+            ORDER BY dc.code
+        `, [tenantId]);
+
+        return result.rows.map(row => this.mapRowToDiscountCode(row));
+    }
+
+    public async getDiscountCodeById(id: string, tenantId: string | null): Promise<DiscountCode | null> {
+        const result = await this.databaseService.executeQuery<any>(`
+            SELECT dc.*, (${this.usageQuery('dc')}) AS times_used
+            FROM discount_codes dc
+            WHERE dc.id = $1 AND COALESCE(dc.tenant_id::text, '') = COALESCE($2, '')
+        `, [id, tenantId]);
+
+        return result.rows[0] ? this.mapRowToDiscountCode(result.rows[0]) : null;
+    }
+
+    public async updateDiscountCode(
+        id: string,
+        updates: UpdateDiscountCodeRequest,
+        tenantId: string | null
+    ): Promise<DiscountCode | null> {
+        try {
+            const existing = await this.getDiscountCodeById(id, tenantId);
+            if (!existing) {
+                return null;
+            }
+
+            this.checkDiscountValue(
+                updates.discountType ?? existing.discountType,
+                updates.discountValue ?? existing.discountValue
+            );
+
+            const updateFields: string[] = [];
+            const values: any[] = [id];
+
+            for (const [key, value] of Object.entries(updates)) {
+                const column = DISCOUNT_CODE_COLUMNS[key as keyof UpdateDiscountCodeRequest];
+                if (column && value !== undefined) {
+                    values.push(key === 'code' ? String(value).toUpperCase() : value);
+                    updateFields.push(`${column} = $${values.length}`);
+                }
+            }
+
+            if (updateFields.length === 0) {
+                return existing;
+            }
+
+            await this.databaseService.executeTransaction(async () => {
+                await this.databaseService.executeQuery(`
+                    UPDATE discount_codes
+                    SET ${updateFields.join(', ')}, updated_at = CURRENT_TIMESTAMP
+                    WHERE id = $1
+                `, values);
+                await this.eventStoreService.appendReferenceChange('DISCOUNT_CODE', id, tenantId);
+            });
+
+            logger.info(`Discount code updated:`, { discountCodeId: id, updatedFields: Object.keys(updates) });
+
+            return await this.getDiscountCodeById(id, tenantId);
+
+        } catch (error) {
+            const code = (error as { code?: string })?.code;
+            if (code === '23505') {
+                throw new ConflictError(`Discount code ${updates.code?.toUpperCase()} already exists`, { code: updates.code });
+            }
+            if (code === '23514') {
+                throw new ValidationError('validUntil must be after validFrom', 'validUntil', updates.validUntil);
+            }
+            logger.error('Error updating discount code:', error);
+            throw error;
+        }
+    }
+
+    // Orders keep the discounts they got; their rows just lose the link to the code
+    public async deleteDiscountCode(id: string, tenantId: string | null): Promise<boolean> {
+        const deleted = await this.databaseService.executeTransaction(async () => {
+            const result = await this.databaseService.executeQuery(`
+                DELETE FROM discount_codes
+                WHERE id = $1 AND COALESCE(tenant_id::text, '') = COALESCE($2, '')
+            `, [id, tenantId]);
+
+            if ((result.rowCount ?? 0) === 0) {
+                return false;
+            }
+
+            await this.eventStoreService.appendReferenceChange('DISCOUNT_CODE', id, tenantId);
+            return true;
+        });
+
+        if (deleted) {
+            logger.info(`Discount code deleted:`, { discountCodeId: id, tenantId });
+            return true;
+        }
+        return false;
+    }
+
+    /**
+     * Checks a code against an order being created and works out what it takes off.
+     * Must run inside the order's transaction: the code row stays locked until the
+     * order, and with it the usage, is committed. Throws a ConflictError naming the
+     * reason when the code does not apply.
+     */
+    public async applyDiscountCode(rawCode: string, context: DiscountContext): Promise<DiscountApplication> {
+        const code = rawCode.toUpperCase();
+        const result = await this.databaseService.executeQuery<any>(`
+            SELECT * FROM discount_codes
+            WHERE code = $1 AND COALESCE(tenant_id::text, '') = COALESCE($2, '')
+            FOR UPDATE
+        `, [code, context.tenantId]);
+
+        const discountCode = result.rows[0] ? this.mapRowToDiscountCode(result.rows[0]) : null;
+        if (!discountCode || !discountCode.isActive) {
+            throw new ConflictError(`Discount code ${code} is not valid`, { code });
+        }
+
+        if (discountCode.validFrom && context.at < discountCode.validFrom) {
+            throw new ConflictError(`Discount code ${code} is not valid yet`, { code, validFrom: discountCode.validFrom });
+        }
+        if (discountCode.validUntil && context.at >= discountCode.validUntil) {
+            throw new ConflictError(`Discount code ${code} has expired`, { code, validUntil: discountCode.validUntil });
+        }
+
+        if (discountCode.eligibleCustomerIds.length > 0 && !discountCode.eligibleCustomerIds.includes(context.customerId)) {
+            throw new ConflictError(`Discount code ${code} is not available to this customer`, { code });
+        }
+
+        const subtotal = this.sum(context.lines.map(line => line.subtotal));
+        if (subtotal < discountCode.minOrderValue) {
+            throw new ConflictError(`Discount code ${code} needs an order of at least ${discountCode.minOrderValue}`, {
+                code,
+                minOrderValue: discountCode.minOrderValue,
+                subtotal
+            });
+        }
+
+        const usage = await this.databaseService.executeQuery<{ total: string; customer: string }>(`
+            SELECT COUNT(*) AS total, COUNT(*) FILTER (WHERE o.customer_id = $2) AS customer
+            FROM order_discounts od
+            JOIN orders o ON o.id = od.order_id
+            WHERE od.discount_code_id = $1 AND ${USAGE_CONDITION}
+        `, [discountCode.id, context.customerId]);
+
+        const timesUsed = parseInt(usage.rows[0]?.total || '0');
+        if (discountCode.usageLimit !== null && timesUsed >= discountCode.usageLimit) {
+            throw new ConflictError(`Discount code ${code} has been used up`, { code, usageLimit: discountCode.usageLimit });
+        }
+        if (discountCode.perCustomerLimit !== null && parseInt(usage.rows[0]?.customer || '0') >= discountCode.perCustomerLimit) {
+            throw new ConflictError(`Discount code ${code} has already been used by this customer`, {
+                code,
+                perCustomerLimit: discountCode.perCustomerLimit
+            });
+        }
+
+        const lineDiscounts = this.getLineDiscounts(discountCode, context.lines, subtotal);
+        const shippingDiscount = discountCode.discountType === DiscountType.FREE_SHIPPING ? context.shippingCost : 0;
+
+        return {
+            discountCode: { ...discountCode, timesUsed },
+            lineDiscounts,
+            shippingDiscount,
+            appliedAmount: this.sum([...lineDiscounts, shippingDiscount])
+        };
+    }
+
+    // The order discount row for an applied code; the id is fixed here so replays write the same row
+    public toOrderDiscount(orderId: string, application: DiscountApplication): OrderDiscount {
+        const { discountCode } = application;
+        return {
+            id: uuidv4(),
+            orderId,
+            discountCodeId: discountCode.id,
+            discountCode: discountCode.code,
+            discountType: discountCode.discountType,
+            discountValue: discountCode.discountValue,
+            appliedAmount: application.appliedAmount,
+            description: discountCode.description || this.describe(discountCode)
+        };
+    }
+
+    public async recordOrderDiscount(discount: OrderDiscount): Promise<OrderDiscount> {
+        const result = await this.databaseService.executeQuery<any>(`
+            INSERT INTO order_discounts (
+                id, order_id, discount_code_id, discount_code, discount_type, discount_value, applied_amount, description
+            )
+            VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+            RETURNING *
+        `, [
+            discount.id,
+            discount.orderId,
+            discount.discountCodeId,
+            discount.discountCode,
+            discount.discountType,
+            discount.discountValue,
+            discount.appliedAmount,
+            discount.description
+        ]);
+
+        return this.mapRowToOrderDiscount(result.rows[0]);
+    }
+
+    /**
+     * PERCENTAGE takes its share of every line; FIXED_AMOUNT is spread over the lines
+     * by subtotal, the last line taking the rounding; BUY_ONE_GET_ONE makes every
+     * second unit of a line free. FREE_SHIPPING leaves the lines alone.
+     */
+    private getLineDiscounts(discountCode: DiscountCode, lines: OrderItem[], subtotal: number): number[] {
+        switch (discountCode.discountType) {
+            case DiscountType.PERCENTAGE:
+                return lines.map(line => this.toAmount(line.subtotal * Math.min(discountCode.discountValue, 100) / 100));
+
+            case DiscountType.FIXED_AMOUNT: {
+                const total = Math.min(discountCode.discountValue, subtotal);
+                const shares = lines.map(line => subtotal > 0 ? this.toAmount(total * line.subtotal / subtotal) : 0);
+                if (shares.length > 0) {
+                    const others = this.sum(shares.slice(0, -1));
+                    shares[shares.length - 1] = Math.max(0, this.toAmount(total - others));
+                }
+                return shares;
+            }
+
+            case DiscountType.BUY_ONE_GET_ONE:
+                return lines.map(line => this.toAmount(line.price * Math.floor(line.quantity / 2)));
+
+            default:
+                return lines.map(() => 0);
+        }
+    }
+
+    // Percentages and fixed amounts need a value that takes something off
+    private checkDiscountValue(discountType: DiscountType, discountValue: number): void {
+        if (discountType === DiscountType.PERCENTAGE && (discountValue <= 0 || discountValue > 100)) {
+            throw new ValidationError('A percentage discount needs a value above 0 and up to 100', 'discountValue', discountValue);
+        }
+        if (discountType === DiscountType.FIXED_AMOUNT && discountValue <= 0) {
+            throw new ValidationError('A fixed amount discount needs a value above 0', 'discountValue', discountValue);
+        }
+    }
+
+    private describe(discountCode: DiscountCode): string {
+        switch (discountCode.discountType) {
+            case DiscountType.PERCENTAGE:
+                return `${discountCode.discountValue}% off`;
+            case DiscountType.FIXED_AMOUNT:
+                return `${discountCode.discountValue} off`;
+            case DiscountType.BUY_ONE_GET_ONE:
+                return 'Buy one, get one free';
+            default:
+                return 'Free shipping';
+        }
+    }
+
+    private usageQuery(alias: string): string {
+        return `
+                SELECT COUNT(*) FROM order_discounts od
+                JOIN orders o ON o.id = od.order_id
+                WHERE od.discount_code_id = ${alias}.id AND ${USAGE_CONDITION}
+            `;
+    }
+
+    private sum(amounts: number[]): number {
+        return this.toAmount(amounts.reduce((total, amount) => total + amount, 0));
+    }
+
+    private toAmount(value: number): number {
+        return Math.round(value * 100) / 100;
+    }
+
+    private mapRowToDiscountCode(row: any): DiscountCode {
+        return {
+            id: row.id,
+            tenantId: row.tenant_id || null,
+            code: row.code,
+            description: row.description,
+            discountType: row.discount_type,
+            discountValue: parseFloat(row.discount_value),
+            validFrom: row.valid_from ? new Date(row.valid_from) : null,
+            validUntil: row.valid_until ? new Date(row.valid_until) : null,
+            usageLimit: row.usage_limit,
+            perCustomerLimit: row.per_customer_limit,
+            minOrderValue: parseFloat(row.min_order_value),
+            eligibleCustomerIds: row.eligible_customer_ids || [],
+            isActive: row.is_active,
+            ...(row.times_used !== undefined ? { timesUsed: parseInt(row.times_used) } : {}),
+            createdAt: new Date(row.created_at),
+            updatedAt: new Date(row.updated_at)
+        };
+    }
+
+    private mapRowToOrderDiscount(row: any): OrderDiscount {
+        return {
+            id: row.id,
+            orderId: row.order_id,
+            discountCodeId: row.discount_code_id,
+            discountCode: row.discount_code,
+            discountType: row.discount_type,
+            discountValue: parseFloat(row.discount_value),
+            appliedAmount: parseFloat(row.applied_amount),
+            description: row.description
+        };
+    }
+}
@@ -0,0 +1,149 @@
+// engine/services/eventStore.service.ts
+import { DatabaseService } from './database.service';
+import { logger } from '../../utils/logger';
+import { config } from '../../config/config';
+import { AggregateType, KafkaEvent, ReferenceType, StoredEvent } from '../../types';
+import { v4 as uuidv4 } from 'uuid';
+
+// Table of each kind of reference data, in the order their rows may reference each other
+export const REFERENCE_TABLES: Record<ReferenceType, string> = {
+    WAREHOUSE: 'warehouses',
+    CATEGORY: 'categories',
+    DISCOUNT_CODE: 'discount_codes',
+    TAX_RULE: 'tax_rules',
+    SHIPPING_RATE: 'shipping_rates'
+};
+
+/**
+ * Append-only store of every command and update event the Engine processed, and of
+ * every write to reference data. Kafka only keeps a day of history; this table is
+ * what replays are built from.
+ */
+export class EventStoreService {
+    constructor(private databaseService: DatabaseService) {}
+
+    // Versions are assigned per aggregate under an advisory lock, so they are gap-free
+    public async append(aggregateType: AggregateType | ReferenceType, topic: string, event: KafkaEvent): Promise<void> {
+        if (!event.aggregateId) {
+            return;
+        }
+
+        const aggregateId = event.aggregateId;
+
+        await this.databaseService.executeTransaction(async () => {
+            await this.databaseService.executeQuery(
+                'SELECT pg_advisory_xact_lock(hashtext($1))',
+                [`${aggregateType}:${aggregateId}`]
+            );
+
+            await this.databaseService.executeQuery(`
+                INSERT INTO event_store (
+                    event_id, event_type, aggregate_type, aggregate_id, version,
+                    tenant_id, topic, payload, recorded_at
+                )
+                SELECT $1, $2, $3, $4, COALESCE(MAX(version), 0) + 1, $5, $6, $7, CURRENT_TIMESTAMP
+                FROM event_store
+                WHERE aggregate_type = $3 AND aggregate_id = $4
+                ON CONFLICT (event_id) DO NOTHING
+            `, [
+                event.eventId,
+                event.eventType,
+                aggregateType,
+                aggregateId,
+                event.metadata?.tenantId || null,
+                topic,
+                JSON.stringify(event)
+            ]);
+        });
+    }
+
+    /**
+     * Stores a reference row as it stands after a write (<TYPE>_SAVED), or that it is
+     * gone (<TYPE>_DELETED), under config.eventStore.referenceTopic. Call it in the
+     * write's transaction, so the snapshot lands in the history with the write.
+     */
+    public async appendReferenceChange(referenceType: ReferenceType, id: string, tenantId: string | null = null): Promise<void> {
+        const result = await this.databaseService.executeQuery<{ row: any }>(
+            `SELECT to_jsonb(t) AS row FROM ${REFERENCE_TABLES[referenceType]} t WHERE id = $1`,
+            [id]
+        );
+        const row = result.rows[0]?.row;
+
+        await this.append(referenceType, config.eventStore.referenceTopic, {
+            eventId: uuidv4(),
+            eventType: `${referenceType}_${row ? 'SAVED' : 'DELETED'}`,
+            aggregateId: id,
+            timestamp: new Date(),
+            data: row ? { row } : { id },
+            metadata: tenantId ? { tenantId, source: 'API' } : { source: 'API' }
+        });
+    }
+
+    // Snapshots reference rows with no stored event yet: the default warehouse
+    // DatabaseService seeds, and rows written before reference data was stored
+    public async appendMissingReferenceSnapshots(): Promise<number> {
+        let appended = 0;
+
+        for (const [referenceType, table] of Object.entries(REFERENCE_TABLES) as [ReferenceType, string][]) {
+            const result = await this.databaseService.executeQuery<{ id: string; tenant_id: string | null }>(`
+                SELECT t.id, to_jsonb(t)->>'tenant_id' AS tenant_id
+                FROM ${table} t
+                WHERE NOT EXISTS (
+                    SELECT 1 FROM event_store e
+                    WHERE e.aggregate_type = $1 AND e.aggregate_id = t.id::text
+                )
+                ORDER BY t.created_at, t.id
+            `, [referenceType]);
+
+            for (const row of result.rows) {
+                await this.appendReferenceChange(referenceType, row.id, row.tenant_id);
+                appended++;
+            }
+        }
+
+        if (appended > 0) {
+            logger.info(`Stored snapshots of ${appended} reference rows missing from the event store`);
+        }
+        return appended;
+    }
+
+    // Events on the given topics in store order, starting after the given sequence
+    public async getEventsAfter(afterSequence: string, topics: string[], limit: number): Promise<StoredEvent[]> {
+        const result = await this.databaseService.executeQuery<any>(`
+            SELECT * FROM event_store
+            WHERE sequence > $1 AND topic = ANY($2)
+            ORDER BY sequence
+            LIMIT $3
+        `, [afterSequence, topics, limit]);
+
+        return result.rows.map(row => this.mapRowToStoredEvent(row));
+    }
+
+    public async getAggregateEvents(aggregateType: AggregateType | ReferenceType, aggregateId: string): Promise<StoredEvent[]> {
+        const result = await this.databaseService.executeQuery<any>(`
+            SELECT * FROM event_store
+            WHERE aggregate_type = $1 AND aggregate_id = $2
+            ORDER BY version
+        `, [aggregateType, aggregateId]);
+
+        return result.rows.map(row => this.mapRowToStoredEvent(row));
+    }
+
+    private mapRowToStoredEvent(row: any): StoredEvent {
+        return {
+            sequence: String(row.sequence),
+            eventId: row.event_id,
+            eventType: row.event_type,
+            aggregateType: row.aggregate_type,
+            aggregateId: row.aggregate_id,
+            version: row.version,
+            tenantId: row.tenant_id || undefined,
+            topic: row.topic,
+            event: {
+                ...row.payload,
+                timestamp: new Date(row.payload.timestamp)
+            },
+            recordedAt: new Date(row.recorded_at)
+        };
+    }
+}
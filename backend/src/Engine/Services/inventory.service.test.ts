@@ -0,0 +1,208 @@
+// engine/services/inventory.service.test.ts
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { InventoryService } from './inventory.service';
+import { FakeDatabase } from '../../testing/fakeDatabase';
+import { config } from '../../config/config';
+import { ConflictError } from '../../types';
+
+const NOW = new Date('2026-03-01T12:00:00Z');
+const ORDER_ID = '0a000000-0000-4000-8000-000000000001';
+const ITEM_A = '1a000000-0000-4000-8000-00000000000a';
+const ITEM_B = '1a000000-0000-4000-8000-00000000000b';
+const RESERVATION_A = '2a000000-0000-4000-8000-00000000000a';
+const RESERVATION_B = '2a000000-0000-4000-8000-00000000000b';
+
+function reservationRow(params: any[]): Record<string, any> {
+    const [id, orderId, itemId, quantity, ttl, warehouseId, expiresAt] = params;
+    return {
+        id,
+        order_id: orderId,
+        item_id: itemId,
+        quantity,
+        status: 'HELD',
+        warehouse_id: warehouseId,
+        expires_at: expiresAt ?? new Date(NOW.getTime() + ttl),
+        reason: null,
+        created_at: NOW,
+        updated_at: NOW
+    };
+}
+
+function setup() {
+    const database = new FakeDatabase()
+        .on(/SELECT id FROM warehouses WHERE code/, [{ id: 'wh-default' }])
+        .on(/SELECT \* FROM warehouses WHERE id/, params => [{ id: params[0], code: params[0], status: 'ACTIVE' }])
+        .on(/UPDATE customer_items/, params => [{ id: params[0], name: `Item ${params[0]}`, quantity: 10, reserved_quantity: params[1] }])
+        .on(/UPDATE warehouse_stock/, () => ({ rows: [], rowCount: 1 }))
+        .on(/INSERT INTO inventory_reservations/, params => [reservationRow(params)])
+        .on(/UPDATE inventory_reservations/, params => [{ id: params[0], status: params[1], reason: params[2] }]);
+    return { database, service: new InventoryService(database.asService()) };
+}
+
+describe('InventoryService.reserveForOrder', () => {
+    it('holds each item once, in item id order, at the first line\'s warehouse', async () => {
+        const { database, service } = setup();
+
+        const reservations = await service.reserveForOrder(ORDER_ID, [
+            { itemId: ITEM_B, quantity: 1, warehouseId: 'wh-2' },
+            { itemId: ITEM_A, quantity: 2 },
+            { itemId: ITEM_B, quantity: 2, warehouseId: 'wh-3' }
+        ]);
+
+        assert.deepEqual(
+            database.find(/UPDATE customer_items/).map(query => query.params),
+            [[ITEM_A, 2], [ITEM_B, 3]]
+        );
+        assert.deepEqual(
+            reservations.map(reservation => [reservation.itemId, reservation.quantity, reservation.warehouseId]),
+            [[ITEM_A, 2, 'wh-default'], [ITEM_B, 3, 'wh-2']]
+        );
+    });
+
+    it('holds for the configured time unless an expiry is given', async () => {
+        const { database, service } = setup();
+        const recordedExpiry = new Date('2026-03-01T12:15:00Z');
+
+        const [fresh] = await service.reserveForOrder(ORDER_ID, [{ itemId: ITEM_A, quantity: 1 }]);
+        const [replayed] = await service.reserveForOrder(ORDER_ID, [{ itemId: ITEM_A, quantity: 1 }], recordedExpiry);
+
+        const inserts = database.find(/INSERT INTO inventory_reservations/);
+        assert.equal(inserts[0]?.params[4], config.inventory.reservationTtl);
+        assert.equal(inserts[0]?.params[6], null);
+        assert.equal(fresh?.expiresAt.getTime(), NOW.getTime() + config.inventory.reservationTtl);
+        assert.equal(inserts[1]?.params[6], recordedExpiry);
+        assert.equal(replayed?.expiresAt.getTime(), recordedExpiry.getTime());
+    });
+
+    it('publishes an INVENTORY_RESERVED event per hold through the outbox', async () => {
+        const { database, service } = setup();
+
+        await service.reserveForOrder(ORDER_ID, [{ itemId: ITEM_A, quantity: 2 }, { itemId: ITEM_B, quantity: 1 }]);
+
+        const events = database.find(/INSERT INTO outbox/).map(query => JSON.parse(query.params[2]));
+        assert.deepEqual(events.map(event => [event.eventType, event.data.itemId, event.data.quantity]), [
+            ['INVENTORY_RESERVED', ITEM_A, 2],
+            ['INVENTORY_RESERVED', ITEM_B, 1]
+        ]);
+    });
+
+    it('rejects the order when an item has too little stock and holds nothing for it', async () => {
+        const { database, service } = setup();
+        database.on(/UPDATE customer_items/, []);
+        Object.assign(database, { getCustomerItemById: async () => ({ name: 'Widget', availableQuantity: 1 }) });
+
+        await assert.rejects(
+            service.reserveForOrder(ORDER_ID, [{ itemId: ITEM_A, quantity: 5 }]),
+            (error: unknown) => error instanceof ConflictError && /Widget\. Available: 1, Requested: 5/.test(error.message)
+        );
+        assert.equal(database.find(/INSERT INTO inventory_reservations/).length, 0);
+    });
+
+    it('rejects the order when the warehouse cannot hold the quantity', async () => {
+        const { database, service } = setup();
+        database.on(/UPDATE warehouse_stock/, () => ({ rows: [], rowCount: 0 }));
+
+        await assert.rejects(
+            service.reserveForOrder(ORDER_ID, [{ itemId: ITEM_A, quantity: 5 }]),
+            (error: unknown) => error instanceof ConflictError && /at warehouse wh-default/.test(error.message)
+        );
+    });
+});
+
+describe('InventoryService.releaseForOrder', () => {
+    it('gives back every held reservation and closes it with the given status', async () => {
+        const { database, service } = setup();
+        const held = [
+            reservationRow([RESERVATION_A, ORDER_ID, ITEM_A, 2, 0, 'wh-default', NOW]),
+            reservationRow([RESERVATION_B, ORDER_ID, ITEM_B, 1, 0, 'wh-2', NOW])
+        ];
+        database
+            .on(/FROM inventory_reservations[\s\S]*FOR UPDATE/, held)
+            .on(/UPDATE inventory_reservations/, params => [{ ...held.find(row => row.id === params[0]), status: params[1], reason: params[2] }]);
+
+        const released = await service.releaseForOrder(ORDER_ID, 'EXPIRED', 'Reservation expired');
+
+        assert.equal(released, 2);
+        assert.deepEqual(
+            database.find(/UPDATE customer_items/).map(query => query.params),
+            [[ITEM_A, 2], [ITEM_B, 1]]
+        );
+        assert.deepEqual(
+            database.find(/UPDATE warehouse_stock/).map(query => query.params),
+            [[ITEM_A, 'wh-default', 0, -2], [ITEM_B, 'wh-2', 0, -1]]
+        );
+        assert.deepEqual(
+            database.find(/UPDATE inventory_reservations/).map(query => query.params),
+            [[RESERVATION_A, 'EXPIRED', 'Reservation expired'], [RESERVATION_B, 'EXPIRED', 'Reservation expired']]
+        );
+    });
+});
+
+describe('InventoryService.restockForOrder', () => {
+    function committed(id: string, itemId: string, quantity: number, warehouseId: string) {
+        return { ...reservationRow([id, ORDER_ID, itemId, quantity, 0, warehouseId, NOW]), status: 'COMMITTED' };
+    }
+
+    it('puts everything the order took back in the warehouse it shipped from', async () => {
+        const { database, service } = setup();
+        database.on(/FROM inventory_reservations[\s\S]*FOR UPDATE/, [
+            committed(RESERVATION_A, ITEM_A, 2, 'wh-2'),
+            committed(RESERVATION_B, ITEM_B, 1, 'wh-3')
+        ]);
+
+        const restocked = await service.restockForOrder(ORDER_ID, null, 'CANCEL', 'Order cancelled');
+
+        assert.equal(restocked, 3);
+        assert.deepEqual(
+            database.find(/UPDATE warehouse_stock/).map(query => query.params),
+            [[ITEM_A, 'wh-2', 2, 0], [ITEM_B, 'wh-3', 1, 0]]
+        );
+        assert.deepEqual(
+            database.find(/INSERT INTO stock_movements/).map(query => [query.params[1], query.params[2], query.params[4], query.params[6]]),
+            [[ITEM_A, 2, 'CANCEL', 'wh-2'], [ITEM_B, 1, 'CANCEL', 'wh-3']]
+        );
+        assert.deepEqual(
+            database.find(/UPDATE inventory_reservations/).map(query => query.params),
+            [[RESERVATION_A, 'RELEASED', 'Order cancelled'], [RESERVATION_B, 'RELEASED', 'Order cancelled']]
+        );
+        assert.deepEqual(
+            database.find(/INSERT INTO outbox/).map(query => JSON.parse(query.params[2]).eventType),
+            ['ITEM_RESTOCKED', 'ITEM_RESTOCKED']
+        );
+    });
+
+    it('restocks only the lines accepted on inspection', async () => {
+        const { database, service } = setup();
+        database.on(/FROM inventory_reservations[\s\S]*FOR UPDATE/, [
+            committed(RESERVATION_A, ITEM_A, 2, 'wh-2'),
+            committed(RESERVATION_B, ITEM_B, 1, 'wh-3')
+        ]);
+
+        const restocked = await service.restockForOrder(ORDER_ID, [{ itemId: ITEM_A, quantity: 1 }], 'RETURN', null);
+
+        assert.equal(restocked, 1);
+        assert.deepEqual(database.find(/UPDATE customer_items/).map(query => query.params), [[ITEM_A, 1]]);
+    });
+
+    it('refuses to restock more than the order took', async () => {
+        const { database, service } = setup();
+        database.on(/FROM inventory_reservations[\s\S]*FOR UPDATE/, [committed(RESERVATION_A, ITEM_A, 2, 'wh-2')]);
+
+        await assert.rejects(
+            service.restockForOrder(ORDER_ID, [{ itemId: ITEM_A, quantity: 3 }], 'RETURN', null),
+            (error: unknown) => error instanceof ConflictError && /only took 2/.test(error.message)
+        );
+        assert.equal(database.find(/UPDATE customer_items/).length, 0);
+    });
+
+    it('takes the order lines of an order placed before reservations existed', async () => {
+        const { database, service } = setup();
+        database.on(/FROM order_items WHERE order_id/, [{ item_id: ITEM_A, quantity: 4, warehouse_id: null }]);
+
+        const restocked = await service.restockForOrder(ORDER_ID, null, 'FAILED_DELIVERY', null);
+
+        assert.equal(restocked, 4);
+        assert.deepEqual(database.find(/UPDATE warehouse_stock/).map(query => query.params), [[ITEM_A, 'wh-default', 4, 0]]);
+    });
+});
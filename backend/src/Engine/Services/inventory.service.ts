@@ -0,0 +1,368 @@
+// engine/services/inventory.service.ts
+import { DatabaseService } from './database.service';
+import { OutboxService } from './outbox.service';
+import { StockMovementService } from './stockMovement.service';
+import { WarehouseService } from './warehouse.service';
+import { logger } from '../../utils/logger';
+import { config } from '../../config/config';
+import {
+    ConflictError,
+    InventoryEventType,
+    InventoryReservation,
+    KafkaEvent,
+    ReservationLine,
+    ReservationStatus,
+    StockMovementReason
+} from '../../types';
+import { v4 as uuidv4 } from 'uuid';
+
+/**
+ * Stock reservations for orders. Every change is a conditional UPDATE on
+ * customer_items plus a row-locked reservation, on the caller's transaction, so
+ * concurrent orders cannot oversell and a failed order rolls its hold back.
+ * Stock events go through the outbox so the UI can show reserved vs available.
+ */
+export class InventoryService {
+    private outboxService: OutboxService;
+    private stockMovementService: StockMovementService;
+    private warehouseService: WarehouseService;
+
+    constructor(private databaseService: DatabaseService) {
+        this.outboxService = new OutboxService(databaseService);
+        this.stockMovementService = new StockMovementService(databaseService);
+        this.warehouseService = new WarehouseService(databaseService);
+    }
+
+    /**
+     * Holds stock for every line of a new order until it is confirmed or the hold
+     * expires. Lines carry the warehouse chosen by fulfilment routing; all lines for
+     * one item ship from the first line's warehouse. The hold runs for
+     * config.inventory.reservationTtl unless expiresAt is given.
+     */
+    public async reserveForOrder(
+        orderId: string,
+        lines: ReservationLine[],
+        expiresAt: Date | null = null
+    ): Promise<InventoryReservation[]> {
+        return await this.databaseService.executeTransaction(async () => {
+            const reservations: InventoryReservation[] = [];
+
+            // One reservation per item, taken in id order so concurrent orders lock rows consistently
+            const quantities = this.sumByItem(lines);
+            const itemIds = [...quantities.keys()].sort();
+
+            for (const itemId of itemIds) {
+                const quantity = quantities.get(itemId)!;
+                const warehouseId = await this.warehouseService.resolveWarehouseId(
+                    lines.find(line => line.itemId === itemId)?.warehouseId
+                );
+
+                const itemResult = await this.databaseService.executeQuery<any>(`
+                    UPDATE customer_items
+                    SET reserved_quantity = reserved_quantity + $2, updated_at = CURRENT_TIMESTAMP
+                    WHERE id = $1 AND quantity - reserved_quantity >= $2
+                    RETURNING id, name, quantity, reserved_quantity
+                `, [itemId, quantity]);
+
+                const item = itemResult.rows[0];
+                if (!item) {
+                    const current = await this.databaseService.getCustomerItemById(itemId);
+                    throw new ConflictError(`Insufficient quantity for item ${current?.name || itemId}. Available: ${current?.availableQuantity ?? 0}, Requested: ${quantity}`);
+                }
+
+                if (!await this.warehouseService.moveStock(itemId, warehouseId, 0, quantity)) {
+                    throw new ConflictError(`Insufficient quantity for item ${item.name} at warehouse ${warehouseId}. Requested: ${quantity}`);
+                }
+
+                // A failed delivery sent back to PENDING takes a fresh hold on its old reservation rows
+                const reservationResult = await this.databaseService.executeQuery<any>(`
+                    INSERT INTO inventory_reservations (id, order_id, item_id, quantity, status, warehouse_id, expires_at)
+                    VALUES ($1, $2, $3, $4, 'HELD', $6, COALESCE($7::timestamp, CURRENT_TIMESTAMP + $5 * INTERVAL '1 millisecond'))
+                    ON CONFLICT (order_id, item_id) DO UPDATE
+                    SET quantity = EXCLUDED.quantity,
+                        status = 'HELD',
+                        warehouse_id = EXCLUDED.warehouse_id,
+                        expires_at = EXCLUDED.expires_at,
+                        reason = NULL,
+                        updated_at = CURRENT_TIMESTAMP
+                    RETURNING *
+                `, [uuidv4(), orderId, itemId, quantity, config.inventory.reservationTtl, warehouseId, expiresAt]);
+
+                const reservation = this.mapRowToReservation(reservationResult.rows[0]);
+                reservations.push(reservation);
+
+                await this.publishStockEvent('INVENTORY_RESERVED', reservation, item);
+            }
+
+            logger.info(`Inventory reserved for order:`, { orderId, items: reservations.length });
+            return reservations;
+        });
+    }
+
+    // Turns held stock into a real deduction when the order is confirmed
+    public async commitForOrder(orderId: string): Promise<number> {
+        return await this.databaseService.executeTransaction(async () => {
+            const held = await this.lockReservations(orderId, ['HELD']);
+
+            for (const reservation of held) {
+                const itemResult = await this.databaseService.executeQuery<any>(`
+                    UPDATE customer_items
+                    SET quantity = quantity - $2,
+                        reserved_quantity = reserved_quantity - $2,
+                        updated_at = CURRENT_TIMESTAMP
+                    WHERE id = $1
+                    RETURNING id, name, quantity, reserved_quantity
+                `, [reservation.itemId, reservation.quantity]);
+
+                const warehouseId = await this.locationOf(reservation);
+                await this.warehouseService.moveStock(reservation.itemId, warehouseId, -reservation.quantity, -reservation.quantity);
+
+                await this.stockMovementService.record({
+                    itemId: reservation.itemId,
+                    delta: -reservation.quantity,
+                    quantityAfter: itemResult.rows[0].quantity,
+                    reason: 'ORDER',
+                    referenceId: orderId,
+                    warehouseId
+                });
+
+                const committed = await this.setStatus(reservation.id, 'COMMITTED', null);
+                await this.publishStockEvent('INVENTORY_COMMITTED', committed, itemResult.rows[0]);
+            }
+
+            if (held.length > 0) {
+                logger.info(`Inventory committed for order:`, { orderId, items: held.length });
+            }
+
+            return held.length;
+        });
+    }
+
+    // Releases the stock an order holds but never took; returns how many holds were released
+    public async releaseForOrder(
+        orderId: string,
+        status: Extract<ReservationStatus, 'RELEASED' | 'EXPIRED'>,
+        reason: string | null
+    ): Promise<number> {
+        return await this.databaseService.executeTransaction(async () => {
+            const held = await this.lockReservations(orderId, ['HELD']);
+
+            for (const reservation of held) {
+                const itemResult = await this.databaseService.executeQuery<any>(`
+                    UPDATE customer_items
+                    SET reserved_quantity = reserved_quantity - $2, updated_at = CURRENT_TIMESTAMP
+                    WHERE id = $1
+                    RETURNING id, name, quantity, reserved_quantity
+                `, [reservation.itemId, reservation.quantity]);
+
+                await this.warehouseService.moveStock(reservation.itemId, await this.locationOf(reservation), 0, -reservation.quantity);
+
+                const released = await this.setStatus(reservation.id, status, reason);
+                await this.publishStockEvent('INVENTORY_RELEASED', released, itemResult.rows[0]);
+            }
+
+            if (held.length > 0) {
+                logger.info(`Inventory released for order:`, { orderId, status, reason, items: held.length });
+            }
+
+            return held.length;
+        });
+    }
+
+    /**
+     * Puts stock an order took back on the shelf: `lines` as accepted on inspection,
+     * or everything it took when null. Committed reservations are closed as RELEASED,
+     * so what is not restocked here is written off. Orders placed before reservations
+     * existed took every order line. Returns the number of units restocked.
+     */
+    public async restockForOrder(
+        orderId: string,
+        lines: ReservationLine[] | null,
+        reason: StockMovementReason,
+        note: string | null
+    ): Promise<number> {
+        return await this.databaseService.executeTransaction(async () => {
+            const reservations = await this.lockReservations(orderId, ['HELD', 'COMMITTED', 'RELEASED', 'EXPIRED']);
+            const committed = reservations.filter(r => r.status === 'COMMITTED');
+
+            const takenLines: ReservationLine[] = reservations.length > 0
+                ? committed
+                : (await this.databaseService.executeQuery<any>(
+                    'SELECT item_id, quantity, warehouse_id FROM order_items WHERE order_id = $1',
+                    [orderId]
+                )).rows.map(row => ({ itemId: row.item_id, quantity: row.quantity, warehouseId: row.warehouse_id }));
+            const taken = this.sumByItem(takenLines);
+
+            const restock = lines ? this.sumByItem(lines) : taken;
+            let restocked = 0;
+
+            for (const itemId of [...restock.keys()].sort()) {
+                const quantity = restock.get(itemId)!;
+                const available = taken.get(itemId) || 0;
+
+                if (quantity > available) {
+                    throw new ConflictError(`Cannot restock ${quantity} units of item ${itemId}: order ${orderId} only took ${available}`);
+                }
+                if (quantity === 0) {
+                    continue;
+                }
+
+                const itemResult = await this.databaseService.executeQuery<any>(`
+                    UPDATE customer_items
+                    SET quantity = quantity + $2, updated_at = CURRENT_TIMESTAMP
+                    WHERE id = $1
+                    RETURNING id, name, quantity, reserved_quantity
+                `, [itemId, quantity]);
+
+                const item = itemResult.rows[0];
+                if (!item) {
+                    logger.warn(`Skipping restock of deleted item:`, { orderId, itemId, quantity });
+                    continue;
+                }
+
+                // Goods go back to the warehouse they shipped from
+                const warehouseId = takenLines.find(line => line.itemId === itemId)?.warehouseId
+                    || await this.warehouseService.getDefaultWarehouseId();
+                await this.warehouseService.moveStock(itemId, warehouseId, quantity, 0);
+
+                await this.stockMovementService.record({
+                    itemId,
+                    delta: quantity,
+                    quantityAfter: item.quantity,
+                    reason,
+                    referenceId: orderId,
+                    warehouseId
+                });
+
+                await this.publishRestockEvent(orderId, quantity, reason, item);
+                restocked += quantity;
+            }
+
+            for (const reservation of committed) {
+                await this.setStatus(reservation.id, 'RELEASED', note);
+            }
+
+            if (restocked > 0) {
+                logger.info(`Inventory restocked for order:`, { orderId, reason, units: restocked });
+            }
+            return restocked;
+        });
+    }
+
+    // Orders whose hold ran out before they were confirmed
+    public async getExpiredOrderIds(limit: number): Promise<string[]> {
+        const result = await this.databaseService.executeQuery<{ order_id: string }>(`
+            SELECT DISTINCT order_id FROM inventory_reservations
+            WHERE status = 'HELD' AND expires_at <= CURRENT_TIMESTAMP
+            LIMIT $1
+        `, [limit]);
+
+        return result.rows.map(row => row.order_id);
+    }
+
+    private async lockReservations(orderId: string, statuses: ReservationStatus[]): Promise<InventoryReservation[]> {
+        const result = await this.databaseService.executeQuery<any>(`
+            SELECT * FROM inventory_reservations
+            WHERE order_id = $1 AND status = ANY($2)
+            ORDER BY item_id
+            FOR UPDATE
+        `, [orderId, statuses]);
+
+        return result.rows.map(row => this.mapRowToReservation(row));
+    }
+
+    private async setStatus(
+        id: string,
+        status: ReservationStatus,
+        reason: string | null
+    ): Promise<InventoryReservation> {
+        const result = await this.databaseService.executeQuery<any>(`
+            UPDATE inventory_reservations
+            SET status = $2, reason = COALESCE($3, reason), updated_at = CURRENT_TIMESTAMP
+            WHERE id = $1
+            RETURNING *
+        `, [id, status, reason]);
+
+        return this.mapRowToReservation(result.rows[0]);
+    }
+
+    private async publishStockEvent(
+        eventType: InventoryEventType,
+        reservation: InventoryReservation,
+        item: { id: string; quantity: number; reserved_quantity: number }
+    ): Promise<void> {
+        const event: KafkaEvent = {
+            eventId: uuidv4(),
+            eventType,
+            aggregateId: reservation.itemId,
+            timestamp: new Date(),
+            data: {
+                itemId: reservation.itemId,
+                orderId: reservation.orderId,
+                reservationId: reservation.id,
+                quantity: reservation.quantity,
+                status: reservation.status,
+                reason: reservation.reason || null,
+                stockQuantity: item.quantity,
+                reservedQuantity: item.reserved_quantity,
+                availableQuantity: item.quantity - item.reserved_quantity
+            }
+        };
+
+        await this.outboxService.enqueue(config.Kafka.topics.itemUpdates, event);
+    }
+
+    // Published as an item quantity update so caches and the UI pick up the new stock
+    private async publishRestockEvent(
+        orderId: string,
+        quantity: number,
+        reason: StockMovementReason,
+        item: { id: string; quantity: number; reserved_quantity: number }
+    ): Promise<void> {
+        const event: KafkaEvent = {
+            eventId: uuidv4(),
+            eventType: 'ITEM_RESTOCKED',
+            aggregateId: item.id,
+            timestamp: new Date(),
+            data: {
+                itemId: item.id,
+                orderId,
+                quantity,
+                reason,
+                stockQuantity: item.quantity,
+                reservedQuantity: item.reserved_quantity,
+                availableQuantity: item.quantity - item.reserved_quantity
+            }
+        };
+
+        await this.outboxService.enqueue(config.Kafka.topics.itemUpdates, event);
+    }
+
+    // Reservations from before warehouses existed were moved to the default warehouse
+    private async locationOf(reservation: InventoryReservation): Promise<string> {
+        return reservation.warehouseId || await this.warehouseService.getDefaultWarehouseId();
+    }
+
+    private sumByItem(lines: ReservationLine[]): Map<string, number> {
+        const quantities = new Map<string, number>();
+        for (const line of lines) {
+            quantities.set(line.itemId, (quantities.get(line.itemId) || 0) + line.quantity);
+        }
+        return quantities;
+    }
+
+    private mapRowToReservation(row: any): InventoryReservation {
+        return {
+            id: row.id,
+            orderId: row.order_id,
+            itemId: row.item_id,
+            quantity: row.quantity,
+            status: row.status,
+            warehouseId: row.warehouse_id || undefined,
+            expiresAt: new Date(row.expires_at),
+            reason: row.reason || undefined,
+            createdAt: new Date(row.created_at),
+            updatedAt: new Date(row.updated_at)
+        };
+    }
+}
@@ -0,0 +1,189 @@
+// engine/services/item.service.test.ts
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { ItemService } from './item.service';
+import { PriceService } from './price.service';
+import { StockMovementService } from './stockMovement.service';
+import { WarehouseService } from './warehouse.service';
+import { FakeDatabase } from '../../testing/fakeDatabase';
+import { CustomerItem, ItemPrice } from '../../types';
+
+const CUSTOMER_ID = '0c000000-0000-4000-8000-000000000001';
+const PARENT_ID = '1a000000-0000-4000-8000-000000000001';
+const VARIANT_M = '1a000000-0000-4000-8000-00000000000b';
+const VARIANT_L = '1a000000-0000-4000-8000-00000000000c';
+const WAREHOUSE_ID = '3a000000-0000-4000-8000-000000000001';
+const CREATED = new Date('2026-01-01T00:00:00Z');
+
+function item(id: string, overrides: Partial<CustomerItem> = {}): CustomerItem {
+    return {
+        id,
+        customerId: CUSTOMER_ID,
+        name: 'T-shirt',
+        price: 20,
+        quantity: 0,
+        status: 'ACTIVE',
+        createdAt: CREATED,
+        updatedAt: CREATED,
+        ...overrides
+    };
+}
+
+const PARENT = item(PARENT_ID);
+
+// Items kept in memory; prices set on the history and the changes currently in effect are recorded
+function setup(items: CustomerItem[], inEffect: Record<string, Omit<ItemPrice, 'id' | 'createdAt'>> = {}) {
+    const stored = new Map(items.map(entry => [entry.id, { ...entry }]));
+    const prices: Array<[string, number, Date]> = [];
+    const database = new FakeDatabase();
+    Object.assign(database, {
+        getCustomerItemById: async (id: string) => stored.has(id) ? { ...stored.get(id)! } : null,
+        createCustomerItem: async (created: CustomerItem) => {
+            stored.set(created.id, { ...created });
+            return { ...created };
+        },
+        updateCustomerItem: async (id: string, updates: Record<string, unknown>) => {
+            const existing = stored.get(id);
+            if (!existing) {
+                return null;
+            }
+            for (const [key, value] of Object.entries(updates)) {
+                if (value !== undefined) {
+                    Object.assign(existing, { [key]: value });
+                }
+            }
+            return { ...existing };
+        },
+        // Variants without a price of their own
+        inheritVariantPrices: async (parentId: string, price: number) => [...stored.values()]
+            .filter(entry => entry.parentItemId === parentId && (entry.priceOverride === null || entry.priceOverride === undefined))
+            .map(entry => {
+                entry.price = price;
+                return entry.id;
+            })
+    });
+
+    const service = new ItemService(database.asService());
+    service['warehouseService'] = {
+        resolveWarehouseId: async () => WAREHOUSE_ID,
+        moveStock: async () => {}
+    } as unknown as WarehouseService;
+    service['stockMovementService'] = { record: async () => {} } as unknown as StockMovementService;
+    service['priceService'] = {
+        setPrice: async (itemId: string, price: number, effectiveFrom: Date) => {
+            prices.push([itemId, price, effectiveFrom]);
+        },
+        getPriceAt: async (itemId: string) => {
+            const price = inEffect[itemId];
+            return price ? { id: `price-${itemId}`, createdAt: CREATED, ...price } : null;
+        }
+    } as unknown as PriceService;
+
+    const priceOf = (id: string) => [stored.get(id)?.price, stored.get(id)?.priceOverride ?? null];
+    return { database, service, prices, priceOf };
+}
+
+describe('ItemService variant prices', () => {
+    it('gives a variant created without a price its parent\'s, and the parent\'s later changes', async () => {
+        const { service, priceOf } = setup([PARENT]);
+
+        const variant = await service.createItemVariant(PARENT_ID, { id: VARIANT_M, attributes: { size: 'M' }, quantity: 3 });
+        await service.updateCustomerItem(PARENT_ID, { price: 25 });
+
+        assert.deepEqual([variant.price, variant.priceOverride], [20, null]);
+        assert.deepEqual(priceOf(VARIANT_M), [25, null]);
+    });
+
+    it('keeps the price a variant was created with when the parent\'s changes', async () => {
+        const { service, priceOf } = setup([PARENT]);
+
+        const variant = await service.createItemVariant(PARENT_ID, { id: VARIANT_L, attributes: { size: 'L' }, quantity: 3, price: 24 });
+        await service.updateCustomerItem(PARENT_ID, { price: 25 });
+
+        assert.deepEqual([variant.price, variant.priceOverride], [24, 24]);
+        assert.deepEqual(priceOf(VARIANT_L), [24, 24]);
+        assert.deepEqual(priceOf(PARENT_ID), [25, null]);
+    });
+
+    it('makes a price set on a variant its own until the override is cleared', async () => {
+        const { service, priceOf } = setup([
+            item(PARENT_ID, { price: 25 }),
+            item(VARIANT_M, { parentItemId: PARENT_ID, attributes: { size: 'M' }, price: 25, priceOverride: null })
+        ]);
+
+        await service.updateCustomerItem(VARIANT_M, { price: 22 });
+        assert.deepEqual(priceOf(VARIANT_M), [22, 22]);
+
+        await service.updateCustomerItem(PARENT_ID, { price: 27 });
+        assert.deepEqual(priceOf(VARIANT_M), [22, 22]);
+
+        await service.updateCustomerItem(VARIANT_M, { priceOverride: null });
+        assert.deepEqual(priceOf(VARIANT_M), [27, null]);
+    });
+
+    it('sets a variant\'s price through its override as well', async () => {
+        const { service, priceOf } = setup([
+            PARENT,
+            item(VARIANT_M, { parentItemId: PARENT_ID, attributes: { size: 'M' }, priceOverride: null })
+        ]);
+
+        await service.updateCustomerItem(VARIANT_M, { priceOverride: 18 });
+
+        assert.deepEqual(priceOf(VARIANT_M), [18, 18]);
+    });
+
+    it('ignores an override sent for an item that is not a variant', async () => {
+        const { service, priceOf } = setup([PARENT]);
+
+        await service.updateCustomerItem(PARENT_ID, { priceOverride: 5, name: 'Shirt' });
+
+        assert.deepEqual(priceOf(PARENT_ID), [20, null]);
+    });
+});
+
+describe('ItemService.applyScheduledPrice', () => {
+    const DUE = new Date('2026-03-01T00:00:00Z');
+
+    it('brings a due change into the item and the variants that inherit its price', async () => {
+        const { database, service, prices, priceOf } = setup([
+            PARENT,
+            item(VARIANT_M, { parentItemId: PARENT_ID, priceOverride: null }),
+            item(VARIANT_L, { parentItemId: PARENT_ID, price: 24, priceOverride: 24 })
+        ], { [PARENT_ID]: { itemId: PARENT_ID, price: 23, effectiveFrom: DUE, effectiveTo: null } });
+
+        const applied = await service.applyScheduledPrice(PARENT_ID);
+
+        assert.deepEqual(applied?.variantIds, [VARIANT_M]);
+        assert.deepEqual(priceOf(PARENT_ID), [23, null]);
+        assert.deepEqual(priceOf(VARIANT_M), [23, null]);
+        assert.deepEqual(priceOf(VARIANT_L), [24, 24]);
+        assert.deepEqual(prices, [[VARIANT_M, 23, DUE]]);
+        assert.equal(database.find(/FOR UPDATE/)[0]?.params[0], PARENT_ID);
+
+        const [event] = database.find(/INSERT INTO outbox/).map(query => JSON.parse(query.params[2]));
+        assert.equal(event.eventType, 'ITEM_PRICE_CHANGED');
+        assert.deepEqual([event.data.itemId, event.data.previousPrice, event.data.price], [PARENT_ID, 20, 23]);
+    });
+
+    it('makes a variant\'s own scheduled price its override', async () => {
+        const { service, priceOf } = setup([
+            PARENT,
+            item(VARIANT_M, { parentItemId: PARENT_ID, priceOverride: null })
+        ], { [VARIANT_M]: { itemId: VARIANT_M, price: 19, effectiveFrom: DUE, effectiveTo: null } });
+
+        const applied = await service.applyScheduledPrice(VARIANT_M);
+
+        assert.deepEqual(applied?.variantIds, []);
+        assert.deepEqual(priceOf(VARIANT_M), [19, 19]);
+    });
+
+    it('does nothing when the price in effect is already the item\'s', async () => {
+        const { database, service } = setup([PARENT], {
+            [PARENT_ID]: { itemId: PARENT_ID, price: 20, effectiveFrom: CREATED, effectiveTo: null }
+        });
+
+        assert.equal(await service.applyScheduledPrice(PARENT_ID), null);
+        assert.equal(await service.applyScheduledPrice(VARIANT_M), null);
+        assert.equal(database.find(/INSERT INTO outbox/).length, 0);
+    });
+});
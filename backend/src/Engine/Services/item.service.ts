@@ -1,22 +1,61 @@
 // engine/services/item.service.ts
 import { DatabaseService } from './database.service';
+import { StockMovementService } from './stockMovement.service';
+import { WarehouseService } from './warehouse.service';
+import { CategoryService } from './category.service';
+import { PriceService } from './price.service';
+import { OutboxService } from './outbox.service';
 import { logger } from '../../utils/logger';
+import { config } from '../../config/config';
 import {
+    CategoryFacet,
+    ConflictError,
     CustomerItem,
     CreateCustomerItemRequest,
-    UpdateCustomerItemRequest
+    CreateItemVariantRequest,
+    ItemAttributes,
+    ItemPrice,
+    KafkaEvent,
+    UpdateCustomerItemRequest,
+    StockLevel,
+    StockMovement,
+    StockMovementReason,
+    NotFoundError,
+    ValidationError
 } from '../../types';
 import { v4 as uuidv4 } from 'uuid';
 
 export class ItemService {
-    constructor(private databaseService: DatabaseService) { }
+    private stockMovementService: StockMovementService;
+    private warehouseService: WarehouseService;
+    private categoryService: CategoryService;
+    private priceService: PriceService;
+    private outboxService: OutboxService;
+
+    constructor(private databaseService: DatabaseService) {
+        this.stockMovementService = new StockMovementService(databaseService);
+        this.warehouseService = new WarehouseService(databaseService);
+        this.categoryService = new CategoryService(databaseService);
+        this.priceService = new PriceService(databaseService);
+        this.outboxService = new OutboxService(databaseService);
+    }
 
     public async createCustomerItem(data: CreateCustomerItemRequest | CustomerItem): Promise<CustomerItem> {
         try {
             const customer = await this.databaseService.getCustomerById(data.customerId);
             if (!customer) {
-                throw new Error(`Customer with ID ${data.customerId} not found`);
+                throw new NotFoundError(`Customer with ID ${data.customerId} not found`, 'Customer', data.customerId);
+            }
+            // Items belong to their customer's tenant, which is also the SKU namespace
+            const tenantId = data.tenantId || customer.tenantId || undefined;
+            if (data.sku) {
+                await this.assertSkuAvailable(data.sku, tenantId || null);
             }
+            // A managed category also supplies the item's category label
+            const category = data.categoryId
+                ? await this.categoryService.requireCategory(data.categoryId, tenantId || null)
+                : null;
+
             const item: CustomerItem = {
                 id: 'id' in data ? data.id : uuidv4(),
                 customerId: data.customerId,
@@ -24,13 +63,18 @@ export class ItemService {
                 description: data.description,
                 price: data.price,
                 quantity: data.quantity,
-                category: data.category,
+                category: category ? category.name : data.category,
+                categoryId: category ? category.id : null,
+                minStockLevel: data.minStockLevel ?? 0,
+                weight: data.weight ?? null,
+                sku: data.sku || undefined,
+                tenantId,
                 createdAt: 'createdAt' in data ? data.createdAt : new Date(),
                 updatedAt: 'updatedAt' in data ? data.updatedAt : new Date(),
                 status: 'ACTIVE'
             };
 
-            const createdItem = await this.databaseService.createCustomerItem(item);
+            const createdItem = await this.insertItem(item, 'warehouseId' in data ? data.warehouseId : null);
 
             logger.info(`Customer item created successfully:`, {
                 itemId: createdItem.id,
@@ -42,14 +86,106 @@ export class ItemService {
 
         } catch (error) {
             logger.error('Error creating customer item:', error);
-            throw error;
+            throw this.toConflict(error, data.sku);
         }
     }
 
+    /**
+     * Adds a size/colour/... variant under an existing item. The variant is an item
+     * of its own, holding its own stock and taking the parent's customer, tenant,
+     * category and price unless it sets a price of its own.
+     */
+    public async createItemVariant(
+        parentId: string,
+        data: CreateItemVariantRequest & { id?: string }
+    ): Promise<CustomerItem> {
+        try {
+            if (!parentId || !this.isValidUuid(parentId)) {
+                throw new ValidationError('Invalid item ID format', 'id', parentId);
+            }
+
+            const parent = await this.databaseService.getCustomerItemById(parentId);
+            if (!parent || parent.status !== 'ACTIVE') {
+                throw new NotFoundError(`Item with ID ${parentId} not found`, 'Item', parentId);
+            }
+
+            if (parent.parentItemId) {
+                throw new ConflictError(`Item ${parent.name} is itself a variant; add variants to its parent ${parent.parentItemId}`);
+            }
+
+            // Parents only group their variants, so stock already on the parent would be stranded
+            if (parent.quantity > 0) {
+                throw new ConflictError(`Item ${parent.name} still holds stock; move it to a variant before adding variants`, {
+                    itemId: parent.id,
+                    quantity: parent.quantity
+                });
+            }
+
+            if (!data.attributes || Object.keys(data.attributes).length === 0) {
+                throw new ValidationError('A variant needs at least one attribute', 'attributes', data.attributes);
+            }
+
+            if (data.sku) {
+                await this.assertSkuAvailable(data.sku, parent.tenantId || null);
+            }
+
+            const variant: CustomerItem = {
+                id: data.id || uuidv4(),
+                customerId: parent.customerId,
+                name: data.name || `${parent.name} (${Object.values(data.attributes).join(' / ')})`,
+                description: parent.description,
+                price: data.price ?? parent.price,
+                priceOverride: data.price ?? null,
+                quantity: data.quantity,
+                category: parent.category,
+                categoryId: parent.categoryId ?? null,
+                minStockLevel: data.minStockLevel ?? parent.minStockLevel ?? 0,
+                weight: data.weight ?? parent.weight ?? null,
+                sku: data.sku || undefined,
+                tenantId: parent.tenantId,
+                parentItemId: parent.id,
+                attributes: data.attributes,
+                createdAt: new Date(),
+                updatedAt: new Date(),
+                status: 'ACTIVE'
+            };
+
+            const createdVariant = await this.insertItem(variant, data.warehouseId);
+
+            logger.info(`Item variant created successfully:`, {
+                itemId: createdVariant.id,
+                parentItemId: parent.id,
+                attributes: createdVariant.attributes
+            });
+
+            return createdVariant;
+
+        } catch (error) {
+            logger.error('Error creating item variant:', error);
+            throw this.toConflict(error, data.sku);
+        }
+    }
+
+    public async getItemVariants(parentId: string, attributes?: ItemAttributes): Promise<CustomerItem[]> {
+        if (!parentId || !this.isValidUuid(parentId)) {
+            throw new ValidationError('Invalid item ID format', 'id', parentId);
+        }
+
+        return await this.withLocations(await this.databaseService.getItemVariants([parentId], attributes));
+    }
+
+    public async hasVariants(id: string): Promise<boolean> {
+        const result = await this.databaseService.executeQuery(
+            'SELECT 1 FROM customer_items WHERE parent_item_id = $1 LIMIT 1',
+            [id]
+        );
+        return result.rowCount > 0;
+    }
+
     public async getCustomerItemById(id: string): Promise<CustomerItem | null> {
         try {
             if (!id || !this.isValidUuid(id)) {
-                throw new Error('Invalid item ID format');
+                throw new ValidationError('Invalid item ID format', 'id', id);
             }
 
             const item = await this.databaseService.getCustomerItemById(id);
@@ -58,9 +194,11 @@ export class ItemService {
                 logger.info(`Customer item retrieved:`, { itemId: id });
             } else {
                 logger.warn(`Customer item not found:`, { itemId: id });
+                return null;
             }
 
-            return item;
+            const [withLocations] = await this.withLocations([item]);
+            return withLocations || item;
 
         } catch (error) {
             logger.error('Error getting customer item by ID:', error);
@@ -68,16 +206,46 @@ export class ItemService {
         }
     }
 
+    public async getCustomerItemBySku(sku: string, tenantId: string | null): Promise<CustomerItem | null> {
+        try {
+            if (!sku) {
+                throw new ValidationError('SKU is required', 'sku', sku);
+            }
+
+            const item = await this.databaseService.getCustomerItemBySku(sku, tenantId);
+            if (!item) {
+                logger.warn(`Customer item not found for SKU:`, { sku, tenantId });
+                return null;
+            }
+
+            const [withLocations] = await this.withLocations([item]);
+            return withLocations || item;
+
+        } catch (error) {
+            logger.error('Error getting customer item by SKU:', error);
+            throw error;
+        }
+    }
+
     public async getCustomerItems(
         customerId: string,
         page: number = 1,
         limit: number = 10,
         category?: string,
-        search?: string
-    ): Promise<{ items: CustomerItem[]; total: number; page: number; limit: number; totalPages: number }> {
+        search?: string,
+        attributes?: ItemAttributes,
+        categoryId?: string
+    ): Promise<{
+        items: CustomerItem[];
+        total: number;
+        page: number;
+        limit: number;
+        totalPages: number;
+        facets: { categories: CategoryFacet[] };
+    }> {
         try {
             if (!customerId || !this.isValidUuid(customerId)) {
-                throw new Error('Invalid customer ID format');
+                throw new ValidationError('Invalid customer ID format', 'id', customerId);
             }
 
             if (page < 1) page = 1;
@@ -85,17 +253,37 @@ export class ItemService {
 
             const customer = await this.databaseService.getCustomerById(customerId);
             if (!customer) {
-                throw new Error(`Customer with ID ${customerId} not found`);
+                throw new NotFoundError(`Customer with ID ${customerId} not found`, 'Customer', customerId);
             }
 
+            // Filtering by a managed category includes its subcategories
+            const categoryIds = categoryId
+                ? await this.categoryService.getSubtreeIds(categoryId)
+                : undefined;
+
             const result = await this.databaseService.getCustomerItems(
                 customerId,
                 page,
                 limit,
                 category,
-                search
+                search,
+                attributes,
+                categoryIds
             );
 
+            // Facets count the customer's list as filtered, except by category
+            const facetConditions = [`customer_id = $1`, `status = 'ACTIVE'`, `parent_item_id IS NULL`];
+            const facetParams: any[] = [customerId];
+            if (search) {
+                facetParams.push(`%${search}%`);
+                facetConditions.push(`name ILIKE $${facetParams.length}`);
+            }
+            if (attributes) {
+                facetParams.push(attributes);
+                facetConditions.push(this.variantAttributesCondition(facetParams.length));
+            }
+            const categoryFacets = await this.categoryService.getCategoryFacets(facetConditions.join(' AND '), facetParams);
+
             const totalPages = Math.ceil(result.total / limit);
 
             logger.info(`Retrieved customer items:`, {
@@ -105,15 +293,18 @@ export class ItemService {
                 total: result.total,
                 totalPages,
                 category: category || 'all',
-                search: search || 'none'
+                search: search || 'none',
+                attributes: attributes || 'none',
+                categoryId: categoryId || 'all'
             });
 
             return {
-                items: result.items,
+                items: await this.withVariants(await this.withLocations(result.items), attributes),
                 total: result.total,
                 page,
                 limit,
-                totalPages
+                totalPages,
+                facets: { categories: categoryFacets }
             };
 
         } catch (error) {
@@ -122,13 +313,35 @@ export class ItemService {
         }
     }
 
+    public async exportCustomerItems(customerId: string): Promise<CustomerItem[]> {
+        if (!customerId || !this.isValidUuid(customerId)) {
+            throw new ValidationError('Invalid customer ID format', 'id', customerId);
+        }
+
+        const customer = await this.databaseService.getCustomerById(customerId);
+        if (!customer) {
+            throw new NotFoundError(`Customer with ID ${customerId} not found`, 'Customer', customerId);
+        }
+
+        return await this.databaseService.getAllCustomerItems(customerId);
+    }
+
     public async getAllItems(
         page: number = 1,
         limit: number = 10,
         category?: string,
         search?: string,
-        customerId?: string
-    ): Promise<{ items: CustomerItem[]; total: number; page: number; limit: number; totalPages: number }> {
+        customerId?: string,
+        attributes?: ItemAttributes,
+        categoryId?: string
+    ): Promise<{
+        items: CustomerItem[];
+        total: number;
+        page: number;
+        limit: number;
+        totalPages: number;
+        facets: { categories: CategoryFacet[] };
+    }> {
         try {
             if (page < 1) page = 1;
             if (limit < 1 || limit > 100) limit = 10;
@@ -136,24 +349,40 @@ export class ItemService {
             let query = 'SELECT * FROM customer_items';
             let countQuery = 'SELECT COUNT(*) FROM customer_items';
             const params: any[] = [];
-            const conditions: string[] = [];
+            // Variants are listed under their parent rather than as items of their own
+            const conditions: string[] = ['parent_item_id IS NULL'];
 
             if (customerId) {
                 if (!this.isValidUuid(customerId)) {
-                    throw new Error('Invalid customer ID format');
+                    throw new ValidationError('Invalid customer ID format', 'id', customerId);
                 }
                 conditions.push(`customer_id = $${params.length + 1}`);
                 params.push(customerId);
             }
 
+            if (search) {
+                conditions.push(`name ILIKE $${params.length + 1}`);
+                params.push(`%${search}%`);
+            }
+
+            if (attributes) {
+                conditions.push(this.variantAttributesCondition(params.length + 1));
+                params.push(attributes);
+            }
+
+            // Facets count the list as filtered so far, i.e. by everything except category
+            const facetWhere = conditions.join(' AND ');
+            const facetParams = [...params];
+
             if (category) {
                 conditions.push(`category = $${params.length + 1}`);
                 params.push(category);
             }
 
-            if (search) {
-                conditions.push(`name ILIKE $${params.length + 1}`);
-                params.push(`%${search}%`);
+            // Filtering by a managed category includes its subcategories
+            if (categoryId) {
+                conditions.push(`category_id = ANY($${params.length + 1})`);
+                params.push(await this.categoryService.getSubtreeIds(categoryId));
             }
 
             if (conditions.length > 0) {
@@ -168,7 +397,8 @@ export class ItemService {
 
             const results = await Promise.all([
                 this.databaseService.executeQuery<any>(query, queryParams),
-                this.databaseService.executeQuery<{ count: string }>(countQuery, params)
+                this.databaseService.executeQuery<{ count: string }>(countQuery, params),
+                this.categoryService.getCategoryFacets(facetWhere, facetParams)
             ]);
 
             const itemsResult = results[0];
@@ -190,28 +420,36 @@ export class ItemService {
                 limit,
                 total,
                 totalPages,
-                filters: { customerId, category, search }
+                filters: { customerId, category, categoryId, search, attributes }
             });
 
+            const items = await this.withLocations(itemRows.map(row => ({
+                id: row.id,
+                customerId: row.customer_id,
+                name: row.name,
+                description: row.description,
+                price: parseFloat(row.price),
+                quantity: row.quantity,
+                reservedQuantity: row.reserved_quantity || 0,
+                availableQuantity: row.quantity - (row.reserved_quantity || 0),
+                category: row.category,
+                categoryId: row.category_id || null,
+                status: row.status,
+                minStockLevel: row.min_stock_level,
+                weight: row.weight !== null && row.weight !== undefined ? parseFloat(row.weight) : null,
+                sku: row.sku || undefined,
+                createdAt: new Date(row.created_at),
+                updatedAt: new Date(row.updated_at),
+                tenantId: row.tenant_id
+            })));
+
             return {
-                items: itemRows.map(row => ({
-                    id: row.id,
-                    customerId: row.customer_id,
-                    name: row.name,
-                    description: row.description,
-                    price: parseFloat(row.price),
-                    quantity: row.quantity,
-                    category: row.category,
-                    status: row.status,
-                    minStockLevel: row.min_stock_level,
-                    createdAt: new Date(row.created_at),
-                    updatedAt: new Date(row.updated_at),
-                    tenantId: row.tenant_id
-                })),
+                items: await this.withVariants(items, attributes),
                 total,
                 page,
                 limit,
-                totalPages
+                totalPages,
+                facets: { categories: results[2] }
             };
 
         } catch (error) {
@@ -223,7 +461,7 @@ export class ItemService {
     public async updateCustomerItem(id: string, updates: UpdateCustomerItemRequest): Promise<CustomerItem | null> {
         try {
             if (!id || !this.isValidUuid(id)) {
-                throw new Error('Invalid item ID format');
+                throw new ValidationError('Invalid item ID format', 'id', id);
             }
 
             const existingItem = await this.databaseService.getCustomerItemById(id);
@@ -232,7 +470,58 @@ export class ItemService {
                 return null;
             }
 
-            const updatedItem = await this.databaseService.updateCustomerItem(id, updates);
+            if (updates.sku && updates.sku !== existingItem.sku) {
+                await this.assertSkuAvailable(updates.sku, existingItem.tenantId || null);
+            }
+
+            if (updates.attributes && !existingItem.parentItemId) {
+                throw new ValidationError('Only variants have attributes', 'attributes', updates.attributes);
+            }
+
+            const category = updates.categoryId
+                ? await this.categoryService.requireCategory(updates.categoryId, existingItem.tenantId || null)
+                : null;
+
+            // Quantity goes through the stock path so it respects reservations and is recorded;
+            // as with a 'set' that names no warehouse, it is the default warehouse's count
+            const { quantity, ...otherUpdates } = updates;
+            if (category) {
+                otherUpdates.category = category.name;
+            }
+            if (existingItem.parentItemId) {
+                // A variant's price is its own from then on; clearing the override inherits the parent's again
+                if (otherUpdates.price !== undefined) {
+                    otherUpdates.priceOverride = otherUpdates.price;
+                } else if (otherUpdates.priceOverride !== undefined && otherUpdates.priceOverride !== null) {
+                    otherUpdates.price = otherUpdates.priceOverride;
+                } else if (otherUpdates.priceOverride === null) {
+                    const parent = await this.databaseService.getCustomerItemById(existingItem.parentItemId);
+                    otherUpdates.price = parent?.price ?? existingItem.price;
+                }
+            } else {
+                delete otherUpdates.priceOverride;
+            }
+
+            const updatedItem = await this.databaseService.executeTransaction(async () => {
+                if (quantity !== undefined) {
+                    await this.updateItemQuantity(id, quantity, 'set');
+                }
+                if (otherUpdates.price !== undefined) {
+                    await this.databaseService.executeQuery('SELECT id FROM customer_items WHERE id = $1 FOR UPDATE', [id]);
+                }
+                const updated = await this.databaseService.updateCustomerItem(id, otherUpdates);
+                if (updated && otherUpdates.price !== undefined) {
+                    // The new price applies from now; earlier prices stay in the history
+                    const now = new Date();
+                    await this.priceService.setPrice(id, otherUpdates.price, now);
+                    if (!existingItem.parentItemId) {
+                        for (const variantId of await this.databaseService.inheritVariantPrices(id, otherUpdates.price)) {
+                            await this.priceService.setPrice(variantId, otherUpdates.price, now);
+                        }
+                    }
+                }
+                return updated;
+            });
 
             if (updatedItem) {
                 logger.info(`Customer item updated successfully:`, {
@@ -245,18 +534,19 @@ export class ItemService {
 
         } catch (error) {
             logger.error('Error updating customer item:', error);
-            throw error;
+            throw this.toConflict(error, updates.sku);
         }
     }
 
     public async updateItemQuantity(
         id: string,
         quantity: number,
-        operation: 'set' | 'add' | 'subtract' = 'set'
+        operation: 'set' | 'add' | 'subtract' = 'set',
+        movement: { reason?: StockMovementReason; referenceId?: string | null; warehouseId?: string | null } = {}
     ): Promise<CustomerItem | null> {
         try {
             if (!id || !this.isValidUuid(id)) {
-                throw new Error('Invalid item ID format');
+                throw new ValidationError('Invalid item ID format', 'id', id);
             }
 
             const existingItem = await this.databaseService.getCustomerItemById(id);
@@ -265,47 +555,239 @@ export class ItemService {
                 return null;
             }
 
-            let newQuantity: number;
-            switch (operation) {
-                case 'add':
-                    newQuantity = existingItem.quantity + quantity;
-                    break;
-                case 'subtract':
-                    newQuantity = Math.max(0, existingItem.quantity - quantity);
-                    break;
-                case 'set':
-                default:
-                    newQuantity = quantity;
-                    break;
+            if (await this.hasVariants(id)) {
+                throw new ConflictError(`Item ${existingItem.name} has variants; stock is kept per variant`);
             }
 
-            if (newQuantity < 0) {
-                throw new Error('Quantity cannot be negative');
+            // The operation applies to one location (the default warehouse unless named);
+            // the item's total moves by the same amount
+            const warehouseId = await this.warehouseService.resolveWarehouseId(movement.warehouseId);
+
+            const adjusted = await this.databaseService.executeTransaction(async () => {
+                // Item row first, as on the order path, so the two cannot deadlock
+                await this.databaseService.executeQuery('SELECT id FROM customer_items WHERE id = $1 FOR UPDATE', [id]);
+
+                const location = await this.warehouseService.adjustStock(id, warehouseId, quantity, operation);
+                if (!location) {
+                    return null;
+                }
+
+                const delta = location.quantity - location.previousQuantity;
+                const result = await this.databaseService.adjustCustomerItemQuantity(id, Math.abs(delta), delta < 0 ? 'subtract' : 'add');
+                if (result) {
+                    await this.stockMovementService.record({
+                        itemId: id,
+                        delta,
+                        quantityAfter: result.item.quantity,
+                        reason: movement.reason || (operation === 'set' ? 'COUNT_CORRECTION' : 'MANUAL_ADJUSTMENT'),
+                        referenceId: movement.referenceId,
+                        warehouseId
+                    });
+                }
+                return result;
+            });
+
+            if (!adjusted) {
+                if (operation === 'set') {
+                    throw new ConflictError(`Quantity for item ${existingItem.name} cannot be set below the units reserved by pending orders at that warehouse`);
+                }
+                throw new ConflictError(`Insufficient quantity for item ${existingItem.name} at that warehouse. Requested: ${quantity}`);
             }
 
-            const updatedItem = await this.databaseService.updateCustomerItem(id, { quantity: newQuantity });
+            logger.info(`Item quantity updated:`, {
+                itemId: id,
+                warehouseId,
+                operation,
+                oldQuantity: adjusted.previousQuantity,
+                newQuantity: adjusted.item.quantity
+            });
 
-            if (updatedItem) {
-                logger.info(`Item quantity updated:`, {
+            return adjusted.item;
+
+        } catch (error) {
+            logger.error('Error updating item quantity:', error);
+            throw error;
+        }
+    }
+
+    // Records a price the item takes on at effectiveFrom; the PriceScheduler applies it once due
+    public async scheduleItemPrice(id: string, price: number, effectiveFrom: Date): Promise<ItemPrice | null> {
+        try {
+            if (!id || !this.isValidUuid(id)) {
+                throw new ValidationError('Invalid item ID format', 'id', id);
+            }
+
+            const existingItem = await this.databaseService.getCustomerItemById(id);
+            if (!existingItem) {
+                logger.warn(`Attempted to schedule a price for non-existent item:`, { itemId: id });
+                return null;
+            }
+
+            const scheduled = await this.databaseService.executeTransaction(async () => {
+                await this.databaseService.executeQuery('SELECT id FROM customer_items WHERE id = $1 FOR UPDATE', [id]);
+                return await this.priceService.setPrice(id, price, effectiveFrom);
+            });
+
+            logger.info(`Item price change scheduled:`, { itemId: id, price, effectiveFrom });
+
+            return scheduled;
+
+        } catch (error) {
+            logger.error('Error scheduling item price:', error);
+            throw error;
+        }
+    }
+
+    /**
+     * Brings the item's stored price in line with its history once a scheduled
+     * change is due, along with variants that inherit it, and publishes
+     * ITEM_PRICE_CHANGED. Returns null when nothing was due.
+     */
+    public async applyScheduledPrice(id: string): Promise<{ item: CustomerItem; variantIds: string[] } | null> {
+        return await this.databaseService.executeTransaction(async () => {
+            await this.databaseService.executeQuery('SELECT id FROM customer_items WHERE id = $1 FOR UPDATE', [id]);
+
+            const item = await this.databaseService.getCustomerItemById(id);
+            const current = await this.priceService.getPriceAt(id, new Date());
+            if (!item || !current || current.price === item.price) {
+                return null;
+            }
+
+            // A variant's own scheduled price is its override, as when it is set directly
+            const updated = await this.databaseService.updateCustomerItem(
+                id,
+                item.parentItemId ? { price: current.price, priceOverride: current.price } : { price: current.price }
+            );
+            if (!updated) {
+                return null;
+            }
+
+            const variantIds = item.parentItemId
+                ? []
+                : await this.databaseService.inheritVariantPrices(id, current.price);
+            for (const variantId of variantIds) {
+                await this.priceService.setPrice(variantId, current.price, current.effectiveFrom);
+            }
+
+            const event: KafkaEvent = {
+                eventId: uuidv4(),
+                eventType: 'ITEM_PRICE_CHANGED',
+                aggregateId: id,
+                timestamp: new Date(),
+                data: {
                     itemId: id,
-                    operation,
-                    oldQuantity: existingItem.quantity,
-                    newQuantity: updatedItem.quantity
-                });
+                    customerId: item.customerId,
+                    previousPrice: item.price,
+                    price: current.price,
+                    effectiveFrom: current.effectiveFrom
+                },
+                metadata: {
+                    source: 'ENGINE',
+                    ...(item.tenantId && { tenantId: item.tenantId })
+                }
+            };
+            await this.outboxService.enqueue(config.Kafka.topics.itemUpdates, event);
+
+            logger.info(`Scheduled item price applied:`, {
+                itemId: id,
+                previousPrice: item.price,
+                price: current.price,
+                variants: variantIds.length
+            });
+
+            return { item: updated, variantIds };
+        });
+    }
+
+    public async getPriceHistory(id: string): Promise<ItemPrice[]> {
+        if (!id || !this.isValidUuid(id)) {
+            throw new ValidationError('Invalid item ID format', 'id', id);
+        }
+
+        return await this.priceService.getPriceHistory(id);
+    }
+
+    public async getPriceAt(id: string, at: Date): Promise<ItemPrice | null> {
+        if (!id || !this.isValidUuid(id)) {
+            throw new ValidationError('Invalid item ID format', 'id', id);
+        }
+
+        return await this.priceService.getPriceAt(id, at);
+    }
+
+    /**
+     * The price an order placed at `at` pays. Read from the history rather than the
+     * stored price, so a change that is due counts before the scheduler applies it;
+     * variants without their own price follow their parent's.
+     */
+    public async getEffectivePrice(item: CustomerItem, at: Date): Promise<number> {
+        const priceItemId = item.parentItemId && (item.priceOverride === null || item.priceOverride === undefined)
+            ? item.parentItemId
+            : item.id;
+        const price = await this.priceService.getPriceAt(priceItemId, at);
+        return price ? price.price : item.price;
+    }
+
+    public async getDuePriceItemIds(limit: number): Promise<string[]> {
+        return await this.priceService.getDueItemIds(limit);
+    }
+
+    public async getLowStockItems(
+        customerId?: string,
+        page: number = 1,
+        limit: number = 20
+    ): Promise<{ items: CustomerItem[]; total: number; page: number; limit: number; totalPages: number }> {
+        try {
+            if (customerId && !this.isValidUuid(customerId)) {
+                throw new ValidationError('Invalid customer ID format', 'id', customerId);
             }
 
-            return updatedItem;
+            if (page < 1) page = 1;
+            if (limit < 1 || limit > 100) limit = 20;
+
+            const result = await this.databaseService.getLowStockItems(customerId, page, limit);
+
+            return {
+                items: await this.withLocations(result.items),
+                total: result.total,
+                page,
+                limit,
+                totalPages: Math.ceil(result.total / limit)
+            };
 
         } catch (error) {
-            logger.error('Error updating item quantity:', error);
+            logger.error('Error getting low-stock items:', error);
             throw error;
         }
     }
 
+    public async getStockMovements(
+        id: string,
+        page: number = 1,
+        limit: number = 20
+    ): Promise<{ movements: StockMovement[]; total: number; page: number; limit: number; totalPages: number }> {
+        if (!id || !this.isValidUuid(id)) {
+            throw new ValidationError('Invalid item ID format', 'id', id);
+        }
+
+        if (page < 1) page = 1;
+        if (limit < 1 || limit > 100) limit = 20;
+
+        return await this.stockMovementService.getMovements(id, page, limit);
+    }
+
+    public async getStockAsOf(id: string, asOf: Date): Promise<StockLevel | null> {
+        if (!id || !this.isValidUuid(id)) {
+            throw new ValidationError('Invalid item ID format', 'id', id);
+        }
+
+        return await this.stockMovementService.getStockAsOf(id, asOf);
+    }
+
     public async deleteCustomerItem(id: string): Promise<boolean> {
         try {
             if (!id || !this.isValidUuid(id)) {
-                throw new Error('Invalid item ID format');
+                throw new ValidationError('Invalid item ID format', 'id', id);
             }
 
             const existingItem = await this.databaseService.getCustomerItemById(id);
@@ -314,7 +796,14 @@ export class ItemService {
                 return false;
             }
 
-            const deleted = await this.databaseService.deleteCustomerItem(id);
+            // Variants go with their parent
+            const deleted = await this.databaseService.executeTransaction(async () => {
+                const variants = await this.databaseService.getItemVariants([id]);
+                for (const variant of variants) {
+                    await this.databaseService.deleteCustomerItem(variant.id);
+                }
+                return await this.databaseService.deleteCustomerItem(id);
+            });
 
             if (deleted) {
                 logger.info(`Customer item deleted successfully:`, { itemId: id });
@@ -330,6 +819,73 @@ export class ItemService {
         }
     }
 
+    private async assertSkuAvailable(sku: string, tenantId: string | null): Promise<void> {
+        const existing = await this.databaseService.getCustomerItemBySku(sku, tenantId);
+        if (existing) {
+            throw new ConflictError(`SKU ${sku} is already used by item ${existing.id}`, { sku, itemId: existing.id });
+        }
+    }
+
+    // Unique index violations a concurrent writer can still cause between the check and the write
+    private toConflict(error: unknown, sku: string | null | undefined): unknown {
+        const { code, constraint } = (error || {}) as { code?: string; constraint?: string };
+        if (code !== '23505') {
+            return error;
+        }
+        if (constraint === 'idx_customer_items_variant_attributes') {
+            return new ConflictError('A variant with these attributes already exists under this item');
+        }
+        if (sku) {
+            return new ConflictError(`SKU ${sku} is already in use`, { sku });
+        }
+        return error;
+    }
+
+    // Parents with at least one active variant having all the given attributes
+    private variantAttributesCondition(paramIndex: number): string {
+        return `EXISTS (
+                    SELECT 1 FROM customer_items v
+                    WHERE v.parent_item_id = customer_items.id AND v.status = 'ACTIVE' AND v.attributes @> $${paramIndex}
+                )`;
+    }
+
+    // Shared by items and variants: the row, its opening stock at one location and the ledger entry
+    private async insertItem(item: CustomerItem, warehouseId: string | null | undefined): Promise<CustomerItem> {
+        const locationId = await this.warehouseService.resolveWarehouseId(warehouseId);
+
+        return await this.databaseService.executeTransaction(async () => {
+            const created = await this.databaseService.createCustomerItem(item);
+            await this.priceService.setPrice(created.id, created.price, created.createdAt);
+            await this.warehouseService.moveStock(created.id, locationId, created.quantity, 0);
+            await this.stockMovementService.record({
+                itemId: created.id,
+                delta: created.quantity,
+                quantityAfter: created.quantity,
+                reason: 'INITIAL',
+                warehouseId: locationId
+            });
+            return created;
+        });
+    }
+
+    // Adds the per-warehouse split to items on read
+    private async withLocations(items: CustomerItem[]): Promise<CustomerItem[]> {
+        const locations = await this.warehouseService.getStockLocations(items.map(item => item.id));
+        return items.map(item => ({ ...item, locations: locations.get(item.id) || [] }));
+    }
+
+    // Groups variants under their parents in item lists; with an attribute filter, only the matching ones
+    private async withVariants(items: CustomerItem[], attributes?: ItemAttributes): Promise<CustomerItem[]> {
+        const variants = await this.withLocations(
+            await this.databaseService.getItemVariants(items.map(item => item.id), attributes)
+        );
+
+        return items.map(item => ({
+            ...item,
+            variants: variants.filter(variant => variant.parentItemId === item.id)
+        }));
+    }
+
     private isValidUuid(uuid: string): boolean {
         const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-[1-5][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i;
         return uuidRegex.test(uuid);
@@ -0,0 +1,233 @@
+// engine/services/operation.service.ts
+import { EventEmitter } from 'events';
+import { EachMessagePayload } from 'kafkajs';
+import { KafkaService } from '../../kafka';
+import { RedisService } from '../../cache/redies.service';
+import { logger } from '../../utils/logger';
+import { config } from '../../config/config';
+import { CommandErrorCode, OperationRecord, OperationStatus } from '../../types';
+
+type OperationEntityType = OperationRecord['entityType'];
+
+/**
+ * Tracks the lifecycle of every 202-accepted write so clients can poll
+ * GET /api/operations/:correlationId instead of holding a WebSocket open.
+ *
+ * ACCEPTED is recorded by the controllers, PROCESSING by the EventProcessor,
+ * and the terminal COMPLETED/FAILED states are built from the update topics.
+ */
+export class OperationService {
+    private static instance: OperationService;
+    private kafkaService: KafkaService;
+    private redisService: RedisService;
+    private completionEmitter: EventEmitter = new EventEmitter();
+    private isRunning: boolean = false;
+
+    private constructor() {
+        this.kafkaService = KafkaService.getInstance();
+        this.redisService = RedisService.getInstance();
+        this.completionEmitter.setMaxListeners(0);
+    }
+
+    public static getInstance(): OperationService {
+        if (!OperationService.instance) {
+            OperationService.instance = new OperationService();
+        }
+        return OperationService.instance;
+    }
+
+    // Must run before the Kafka consumer is started
+    public async initialize(): Promise<void> {
+        if (this.isRunning) {
+            return;
+        }
+
+        const topics: Array<[string, OperationEntityType]> = [
+            [config.Kafka.topics.customerUpdates, 'CUSTOMER'],
+            [config.Kafka.topics.itemUpdates, 'ITEM'],
+            [config.Kafka.topics.orderUpdates, 'ORDER']
+        ];
+
+        for (const [topic, entityType] of topics) {
+            await this.kafkaService.subscribeToTopic(
+                topic,
+                (payload) => this.handleUpdateEvent(entityType, payload)
+            );
+        }
+
+        this.isRunning = true;
+        logger.info('Operation tracking subscribed to update topics');
+    }
+
+    public async recordAccepted(
+        correlationId: string,
+        operationType: string,
+        entityType: OperationEntityType,
+        entityId?: string
+    ): Promise<OperationRecord> {
+        const now = new Date();
+        const operation: OperationRecord = {
+            correlationId,
+            status: 'ACCEPTED',
+            operationType,
+            entityType,
+            entityId,
+            acceptedAt: now,
+            updatedAt: now,
+            history: [{ status: 'ACCEPTED', eventType: operationType, timestamp: now }]
+        };
+
+        await this.redisService.cacheOperation(operation);
+        return operation;
+    }
+
+    public async markProcessing(correlationId: string | undefined, eventType: string): Promise<void> {
+        if (!correlationId) {
+            return;
+        }
+
+        await this.transition(correlationId, 'PROCESSING', eventType);
+    }
+
+    public async getOperation(correlationId: string): Promise<OperationRecord | null> {
+        return await this.redisService.getCachedOperation(correlationId);
+    }
+
+    /**
+     * Resolves with the finished operation, or null if it is still running after timeoutMs
+     * or its record cannot be read. Completions consumed by this instance resolve
+     * immediately; Redis is polled as well in case another API instance consumed the
+     * update event.
+     */
+    public async waitForCompletion(correlationId: string, timeoutMs: number): Promise<OperationRecord | null> {
+        return new Promise((resolve) => {
+            let settled = false;
+
+            const finish = (operation: OperationRecord | null) => {
+                if (settled) return;
+                settled = true;
+                clearTimeout(timer);
+                clearInterval(poller);
+                this.completionEmitter.removeListener(correlationId, finish);
+                resolve(operation);
+            };
+
+            // The write was accepted either way, so a store failure ends the wait like a timeout
+            const checkStore = async () => {
+                try {
+                    const operation = await this.getOperation(correlationId);
+                    if (operation && this.isTerminal(operation.status)) {
+                        finish(operation);
+                    }
+                } catch (error) {
+                    logger.error(`Error polling operation ${correlationId}:`, error);
+                    finish(null);
+                }
+            };
+
+            // Listen first so a completion between the check and the subscription is not lost
+            this.completionEmitter.on(correlationId, finish);
+
+            const timer = setTimeout(() => finish(null), timeoutMs);
+            const poller = setInterval(() => { void checkStore(); }, config.api.syncWait.pollInterval);
+
+            void checkStore();
+        });
+    }
+
+    private async handleUpdateEvent(entityType: OperationEntityType, payload: EachMessagePayload): Promise<void> {
+        try {
+            const message = JSON.parse(payload.message.value?.toString() || '{}');
+            const correlationId = message.metadata?.correlationId;
+
+            if (!correlationId) {
+                return;
+            }
+
+            const succeeded = message.data?.success === true;
+            const status: OperationStatus = succeeded ? 'COMPLETED' : 'FAILED';
+
+            await this.transition(correlationId, status, message.eventType, {
+                entityType,
+                result: message.data?.data ?? null,
+                error: succeeded ? undefined : this.extractError(message.data),
+                errorCode: succeeded ? undefined : message.data?.errorCode || 'INTERNAL'
+            });
+        } catch (error) {
+            logger.error('Error tracking operation update:', error);
+        }
+    }
+
+    private async transition(
+        correlationId: string,
+        status: OperationStatus,
+        eventType: string,
+        outcome?: {
+            entityType: OperationEntityType;
+            result: any;
+            error: string | undefined;
+            errorCode: CommandErrorCode | undefined;
+        }
+    ): Promise<void> {
+        const now = new Date();
+        const existing = await this.redisService.getCachedOperation(correlationId);
+
+        // Never move a finished operation back to PROCESSING (e.g. on redelivery)
+        if (existing && this.isTerminal(existing.status) && !this.isTerminal(status)) {
+            return;
+        }
+
+        const operation: OperationRecord = existing || {
+            correlationId,
+            status,
+            operationType: eventType,
+            entityType: outcome?.entityType || 'CUSTOMER',
+            acceptedAt: now,
+            updatedAt: now,
+            history: []
+        };
+
+        operation.status = status;
+        operation.updatedAt = now;
+        operation.history.push({ status, eventType, timestamp: now });
+
+        if (outcome) {
+            operation.entityType = outcome.entityType;
+            operation.result = outcome.result;
+            operation.error = outcome.error;
+            operation.errorCode = outcome.errorCode;
+            operation.completedAt = now;
+
+            if (!operation.entityId && outcome.result?.id) {
+                operation.entityId = outcome.result.id;
+            }
+        }
+
+        await this.redisService.cacheOperation(operation);
+
+        if (this.isTerminal(status)) {
+            this.completionEmitter.emit(correlationId, operation);
+        }
+
+        logger.debug(`Operation ${correlationId} is now ${status}`, { eventType });
+    }
+
+    private extractError(data: any): string {
+        const error = data?.error;
+        if (!error) {
+            return 'Operation did not complete successfully';
+        }
+        if (typeof error === 'string') {
+            return error;
+        }
+        return error.message || JSON.stringify(error);
+    }
+
+    private isTerminal(status: OperationStatus): boolean {
+        return status === 'COMPLETED' || status === 'FAILED';
+    }
+
+    public isHealthy(): boolean {
+        return this.isRunning;
+    }
+}
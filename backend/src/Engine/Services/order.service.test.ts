@@ -0,0 +1,258 @@
+// engine/services/order.service.test.ts
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { OrderService } from './order.service';
+import { ItemService } from './item.service';
+import { InventoryService } from './inventory.service';
+import { FakeDatabase } from '../../testing/fakeDatabase';
+import {
+    CreateOrderRequest,
+    CustomerItem,
+    DiscountType,
+    OrderPriority,
+    OrderStatus,
+    ShippingRateBasis,
+    ShippingServiceLevel
+} from '../../types';
+
+const CUSTOMER_ID = '0c000000-0000-4000-8000-000000000001';
+const ORDER_ID = '0a000000-0000-4000-8000-000000000001';
+const ITEM_A = '1a000000-0000-4000-8000-00000000000a';
+const ITEM_B = '1a000000-0000-4000-8000-00000000000b';
+const WAREHOUSE_ID = '3a000000-0000-4000-8000-000000000001';
+const CREATED = new Date('2026-01-01T00:00:00Z');
+
+// Reference data as it stands when an order is placed
+interface Catalogue {
+    prices: Record<string, number>;
+    discountCode: Record<string, any> | null;
+    taxRules: Record<string, any>[];
+    shippingRates: Record<string, any>[];
+}
+
+const AT_ORDER_TIME: Catalogue = {
+    prices: { [ITEM_A]: 20, [ITEM_B]: 7.5 },
+    discountCode: {
+        id: '4a000000-0000-4000-8000-000000000001',
+        tenant_id: null,
+        code: 'SPRING',
+        description: null,
+        discount_type: DiscountType.PERCENTAGE,
+        discount_value: '10',
+        valid_from: null,
+        valid_until: null,
+        usage_limit: 1,
+        per_customer_limit: null,
+        min_order_value: '0',
+        eligible_customer_ids: [],
+        is_active: true,
+        created_at: CREATED,
+        updated_at: CREATED
+    },
+    taxRules: [{
+        id: '5a000000-0000-4000-8000-000000000001',
+        tenant_id: null,
+        name: 'California',
+        tax_type: 'SALES',
+        jurisdiction: 'US-CA',
+        category_id: null,
+        rate: '8',
+        is_active: true,
+        created_at: CREATED,
+        updated_at: CREATED
+    }],
+    shippingRates: [{
+        id: '6a000000-0000-4000-8000-000000000001',
+        tenant_id: null,
+        name: 'Ground',
+        carrier: 'UPS',
+        zone: 'US',
+        service_level: ShippingServiceLevel.STANDARD,
+        basis: ShippingRateBasis.QUANTITY,
+        min_value: '0',
+        max_value: null,
+        base_cost: '4',
+        per_unit_cost: '0.5',
+        free_shipping_threshold: null,
+        is_active: true,
+        created_at: CREATED,
+        updated_at: CREATED
+    }]
+};
+
+// The same tenant later on: prices raised, the code used up and disabled, taxes and shipping changed
+const LATER: Catalogue = {
+    prices: { [ITEM_A]: 25, [ITEM_B]: 9 },
+    discountCode: { ...AT_ORDER_TIME.discountCode, is_active: false },
+    taxRules: [{ ...AT_ORDER_TIME.taxRules[0], rate: '9.5' }],
+    shippingRates: [{ ...AT_ORDER_TIME.shippingRates[0], base_cost: '6' }]
+};
+
+const REQUEST: CreateOrderRequest = {
+    id: ORDER_ID,
+    status: OrderStatus.PENDING,
+    customerId: CUSTOMER_ID,
+    items: [
+        { itemId: ITEM_A, quantity: 2, specialInstructions: null },
+        { itemId: ITEM_B, quantity: 3, specialInstructions: null }
+    ],
+    notes: null,
+    deliveryDate: null,
+    shippingAddress: '1 Main St, San Jose, CA 95110, US',
+    tenantId: null,
+    priority: OrderPriority.NORMAL,
+    discountCode: 'spring',
+    carrier: 'UPS',
+    specialInstructions: null
+};
+
+// Tables an order's rows are inserted into as given
+const ORDER_TABLES = ['orders', 'order_items', 'order_discounts', 'order_taxes'];
+
+function setup(catalogue: Catalogue, options: { priceable: boolean }) {
+    const held: Record<string, any>[] = [];
+    // CURRENT_TIMESTAMP, which holds still for the whole transaction
+    const transactionStart = Date.now();
+    const database = new FakeDatabase()
+        .on(/INSERT INTO orders/, params => [{
+            id: params[0],
+            customer_id: params[1],
+            total_amount: params[2],
+            status: params[3],
+            order_date: params[4],
+            payment_status: params[7],
+            shipping_address: params[8],
+            discount: params[9],
+            tax_amount: params[10],
+            shipping_cost: params[11],
+            order_number: params[15],
+            created_at: params[17],
+            updated_at: params[18]
+        }])
+        .on(/INSERT INTO order_discounts/, params => [{
+            id: params[0],
+            order_id: params[1],
+            discount_code_id: params[2],
+            discount_code: params[3],
+            discount_type: params[4],
+            discount_value: params[5],
+            applied_amount: params[6],
+            description: params[7]
+        }])
+        .on(/INSERT INTO order_taxes/, params => [{
+            id: params[0],
+            order_id: params[1],
+            tax_rule_id: params[2],
+            tax_type: params[3],
+            jurisdiction: params[4],
+            tax_rate: params[5],
+            taxable_amount: params[6],
+            tax_amount: params[7]
+        }])
+        .on(/INSERT INTO inventory_reservations/, params => {
+            const reservation = {
+                id: params[0],
+                order_id: params[1],
+                item_id: params[2],
+                quantity: params[3],
+                status: 'HELD',
+                warehouse_id: params[5],
+                expires_at: params[6] ?? new Date(transactionStart + params[4]),
+                created_at: CREATED,
+                updated_at: CREATED
+            };
+            held.push(reservation);
+            return [reservation];
+        })
+        .on(/FROM discount_codes/, catalogue.discountCode ? [catalogue.discountCode] : [])
+        .on(/FROM order_discounts od/, [{ total: '0', customer: '0' }])
+        .on(/FROM tax_rules/, catalogue.taxRules)
+        .on(/FROM shipping_rates/, catalogue.shippingRates)
+        .on(/FROM warehouse_stock ws/, [{ warehouse_id: WAREHOUSE_ID }])
+        .on(/SELECT \* FROM warehouses WHERE id/, params => [{ id: params[0], code: 'MAIN', status: 'ACTIVE' }])
+        .on(/UPDATE customer_items/, params => [{ id: params[0], name: 'Item', quantity: 100, reserved_quantity: params[1] }])
+        .on(/UPDATE warehouse_stock/, () => ({ rows: [], rowCount: 1 }));
+    Object.assign(database, {
+        getCustomerById: async (id: string) => ({ id, tenantId: null, taxExempt: false })
+    });
+
+    const itemService = new ItemService(database.asService());
+    itemService.getCustomerItemById = async (id: string) => {
+        if (!options.priceable) {
+            throw new Error(`Item ${id} looked up while replaying a resolved order`);
+        }
+        return {
+            id,
+            customerId: CUSTOMER_ID,
+            name: `Item ${id.slice(-1)}`,
+            price: catalogue.prices[id]!,
+            quantity: 100,
+            status: 'ACTIVE',
+            weight: 1,
+            createdAt: CREATED,
+            updatedAt: CREATED
+        } as CustomerItem;
+    };
+    itemService.hasVariants = async () => false;
+    itemService.getEffectivePrice = async (item: CustomerItem) => catalogue.prices[item.id]!;
+
+    const service = new OrderService(database.asService(), itemService, new InventoryService(database.asService()));
+    return { database, service, held };
+}
+
+// What the order wrote: each table's insert parameters in order, and the reservations
+// as held. The expiry of a live hold is worked out by the database, so its insert does
+// not carry it; reservation ids are internal to the Engine and drawn anew on every run
+function writes({ database, held }: ReturnType<typeof setup>): Record<string, any[]> {
+    const inserts = ORDER_TABLES.map(table => [
+        table,
+        database.find(new RegExp(`INSERT INTO ${table} \\(`)).map(query => query.params)
+    ]);
+    const reservations = held.map(({ id, ...reservation }) => reservation);
+
+    return JSON.parse(JSON.stringify({ ...Object.fromEntries(inserts), reservations }));
+}
+
+describe('OrderService.createOrder', () => {
+    it('returns what it worked out for the order as resolved', async () => {
+        const { service } = setup(AT_ORDER_TIME, { priceable: true });
+
+        const { order, resolved } = await service.createOrder(REQUEST);
+
+        // 40 + 22.50, 10% off, 8% tax on what is left, 4 + 5 x 0.50 shipping
+        assert.ok(resolved);
+        assert.equal(resolved.discountAmount, 6.25);
+        assert.equal(resolved.taxAmount, 4.5);
+        assert.equal(resolved.shipping.cost, 6.5);
+        assert.equal(resolved.totalAmount, 67.25);
+        assert.equal(order.totalAmount, 67.25);
+        assert.deepEqual(resolved.items.map(item => [item.itemId, item.price, item.warehouseId]), [
+            [ITEM_A, 20, WAREHOUSE_ID],
+            [ITEM_B, 7.5, WAREHOUSE_ID]
+        ]);
+        assert.equal(resolved.discounts[0]?.orderId, ORDER_ID);
+        assert.equal(resolved.taxes[0]?.orderId, ORDER_ID);
+        assert.match(resolved.orderNumber, /^ORD-/);
+        assert.ok(resolved.orderDate instanceof Date);
+        assert.ok(resolved.reservationExpiresAt instanceof Date);
+    });
+
+    it('replays a stored create into the same rows after prices and reference data changed', async () => {
+        const live = setup(AT_ORDER_TIME, { priceable: true });
+        const { resolved } = await live.service.createOrder(REQUEST);
+        // As read back from the event store
+        const stored = JSON.parse(JSON.stringify({ ...REQUEST, resolved }));
+
+        const replay = setup(LATER, { priceable: false });
+        const { order, resolved: replayResolved } = await replay.service.createOrder(stored);
+
+        assert.deepEqual(writes(replay), writes(live));
+        assert.equal(writes(live).orders?.length, 1);
+        assert.equal(writes(live).reservations?.length, 2);
+        assert.equal(order.totalAmount, resolved!.totalAmount);
+        assert.equal(order.orderNumber, resolved!.orderNumber);
+        assert.equal(order.orderDate.getTime(), resolved!.orderDate.getTime());
+        assert.equal(replayResolved?.reservationExpiresAt?.getTime(), resolved!.reservationExpiresAt?.getTime());
+        assert.equal(replay.database.find(/FROM (discount_codes|tax_rules|shipping_rates|warehouse_stock)/).length, 0);
+    });
+});
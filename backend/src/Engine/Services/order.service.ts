@@ -1,30 +1,100 @@
 // engine/services/order.service.ts - Fixed Version
 import { DatabaseService } from './database.service';
 import { ItemService } from './item.service';
+import { InventoryService } from './inventory.service';
+import { WarehouseService } from './warehouse.service';
+import { ShipmentService } from './shipment.service';
+import { DiscountService } from './discount.service';
+import { TaxService } from './tax.service';
+import { ShippingRateService } from './shippingRate.service';
 import { logger } from '../../utils/logger';
+import { config } from '../../config/config';
+import { formatAddress } from '../../utils/address';
 import {
     Order,
     OrderItem,
+    CreateOrderItemRequest,
     CreateOrderRequest,
+    CreateShipmentRequest,
+    Customer,
+    DiscountApplication,
+    OrderDiscount,
+    OrderQuote,
+    ResolvedOrder,
+    TaxCalculation,
+    ValidationError,
+    ShipmentTrackingUpdate,
     UpdateOrderRequest,
+    ConflictError,
+    NotFoundError,
     OrderStatus,
     PaymentStatus,
-    OrderPriority
+    OrderPriority,
+    ReservationLine,
+    RestockPolicy,
+    RestockStatus,
+    StockMovementReason
 } from '../../types';
 import { v4 as uuidv4 } from 'uuid';
 
+type ResolvedOrderLine = CreateOrderItemRequest & { itemId: string };
+
+// An order priced by priceOrder, with what createOrder needs to record it
+type PricedOrder = {
+    quote: OrderQuote;
+    lines: ResolvedOrderLine[];
+    items: OrderItem[];
+    discount: DiscountApplication | null;
+    taxes: TaxCalculation;
+};
+
+// Ledger reason for stock coming back from an order in each restocking status
+const RESTOCK_REASONS: Partial<Record<OrderStatus, StockMovementReason>> = {
+    [OrderStatus.CANCELLED]: 'CANCEL',
+    [OrderStatus.RETURNED]: 'RETURN',
+    [OrderStatus.FAILED]: 'FAILED_DELIVERY'
+};
+
+// The path an order follows as its shipments move; see followShipments
+const SHIPPING_FLOW = [
+    OrderStatus.CONFIRMED,
+    OrderStatus.PROCESSING,
+    OrderStatus.PACKED,
+    OrderStatus.SHIPPED,
+    OrderStatus.OUT_FOR_DELIVERY,
+    OrderStatus.DELIVERED
+];
+
 export class OrderService {
+    private warehouseService: WarehouseService;
+    private shipmentService: ShipmentService;
+    private discountService: DiscountService;
+    private taxService: TaxService;
+    private shippingRateService: ShippingRateService;
+
     constructor(
         private databaseService: DatabaseService,
-        private itemService: ItemService
-    ) {}
+        private itemService: ItemService,
+        private inventoryService: InventoryService
+    ) {
+        this.warehouseService = new WarehouseService(databaseService);
+        this.shipmentService = new ShipmentService(databaseService);
+        this.discountService = new DiscountService(databaseService);
+        this.taxService = new TaxService(databaseService);
+        this.shippingRateService = new ShippingRateService(databaseService);
+    }
 
-    public async createOrder(data: CreateOrderRequest | Order): Promise<Order> {
+    /**
+     * Creates an order and holds its stock. A request carrying a ResolvedOrder is
+     * created exactly as resolved; otherwise the order is numbered, priced and routed
+     * now, and what was worked out comes back as `resolved` for the event store.
+     */
+    public async createOrder(data: CreateOrderRequest | Order): Promise<{ order: Order; resolved: ResolvedOrder | null }> {
         return this.databaseService.executeTransaction(async (client) => {
             try {
                 const customer = await this.databaseService.getCustomerById(data.customerId);
                 if (!customer) {
-                    throw new Error(`Customer with ID ${data.customerId} not found`);
+                    throw new NotFoundError(`Customer with ID ${data.customerId} not found`, 'Customer', data.customerId);
                 }
 
                 if ('id' in data && 'totalAmount' in data) {
@@ -33,9 +103,10 @@ export class OrderService {
                         INSERT INTO orders (
                             id, customer_id, total_amount, status, order_date, delivery_date, 
                             notes, payment_status, shipping_address, discount, tax_amount, 
-                            shipping_cost, order_number, priority, created_at, updated_at
+                            shipping_cost, shipping_rate_id, shipping_carrier, shipping_service_level,
+                            order_number, priority, created_at, updated_at
                         )
-                        VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16)
+                        VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17, $18, $19)
                         RETURNING *
                     `;
                     const values = [
@@ -51,6 +122,9 @@ export class OrderService {
                         order.discount,
                         order.taxAmount,
                         order.shippingCost,
+                        order.shippingRateId ?? null,
+                        order.shippingCarrier ?? null,
+                        order.shippingServiceLevel ?? null,
                         order.orderNumber,
                         order.priority,
                         order.createdAt,
@@ -64,9 +138,9 @@ export class OrderService {
                         const itemQuery = `
                             INSERT INTO order_items (
                                 id, order_id, item_id, name, description, price, quantity, 
-                                subtotal, discount_amount, tax_amount, sku
+                                subtotal, discount_amount, tax_amount, sku, warehouse_id, attributes
                             )
-                            VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11)
+                            VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13)
                         `;
                         await client.query(itemQuery, [
                             item.id || uuidv4(),
@@ -79,7 +153,9 @@ export class OrderService {
                             item.subtotal,
                             item.discountAmount,
                             item.taxAmount,
-                            item.sku
+                            item.sku,
+                            item.warehouseId || null,
+                            item.attributes || null
                         ]);
                     }
 
@@ -89,83 +165,49 @@ export class OrderService {
                         totalAmount: createdOrder.total_amount
                     });
 
-                    return this.mapDbOrderToOrder({ ...createdOrder, items: order.items });
+                    return { order: this.mapDbOrderToOrder({ ...createdOrder, items: order.items }), resolved: null };
                 }
 
                 const createRequest = data as CreateOrderRequest;
-                const orderId = uuidv4();
-                const orderNumber = this.generateOrderNumber();
-                const orderItems: OrderItem[] = [];
-                let totalAmount = 0;
-                let totalTax = 0;
-
-                for (const requestItem of createRequest.items) {
-                    const item = await this.itemService.getCustomerItemById(requestItem.itemId);
-                    if (!item) {
-                        throw new Error(`Item with ID ${requestItem.itemId} not found`);
-                    }
-
-                    if (item.customerId !== createRequest.customerId) {
-                        throw new Error(`Item ${requestItem.itemId} does not belong to customer ${createRequest.customerId}`);
-                    }
-
-                    if (item.quantity < requestItem.quantity) {
-                        throw new Error(`Insufficient quantity for item ${item.name}. Available: ${item.quantity}, Requested: ${requestItem.quantity}`);
-                    }
-
-                    const subtotal = item.price * requestItem.quantity;
-                    const taxAmount = subtotal * 0.1; // 10% tax rate
-                    totalAmount += subtotal;
-                    totalTax += taxAmount;
-
-                    const orderItem: OrderItem = {
-                        id: uuidv4(),
-                        itemId: item.id,
-                        name: item.name,
-                        description: item.description || null,
-                        price: item.price,
-                        quantity: requestItem.quantity,
-                        subtotal,
-                        discountAmount: 0,
-                        taxAmount,
-                        sku: null
-                    };
-
-                    orderItems.push(orderItem);
-
-                    // Update item quantity
-                    await this.itemService.updateItemQuantity(item.id, requestItem.quantity, 'subtract');
-                }
-
-                const shippingCost = this.calculateShippingCost(totalAmount);
-                const finalTotal = totalAmount + totalTax + shippingCost;
+                // Keep the id the API handed out so replays and follow-up commands target the same order
+                const orderId = createRequest.id || uuidv4();
+                const resolved = createRequest.resolved
+                    ? this.reviveResolvedOrder(createRequest.resolved)
+                    : await this.resolveOrder(orderId, createRequest, customer);
+                const { items: orderItems, shipping } = resolved;
 
                 const orderQuery = `
                     INSERT INTO orders (
                         id, customer_id, total_amount, status, order_date, delivery_date, 
                         notes, payment_status, shipping_address, discount, tax_amount, 
-                        shipping_cost, order_number, priority, created_at, updated_at
+                        shipping_cost, shipping_rate_id, shipping_carrier, shipping_service_level,
+                        order_number, priority, created_at, updated_at
                     )
-                    VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16)
+                    VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17, $18, $19)
                     RETURNING *
                 `;
                 const orderValues = [
                     orderId,
                     createRequest.customerId,
-                    finalTotal,
+                    resolved.totalAmount,
                     OrderStatus.PENDING,
-                    new Date(),
+                    resolved.orderDate,
                     createRequest.deliveryDate,
                     createRequest.notes,
                     PaymentStatus.PENDING,
-                    createRequest.shippingAddress,
-                    0, // discount
-                    totalTax,
-                    shippingCost,
-                    orderNumber,
+                    typeof createRequest.shippingAddress === 'object' && createRequest.shippingAddress
+                        ? formatAddress(createRequest.shippingAddress)
+                        : createRequest.shippingAddress,
+                    resolved.discountAmount,
+                    resolved.taxAmount,
+                    shipping.cost,
+                    shipping.shippingRateId,
+                    shipping.carrier,
+                    shipping.serviceLevel,
+                    resolved.orderNumber,
                     createRequest.priority || OrderPriority.NORMAL,
-                    new Date(),
-                    new Date()
+                    resolved.orderDate,
+                    resolved.orderDate
                 ];
 
                 const orderResult = await client.query(orderQuery, orderValues);
@@ -176,9 +218,9 @@ export class OrderService {
                     const itemQuery = `
                         INSERT INTO order_items (
                             id, order_id, item_id, name, description, price, quantity, 
-                            subtotal, discount_amount, tax_amount, sku
+                            subtotal, discount_amount, tax_amount, sku, warehouse_id, attributes
                         )
-                        VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11)
+                        VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13)
                     `;
                     await client.query(itemQuery, [
                         item.id,
@@ -191,18 +233,39 @@ export class OrderService {
                         item.subtotal,
                         item.discountAmount,
                         item.taxAmount,
-                        item.sku
+                        item.sku,
+                        item.warehouseId,
+                        item.attributes || null
                     ]);
                 }
 
+                const discounts: OrderDiscount[] = [];
+                for (const discount of resolved.discounts) {
+                    discounts.push(await this.discountService.recordOrderDiscount(discount));
+                }
+                const orderTaxes = await this.taxService.recordOrderTaxes(resolved.taxes);
+
+                // Stock is held, not deducted, until the order is confirmed; a failure
+                // anywhere in this transaction rolls the hold back with the order
+                const reservations = await this.inventoryService.reserveForOrder(
+                    orderId,
+                    orderItems.map(item => ({ itemId: item.itemId, quantity: item.quantity, warehouseId: item.warehouseId })),
+                    resolved.reservationExpiresAt
+                );
+                resolved.reservationExpiresAt = reservations[0]?.expiresAt ?? null;
+
                 logger.info(`Order created successfully:`, {
                     orderId,
                     customerId: createRequest.customerId,
                     itemCount: orderItems.length,
-                    totalAmount: finalTotal
+                    totalAmount: resolved.totalAmount,
+                    discountCode: discounts[0]?.discountCode
                 });
 
-                return this.mapDbOrderToOrder({ ...createdOrder, items: orderItems });
+                return {
+                    order: { ...this.mapDbOrderToOrder({ ...createdOrder, items: orderItems }), discounts, taxes: orderTaxes },
+                    resolved
+                };
 
             } catch (error) {
                 logger.error('Error creating order:', error);
@@ -211,17 +274,71 @@ export class OrderService {
         });
     }
 
+    /**
+     * Prices an order the way createOrder would, without creating it or holding stock.
+     * Null when the customer does not exist. The discount code is checked but not
+     * locked, so it may be used up by the time the order is placed.
+     */
+    public async quoteOrder(request: CreateOrderRequest): Promise<OrderQuote | null> {
+        const customer = await this.databaseService.getCustomerById(request.customerId);
+        if (!customer) {
+            return null;
+        }
+
+        const { quote } = await this.priceOrder(request, customer, new Date());
+        return quote;
+    }
+
+    /**
+     * Numbers, prices and routes a new order as of now. Discount and tax rows get
+     * their ids here, so a replay writes the same rows; the reservation expiry is
+     * filled in once the stock is held.
+     */
+    private async resolveOrder(orderId: string, request: CreateOrderRequest, customer: Customer): Promise<ResolvedOrder> {
+        // Lines are priced as of the order date
+        const orderDate = new Date();
+        const { quote, lines, items, discount, taxes } = await this.priceOrder(request, customer, orderDate);
+
+        const routes = await this.routeFulfilment(lines);
+        for (const item of items) {
+            item.warehouseId = routes.get(item.itemId) || null;
+        }
+
+        return {
+            orderNumber: this.generateOrderNumber(),
+            orderDate,
+            items,
+            shipping: quote.shipping,
+            discountAmount: quote.discountAmount,
+            taxAmount: quote.taxAmount,
+            totalAmount: quote.totalAmount,
+            discounts: discount ? [this.discountService.toOrderDiscount(orderId, discount)] : [],
+            taxes: taxes.breakdown.map(tax => ({ ...tax, id: uuidv4(), orderId })),
+            reservationExpiresAt: null
+        };
+    }
+
+    // A ResolvedOrder read back from a stored command has its dates as strings
+    private reviveResolvedOrder(resolved: ResolvedOrder): ResolvedOrder {
+        return {
+            ...resolved,
+            orderDate: new Date(resolved.orderDate),
+            reservationExpiresAt: resolved.reservationExpiresAt ? new Date(resolved.reservationExpiresAt) : null
+        };
+    }
+
     public async getOrderById(id: string): Promise<Order | null> {
         try {
             if (!id || !this.isValidUuid(id)) {
-                throw new Error('Invalid order ID format');
+                throw new ValidationError('Invalid order ID format', 'id', id);
             }
 
             const orderQuery = `
                 SELECT 
                     id, customer_id, total_amount, status, order_date, delivery_date,
                     notes, payment_status, shipping_address, discount, tax_amount,
-                    shipping_cost, order_number, priority, created_at, updated_at
+                    shipping_cost, shipping_rate_id, shipping_carrier, shipping_service_level,
+                    order_number, priority, restock_status, created_at, updated_at
                 FROM orders 
                 WHERE id = $1
             `;
@@ -236,7 +353,7 @@ export class OrderService {
             const itemsQuery = `
                 SELECT 
                     id, order_id, item_id, name, description, price, quantity,
-                    subtotal, discount_amount, tax_amount, sku
+                    subtotal, discount_amount, tax_amount, sku, warehouse_id, attributes
                 FROM order_items 
                 WHERE order_id = $1
             `;
@@ -254,7 +371,9 @@ export class OrderService {
                     subtotal: parseFloat(item.subtotal),
                     discountAmount: parseFloat(item.discount_amount || '0'),
                     taxAmount: parseFloat(item.tax_amount || '0'),
-                    sku: item.sku
+                    sku: item.sku,
+                    warehouseId: item.warehouse_id || null,
+                    attributes: item.attributes || null
                 }))
             };
 
@@ -268,79 +387,84 @@ export class OrderService {
 
     public async updateOrder(id: string, updates: UpdateOrderRequest): Promise<Order | null> {
         try {
-            if (!id || !this.isValidUuid(id)) {
-                throw new Error('Invalid order ID format');
-            }
+            return await this.databaseService.executeTransaction(async () => {
+                if (!await this.lockOrder(id)) {
+                    return null;
+                }
 
-            const existingOrder = await this.getOrderById(id);
-            if (!existingOrder) {
-                return null;
-            }
+                const existingOrder = await this.getOrderById(id);
+                if (!existingOrder) {
+                    return null;
+                }
 
-            // Validate status transition
-            if (updates.status && !this.isValidStatusTransition(existingOrder.status, updates.status)) {
-                throw new Error(`Invalid status transition from ${existingOrder.status} to ${updates.status}`);
-            }
+                // Validate status transition
+                if (updates.status && !this.isValidStatusTransition(existingOrder.status, updates.status)) {
+                    throw new ConflictError(`Invalid status transition from ${existingOrder.status} to ${updates.status}`);
+                }
 
-            const updateFields: string[] = [];
-            const values: any[] = [id];
-            let paramIndex = 2;
+                const updateFields: string[] = [];
+                const values: any[] = [id];
+                let paramIndex = 2;
 
-            if (updates.status !== null && updates.status !== undefined) {
-                updateFields.push(`status = $${paramIndex++}`);
-                values.push(updates.status);
-            }
+                if (updates.status !== null && updates.status !== undefined) {
+                    updateFields.push(`status = $${paramIndex++}`);
+                    values.push(updates.status);
+                }
 
-            if (updates.deliveryDate !== undefined) {
-                updateFields.push(`delivery_date = $${paramIndex++}`);
-                values.push(updates.deliveryDate);
-            }
+                if (updates.deliveryDate !== undefined) {
+                    updateFields.push(`delivery_date = $${paramIndex++}`);
+                    values.push(updates.deliveryDate);
+                }
 
-            if (updates.notes !== undefined) {
-                updateFields.push(`notes = $${paramIndex++}`);
-                values.push(updates.notes);
-            }
+                if (updates.notes !== undefined) {
+                    updateFields.push(`notes = $${paramIndex++}`);
+                    values.push(updates.notes);
+                }
 
-            if (updates.paymentStatus !== null && updates.paymentStatus !== undefined) {
-                updateFields.push(`payment_status = $${paramIndex++}`);
-                values.push(updates.paymentStatus);
-            }
+                if (updates.shippingAddress !== undefined) {
+                    updateFields.push(`shipping_address = $${paramIndex++}`);
+                    values.push(updates.shippingAddress);
+                }
 
-            if (updates.shippingAddress !== undefined) {
-                updateFields.push(`shipping_address = $${paramIndex++}`);
-                values.push(updates.shippingAddress);
-            }
+                if (updates.priority !== null && updates.priority !== undefined) {
+                    updateFields.push(`priority = $${paramIndex++}`);
+                    values.push(updates.priority);
+                }
 
-            if (updates.priority !== null && updates.priority !== undefined) {
-                updateFields.push(`priority = $${paramIndex++}`);
-                values.push(updates.priority);
-            }
+                if (updates.trackingNumber) {
+                    await this.shipmentService.setTrackingNumber(existingOrder, updates.trackingNumber);
+                }
 
-            if (updateFields.length === 0) {
-                return existingOrder;
-            }
+                if (updateFields.length === 0) {
+                    return existingOrder;
+                }
 
-            updateFields.push(`updated_at = CURRENT_TIMESTAMP`);
+                updateFields.push(`updated_at = CURRENT_TIMESTAMP`);
 
-            const query = `
-                UPDATE orders 
-                SET ${updateFields.join(', ')}
-                WHERE id = $1 
-                RETURNING *
-            `;
+                const query = `
+                    UPDATE orders 
+                    SET ${updateFields.join(', ')}
+                    WHERE id = $1 
+                    RETURNING *
+                `;
 
-            const result = await this.databaseService.executeQuery(query, values);
-            
-            if (result.rows.length === 0) {
-                return null;
-            }
+                const result = await this.databaseService.executeQuery(query, values);
+                
+                if (result.rows.length === 0) {
+                    return null;
+                }
 
-            logger.info(`Order updated successfully:`, {
-                orderId: id,
-                updatedFields: Object.keys(updates)
-            });
+                if (updates.status && updates.status !== existingOrder.status) {
+                    await this.applyStockRules(existingOrder, updates.status, updates.notes || null);
+                }
 
-            return await this.getOrderById(id);
+                logger.info(`Order updated successfully:`, {
+                    orderId: id,
+                    updatedFields: Object.keys(updates)
+                });
+
+                return await this.getOrderById(id);
+            });
 
         } catch (error) {
             logger.error('Error updating order:', error);
@@ -350,16 +474,20 @@ export class OrderService {
 
     public async cancelOrder(id: string, reason: string | null = null): Promise<Order | null> {
         try {
-            const existingOrder = await this.getOrderById(id);
-            if (!existingOrder) {
-                return null;
-            }
+            return await this.databaseService.executeTransaction(async (client) => {
+                if (!await this.lockOrder(id)) {
+                    return null;
+                }
 
-            if (!this.canBeCancelled(existingOrder.status)) {
-                throw new Error(`Order with status ${existingOrder.status} cannot be cancelled`);
-            }
+                const existingOrder = await this.getOrderById(id);
+                if (!existingOrder) {
+                    return null;
+                }
+
+                if (!this.canBeCancelled(existingOrder.status)) {
+                    throw new ConflictError(`Order with status ${existingOrder.status} cannot be cancelled`);
+                }
 
-            return await this.databaseService.executeTransaction(async (client) => {
                 // Update order status
                 const updateQuery = `
                     UPDATE orders 
@@ -370,10 +498,7 @@ export class OrderService {
                 const updateValues = [OrderStatus.CANCELLED, `Cancelled: ${reason || 'No reason provided'}`, id];
                 await client.query(updateQuery, updateValues);
 
-                // Restore item quantities
-                for (const item of existingOrder.items) {
-                    await this.itemService.updateItemQuantity(item.itemId, item.quantity, 'add');
-                }
+                await this.applyStockRules(existingOrder, OrderStatus.CANCELLED, reason);
 
                 logger.info(`Order cancelled successfully:`, {
                     orderId: id,
@@ -392,15 +517,28 @@ export class OrderService {
     public async deleteOrder(id: string): Promise<boolean> {
         try {
             if (!id || !this.isValidUuid(id)) {
-                throw new Error('Invalid order ID format');
-            }
-
-            const existingOrder = await this.getOrderById(id);
-            if (!existingOrder) {
-                return false;
+                throw new ValidationError('Invalid order ID format', 'id', id);
             }
 
             return await this.databaseService.executeTransaction(async (client) => {
+                if (!await this.lockOrder(id)) {
+                    return false;
+                }
+
+                const existingOrder = await this.getOrderById(id);
+                if (!existingOrder) {
+                    return false;
+                }
+
+                if (!this.canBeDeleted(existingOrder.status)) {
+                    throw new ConflictError(`Order with status ${existingOrder.status} cannot be deleted`);
+                }
+
+                // Stock is still held by orders that were never cancelled
+                if (this.canBeCancelled(existingOrder.status)) {
+                    await this.applyStockRules(existingOrder, OrderStatus.CANCELLED, 'Order deleted');
+                }
+
                 // Delete order items first (foreign key constraint)
                 await client.query('DELETE FROM order_items WHERE order_id = $1', [id]);
                 
@@ -422,6 +560,490 @@ export class OrderService {
         }
     }
 
+    /**
+     * Cancels a pending order whose reservation ran out before it was confirmed.
+     * Returns null when the order was confirmed or cancelled in the meantime.
+     */
+    public async expireReservation(id: string): Promise<Order | null> {
+        return await this.databaseService.executeTransaction(async () => {
+            if (!await this.lockOrder(id)) {
+                return null;
+            }
+
+            const order = await this.getOrderById(id);
+            if (!order || order.status !== OrderStatus.PENDING) {
+                return null;
+            }
+
+            await this.inventoryService.releaseForOrder(id, 'EXPIRED', 'Reservation expired');
+            return await this.cancelOrder(id, 'Inventory reservation expired');
+        });
+    }
+
+    public async shipOrder(id: string, trackingNumber: string | null = null): Promise<Order | null> {
+        const note = trackingNumber ? `Shipped: tracking ${trackingNumber}` : 'Shipped';
+        return await this.changeStatus(id, OrderStatus.SHIPPED, note);
+    }
+
+    // Shipments go out once the order is confirmed; several at once split it
+    public async createShipments(id: string, requests: CreateShipmentRequest[]): Promise<Order | null> {
+        try {
+            return await this.databaseService.executeTransaction(async () => {
+                if (!await this.lockOrder(id)) {
+                    return null;
+                }
+
+                const order = await this.getOrderById(id);
+                if (!order) {
+                    return null;
+                }
+
+                if (!SHIPPING_FLOW.slice(0, -1).includes(order.status)) {
+                    throw new ConflictError(`Order ${order.orderNumber} is ${order.status} and cannot be shipped`);
+                }
+
+                for (const request of requests) {
+                    const shipment = await this.shipmentService.createShipment(order, request);
+                    logger.info(`Shipment created:`, {
+                        orderId: id,
+                        shipmentId: shipment.id,
+                        carrier: shipment.carrier,
+                        trackingNumber: shipment.trackingNumber
+                    });
+                }
+
+                return await this.getOrderWithShipments(id);
+            });
+
+        } catch (error) {
+            logger.error('Error creating shipments:', error);
+            throw error;
+        }
+    }
+
+    // Records a carrier scan and moves the order along with its shipments
+    public async trackShipment(id: string, shipmentId: string, update: ShipmentTrackingUpdate): Promise<Order | null> {
+        try {
+            return await this.databaseService.executeTransaction(async () => {
+                if (!await this.lockOrder(id)) {
+                    return null;
+                }
+
+                const shipment = await this.shipmentService.getShipment(id, shipmentId);
+                if (!shipment) {
+                    return null;
+                }
+
+                const tracked = await this.shipmentService.addTrackingEvent(shipment, update);
+                await this.followShipments(id, `${tracked.carrier} ${tracked.trackingNumber}: ${tracked.status}`);
+
+                return await this.getOrderWithShipments(id);
+            });
+
+        } catch (error) {
+            logger.error('Error tracking shipment:', error);
+            throw error;
+        }
+    }
+
+    public async getOrderWithShipments(id: string): Promise<Order | null> {
+        const order = await this.getOrderById(id);
+        if (!order) {
+            return null;
+        }
+
+        return { ...order, shipments: await this.shipmentService.getShipments(id) };
+    }
+
+    public async deliverOrder(id: string): Promise<Order | null> {
+        return await this.changeStatus(id, OrderStatus.DELIVERED, null, true);
+    }
+
+    public async returnOrder(id: string, reason: string | null = null): Promise<Order | null> {
+        return await this.changeStatus(id, OrderStatus.RETURNED, `Returned: ${reason || 'No reason provided'}`);
+    }
+
+    /**
+     * Records the inspection of goods that came back on an order awaiting it and
+     * restocks what passed: `lines` lists the accepted quantity per item, everything
+     * the order took when omitted. The rest is written off.
+     */
+    public async inspectOrder(
+        id: string,
+        lines: ReservationLine[] | null = null,
+        notes: string | null = null
+    ): Promise<Order | null> {
+        try {
+            return await this.databaseService.executeTransaction(async () => {
+                if (!await this.lockOrder(id)) {
+                    return null;
+                }
+
+                const existingOrder = await this.getOrderById(id);
+                if (!existingOrder) {
+                    return null;
+                }
+
+                if (existingOrder.restockStatus !== 'PENDING_INSPECTION') {
+                    throw new ConflictError(`Order with status ${existingOrder.status} has no stock awaiting inspection`);
+                }
+
+                const restocked = await this.inventoryService.restockForOrder(
+                    id,
+                    lines,
+                    RESTOCK_REASONS[existingOrder.status] || 'RETURN',
+                    notes
+                );
+
+                const note = `Inspected: ${restocked} units restocked${notes ? ` (${notes})` : ''}`;
+                await this.databaseService.executeQuery(`
+                    UPDATE orders
+                    SET restock_status = $2,
+                        notes = COALESCE(notes || ' | ', '') || $3,
+                        updated_at = CURRENT_TIMESTAMP
+                    WHERE id = $1
+                `, [id, 'INSPECTED', note]);
+
+                logger.info(`Order inspected:`, { orderId: id, restocked });
+
+                return await this.getOrderById(id);
+            });
+
+        } catch (error) {
+            logger.error('Error inspecting order:', error);
+            throw error;
+        }
+    }
+
+    private async changeStatus(
+        id: string,
+        newStatus: OrderStatus,
+        note: string | null,
+        setDeliveryDate: boolean = false
+    ): Promise<Order | null> {
+        try {
+            return await this.databaseService.executeTransaction(async () => {
+                if (!await this.lockOrder(id)) {
+                    return null;
+                }
+
+                const existingOrder = await this.getOrderById(id);
+                if (!existingOrder) {
+                    return null;
+                }
+
+                if (!this.isValidStatusTransition(existingOrder.status, newStatus)) {
+                    throw new ConflictError(`Invalid status transition from ${existingOrder.status} to ${newStatus}`);
+                }
+
+                const query = `
+                    UPDATE orders 
+                    SET status = $1,
+                        notes = CASE WHEN $2::text IS NULL THEN notes ELSE COALESCE(notes || ' | ', '') || $2 END,
+                        delivery_date = CASE WHEN $3 THEN CURRENT_TIMESTAMP ELSE delivery_date END,
+                        updated_at = CURRENT_TIMESTAMP
+                    WHERE id = $4
+                `;
+                await this.databaseService.executeQuery(query, [newStatus, note, setDeliveryDate, id]);
+
+                await this.applyStockRules(existingOrder, newStatus, note);
+
+                logger.info(`Order status changed:`, {
+                    orderId: id,
+                    from: existingOrder.status,
+                    to: newStatus
+                });
+
+                return await this.getOrderById(id);
+            });
+
+        } catch (error) {
+            logger.error('Error changing order status:', error);
+            throw error;
+        }
+    }
+
+    /**
+     * Moves the order forward to the status its shipments call for, one valid
+     * transition at a time so stock rules run as for manual changes. Never moves
+     * it back; a failure fails only an order that is out with the carrier.
+     */
+    private async followShipments(id: string, note: string): Promise<void> {
+        const order = await this.getOrderById(id);
+        if (!order) {
+            return;
+        }
+
+        const target = this.shipmentService.deriveOrderStatus(order, await this.shipmentService.getShipments(id));
+        if (!target || target === order.status) {
+            return;
+        }
+
+        if (target === OrderStatus.FAILED) {
+            if (order.status === OrderStatus.SHIPPED || order.status === OrderStatus.OUT_FOR_DELIVERY) {
+                await this.changeStatus(id, OrderStatus.FAILED, `Delivery failed: ${note}`);
+            }
+            return;
+        }
+
+        const from = SHIPPING_FLOW.indexOf(order.status);
+        const to = SHIPPING_FLOW.indexOf(target);
+        if (from < 0 || to <= from) {
+            return;
+        }
+
+        for (const status of SHIPPING_FLOW.slice(from + 1, to + 1)) {
+            await this.changeStatus(id, status, status === target ? note : null, status === OrderStatus.DELIVERED);
+        }
+    }
+
+    // Serializes stock and payment changes to one order; must run inside executeTransaction
+    public async lockOrder(id: string): Promise<boolean> {
+        if (!id || !this.isValidUuid(id)) {
+            throw new ValidationError('Invalid order ID format', 'id', id);
+        }
+
+        const result = await this.databaseService.executeQuery('SELECT id FROM orders WHERE id = $1 FOR UPDATE', [id]);
+        return result.rows.length > 0;
+    }
+
+    /**
+     * Stock side of a status change, applied on the status change's transaction.
+     * Confirmation commits the hold; cancelled, returned and failed orders release it
+     * and restock what they took per config.inventory.restockRules; a failed delivery
+     * sent back to PENDING holds stock again if its goods were restocked.
+     */
+    private async applyStockRules(order: Order, newStatus: OrderStatus, reason: string | null): Promise<void> {
+        // Draft orders never held stock
+        if (order.status === OrderStatus.DRAFT) {
+            return;
+        }
+
+        if (newStatus === OrderStatus.CONFIRMED) {
+            await this.inventoryService.commitForOrder(order.id);
+            return;
+        }
+
+        if (newStatus === OrderStatus.PENDING) {
+            if (order.restockStatus === 'RESTOCKED' || order.restockStatus === 'INSPECTED') {
+                await this.inventoryService.reserveForOrder(
+                    order.id,
+                    order.items.map(item => ({ itemId: item.itemId, quantity: item.quantity, warehouseId: item.warehouseId }))
+                );
+            }
+            await this.setRestockStatus(order.id, null);
+            return;
+        }
+
+        const policy = config.inventory.restockRules[newStatus] as RestockPolicy | undefined;
+        if (!policy) {
+            return;
+        }
+
+        await this.inventoryService.releaseForOrder(order.id, 'RELEASED', reason);
+
+        // Stock settled by an earlier failed delivery is not restocked twice
+        if (order.restockStatus === 'RESTOCKED' || order.restockStatus === 'INSPECTED') {
+            return;
+        }
+
+        switch (policy) {
+            case 'FULL':
+                await this.inventoryService.restockForOrder(order.id, null, RESTOCK_REASONS[newStatus] || 'CANCEL', reason);
+                await this.setRestockStatus(order.id, 'RESTOCKED');
+                break;
+            case 'INSPECTION':
+                await this.setRestockStatus(order.id, 'PENDING_INSPECTION');
+                break;
+            case 'NONE':
+                await this.setRestockStatus(order.id, 'NOT_RESTOCKED');
+                break;
+            default:
+                throw new Error(`Invalid restock policy for ${newStatus}: ${policy}`);
+        }
+    }
+
+    /**
+     * Prices the lines as of orderDate, then shipping, the discount code and tax, in
+     * that order: shipping is charged on the undiscounted subtotal, tax on what is
+     * left after discounts.
+     */
+    private async priceOrder(request: CreateOrderRequest, customer: Customer, orderDate: Date): Promise<PricedOrder> {
+        const tenantId = customer.tenantId || null;
+        const lines = await this.resolveOrderLines(request.items, tenantId);
+        const items: OrderItem[] = [];
+        const categoryIds: (string | null)[] = [];
+        let weight = 0;
+
+        for (const line of lines) {
+            const item = await this.itemService.getCustomerItemById(line.itemId);
+            if (!item) {
+                throw new ValidationError(`Item with ID ${line.itemId} not found`, 'itemId', line.itemId);
+            }
+
+            if (item.customerId !== request.customerId) {
+                throw new ValidationError(
+                    `Item ${line.itemId} does not belong to customer ${request.customerId}`,
+                    'itemId',
+                    line.itemId
+                );
+            }
+
+            // A parent only groups its variants; the stock, and so the order line, is the variant's
+            if (await this.itemService.hasVariants(item.id)) {
+                throw new ValidationError(`Item ${item.name} has variants; order one of its variants instead`, 'itemId', item.id);
+            }
+
+            const price = await this.itemService.getEffectivePrice(item, orderDate);
+
+            items.push({
+                id: uuidv4(),
+                itemId: item.id,
+                name: item.name,
+                description: item.description || null,
+                price,
+                quantity: line.quantity,
+                subtotal: this.toAmount(price * line.quantity),
+                discountAmount: 0,
+                taxAmount: 0,
+                sku: item.sku || null,
+                attributes: item.parentItemId ? item.attributes || null : null
+            });
+            categoryIds.push(item.categoryId || null);
+            weight += (item.weight ?? 0) * line.quantity;
+        }
+
+        const subtotal = this.toAmount(items.reduce((total, item) => total + item.subtotal, 0));
+
+        const shipping = await this.shippingRateService.quoteShipping({
+            tenantId,
+            shippingAddress: request.shippingAddress,
+            priority: request.priority || OrderPriority.NORMAL,
+            carrier: request.carrier || null,
+            subtotal,
+            quantity: items.reduce((total, item) => total + item.quantity, 0),
+            weight
+        });
+
+        const discount = request.discountCode
+            ? await this.discountService.applyDiscountCode(request.discountCode, {
+                tenantId,
+                customerId: request.customerId,
+                lines: items,
+                shippingCost: shipping.cost,
+                at: orderDate
+            })
+            : null;
+
+        items.forEach((item, index) => {
+            item.discountAmount = discount?.lineDiscounts[index] ?? 0;
+        });
+
+        const taxes = await this.taxService.calculateTaxes({
+            tenantId,
+            taxExempt: customer.taxExempt === true,
+            shippingAddress: request.shippingAddress,
+            lines: items,
+            categoryIds
+        });
+
+        items.forEach((item, index) => {
+            item.taxAmount = taxes.lineTaxes[index] ?? 0;
+        });
+
+        const discountAmount = discount?.appliedAmount ?? 0;
+        const taxAmount = this.toAmount(taxes.lineTaxes.reduce((total, tax) => total + tax, 0));
+
+        return {
+            quote: {
+                customerId: request.customerId,
+                items,
+                subtotal,
+                shipping,
+                discountCode: discount?.discountCode.code ?? null,
+                discountAmount,
+                taxes: taxes.breakdown,
+                taxAmount,
+                totalAmount: this.toAmount(subtotal + taxAmount + shipping.cost - discountAmount)
+            },
+            lines,
+            items,
+            discount,
+            taxes
+        };
+    }
+
+    // Turns SKUs on order lines into item ids; SKUs are looked up in the customer's tenant
+    private async resolveOrderLines(lines: CreateOrderItemRequest[], tenantId: string | null): Promise<ResolvedOrderLine[]> {
+        const resolved: ResolvedOrderLine[] = [];
+
+        for (const line of lines) {
+            if (line.itemId) {
+                resolved.push({ ...line, itemId: line.itemId });
+                continue;
+            }
+
+            if (!line.sku) {
+                throw new ValidationError('Each order line needs an itemId or a sku', 'items', line);
+            }
+
+            const item = await this.itemService.getCustomerItemBySku(line.sku, tenantId);
+            if (!item) {
+                throw new ValidationError(`Item with SKU ${line.sku} not found`, 'sku', line.sku);
+            }
+
+            resolved.push({ ...line, itemId: item.id });
+        }
+
+        return resolved;
+    }
+
+    /**
+     * Fulfilment routing: picks the warehouse each item ships from. A source named on
+     * the order line wins; otherwise the highest-priority active warehouse that can
+     * ship the item's whole quantity. The reservation re-checks stock under lock.
+     */
+    private async routeFulfilment(lines: ResolvedOrderLine[]): Promise<Map<string, string>> {
+        const quantities = new Map<string, number>();
+        const sources = new Map<string, string>();
+
+        for (const line of lines) {
+            quantities.set(line.itemId, (quantities.get(line.itemId) || 0) + line.quantity);
+
+            if (line.warehouseId) {
+                const source = sources.get(line.itemId);
+                if (source && source !== line.warehouseId) {
+                    throw new ValidationError(`Item ${line.itemId} can only ship from one warehouse per order`, 'warehouseId', line.warehouseId);
+                }
+                sources.set(line.itemId, line.warehouseId);
+            }
+        }
+
+        const routes = new Map<string, string>();
+
+        for (const [itemId, quantity] of quantities) {
+            const warehouseId = sources.has(itemId)
+                ? await this.warehouseService.resolveWarehouseId(sources.get(itemId))
+                : await this.warehouseService.findFulfilmentLocation(itemId, quantity);
+
+            if (!warehouseId) {
+                throw new ConflictError(`Insufficient quantity for item ${itemId}: no single warehouse can ship ${quantity} units`);
+            }
+
+            routes.set(itemId, warehouseId);
+        }
+
+        logger.info(`Order fulfilment routed:`, { routes: Object.fromEntries(routes) });
+        return routes;
+    }
+
+    private async setRestockStatus(id: string, restockStatus: RestockStatus | null): Promise<void> {
+        await this.databaseService.executeQuery(
+            'UPDATE orders SET restock_status = $2 WHERE id = $1',
+            [id, restockStatus]
+        );
+    }
+
     private mapDbOrderToOrder(dbOrder: any): Order {
         return {
             id: dbOrder.id,
@@ -437,8 +1059,12 @@ export class OrderService {
             discount: parseFloat(dbOrder.discount || '0'),
             taxAmount: parseFloat(dbOrder.tax_amount || '0'),
             shippingCost: parseFloat(dbOrder.shipping_cost || '0'),
+            shippingRateId: dbOrder.shipping_rate_id || null,
+            shippingCarrier: dbOrder.shipping_carrier || null,
+            shippingServiceLevel: dbOrder.shipping_service_level || null,
             orderNumber: dbOrder.order_number || '',
             priority: dbOrder.priority || OrderPriority.NORMAL,
+            restockStatus: dbOrder.restock_status || null,
             createdAt: new Date(dbOrder.created_at || dbOrder.createdAt),
             updatedAt: new Date(dbOrder.updated_at || dbOrder.updatedAt),
             tenantId: dbOrder.tenant_id || null
@@ -452,7 +1078,7 @@ export class OrderService {
             [OrderStatus.CONFIRMED]: [OrderStatus.PROCESSING, OrderStatus.CANCELLED],
             [OrderStatus.PROCESSING]: [OrderStatus.PACKED, OrderStatus.CANCELLED],
             [OrderStatus.PACKED]: [OrderStatus.SHIPPED],
-            [OrderStatus.SHIPPED]: [OrderStatus.OUT_FOR_DELIVERY],
+            [OrderStatus.SHIPPED]: [OrderStatus.OUT_FOR_DELIVERY, OrderStatus.DELIVERED, OrderStatus.FAILED],
             [OrderStatus.OUT_FOR_DELIVERY]: [OrderStatus.DELIVERED, OrderStatus.FAILED],
             [OrderStatus.DELIVERED]: [OrderStatus.RETURNED],
             [OrderStatus.CANCELLED]: [],
@@ -473,16 +1099,18 @@ export class OrderService {
         ].includes(status);
     }
 
+    private canBeDeleted(status: OrderStatus): boolean {
+        return this.canBeCancelled(status) || status === OrderStatus.CANCELLED;
+    }
+
     private generateOrderNumber(): string {
         const timestamp = Date.now().toString();
         const random = Math.random().toString(36).substring(2, 8).toUpperCase();
         return `ORD-${timestamp.slice(-8)}-${random}`;
     }
 
-    private calculateShippingCost(orderAmount: number): number {
-        if (orderAmount >= 100) return 0; // Free shipping over $100
-        if (orderAmount >= 50) return 5;  // $5 shipping for $50-$99
-        return 10; // $10 shipping for under $50
+    private toAmount(value: number): number {
+        return Math.round(value * 100) / 100;
     }
 
     private isValidUuid(uuid: string): boolean {
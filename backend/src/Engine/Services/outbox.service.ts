@@ -0,0 +1,94 @@
+// engine/services/outbox.service.ts
+import { DatabaseService } from './database.service';
+import { EventRegistry } from '../../events/eventRegistry';
+import { KafkaEvent, OutboxMessage } from '../../types';
+
+/**
+ * Transactional outbox: events are written to the outbox table on the caller's
+ * transaction, so they exist exactly when the business change was committed.
+ * The OutboxRelay publishes them to Kafka afterwards.
+ */
+export class OutboxService {
+    constructor(private databaseService: DatabaseService) {}
+
+    // Validated here rather than only on publish, so a bad event can't block the relay
+    public async enqueue(topic: string, event: KafkaEvent): Promise<void> {
+        const prepared = EventRegistry.getInstance().prepareForPublish(event);
+        const query = `
+            INSERT INTO outbox (event_id, topic, payload, status, created_at)
+            VALUES ($1, $2, $3, 'PENDING', CURRENT_TIMESTAMP)
+        `;
+
+        await this.databaseService.executeQuery(query, [
+            prepared.eventId,
+            topic,
+            JSON.stringify(prepared)
+        ]);
+    }
+
+    // Locks the pending rows with the lowest ids; must be called inside executeTransaction
+    public async lockPending(limit: number): Promise<OutboxMessage[]> {
+        const result = await this.databaseService.executeQuery<any>(`
+            SELECT * FROM outbox
+            WHERE status = 'PENDING'
+            ORDER BY id
+            LIMIT $1
+            FOR UPDATE SKIP LOCKED
+        `, [limit]);
+
+        return result.rows.map(row => this.mapRowToOutbox(row));
+    }
+
+    public async markSent(ids: string[]): Promise<void> {
+        if (ids.length === 0) {
+            return;
+        }
+
+        await this.databaseService.executeQuery(`
+            UPDATE outbox
+            SET status = 'SENT', sent_at = CURRENT_TIMESTAMP, attempts = attempts + 1
+            WHERE id = ANY($1::bigint[])
+        `, [ids]);
+    }
+
+    public async markFailedAttempt(id: string, error: string): Promise<void> {
+        await this.databaseService.executeQuery(`
+            UPDATE outbox
+            SET attempts = attempts + 1, last_error = $1
+            WHERE id = $2
+        `, [error, id]);
+    }
+
+    // Deletes up to `limit` rows sent more than `age` ms ago; returns how many were deleted
+    public async deleteSentBefore(age: number, limit: number): Promise<number> {
+        const result = await this.databaseService.executeQuery(`
+            DELETE FROM outbox
+            WHERE id IN (
+                SELECT id FROM outbox
+                WHERE status = 'SENT' AND sent_at < CURRENT_TIMESTAMP - $1 * INTERVAL '1 millisecond'
+                LIMIT $2
+            )
+        `, [age, limit]);
+        return result.rowCount;
+    }
+
+    public async countPending(): Promise<number> {
+        const result = await this.databaseService.executeQuery<{ count: string }>(
+            `SELECT COUNT(*) FROM outbox WHERE status = 'PENDING'`
+        );
+        return parseInt(result.rows[0]?.count || '0');
+    }
+
+    private mapRowToOutbox(row: any): OutboxMessage {
+        return {
+            id: String(row.id),
+            eventId: row.event_id,
+            topic: row.topic,
+            event: {
+                ...row.payload,
+                timestamp: new Date(row.payload.timestamp)
+            },
+            attempts: row.attempts
+        };
+    }
+}
@@ -0,0 +1,395 @@
+// engine/services/payment.service.ts
+import { DatabaseService } from './database.service';
+import { OrderService } from './order.service';
+import { createPaymentGateway } from '../Payments/gateway.registry';
+import { logger } from '../../utils/logger';
+import {
+    AuthorizePaymentRequest,
+    ConflictError,
+    Order,
+    OrderPayment,
+    OrderStatus,
+    PaymentGateway,
+    PaymentStatus,
+    RecordedGatewayResult
+} from '../../types';
+
+// Orders that can no longer take money
+const CLOSED_ORDER_STATUSES = [OrderStatus.CANCELLED, OrderStatus.REFUNDED, OrderStatus.RETURNED];
+
+/**
+ * Authorizes, captures, voids and refunds order payments through the configured
+ * gateway, in two steps. prepare* checks the action against the order and calls the
+ * gateway, outside any transaction; the action itself then records the outcome under
+ * the order row lock and ends by deriving orders.payment_status from all of the
+ * order's payments, so the two never disagree. Commands are stored with the outcome,
+ * so a replay records it again without calling the gateway.
+ */
+export class PaymentService {
+    constructor(
+        private databaseService: DatabaseService,
+        private orderService: OrderService,
+        private gateway: PaymentGateway = createPaymentGateway()
+    ) {}
+
+    // Null when the order does not exist
+    public async prepareAuthorization(orderId: string, request: AuthorizePaymentRequest): Promise<RecordedGatewayResult | null> {
+        const order = await this.orderService.getOrderById(orderId);
+        if (!order) {
+            return null;
+        }
+
+        const existing = await this.getPayment(orderId, request.paymentId);
+        if (existing) {
+            return {
+                success: existing.paymentStatus !== PaymentStatus.FAILED,
+                transactionId: existing.transactionId,
+                failureReason: existing.failureReason,
+                gateway: existing.gateway,
+                amount: existing.amount
+            };
+        }
+
+        if (CLOSED_ORDER_STATUSES.includes(order.status)) {
+            throw new ConflictError(`Order ${order.orderNumber} is ${order.status} and cannot take payments`);
+        }
+
+        const outstanding = this.getOutstanding(order, await this.getPayments(orderId));
+        const amount = request.amount ?? outstanding;
+        if (amount <= 0 || amount > outstanding) {
+            throw new ConflictError(`Payment of ${amount} exceeds the outstanding ${outstanding} on order ${order.orderNumber}`, {
+                amount,
+                outstanding
+            });
+        }
+
+        const result = await this.gateway.authorize({
+            reference: request.paymentId,
+            amount,
+            paymentMethod: request.paymentMethod,
+            orderId
+        });
+
+        return { ...result, gateway: this.gateway.name, amount };
+    }
+
+    // Records the authorization, or its decline, as a payment of the order
+    public async authorizePayment(
+        orderId: string,
+        request: AuthorizePaymentRequest,
+        outcome: RecordedGatewayResult
+    ): Promise<Order | null> {
+        return this.databaseService.executeTransaction(async () => {
+            if (!await this.orderService.lockOrder(orderId)) {
+                return null;
+            }
+
+            const order = await this.orderService.getOrderById(orderId);
+            if (!order) {
+                return null;
+            }
+
+            const paymentId = request.paymentId;
+            if (await this.getPayment(orderId, paymentId)) {
+                return await this.getOrderWithPayments(orderId);
+            }
+
+            await this.databaseService.executeQuery(`
+                INSERT INTO order_payments (
+                    id, order_id, amount, payment_method, payment_status, gateway,
+                    transaction_id, failure_reason, processed_at
+                )
+                VALUES ($1, $2, $3, $4, $5, $6, $7, $8, CURRENT_TIMESTAMP)
+            `, [
+                paymentId,
+                orderId,
+                outcome.amount,
+                request.paymentMethod,
+                outcome.success ? PaymentStatus.AUTHORIZED : PaymentStatus.FAILED,
+                outcome.gateway,
+                outcome.transactionId,
+                outcome.failureReason
+            ]);
+
+            logger.info(`Payment ${outcome.success ? 'authorized' : 'declined'}:`, {
+                orderId,
+                paymentId,
+                amount: outcome.amount,
+                failureReason: outcome.failureReason
+            });
+
+            return await this.syncOrderPaymentStatus(order);
+        });
+    }
+
+    // Takes all or part of an authorization; what is not captured is released
+    public async prepareCapture(orderId: string, paymentId: string, amount: number | null = null): Promise<RecordedGatewayResult | null> {
+        const payment = await this.getPayment(orderId, paymentId);
+        if (!payment) {
+            return null;
+        }
+
+        this.requireStatus(payment, [PaymentStatus.AUTHORIZED], 'captured');
+
+        const captureAmount = amount ?? payment.amount;
+        if (captureAmount <= 0 || captureAmount > payment.amount) {
+            throw new ConflictError(`Capture of ${captureAmount} exceeds the authorized ${payment.amount}`, {
+                amount: captureAmount,
+                authorized: payment.amount
+            });
+        }
+
+        const result = await this.gateway.capture(payment.transactionId!, captureAmount, paymentId);
+        return { ...result, gateway: this.gateway.name, amount: captureAmount };
+    }
+
+    public async capturePayment(orderId: string, paymentId: string, outcome: RecordedGatewayResult): Promise<Order | null> {
+        return this.withPayment(orderId, paymentId, async (order) => {
+            this.requireSuccess(outcome, 'capture');
+
+            await this.databaseService.executeQuery(`
+                UPDATE order_payments
+                SET payment_status = $1, captured_amount = $2, processed_at = CURRENT_TIMESTAMP, updated_at = CURRENT_TIMESTAMP
+                WHERE id = $3
+            `, [PaymentStatus.PAID, outcome.amount, paymentId]);
+
+            logger.info('Payment captured:', { orderId, paymentId, amount: outcome.amount });
+            return await this.syncOrderPaymentStatus(order);
+        });
+    }
+
+    public async prepareVoid(orderId: string, paymentId: string): Promise<RecordedGatewayResult | null> {
+        const payment = await this.getPayment(orderId, paymentId);
+        if (!payment) {
+            return null;
+        }
+
+        this.requireStatus(payment, [PaymentStatus.AUTHORIZED], 'voided');
+
+        const result = await this.gateway.void(payment.transactionId!, paymentId);
+        return { ...result, gateway: this.gateway.name, amount: payment.amount };
+    }
+
+    public async voidPayment(orderId: string, paymentId: string, outcome: RecordedGatewayResult): Promise<Order | null> {
+        return this.withPayment(orderId, paymentId, async (order) => {
+            this.requireSuccess(outcome, 'void');
+
+            await this.databaseService.executeQuery(`
+                UPDATE order_payments
+                SET payment_status = $1, updated_at = CURRENT_TIMESTAMP
+                WHERE id = $2
+            `, [PaymentStatus.CANCELLED, paymentId]);
+
+            logger.info('Payment voided:', { orderId, paymentId });
+            return await this.syncOrderPaymentStatus(order);
+        });
+    }
+
+    // Gives back all or part of what is left of a capture; refundId keys the gateway call
+    public async prepareRefund(
+        orderId: string,
+        paymentId: string,
+        amount: number | null,
+        refundId: string
+    ): Promise<RecordedGatewayResult | null> {
+        const payment = await this.getPayment(orderId, paymentId);
+        if (!payment) {
+            return null;
+        }
+
+        this.requireStatus(payment, [PaymentStatus.PAID, PaymentStatus.PARTIALLY_REFUNDED], 'refunded');
+
+        const refundable = this.toAmount(payment.capturedAmount - payment.refundAmount);
+        const refundAmount = amount ?? refundable;
+        if (refundAmount <= 0 || refundAmount > refundable) {
+            throw new ConflictError(`Refund of ${refundAmount} exceeds the refundable ${refundable}`, {
+                amount: refundAmount,
+                refundable
+            });
+        }
+
+        const result = await this.gateway.refund(payment.transactionId!, refundAmount, refundId);
+        return { ...result, gateway: this.gateway.name, amount: refundAmount };
+    }
+
+    public async refundPayment(
+        orderId: string,
+        paymentId: string,
+        refundId: string,
+        outcome: RecordedGatewayResult
+    ): Promise<Order | null> {
+        return this.withPayment(orderId, paymentId, async (order, payment) => {
+            this.requireSuccess(outcome, 'refund');
+
+            const refunded = this.toAmount(payment.refundAmount + outcome.amount);
+            await this.databaseService.executeQuery(`
+                UPDATE order_payments
+                SET payment_status = $1, refund_amount = $2, refunded_at = CURRENT_TIMESTAMP, updated_at = CURRENT_TIMESTAMP
+                WHERE id = $3
+            `, [
+                refunded >= payment.capturedAmount ? PaymentStatus.REFUNDED : PaymentStatus.PARTIALLY_REFUNDED,
+                refunded,
+                paymentId
+            ]);
+
+            logger.info('Payment refunded:', { orderId, paymentId, amount: outcome.amount, refundId });
+            return await this.syncOrderPaymentStatus(order);
+        });
+    }
+
+    // Oldest first
+    public async getPayments(orderId: string): Promise<OrderPayment[]> {
+        const result = await this.databaseService.executeQuery<any>(`
+            SELECT * FROM order_payments
+            WHERE order_id = $1
+            ORDER BY created_at, id
+        `, [orderId]);
+
+        return result.rows.map(row => this.mapRowToPayment(row));
+    }
+
+    public async getOrderWithPayments(orderId: string): Promise<Order | null> {
+        const order = await this.orderService.getOrderById(orderId);
+        if (!order) {
+            return null;
+        }
+
+        return { ...order, payments: await this.getPayments(orderId) };
+    }
+
+    private async withPayment(
+        orderId: string,
+        paymentId: string,
+        action: (order: Order, payment: OrderPayment) => Promise<Order | null>
+    ): Promise<Order | null> {
+        return this.databaseService.executeTransaction(async () => {
+            if (!await this.orderService.lockOrder(orderId)) {
+                return null;
+            }
+
+            const order = await this.orderService.getOrderById(orderId);
+            const payment = await this.getPayment(orderId, paymentId);
+            if (!order || !payment) {
+                return null;
+            }
+
+            return await action(order, payment);
+        });
+    }
+
+    private async getPayment(orderId: string, paymentId: string): Promise<OrderPayment | null> {
+        const result = await this.databaseService.executeQuery<any>(
+            'SELECT * FROM order_payments WHERE id = $1 AND order_id = $2',
+            [paymentId, orderId]
+        );
+
+        return result.rows[0] ? this.mapRowToPayment(result.rows[0]) : null;
+    }
+
+    private async syncOrderPaymentStatus(order: Order): Promise<Order | null> {
+        const payments = await this.getPayments(order.id);
+        const paymentStatus = this.derivePaymentStatus(order, payments);
+
+        if (paymentStatus !== order.paymentStatus) {
+            await this.databaseService.executeQuery(
+                'UPDATE orders SET payment_status = $1, updated_at = CURRENT_TIMESTAMP WHERE id = $2',
+                [paymentStatus, order.id]
+            );
+
+            logger.info(`Order payment status updated:`, {
+                orderId: order.id,
+                from: order.paymentStatus,
+                to: paymentStatus
+            });
+        }
+
+        return await this.getOrderWithPayments(order.id);
+    }
+
+    /**
+     * Refunds win over everything else; otherwise the order is PAID once captures cover
+     * its total, AUTHORIZED while an authorization is open, and PENDING while a balance
+     * is outstanding after a partial capture. With nothing taken or held, the latest
+     * payment tells whether it was declined or voided.
+     */
+    private derivePaymentStatus(order: Order, payments: OrderPayment[]): PaymentStatus {
+        const captured = this.sum(payments.map(payment => payment.capturedAmount));
+        const refunded = this.sum(payments.map(payment => payment.refundAmount));
+        const authorized = this.sum(payments
+            .filter(payment => payment.paymentStatus === PaymentStatus.AUTHORIZED)
+            .map(payment => payment.amount));
+
+        if (refunded > 0) {
+            return refunded >= captured ? PaymentStatus.REFUNDED : PaymentStatus.PARTIALLY_REFUNDED;
+        }
+        if (captured > 0 && captured >= order.totalAmount) {
+            return PaymentStatus.PAID;
+        }
+        if (authorized > 0) {
+            return PaymentStatus.AUTHORIZED;
+        }
+        if (captured > 0) {
+            return PaymentStatus.PENDING;
+        }
+
+        const latest = payments[payments.length - 1]?.paymentStatus;
+        if (latest === PaymentStatus.FAILED || latest === PaymentStatus.CANCELLED) {
+            return latest;
+        }
+        return PaymentStatus.PENDING;
+    }
+
+    // What the order total still lacks after open authorizations and net captures
+    private getOutstanding(order: Order, payments: OrderPayment[]): number {
+        const covered = this.sum(payments.map(payment => {
+            if (payment.paymentStatus === PaymentStatus.AUTHORIZED) {
+                return payment.amount;
+            }
+            return payment.capturedAmount - payment.refundAmount;
+        }));
+
+        return Math.max(0, this.toAmount(order.totalAmount - covered));
+    }
+
+    private requireStatus(payment: OrderPayment, allowed: PaymentStatus[], action: string): void {
+        if (!allowed.includes(payment.paymentStatus)) {
+            throw new ConflictError(`Payment ${payment.id} is ${payment.paymentStatus} and cannot be ${action}`, {
+                paymentStatus: payment.paymentStatus
+            });
+        }
+    }
+
+    private requireSuccess(result: { success: boolean; failureReason: string | null }, action: string): void {
+        if (!result.success) {
+            throw new ConflictError(`Payment gateway rejected the ${action}: ${result.failureReason || 'no reason given'}`);
+        }
+    }
+
+    private sum(amounts: number[]): number {
+        return this.toAmount(amounts.reduce((total, amount) => total + amount, 0));
+    }
+
+    // Money is kept to the cent, as in the DECIMAL(12,2) columns
+    private toAmount(value: number): number {
+        return Math.round(value * 100) / 100;
+    }
+
+    private mapRowToPayment(row: any): OrderPayment {
+        return {
+            id: row.id,
+            orderId: row.order_id,
+            amount: parseFloat(row.amount),
+            capturedAmount: parseFloat(row.captured_amount),
+            paymentMethod: row.payment_method,
+            paymentStatus: row.payment_status,
+            gateway: row.gateway,
+            transactionId: row.transaction_id,
+            processedAt: row.processed_at ? new Date(row.processed_at) : null,
+            failureReason: row.failure_reason,
+            refundAmount: parseFloat(row.refund_amount),
+            refundedAt: row.refunded_at ? new Date(row.refunded_at) : null,
+            createdAt: new Date(row.created_at),
+            updatedAt: new Date(row.updated_at)
+        };
+    }
+}
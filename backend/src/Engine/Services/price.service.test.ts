@@ -0,0 +1,104 @@
+// engine/services/price.service.test.ts
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { PriceService } from './price.service';
+import { FakeDatabase } from '../../testing/fakeDatabase';
+
+const ITEM_ID = '1a000000-0000-4000-8000-000000000001';
+const JAN = new Date('2026-01-01T00:00:00Z');
+const FEB = new Date('2026-02-01T00:00:00Z');
+const MAR = new Date('2026-03-01T00:00:00Z');
+const APR = new Date('2026-04-01T00:00:00Z');
+
+interface PriceRow {
+    id: string;
+    item_id: string;
+    price: string;
+    effective_from: Date;
+    effective_to: Date | null;
+    created_at: Date;
+}
+
+// An item_prices table kept in memory, answering the queries PriceService runs
+function setup() {
+    let rows: PriceRow[] = [];
+    const database = new FakeDatabase()
+        .on(/DELETE FROM item_prices/, ([itemId, at]) => {
+            const before = rows.length;
+            rows = rows.filter(row => row.item_id !== itemId || row.effective_from.getTime() !== at.getTime());
+            return { rows: [], rowCount: before - rows.length };
+        })
+        .on(/SELECT MIN\(effective_from\)/, ([itemId, at]) => {
+            const later = rows.filter(row => row.item_id === itemId && row.effective_from > at).map(row => row.effective_from.getTime());
+            return [{ effective_from: later.length ? new Date(Math.min(...later)) : null }];
+        })
+        .on(/UPDATE item_prices SET effective_to/, ([itemId, at]) => {
+            const ended = rows.filter(row => row.item_id === itemId && row.effective_from < at
+                && (row.effective_to === null || row.effective_to > at));
+            ended.forEach(row => { row.effective_to = at; });
+            return { rows: [], rowCount: ended.length };
+        })
+        .on(/INSERT INTO item_prices/, ([itemId, price, effectiveFrom, effectiveTo]) => {
+            const row = {
+                id: `price-${rows.length + 1}`,
+                item_id: itemId,
+                price: String(price),
+                effective_from: effectiveFrom,
+                effective_to: effectiveTo,
+                created_at: JAN
+            };
+            rows.push(row);
+            return [row];
+        })
+        .on(/WHERE item_id = \$1 AND effective_from <= \$2/, ([itemId, at]) => rows.filter(row => row.item_id === itemId
+            && row.effective_from <= at && (row.effective_to === null || row.effective_to > at)));
+
+    const ranges = () => [...rows]
+        .sort((a, b) => a.effective_from.getTime() - b.effective_from.getTime())
+        .map(row => [Number(row.price), row.effective_from, row.effective_to]);
+    return { service: new PriceService(database.asService()), ranges };
+}
+
+describe('PriceService.setPrice', () => {
+    it('ends the open range when a later price starts', async () => {
+        const { service, ranges } = setup();
+
+        await service.setPrice(ITEM_ID, 10, JAN);
+        await service.setPrice(ITEM_ID, 12, MAR);
+
+        assert.deepEqual(ranges(), [[10, JAN, MAR], [12, MAR, null]]);
+    });
+
+    it('splits a range when a change lands inside it, running only until the next change', async () => {
+        const { service, ranges } = setup();
+
+        await service.setPrice(ITEM_ID, 10, JAN);
+        await service.setPrice(ITEM_ID, 12, MAR);
+        const inserted = await service.setPrice(ITEM_ID, 11, FEB);
+
+        assert.deepEqual(ranges(), [[10, JAN, FEB], [11, FEB, MAR], [12, MAR, null]]);
+        assert.deepEqual([inserted.price, inserted.effectiveFrom, inserted.effectiveTo], [11, FEB, MAR]);
+    });
+
+    it('replaces a change set for the same moment', async () => {
+        const { service, ranges } = setup();
+
+        await service.setPrice(ITEM_ID, 10, JAN);
+        await service.setPrice(ITEM_ID, 12, MAR);
+        await service.setPrice(ITEM_ID, 13, MAR);
+
+        assert.deepEqual(ranges(), [[10, JAN, MAR], [13, MAR, null]]);
+    });
+
+    it('finds the price in effect at any time, scheduled ones included', async () => {
+        const { service } = setup();
+
+        await service.setPrice(ITEM_ID, 10, JAN);
+        await service.setPrice(ITEM_ID, 12, MAR);
+
+        assert.equal((await service.getPriceAt(ITEM_ID, FEB))?.price, 10);
+        assert.equal((await service.getPriceAt(ITEM_ID, MAR))?.price, 12);
+        assert.equal((await service.getPriceAt(ITEM_ID, APR))?.price, 12);
+        assert.equal(await service.getPriceAt(ITEM_ID, new Date('2025-12-31T00:00:00Z')), null);
+    });
+});
@@ -0,0 +1,86 @@
+// engine/services/price.service.ts
+import { DatabaseService } from './database.service';
+import { ItemPrice } from '../../types';
+
+/**
+ * Item price history as contiguous effective ranges. Setting a price at a time
+ * ends the range that time falls in and runs until the next change, so past
+ * prices are kept and future ones wait for the PriceScheduler. Callers hold the
+ * item row lock, which serialises changes to one item's history.
+ */
+export class PriceService {
+    constructor(private databaseService: DatabaseService) {}
+
+    public async setPrice(itemId: string, price: number, effectiveFrom: Date): Promise<ItemPrice> {
+        // A second change for the same moment replaces the first
+        await this.databaseService.executeQuery(
+            'DELETE FROM item_prices WHERE item_id = $1 AND effective_from = $2',
+            [itemId, effectiveFrom]
+        );
+
+        const next = await this.databaseService.executeQuery<{ effective_from: Date | null }>(`
+            SELECT MIN(effective_from) AS effective_from FROM item_prices
+            WHERE item_id = $1 AND effective_from > $2
+        `, [itemId, effectiveFrom]);
+
+        await this.databaseService.executeQuery(`
+            UPDATE item_prices SET effective_to = $2
+            WHERE item_id = $1 AND effective_from < $2 AND (effective_to IS NULL OR effective_to > $2)
+        `, [itemId, effectiveFrom]);
+
+        const result = await this.databaseService.executeQuery<any>(`
+            INSERT INTO item_prices (item_id, price, effective_from, effective_to)
+            VALUES ($1, $2, $3, $4)
+            RETURNING *
+        `, [itemId, price, effectiveFrom, next.rows[0]?.effective_from || null]);
+
+        return this.mapRowToItemPrice(result.rows[0]);
+    }
+
+    public async getPriceAt(itemId: string, at: Date): Promise<ItemPrice | null> {
+        const result = await this.databaseService.executeQuery<any>(`
+            SELECT * FROM item_prices
+            WHERE item_id = $1 AND effective_from <= $2 AND (effective_to IS NULL OR effective_to > $2)
+        `, [itemId, at]);
+
+        return result.rows[0] ? this.mapRowToItemPrice(result.rows[0]) : null;
+    }
+
+    // Newest first, scheduled changes included
+    public async getPriceHistory(itemId: string): Promise<ItemPrice[]> {
+        const result = await this.databaseService.executeQuery<any>(`
+            SELECT * FROM item_prices
+            WHERE item_id = $1
+            ORDER BY effective_from DESC
+        `, [itemId]);
+
+        return result.rows.map(row => this.mapRowToItemPrice(row));
+    }
+
+    // Items whose stored price is not the one in effect now, i.e. with a scheduled change due
+    public async getDueItemIds(limit: number): Promise<string[]> {
+        const result = await this.databaseService.executeQuery<{ id: string }>(`
+            SELECT ci.id
+            FROM customer_items ci
+            JOIN item_prices ip ON ip.item_id = ci.id
+            WHERE ip.effective_from <= CURRENT_TIMESTAMP
+              AND (ip.effective_to IS NULL OR ip.effective_to > CURRENT_TIMESTAMP)
+              AND ip.price <> ci.price
+            ORDER BY ip.effective_from
+            LIMIT $1
+        `, [limit]);
+
+        return result.rows.map(row => row.id);
+    }
+
+    private mapRowToItemPrice(row: any): ItemPrice {
+        return {
+            id: row.id,
+            itemId: row.item_id,
+            price: parseFloat(row.price),
+            effectiveFrom: new Date(row.effective_from),
+            effectiveTo: row.effective_to ? new Date(row.effective_to) : null,
+            createdAt: new Date(row.created_at)
+        };
+    }
+}
@@ -0,0 +1,106 @@
+// engine/services/retryQueue.service.ts
+import { DatabaseService } from './database.service';
+import { RetryEntry } from '../../types';
+
+/**
+ * Consumed events that failed with a retryable error wait here for their next
+ * attempt, so the consumer can move on instead of sleeping on the partition.
+ * Entries are queued per ordering key (topic and aggregate): only the oldest entry
+ * of a key is ever due, and events that arrive for a key with queued entries are
+ * queued behind them, so an aggregate's events still apply in the order consumed.
+ */
+export class RetryQueueService {
+    constructor(private databaseService: DatabaseService) {}
+
+    public async enqueue(
+        topic: string,
+        orderingKey: string,
+        event: any,
+        retryCount: number,
+        delay: number,
+        error: string | null
+    ): Promise<void> {
+        await this.databaseService.executeQuery(`
+            INSERT INTO event_retries (event_id, topic, ordering_key, payload, retry_count, next_attempt_at, last_error)
+            VALUES ($1, $2, $3, $4, $5, CURRENT_TIMESTAMP + $6 * INTERVAL '1 millisecond', $7)
+        `, [
+            event?.eventId || 'UNKNOWN',
+            topic,
+            orderingKey,
+            JSON.stringify(event),
+            retryCount,
+            delay,
+            error
+        ]);
+    }
+
+    public async hasPending(orderingKey: string): Promise<boolean> {
+        const result = await this.databaseService.executeQuery(
+            `SELECT 1 FROM event_retries WHERE ordering_key = $1 LIMIT 1`,
+            [orderingKey]
+        );
+        return result.rows.length > 0;
+    }
+
+    /**
+     * Claims up to `limit` due entries, each the oldest of its ordering key, by moving
+     * their next attempt `claimTimeout` ms ahead. A concurrent claim re-checks the row
+     * and skips it, so each entry goes to one Engine instance; an instance that dies
+     * mid-attempt leaves the entry to be claimed again once the timeout passes.
+     */
+    public async claimDue(limit: number, claimTimeout: number): Promise<RetryEntry[]> {
+        const result = await this.databaseService.executeQuery<any>(`
+            UPDATE event_retries
+            SET next_attempt_at = CURRENT_TIMESTAMP + $2 * INTERVAL '1 millisecond'
+            WHERE id IN (
+                SELECT id FROM (
+                    SELECT DISTINCT ON (ordering_key) id, next_attempt_at
+                    FROM event_retries
+                    ORDER BY ordering_key, id
+                ) heads
+                WHERE next_attempt_at <= CURRENT_TIMESTAMP
+                ORDER BY next_attempt_at
+                LIMIT $1
+            )
+            AND next_attempt_at <= CURRENT_TIMESTAMP
+            RETURNING *
+        `, [limit, claimTimeout]);
+
+        return result.rows
+            .map(row => this.mapRowToRetryEntry(row))
+            .sort((a, b) => Number(a.id) - Number(b.id));
+    }
+
+    public async reschedule(id: string, retryCount: number, delay: number, error: string): Promise<void> {
+        await this.databaseService.executeQuery(`
+            UPDATE event_retries
+            SET retry_count = $2, next_attempt_at = CURRENT_TIMESTAMP + $3 * INTERVAL '1 millisecond', last_error = $4
+            WHERE id = $1
+        `, [id, retryCount, delay, error]);
+    }
+
+    // Lets the next entry of the same ordering key become due
+    public async remove(id: string): Promise<void> {
+        await this.databaseService.executeQuery(`DELETE FROM event_retries WHERE id = $1`, [id]);
+    }
+
+    public async countPending(): Promise<number> {
+        const result = await this.databaseService.executeQuery<{ count: string }>(
+            `SELECT COUNT(*) FROM event_retries`
+        );
+        return parseInt(result.rows[0]?.count || '0');
+    }
+
+    private mapRowToRetryEntry(row: any): RetryEntry {
+        return {
+            id: String(row.id),
+            eventId: row.event_id,
+            topic: row.topic,
+            orderingKey: row.ordering_key,
+            event: row.payload,
+            retryCount: row.retry_count,
+            nextAttemptAt: new Date(row.next_attempt_at),
+            lastError: row.last_error
+        };
+    }
+}
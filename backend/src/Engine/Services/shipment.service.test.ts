@@ -0,0 +1,75 @@
+// engine/services/shipment.service.test.ts
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { ShipmentService } from './shipment.service';
+import { FakeDatabase } from '../../testing/fakeDatabase';
+import { Order, OrderShipment, OrderStatus, ShipmentStatus } from '../../types';
+
+const WIDGET_ID = '1a000000-0000-4000-8000-000000000001';
+const GADGET_ID = '1a000000-0000-4000-8000-000000000002';
+
+// Only the lines matter; a widget line from each of two warehouses and one gadget line
+const ORDER = {
+    items: [
+        { itemId: WIDGET_ID, quantity: 2 },
+        { itemId: WIDGET_ID, quantity: 1 },
+        { itemId: GADGET_ID, quantity: 1 }
+    ]
+} as Pick<Order, 'items'> as Order;
+
+function shipment(status: ShipmentStatus, items: Array<[string, number]>): OrderShipment {
+    return {
+        id: `shipment-${status}-${items.length}`,
+        orderId: 'order-1',
+        trackingNumber: 'TRACK-1',
+        carrier: 'UPS',
+        shippedDate: null,
+        estimatedDelivery: null,
+        actualDelivery: null,
+        shippingCost: 0,
+        shippingAddress: null,
+        status,
+        items: items.map(([itemId, quantity]) => ({ itemId, quantity })),
+        history: [],
+        createdAt: new Date('2026-03-01T00:00:00Z'),
+        updatedAt: new Date('2026-03-01T00:00:00Z')
+    };
+}
+
+describe('ShipmentService.deriveOrderStatus', () => {
+    const service = new ShipmentService(new FakeDatabase().asService());
+    const derive = (...shipments: OrderShipment[]) => service.deriveOrderStatus(ORDER, shipments);
+
+    it('leaves the order alone until a shipment has gone out', () => {
+        assert.equal(derive(), null);
+        assert.equal(derive(shipment(ShipmentStatus.PENDING, [[WIDGET_ID, 3], [GADGET_ID, 1]])), null);
+    });
+
+    it('delivers an order split over shipments once every ordered unit has arrived', () => {
+        assert.equal(derive(
+            shipment(ShipmentStatus.DELIVERED, [[WIDGET_ID, 2]]),
+            shipment(ShipmentStatus.DELIVERED, [[WIDGET_ID, 1], [GADGET_ID, 1]])
+        ), OrderStatus.DELIVERED);
+    });
+
+    it('keeps a partly delivered order shipped, or out for delivery while a shipment is', () => {
+        const delivered = shipment(ShipmentStatus.DELIVERED, [[WIDGET_ID, 3]]);
+
+        assert.equal(derive(delivered), OrderStatus.SHIPPED);
+        assert.equal(derive(delivered, shipment(ShipmentStatus.IN_TRANSIT, [[GADGET_ID, 1]])), OrderStatus.SHIPPED);
+        assert.equal(derive(delivered, shipment(ShipmentStatus.OUT_FOR_DELIVERY, [[GADGET_ID, 1]])), OrderStatus.OUT_FOR_DELIVERY);
+        assert.equal(derive(delivered, shipment(ShipmentStatus.LOST, [[GADGET_ID, 1]])), OrderStatus.SHIPPED);
+    });
+
+    it('fails the order only when every dispatched shipment failed', () => {
+        assert.equal(derive(
+            shipment(ShipmentStatus.FAILED_DELIVERY, [[WIDGET_ID, 3]]),
+            shipment(ShipmentStatus.DAMAGED, [[GADGET_ID, 1]]),
+            shipment(ShipmentStatus.PENDING, [[GADGET_ID, 1]])
+        ), OrderStatus.FAILED);
+        assert.equal(derive(
+            shipment(ShipmentStatus.RETURNED_TO_SENDER, [[WIDGET_ID, 3]]),
+            shipment(ShipmentStatus.PICKED_UP, [[GADGET_ID, 1]])
+        ), OrderStatus.SHIPPED);
+    });
+});
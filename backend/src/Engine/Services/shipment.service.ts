@@ -0,0 +1,280 @@
+// engine/services/shipment.service.ts
+import { DatabaseService } from './database.service';
+import {
+    ConflictError,
+    CreateShipmentRequest,
+    Order,
+    OrderShipment,
+    OrderStatus,
+    ShipmentItem,
+    ShipmentStatus,
+    ShipmentTrackingEvent,
+    ShipmentTrackingUpdate
+} from '../../types';
+import { v4 as uuidv4 } from 'uuid';
+
+// Shipments that did not arrive
+const FAILED_SHIPMENT_STATUSES = [
+    ShipmentStatus.FAILED_DELIVERY,
+    ShipmentStatus.RETURNED_TO_SENDER,
+    ShipmentStatus.LOST,
+    ShipmentStatus.DAMAGED
+];
+
+// Goods that are gone or back with the sender; they may go out again in a new shipment
+const RESHIPPABLE_STATUSES = [ShipmentStatus.RETURNED_TO_SENDER, ShipmentStatus.LOST, ShipmentStatus.DAMAGED];
+
+/**
+ * Shipments of an order with what each carries and its carrier scans. Callers hold
+ * the order row lock (see OrderService), which keeps the shipped quantities of an
+ * order within what it ordered.
+ */
+export class ShipmentService {
+    constructor(private databaseService: DatabaseService) {}
+
+    public async createShipment(order: Order, request: CreateShipmentRequest): Promise<OrderShipment> {
+        const shipments = await this.getShipments(order.id);
+        const remaining = this.getUnshippedQuantities(order, shipments);
+        const items = request.items || Array.from(remaining, ([itemId, quantity]) => ({ itemId, quantity }))
+            .filter(item => item.quantity > 0);
+
+        if (items.length === 0) {
+            throw new ConflictError(`Everything on order ${order.orderNumber} is already in a shipment`);
+        }
+
+        for (const item of items) {
+            const unshipped = remaining.get(item.itemId) ?? 0;
+            if (item.quantity > unshipped) {
+                throw new ConflictError(`Shipment of ${item.quantity} x ${item.itemId} exceeds the ${unshipped} not yet shipped`, {
+                    itemId: item.itemId,
+                    requested: item.quantity,
+                    unshipped
+                });
+            }
+            remaining.set(item.itemId, unshipped - item.quantity);
+        }
+
+        const shipmentId = request.shipmentId || uuidv4();
+        try {
+            await this.databaseService.executeQuery(`
+                INSERT INTO order_shipments (
+                    id, order_id, carrier, tracking_number, status, estimated_delivery, shipping_cost, shipping_address
+                )
+                VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+            `, [
+                shipmentId,
+                order.id,
+                request.carrier,
+                request.trackingNumber,
+                ShipmentStatus.PENDING,
+                request.estimatedDelivery || null,
+                request.shippingCost || 0,
+                request.shippingAddress ? JSON.stringify(request.shippingAddress) : null
+            ]);
+        } catch (error) {
+            throw this.toConflict(error, request.carrier, request.trackingNumber);
+        }
+
+        for (const item of items) {
+            await this.databaseService.executeQuery(
+                'INSERT INTO order_shipment_items (shipment_id, item_id, quantity) VALUES ($1, $2, $3)',
+                [shipmentId, item.itemId, item.quantity]
+            );
+        }
+
+        await this.insertTrackingEvent(shipmentId, {
+            status: ShipmentStatus.PENDING,
+            description: 'Shipment created',
+            occurredAt: new Date()
+        });
+
+        return (await this.getShipment(order.id, shipmentId))!;
+    }
+
+    /**
+     * Appends a carrier scan. Scans may arrive out of order, so the shipment only
+     * takes the status of a scan at least as recent as every earlier one.
+     */
+    public async addTrackingEvent(shipment: OrderShipment, update: ShipmentTrackingUpdate): Promise<OrderShipment> {
+        const occurredAt = update.occurredAt || new Date();
+        const latest = shipment.history[shipment.history.length - 1];
+
+        await this.insertTrackingEvent(shipment.id, { ...update, occurredAt });
+
+        if (!latest || occurredAt >= latest.occurredAt) {
+            await this.databaseService.executeQuery(`
+                UPDATE order_shipments
+                SET status = $1,
+                    shipped_date = CASE WHEN $1 <> 'PENDING' THEN COALESCE(shipped_date, $2) ELSE shipped_date END,
+                    actual_delivery = CASE WHEN $1 = 'DELIVERED' THEN $2 ELSE actual_delivery END,
+                    updated_at = CURRENT_TIMESTAMP
+                WHERE id = $3
+            `, [update.status, occurredAt, shipment.id]);
+        }
+
+        return (await this.getShipment(shipment.orderId, shipment.id))!;
+    }
+
+    // An order's tracking number lives on its shipment, so it takes exactly one to set it
+    public async setTrackingNumber(order: Order, trackingNumber: string): Promise<void> {
+        const shipments = await this.getShipments(order.id);
+        const shipment = shipments[0];
+        if (!shipment || shipments.length > 1) {
+            throw new ConflictError(
+                `Order ${order.orderNumber} has ${shipments.length} shipments; a tracking number needs exactly one`,
+                { shipments: shipments.length }
+            );
+        }
+
+        try {
+            await this.databaseService.executeQuery(
+                'UPDATE order_shipments SET tracking_number = $1, updated_at = CURRENT_TIMESTAMP WHERE id = $2',
+                [trackingNumber, shipment.id]
+            );
+        } catch (error) {
+            throw this.toConflict(error, shipment.carrier, trackingNumber);
+        }
+    }
+
+    // Oldest first, each with its items and scans
+    public async getShipments(orderId: string): Promise<OrderShipment[]> {
+        const result = await this.databaseService.executeQuery<any>(`
+            SELECT * FROM order_shipments
+            WHERE order_id = $1
+            ORDER BY created_at, id
+        `, [orderId]);
+
+        return await this.withDetails(result.rows);
+    }
+
+    public async getShipment(orderId: string, shipmentId: string): Promise<OrderShipment | null> {
+        const result = await this.databaseService.executeQuery<any>(
+            'SELECT * FROM order_shipments WHERE id = $1 AND order_id = $2',
+            [shipmentId, orderId]
+        );
+
+        const [shipment] = await this.withDetails(result.rows);
+        return shipment || null;
+    }
+
+    /**
+     * The order status the shipments call for, or null while none has left. FAILED
+     * only when every shipment that left failed, DELIVERED once delivered shipments
+     * carry everything ordered, OUT_FOR_DELIVERY while any is, SHIPPED otherwise.
+     * Mixed outcomes never fail the whole order; they are left to an operator.
+     */
+    public deriveOrderStatus(order: Order, shipments: OrderShipment[]): OrderStatus | null {
+        const dispatched = shipments.filter(shipment => shipment.status !== ShipmentStatus.PENDING);
+        if (dispatched.length === 0) {
+            return null;
+        }
+
+        if (dispatched.every(shipment => FAILED_SHIPMENT_STATUSES.includes(shipment.status))) {
+            return OrderStatus.FAILED;
+        }
+
+        const delivered = this.sumItems(dispatched.filter(shipment => shipment.status === ShipmentStatus.DELIVERED));
+        const ordered = this.getOrderedQuantities(order);
+        if (Array.from(ordered).every(([itemId, quantity]) => (delivered.get(itemId) ?? 0) >= quantity)) {
+            return OrderStatus.DELIVERED;
+        }
+
+        if (dispatched.some(shipment => shipment.status === ShipmentStatus.OUT_FOR_DELIVERY)) {
+            return OrderStatus.OUT_FOR_DELIVERY;
+        }
+
+        return OrderStatus.SHIPPED;
+    }
+
+    private getUnshippedQuantities(order: Order, shipments: OrderShipment[]): Map<string, number> {
+        const shipped = this.sumItems(shipments.filter(shipment => !RESHIPPABLE_STATUSES.includes(shipment.status)));
+        const remaining = this.getOrderedQuantities(order);
+
+        for (const [itemId, quantity] of remaining) {
+            remaining.set(itemId, quantity - (shipped.get(itemId) ?? 0));
+        }
+        return remaining;
+    }
+
+    // An item may appear on several order lines, one per source warehouse
+    private getOrderedQuantities(order: Order): Map<string, number> {
+        const ordered = new Map<string, number>();
+        for (const line of order.items) {
+            ordered.set(line.itemId, (ordered.get(line.itemId) ?? 0) + line.quantity);
+        }
+        return ordered;
+    }
+
+    private sumItems(shipments: OrderShipment[]): Map<string, number> {
+        const totals = new Map<string, number>();
+        for (const item of shipments.flatMap(shipment => shipment.items)) {
+            totals.set(item.itemId, (totals.get(item.itemId) ?? 0) + item.quantity);
+        }
+        return totals;
+    }
+
+    private async insertTrackingEvent(shipmentId: string, update: ShipmentTrackingUpdate & { occurredAt: Date }): Promise<void> {
+        await this.databaseService.executeQuery(`
+            INSERT INTO shipment_tracking_events (shipment_id, status, location, description, occurred_at)
+            VALUES ($1, $2, $3, $4, $5)
+        `, [shipmentId, update.status, update.location || null, update.description || null, update.occurredAt]);
+    }
+
+    private async withDetails(rows: any[]): Promise<OrderShipment[]> {
+        if (rows.length === 0) {
+            return [];
+        }
+
+        const ids = rows.map(row => row.id);
+        const itemsResult = await this.databaseService.executeQuery<any>(
+            'SELECT shipment_id, item_id, quantity FROM order_shipment_items WHERE shipment_id = ANY($1)',
+            [ids]
+        );
+        const eventsResult = await this.databaseService.executeQuery<any>(`
+            SELECT * FROM shipment_tracking_events
+            WHERE shipment_id = ANY($1)
+            ORDER BY occurred_at, created_at
+        `, [ids]);
+
+        return rows.map(row => ({
+            id: row.id,
+            orderId: row.order_id,
+            trackingNumber: row.tracking_number,
+            carrier: row.carrier,
+            shippedDate: row.shipped_date ? new Date(row.shipped_date) : null,
+            estimatedDelivery: row.estimated_delivery ? new Date(row.estimated_delivery) : null,
+            actualDelivery: row.actual_delivery ? new Date(row.actual_delivery) : null,
+            shippingCost: parseFloat(row.shipping_cost),
+            shippingAddress: row.shipping_address || null,
+            status: row.status,
+            items: itemsResult.rows
+                .filter(item => item.shipment_id === row.id)
+                .map((item): ShipmentItem => ({ itemId: item.item_id, quantity: item.quantity })),
+            history: eventsResult.rows
+                .filter(event => event.shipment_id === row.id)
+                .map(event => this.mapRowToTrackingEvent(event)),
+            createdAt: new Date(row.created_at),
+            updatedAt: new Date(row.updated_at)
+        }));
+    }
+
+    private mapRowToTrackingEvent(row: any): ShipmentTrackingEvent {
+        return {
+            id: row.id,
+            shipmentId: row.shipment_id,
+            status: row.status,
+            location: row.location,
+            description: row.description,
+            occurredAt: new Date(row.occurred_at),
+            createdAt: new Date(row.created_at)
+        };
+    }
+
+    private toConflict(error: unknown, carrier: string, trackingNumber: string): unknown {
+        const { code, constraint } = (error || {}) as { code?: string; constraint?: string };
+        if (code === '23505' && constraint === 'idx_order_shipments_carrier_tracking') {
+            return new ConflictError(`${carrier} tracking number ${trackingNumber} is already in use`, { carrier, trackingNumber });
+        }
+        return error;
+    }
+}
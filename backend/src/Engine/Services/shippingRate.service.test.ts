@@ -0,0 +1,164 @@
+// engine/services/shippingRate.service.test.ts
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { ShippingRateService } from './shippingRate.service';
+import { FakeDatabase } from '../../testing/fakeDatabase';
+import { config } from '../../config/config';
+import {
+    ConflictError,
+    OrderPriority,
+    ShippingContext,
+    ShippingRateBasis,
+    ShippingServiceLevel
+} from '../../types';
+
+function rateRow(id: string, overrides: Record<string, any> = {}): Record<string, any> {
+    return {
+        id,
+        tenant_id: null,
+        name: id,
+        carrier: null,
+        zone: null,
+        service_level: ShippingServiceLevel.STANDARD,
+        basis: ShippingRateBasis.WEIGHT,
+        min_value: '0',
+        max_value: null,
+        base_cost: '10',
+        per_unit_cost: '0',
+        free_shipping_threshold: null,
+        is_active: true,
+        created_at: new Date('2026-01-01T00:00:00Z'),
+        updated_at: new Date('2026-01-01T00:00:00Z'),
+        ...overrides
+    };
+}
+
+function setup(rates: Record<string, any>[]) {
+    const database = new FakeDatabase().on(/FROM shipping_rates/, rates);
+    return new ShippingRateService(database.asService());
+}
+
+function context(overrides: Partial<ShippingContext> = {}): ShippingContext {
+    return {
+        tenantId: null,
+        shippingAddress: '1 Main St, San Jose, CA 95110, US',
+        priority: OrderPriority.NORMAL,
+        carrier: null,
+        subtotal: 40,
+        quantity: 2,
+        weight: 3,
+        ...overrides
+    };
+}
+
+describe('ShippingRateService.quoteShipping', () => {
+    it('prices by the band the order falls in', async () => {
+        const service = setup([
+            rateRow('light', { max_value: '2', base_cost: '4' }),
+            rateRow('heavy', { min_value: '2', base_cost: '6', per_unit_cost: '1.5' })
+        ]);
+
+        const quote = await service.quoteShipping(context({ weight: 3 }));
+
+        assert.equal(quote.shippingRateId, 'heavy');
+        assert.equal(quote.cost, 10.5);
+        assert.equal(quote.serviceLevel, ShippingServiceLevel.STANDARD);
+    });
+
+    it('measures quantity-based rates in units', async () => {
+        const service = setup([rateRow('per-unit', { basis: ShippingRateBasis.QUANTITY, base_cost: '1', per_unit_cost: '2' })]);
+
+        const quote = await service.quoteShipping(context({ quantity: 4 }));
+
+        assert.equal(quote.cost, 9);
+    });
+
+    it('ships URGENT orders with an express rate', async () => {
+        const service = setup([
+            rateRow('standard', { base_cost: '5' }),
+            rateRow('express', { service_level: ShippingServiceLevel.EXPRESS, base_cost: '25' })
+        ]);
+
+        const quote = await service.quoteShipping(context({ priority: OrderPriority.URGENT }));
+
+        assert.equal(quote.shippingRateId, 'express');
+        assert.equal(quote.serviceLevel, ShippingServiceLevel.EXPRESS);
+        assert.equal(quote.cost, 25);
+    });
+
+    it('prefers a regional zone over a country over none, whatever they cost', async () => {
+        const service = setup([
+            rateRow('anywhere', { base_cost: '1' }),
+            rateRow('country', { zone: 'US', base_cost: '2' }),
+            rateRow('region', { zone: 'US-CA', base_cost: '3' }),
+            rateRow('elsewhere', { zone: 'US-NY', base_cost: '0.5' })
+        ]);
+
+        const quote = await service.quoteShipping(context());
+
+        assert.equal(quote.shippingRateId, 'region');
+        assert.equal(quote.zone, 'US-CA');
+        assert.equal(quote.cost, 3);
+    });
+
+    it('prefers the requested carrier and skips other carriers', async () => {
+        const service = setup([
+            rateRow('any-carrier', { base_cost: '4' }),
+            rateRow('ups', { carrier: 'UPS', base_cost: '8' }),
+            rateRow('dhl', { carrier: 'DHL', base_cost: '2' })
+        ]);
+
+        const quote = await service.quoteShipping(context({ carrier: 'ups' }));
+
+        assert.equal(quote.shippingRateId, 'ups');
+        assert.equal(quote.carrier, 'UPS');
+    });
+
+    it('takes the cheapest of equally specific rates', async () => {
+        const service = setup([
+            rateRow('dear', { base_cost: '9' }),
+            rateRow('cheap', { base_cost: '7' })
+        ]);
+
+        const quote = await service.quoteShipping(context());
+
+        assert.equal(quote.shippingRateId, 'cheap');
+    });
+
+    it('ships free from the rate\'s threshold', async () => {
+        const service = setup([rateRow('threshold', { free_shipping_threshold: '40' })]);
+
+        const quote = await service.quoteShipping(context({ subtotal: 40 }));
+
+        assert.equal(quote.cost, 0);
+        assert.equal(quote.shippingRateId, 'threshold');
+    });
+
+    it('rejects an order no rate covers', async () => {
+        const service = setup([rateRow('light', { max_value: '2' })]);
+
+        await assert.rejects(
+            service.quoteShipping(context({ weight: 5 })),
+            (error: unknown) => error instanceof ConflictError && /No STANDARD shipping rate/.test(error.message)
+        );
+    });
+
+    it('falls back to the default tiers when the tenant has no rates', async () => {
+        const service = setup([]);
+        const { freeThreshold, reducedThreshold, reducedCost, standardCost } = config.shipping;
+
+        const below = await service.quoteShipping(context({ subtotal: reducedThreshold - 1, carrier: 'UPS' }));
+        const reduced = await service.quoteShipping(context({ subtotal: reducedThreshold }));
+        const free = await service.quoteShipping(context({ subtotal: freeThreshold }));
+
+        assert.deepEqual(below, {
+            shippingRateId: null,
+            carrier: 'UPS',
+            zone: null,
+            serviceLevel: ShippingServiceLevel.STANDARD,
+            cost: standardCost
+        });
+        assert.equal(reduced.cost, reducedCost);
+        assert.equal(free.cost, 0);
+    });
+});
@@ -0,0 +1,292 @@
+// engine/services/shippingRate.service.ts
+import { DatabaseService } from './database.service';
+import { EventStoreService } from './eventStore.service';
+import { logger } from '../../utils/logger';
+import { config } from '../../config/config';
+import { getJurisdictions } from '../../utils/address';
+import {
+    ConflictError,
+    CreateShippingRateRequest,
+    OrderPriority,
+    ShippingContext,
+    ShippingQuote,
+    ShippingRate,
+    ShippingRateBasis,
+    ShippingServiceLevel,
+    UpdateShippingRateRequest,
+    ValidationError
+} from '../../types';
+import { v4 as uuidv4 } from 'uuid';
+
+const SHIPPING_RATE_COLUMNS: Record<keyof UpdateShippingRateRequest, string> = {
+    name: 'name',
+    carrier: 'carrier',
+    zone: 'zone',
+    serviceLevel: 'service_level',
+    basis: 'basis',
+    minValue: 'min_value',
+    maxValue: 'max_value',
+    baseCost: 'base_cost',
+    perUnitCost: 'per_unit_cost',
+    freeShippingThreshold: 'free_shipping_threshold',
+    isActive: 'is_active'
+};
+
+/**
+ * Per-tenant shipping rate tables and the shipping cost they put on orders. A
+ * tenant without active rates is charged the flat config.shipping tiers.
+ */
+export class ShippingRateService {
+    private eventStoreService: EventStoreService;
+
+    constructor(private databaseService: DatabaseService) {
+        this.eventStoreService = new EventStoreService(databaseService);
+    }
+
+    public async createShippingRate(data: CreateShippingRateRequest, tenantId: string | null): Promise<ShippingRate> {
+        try {
+            const shippingRate = await this.databaseService.executeTransaction(async () => {
+                const result = await this.databaseService.executeQuery<any>(`
+                    INSERT INTO shipping_rates (
+                        id, tenant_id, name, carrier, zone, service_level, basis, min_value, max_value,
+                        base_cost, per_unit_cost, free_shipping_threshold, is_active
+                    )
+                    VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13)
+                    RETURNING *
+                `, [
+                    uuidv4(),
+                    tenantId,
+                    data.name,
+                    data.carrier || null,
+                    data.zone ? data.zone.toUpperCase() : null,
+                    data.serviceLevel || ShippingServiceLevel.STANDARD,
+                    data.basis,
+                    data.minValue ?? 0,
+                    data.maxValue ?? null,
+                    data.baseCost,
+                    data.perUnitCost ?? 0,
+                    data.freeShippingThreshold ?? null,
+                    data.isActive ?? true
+                ]);
+
+                await this.eventStoreService.appendReferenceChange('SHIPPING_RATE', result.rows[0].id, tenantId);
+                return this.mapRowToShippingRate(result.rows[0]);
+            });
+            logger.info(`Shipping rate created:`, { shippingRateId: shippingRate.id, zone: shippingRate.zone, tenantId });
+
+            return shippingRate;
+
+        } catch (error) {
+            logger.error('Error creating shipping rate:', error);
+            throw this.toValidationError(error, data);
+        }
+    }
+
+    public async getShippingRates(tenantId: string | null): Promise<ShippingRate[]> {
+        const result = await this.databaseService.executeQuery<any>(`
+            SELECT * FROM shipping_rates
+            WHERE COALESCE(tenant_id::text, '') = COALESCE($1, '')
+            ORDER BY service_level, zone NULLS FIRST, carrier NULLS FIRST, basis, min_value
+        `, [tenantId]);
+
+        return result.rows.map(row => this.mapRowToShippingRate(row));
+    }
+
+    public async getShippingRateById(id: string, tenantId: string | null): Promise<ShippingRate | null> {
+        const result = await this.databaseService.executeQuery<any>(`
+            SELECT * FROM shipping_rates
+            WHERE id = $1 AND COALESCE(tenant_id::text, '') = COALESCE($2, '')
+        `, [id, tenantId]);
+
+        return result.rows[0] ? this.mapRowToShippingRate(result.rows[0]) : null;
+    }
+
+    public async updateShippingRate(
+        id: string,
+        updates: UpdateShippingRateRequest,
+        tenantId: string | null
+    ): Promise<ShippingRate | null> {
+        try {
+            const existing = await this.getShippingRateById(id, tenantId);
+            if (!existing) {
+                return null;
+            }
+
+            const updateFields: string[] = [];
+            const values: any[] = [id];
+
+            for (const [key, value] of Object.entries(updates)) {
+                const column = SHIPPING_RATE_COLUMNS[key as keyof UpdateShippingRateRequest];
+                if (column && value !== undefined) {
+                    values.push(key === 'zone' && value ? String(value).toUpperCase() : value);
+                    updateFields.push(`${column} = $${values.length}`);
+                }
+            }
+
+            if (updateFields.length === 0) {
+                return existing;
+            }
+
+            await this.databaseService.executeTransaction(async () => {
+                await this.databaseService.executeQuery(`
+                    UPDATE shipping_rates
+                    SET ${updateFields.join(', ')}, updated_at = CURRENT_TIMESTAMP
+                    WHERE id = $1
+                `, values);
+                await this.eventStoreService.appendReferenceChange('SHIPPING_RATE', id, tenantId);
+            });
+
+            logger.info(`Shipping rate updated:`, { shippingRateId: id, updatedFields: Object.keys(updates) });
+
+            return await this.getShippingRateById(id, tenantId);
+
+        } catch (error) {
+            logger.error('Error updating shipping rate:', error);
+            throw this.toValidationError(error, updates);
+        }
+    }
+
+    public async deleteShippingRate(id: string, tenantId: string | null): Promise<boolean> {
+        const deleted = await this.databaseService.executeTransaction(async () => {
+            const result = await this.databaseService.executeQuery(`
+                DELETE FROM shipping_rates
+                WHERE id = $1 AND COALESCE(tenant_id::text, '') = COALESCE($2, '')
+            `, [id, tenantId]);
+
+            if ((result.rowCount ?? 0) === 0) {
+                return false;
+            }
+
+            await this.eventStoreService.appendReferenceChange('SHIPPING_RATE', id, tenantId);
+            return true;
+        });
+
+        if (deleted) {
+            logger.info(`Shipping rate deleted:`, { shippingRateId: id, tenantId });
+            return true;
+        }
+        return false;
+    }
+
+    /**
+     * Prices shipping for an order. URGENT orders go EXPRESS. Of the active rates for
+     * the service level whose band holds the order, the most specific one wins: a
+     * regional zone beats a country, which beats none, and a rate of the requested
+     * carrier beats a carrier-less one. Equally specific rates go to the cheapest.
+     * Throws a ConflictError when the tenant has rates but none covers the order.
+     */
+    public async quoteShipping(context: ShippingContext): Promise<ShippingQuote> {
+        const serviceLevel = context.priority === OrderPriority.URGENT
+            ? ShippingServiceLevel.EXPRESS
+            : ShippingServiceLevel.STANDARD;
+
+        const rates = await this.getActiveRates(context.tenantId);
+        if (rates.length === 0) {
+            return {
+                shippingRateId: null,
+                carrier: context.carrier,
+                zone: null,
+                serviceLevel,
+                cost: this.getDefaultCost(context.subtotal)
+            };
+        }
+
+        const zones = getJurisdictions(context.shippingAddress);
+        let best: { rate: ShippingRate; score: number; cost: number } | null = null;
+
+        for (const rate of rates) {
+            if (rate.serviceLevel !== serviceLevel) {
+                continue;
+            }
+            if (rate.zone !== null && !zones.includes(rate.zone)) {
+                continue;
+            }
+            if (rate.carrier !== null && context.carrier !== null && rate.carrier.toLowerCase() !== context.carrier.toLowerCase()) {
+                continue;
+            }
+
+            const measure = rate.basis === ShippingRateBasis.WEIGHT ? context.weight : context.quantity;
+            if (measure < rate.minValue || (rate.maxValue !== null && measure >= rate.maxValue)) {
+                continue;
+            }
+
+            // zones runs most specific first; a rate without one ships anywhere
+            const zoneRank = rate.zone === null ? 0 : zones.length - zones.indexOf(rate.zone);
+            const score = zoneRank * 2 + (rate.carrier !== null && context.carrier !== null ? 1 : 0);
+            const cost = rate.freeShippingThreshold !== null && context.subtotal >= rate.freeShippingThreshold
+                ? 0
+                : this.toAmount(rate.baseCost + rate.perUnitCost * measure);
+
+            if (!best || score > best.score || (score === best.score && cost < best.cost)) {
+                best = { rate, score, cost };
+            }
+        }
+
+        if (!best) {
+            throw new ConflictError(`No ${serviceLevel} shipping rate covers this order`, {
+                serviceLevel,
+                zones,
+                carrier: context.carrier,
+                weight: context.weight,
+                quantity: context.quantity
+            });
+        }
+
+        return {
+            shippingRateId: best.rate.id,
+            carrier: best.rate.carrier ?? context.carrier,
+            zone: best.rate.zone,
+            serviceLevel,
+            cost: best.cost
+        };
+    }
+
+    // Oldest first, so that of two equal rates the older one wins
+    private async getActiveRates(tenantId: string | null): Promise<ShippingRate[]> {
+        const result = await this.databaseService.executeQuery<any>(`
+            SELECT * FROM shipping_rates
+            WHERE COALESCE(tenant_id::text, '') = COALESCE($1, '') AND is_active
+            ORDER BY created_at, id
+        `, [tenantId]);
+
+        return result.rows.map(row => this.mapRowToShippingRate(row));
+    }
+
+    private getDefaultCost(subtotal: number): number {
+        const { freeThreshold, reducedThreshold, reducedCost, standardCost } = config.shipping;
+        if (subtotal >= freeThreshold) return 0;
+        if (subtotal >= reducedThreshold) return reducedCost;
+        return standardCost;
+    }
+
+    private toValidationError(error: unknown, data: UpdateShippingRateRequest): unknown {
+        if ((error as { code?: string })?.code === '23514') {
+            return new ValidationError('maxValue must be above minValue', 'maxValue', data.maxValue);
+        }
+        return error;
+    }
+
+    private toAmount(value: number): number {
+        return Math.round(value * 100) / 100;
+    }
+
+    private mapRowToShippingRate(row: any): ShippingRate {
+        return {
+            id: row.id,
+            tenantId: row.tenant_id || null,
+            name: row.name,
+            carrier: row.carrier,
+            zone: row.zone,
+            serviceLevel: row.service_level,
+            basis: row.basis,
+            minValue: parseFloat(row.min_value),
+            maxValue: row.max_value !== null ? parseFloat(row.max_value) : null,
+            baseCost: parseFloat(row.base_cost),
+            perUnitCost: parseFloat(row.per_unit_cost),
+            freeShippingThreshold: row.free_shipping_threshold !== null ? parseFloat(row.free_shipping_threshold) : null,
+            isActive: row.is_active,
+            createdAt: new Date(row.created_at),
+            updatedAt: new Date(row.updated_at)
+        };
+    }
+}
@@ -0,0 +1,64 @@
+// engine/services/stockAlert.service.ts
+import { DatabaseService } from './database.service';
+import { OutboxService } from './outbox.service';
+import { logger } from '../../utils/logger';
+import { config } from '../../config/config';
+import { KafkaEvent } from '../../types';
+import { v4 as uuidv4 } from 'uuid';
+
+/**
+ * Publishes ITEM_LOW_STOCK_ALERT on the item update topic (and so to subscribed
+ * WebSocket clients) when on-hand stock drops to or below the item's minStockLevel.
+ * Only the crossing alerts; further movements below the threshold stay quiet.
+ */
+export class StockAlertService {
+    private outboxService: OutboxService;
+
+    constructor(private databaseService: DatabaseService) {
+        this.outboxService = new OutboxService(databaseService);
+    }
+
+    public async checkThreshold(itemId: string, previousQuantity: number, quantity: number): Promise<void> {
+        const result = await this.databaseService.executeQuery<any>(`
+            SELECT id, customer_id, name, quantity, reserved_quantity,
+                   COALESCE(min_stock_level, 0) AS min_stock_level, tenant_id
+            FROM customer_items
+            WHERE id = $1 AND status = 'ACTIVE'
+        `, [itemId]);
+
+        const item = result.rows[0];
+        if (!item || previousQuantity <= item.min_stock_level || quantity > item.min_stock_level) {
+            return;
+        }
+
+        const event: KafkaEvent = {
+            eventId: uuidv4(),
+            eventType: 'ITEM_LOW_STOCK_ALERT',
+            aggregateId: itemId,
+            timestamp: new Date(),
+            data: {
+                itemId,
+                customerId: item.customer_id,
+                name: item.name,
+                previousQuantity,
+                quantity,
+                reservedQuantity: item.reserved_quantity,
+                availableQuantity: quantity - item.reserved_quantity,
+                minStockLevel: item.min_stock_level
+            },
+            // WebSocket clients are filtered by tenant
+            metadata: {
+                source: 'ENGINE',
+                ...(item.tenant_id && { tenantId: item.tenant_id })
+            }
+        };
+
+        await this.outboxService.enqueue(config.Kafka.topics.itemUpdates, event);
+
+        logger.warn(`Low stock for item ${item.name}:`, {
+            itemId,
+            quantity,
+            minStockLevel: item.min_stock_level
+        });
+    }
+}
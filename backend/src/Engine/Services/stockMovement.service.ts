@@ -0,0 +1,133 @@
+// engine/services/stockMovement.service.ts
+import { DatabaseService } from './database.service';
+import { StockAlertService } from './stockAlert.service';
+import { getCommandContext } from '../../utils/commandContext';
+import { StockLevel, StockMovement, StockMovementInput } from '../../types';
+import { v4 as uuidv4 } from 'uuid';
+
+/**
+ * Append-only ledger of changes to customer_items.quantity. Rows are written on the
+ * caller's transaction, next to the stock change they describe; user and tenant
+ * come from the command being applied. Every stock change passes through record(),
+ * so it is also where low-stock alerts are raised.
+ */
+export class StockMovementService {
+    private stockAlertService: StockAlertService;
+
+    constructor(private databaseService: DatabaseService) {
+        this.stockAlertService = new StockAlertService(databaseService);
+    }
+
+    public async record(movement: StockMovementInput): Promise<void> {
+        if (movement.delta === 0) {
+            return;
+        }
+
+        const { userId, tenantId } = getCommandContext();
+
+        // Items carry their own tenant; the command's tenant covers items without one
+        await this.databaseService.executeQuery(`
+            INSERT INTO stock_movements (
+                id, item_id, delta, quantity_after, reason, reference_id, warehouse_id, user_id, tenant_id, created_at
+            )
+            SELECT $1, $2, $3, $4, $5, $6, $7, $8, COALESCE(ci.tenant_id::text, $9), CURRENT_TIMESTAMP
+            FROM customer_items ci
+            WHERE ci.id = $2
+        `, [
+            uuidv4(),
+            movement.itemId,
+            movement.delta,
+            movement.quantityAfter,
+            movement.reason,
+            movement.referenceId || null,
+            movement.warehouseId || null,
+            userId || null,
+            tenantId || null
+        ]);
+
+        if (movement.delta < 0) {
+            await this.stockAlertService.checkThreshold(
+                movement.itemId,
+                movement.quantityAfter - movement.delta,
+                movement.quantityAfter
+            );
+        }
+    }
+
+    public async getMovements(
+        itemId: string,
+        page: number = 1,
+        limit: number = 20
+    ): Promise<{ movements: StockMovement[]; total: number; page: number; limit: number; totalPages: number }> {
+        const offset = (page - 1) * limit;
+
+        const [movementsResult, countResult] = await Promise.all([
+            this.databaseService.executeQuery<any>(`
+                SELECT * FROM stock_movements
+                WHERE item_id = $1
+                ORDER BY created_at DESC, id
+                LIMIT $2 OFFSET $3
+            `, [itemId, limit, offset]),
+            this.databaseService.executeQuery<{ count: string }>(
+                'SELECT COUNT(*) FROM stock_movements WHERE item_id = $1',
+                [itemId]
+            )
+        ]);
+
+        const total = parseInt(countResult.rows[0]?.count || '0');
+
+        return {
+            movements: movementsResult.rows.map(row => this.mapRowToMovement(row)),
+            total,
+            page,
+            limit,
+            totalPages: Math.ceil(total / limit)
+        };
+    }
+
+    /**
+     * Stock on hand at a point in time: the current quantity with every later
+     * movement undone. Returns null for unknown items and 0 before an item existed.
+     */
+    public async getStockAsOf(itemId: string, asOf: Date): Promise<StockLevel | null> {
+        const result = await this.databaseService.executeQuery<any>(`
+            SELECT
+                ci.quantity,
+                ci.created_at,
+                COALESCE((
+                    SELECT SUM(sm.delta) FROM stock_movements sm
+                    WHERE sm.item_id = ci.id AND sm.created_at > $2
+                ), 0) AS later_delta
+            FROM customer_items ci
+            WHERE ci.id = $1
+        `, [itemId, asOf]);
+
+        const row = result.rows[0];
+        if (!row) {
+            return null;
+        }
+
+        const existed = new Date(row.created_at) <= asOf;
+
+        return {
+            itemId,
+            asOf,
+            quantity: existed ? row.quantity - parseInt(row.later_delta) : 0
+        };
+    }
+
+    private mapRowToMovement(row: any): StockMovement {
+        return {
+            id: row.id,
+            itemId: row.item_id,
+            delta: row.delta,
+            quantityAfter: row.quantity_after,
+            reason: row.reason,
+            referenceId: row.reference_id || undefined,
+            warehouseId: row.warehouse_id || undefined,
+            userId: row.user_id || undefined,
+            tenantId: row.tenant_id || undefined,
+            createdAt: new Date(row.created_at)
+        };
+    }
+}
@@ -0,0 +1,143 @@
+// engine/services/tax.service.test.ts
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { TaxService } from './tax.service';
+import { FakeDatabase } from '../../testing/fakeDatabase';
+import { config } from '../../config/config';
+import { OrderAddress, OrderItem, TaxContext } from '../../types';
+
+const CALIFORNIA: OrderAddress = {
+    street: '1 Main St',
+    city: 'San Jose',
+    state: 'CA',
+    postalCode: '95110',
+    country: 'US',
+    phone: null,
+    instructions: null
+};
+
+function line(subtotal: number, discountAmount = 0): OrderItem {
+    return {
+        id: `line-${subtotal}`,
+        itemId: 'item-1',
+        name: 'Item',
+        description: null,
+        price: subtotal,
+        quantity: 1,
+        subtotal,
+        discountAmount,
+        taxAmount: 0,
+        sku: null
+    };
+}
+
+function ruleRow(id: string, taxType: string, jurisdiction: string | null, rate: string, categoryId: string | null = null) {
+    return {
+        id,
+        tenant_id: null,
+        name: id,
+        tax_type: taxType,
+        jurisdiction,
+        category_id: categoryId,
+        rate,
+        is_active: true,
+        created_at: new Date('2026-01-01T00:00:00Z'),
+        updated_at: new Date('2026-01-01T00:00:00Z')
+    };
+}
+
+const RULES = [
+    ruleRow('sales-us', 'SALES', 'US', '5'),
+    ruleRow('sales-ca', 'SALES', 'US-CA', '8'),
+    ruleRow('sales-ca-drinks', 'SALES', 'US-CA', '9', 'cat-drinks'),
+    ruleRow('excise-drinks', 'EXCISE', null, '2', 'cat-drinks')
+];
+
+function setup(rules: Record<string, any>[]) {
+    const database = new FakeDatabase()
+        .on(/FROM tax_rules/, rules)
+        .on(/WITH RECURSIVE subtree/, params => params[0] === 'cat-drinks'
+            ? [{ id: 'cat-drinks' }, { id: 'cat-soda' }]
+            : [{ id: params[0] }]);
+    return { database, service: new TaxService(database.asService()) };
+}
+
+function context(overrides: Partial<TaxContext> = {}): TaxContext {
+    return {
+        tenantId: null,
+        taxExempt: false,
+        shippingAddress: CALIFORNIA,
+        lines: [line(100, 10), line(50)],
+        categoryIds: ['cat-books', 'cat-soda'],
+        ...overrides
+    };
+}
+
+describe('TaxService.calculateTaxes', () => {
+    it('charges the most specific rule per tax type on the discounted line', async () => {
+        const { service } = setup(RULES);
+
+        const calculation = await service.calculateTaxes(context());
+
+        // Books: SALES at the state rate on 90; soda: the state drinks rate plus the drinks excise
+        assert.deepEqual(calculation.lineTaxes, [7.2, 5.5]);
+        assert.deepEqual(calculation.breakdown, [
+            { taxRuleId: 'sales-ca', taxType: 'SALES', jurisdiction: 'US-CA', taxRate: 8, taxAmount: 7.2, taxableAmount: 90 },
+            { taxRuleId: 'sales-ca-drinks', taxType: 'SALES', jurisdiction: 'US-CA', taxRate: 9, taxAmount: 4.5, taxableAmount: 50 },
+            { taxRuleId: 'excise-drinks', taxType: 'EXCISE', jurisdiction: null, taxRate: 2, taxAmount: 1, taxableAmount: 50 }
+        ]);
+    });
+
+    it('reads the jurisdiction from a free-text address', async () => {
+        const { service } = setup(RULES);
+
+        const calculation = await service.calculateTaxes(context({
+            shippingAddress: '5 Broadway, New York, NY 10004, US',
+            lines: [line(100)],
+            categoryIds: ['cat-books']
+        }));
+
+        assert.deepEqual(calculation.lineTaxes, [5]);
+        assert.equal(calculation.breakdown[0]?.taxRuleId, 'sales-us');
+    });
+
+    it('charges nothing outside every rule\'s jurisdiction', async () => {
+        const { service } = setup(RULES.slice(0, 2));
+
+        const calculation = await service.calculateTaxes(context({
+            shippingAddress: { ...CALIFORNIA, state: 'ON', country: 'CA' },
+            lines: [line(100)],
+            categoryIds: [null]
+        }));
+
+        assert.deepEqual(calculation.lineTaxes, [0]);
+        assert.deepEqual(calculation.breakdown, []);
+    });
+
+    it('charges tax-exempt customers nothing without reading the rules', async () => {
+        const { database, service } = setup(RULES);
+
+        const calculation = await service.calculateTaxes(context({ taxExempt: true }));
+
+        assert.deepEqual(calculation.lineTaxes, [0, 0]);
+        assert.deepEqual(calculation.breakdown, []);
+        assert.equal(database.queries.length, 0);
+    });
+
+    it('charges the default rate when the tenant has no rules', async () => {
+        const { service } = setup([]);
+
+        const calculation = await service.calculateTaxes(context({ lines: [line(200)], categoryIds: [null] }));
+
+        const expected = Math.round(200 * config.tax.defaultRate) / 100;
+        assert.deepEqual(calculation.lineTaxes, [expected]);
+        assert.deepEqual(calculation.breakdown, [{
+            taxRuleId: null,
+            taxType: config.tax.defaultType,
+            jurisdiction: null,
+            taxRate: config.tax.defaultRate,
+            taxAmount: expected,
+            taxableAmount: 200
+        }]);
+    });
+});
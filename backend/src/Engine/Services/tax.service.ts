@@ -0,0 +1,359 @@
+// engine/services/tax.service.ts
+import { DatabaseService } from './database.service';
+import { EventStoreService } from './eventStore.service';
+import { CategoryService } from './category.service';
+import { logger } from '../../utils/logger';
+import { config } from '../../config/config';
+import { getJurisdictions } from '../../utils/address';
+import {
+    CreateTaxRuleRequest,
+    OrderTax,
+    TaxCalculation,
+    TaxContext,
+    TaxReportRow,
+    TaxRule,
+    UpdateTaxRuleRequest,
+    ValidationError
+} from '../../types';
+import { v4 as uuidv4 } from 'uuid';
+
+const TAX_RULE_COLUMNS: Record<keyof UpdateTaxRuleRequest, string> = {
+    name: 'name',
+    taxType: 'tax_type',
+    jurisdiction: 'jurisdiction',
+    categoryId: 'category_id',
+    rate: 'rate',
+    isActive: 'is_active'
+};
+
+type TaxBreakdownLine = TaxCalculation['breakdown'][number];
+
+/**
+ * Per-tenant tax rules and the taxes they put on new orders. A tenant without
+ * active rules is charged config.tax.defaultRate; tax-exempt customers pay none.
+ */
+export class TaxService {
+    private categoryService: CategoryService;
+    private eventStoreService: EventStoreService;
+
+    constructor(private databaseService: DatabaseService) {
+        this.categoryService = new CategoryService(databaseService);
+        this.eventStoreService = new EventStoreService(databaseService);
+    }
+
+    public async createTaxRule(data: CreateTaxRuleRequest, tenantId: string | null): Promise<TaxRule> {
+        try {
+            if (data.categoryId) {
+                await this.requireCategory(data.categoryId, tenantId);
+            }
+
+            const taxRule = await this.databaseService.executeTransaction(async () => {
+                const result = await this.databaseService.executeQuery<any>(`
+                    INSERT INTO tax_rules (id, tenant_id, name, tax_type, jurisdiction, category_id, rate, is_active)
+                    VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+                    RETURNING *
+                `, [
+                    uuidv4(),
+                    tenantId,
+                    data.name,
+                    data.taxType.toUpperCase(),
+                    data.jurisdiction ? data.jurisdiction.toUpperCase() : null,
+                    data.categoryId || null,
+                    data.rate,
+                    data.isActive ?? true
+                ]);
+
+                await this.eventStoreService.appendReferenceChange('TAX_RULE', result.rows[0].id, tenantId);
+                return this.mapRowToTaxRule(result.rows[0]);
+            });
+            logger.info(`Tax rule created:`, { taxRuleId: taxRule.id, taxType: taxRule.taxType, tenantId });
+
+            return taxRule;
+
+        } catch (error) {
+            logger.error('Error creating tax rule:', error);
+            throw error;
+        }
+    }
+
+    public async getTaxRules(tenantId: string | null): Promise<TaxRule[]> {
+        const result = await this.databaseService.executeQuery<any>(`
+            SELECT * FROM tax_rules
+            WHERE COALESCE(tenant_id::text, '') = COALESCE($1, '')
+            ORDER BY tax_type, jurisdiction NULLS FIRST, created_at
+        `, [tenantId]);
+
+        return result.rows.map(row => this.mapRowToTaxRule(row));
+    }
+
+    public async getTaxRuleById(id: string, tenantId: string | null): Promise<TaxRule | null> {
+        const result = await this.databaseService.executeQuery<any>(`
+            SELECT * FROM tax_rules
+            WHERE id = $1 AND COALESCE(tenant_id::text, '') = COALESCE($2, '')
+        `, [id, tenantId]);
+
+        return result.rows[0] ? this.mapRowToTaxRule(result.rows[0]) : null;
+    }
+
+    public async updateTaxRule(id: string, updates: UpdateTaxRuleRequest, tenantId: string | null): Promise<TaxRule | null> {
+        try {
+            const existing = await this.getTaxRuleById(id, tenantId);
+            if (!existing) {
+                return null;
+            }
+
+            if (updates.categoryId) {
+                await this.requireCategory(updates.categoryId, tenantId);
+            }
+
+            const updateFields: string[] = [];
+            const values: any[] = [id];
+
+            for (const [key, value] of Object.entries(updates)) {
+                const column = TAX_RULE_COLUMNS[key as keyof UpdateTaxRuleRequest];
+                if (column && value !== undefined) {
+                    values.push((key === 'taxType' || key === 'jurisdiction') && value ? String(value).toUpperCase() : value);
+                    updateFields.push(`${column} = $${values.length}`);
+                }
+            }
+
+            if (updateFields.length === 0) {
+                return existing;
+            }
+
+            await this.databaseService.executeTransaction(async () => {
+                await this.databaseService.executeQuery(`
+                    UPDATE tax_rules
+                    SET ${updateFields.join(', ')}, updated_at = CURRENT_TIMESTAMP
+                    WHERE id = $1
+                `, values);
+                await this.eventStoreService.appendReferenceChange('TAX_RULE', id, tenantId);
+            });
+
+            logger.info(`Tax rule updated:`, { taxRuleId: id, updatedFields: Object.keys(updates) });
+
+            return await this.getTaxRuleById(id, tenantId);
+
+        } catch (error) {
+            logger.error('Error updating tax rule:', error);
+            throw error;
+        }
+    }
+
+    // Orders keep the taxes they were charged; their rows just lose the link to the rule
+    public async deleteTaxRule(id: string, tenantId: string | null): Promise<boolean> {
+        const deleted = await this.databaseService.executeTransaction(async () => {
+            const result = await this.databaseService.executeQuery(`
+                DELETE FROM tax_rules
+                WHERE id = $1 AND COALESCE(tenant_id::text, '') = COALESCE($2, '')
+            `, [id, tenantId]);
+
+            if ((result.rowCount ?? 0) === 0) {
+                return false;
+            }
+
+            await this.eventStoreService.appendReferenceChange('TAX_RULE', id, tenantId);
+            return true;
+        });
+
+        if (deleted) {
+            logger.info(`Tax rule deleted:`, { taxRuleId: id, tenantId });
+            return true;
+        }
+        return false;
+    }
+
+    /**
+     * Taxes each line on what is left of it after discounts. Per tax type a line takes
+     * the most specific active rule that matches it: a regional jurisdiction beats a
+     * country, which beats none, and a category rule beats a catch-all within the same
+     * jurisdiction. The breakdown has one entry per rule applied.
+     */
+    public async calculateTaxes(context: TaxContext): Promise<TaxCalculation> {
+        if (context.taxExempt) {
+            return { lineTaxes: context.lines.map(() => 0), breakdown: [] };
+        }
+
+        const rules = await this.getActiveRules(context.tenantId);
+        const jurisdictions = getJurisdictions(context.shippingAddress);
+        const subtrees = await this.getRuleSubtrees(rules);
+
+        const lineTaxes: number[] = [];
+        const breakdown = new Map<string, TaxBreakdownLine>();
+
+        for (const [index, line] of context.lines.entries()) {
+            const taxable = this.toAmount(line.subtotal - line.discountAmount);
+            const applied = rules.length > 0
+                ? this.selectRules(rules, jurisdictions, context.categoryIds[index] ?? null, subtrees)
+                : [null];
+
+            let lineTax = 0;
+            for (const rule of applied) {
+                const taxRate = rule ? rule.rate : config.tax.defaultRate;
+                const taxAmount = this.toAmount(taxable * taxRate / 100);
+                const key = rule ? rule.id : '';
+                const entry = breakdown.get(key) || {
+                    taxRuleId: rule ? rule.id : null,
+                    taxType: rule ? rule.taxType : config.tax.defaultType,
+                    jurisdiction: rule ? rule.jurisdiction : null,
+                    taxRate,
+                    taxAmount: 0,
+                    taxableAmount: 0
+                };
+
+                entry.taxAmount = this.toAmount(entry.taxAmount + taxAmount);
+                entry.taxableAmount = this.toAmount(entry.taxableAmount + taxable);
+                breakdown.set(key, entry);
+                lineTax += taxAmount;
+            }
+
+            lineTaxes.push(this.toAmount(lineTax));
+        }
+
+        return { lineTaxes, breakdown: Array.from(breakdown.values()) };
+    }
+
+    public async recordOrderTaxes(orderTaxes: OrderTax[]): Promise<OrderTax[]> {
+        const taxes: OrderTax[] = [];
+
+        for (const tax of orderTaxes) {
+            const result = await this.databaseService.executeQuery<any>(`
+                INSERT INTO order_taxes (
+                    id, order_id, tax_rule_id, tax_type, jurisdiction, tax_rate, taxable_amount, tax_amount
+                )
+                VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+                RETURNING *
+            `, [
+                tax.id,
+                tax.orderId,
+                tax.taxRuleId,
+                tax.taxType,
+                tax.jurisdiction,
+                tax.taxRate,
+                tax.taxableAmount,
+                tax.taxAmount
+            ]);
+
+            taxes.push(this.mapRowToOrderTax(result.rows[0]));
+        }
+
+        return taxes;
+    }
+
+    // Tax on the tenant's orders placed in [from, to), cancelled orders left out
+    public async getTaxReport(tenantId: string | null, from: Date, to: Date): Promise<TaxReportRow[]> {
+        const result = await this.databaseService.executeQuery<any>(`
+            SELECT ot.tax_type, ot.tax_rate, ot.jurisdiction,
+                   COUNT(DISTINCT ot.order_id) AS order_count,
+                   SUM(ot.taxable_amount) AS taxable_amount,
+                   SUM(ot.tax_amount) AS tax_amount
+            FROM order_taxes ot
+            JOIN orders o ON o.id = ot.order_id
+            JOIN customers c ON c.id = o.customer_id
+            WHERE COALESCE(c.tenant_id::text, '') = COALESCE($1, '')
+              AND o.order_date >= $2 AND o.order_date < $3
+              AND o.status <> 'CANCELLED'
+            GROUP BY ot.tax_type, ot.tax_rate, ot.jurisdiction
+            ORDER BY ot.tax_type, ot.tax_rate, ot.jurisdiction NULLS FIRST
+        `, [tenantId, from, to]);
+
+        return result.rows.map(row => ({
+            taxType: row.tax_type,
+            taxRate: parseFloat(row.tax_rate),
+            jurisdiction: row.jurisdiction,
+            orderCount: parseInt(row.order_count),
+            taxableAmount: parseFloat(row.taxable_amount),
+            taxAmount: parseFloat(row.tax_amount)
+        }));
+    }
+
+    // Oldest first, so that of two equally specific rules the older one wins
+    private async getActiveRules(tenantId: string | null): Promise<TaxRule[]> {
+        const result = await this.databaseService.executeQuery<any>(`
+            SELECT * FROM tax_rules
+            WHERE COALESCE(tenant_id::text, '') = COALESCE($1, '') AND is_active
+            ORDER BY created_at, id
+        `, [tenantId]);
+
+        return result.rows.map(row => this.mapRowToTaxRule(row));
+    }
+
+    private async getRuleSubtrees(rules: TaxRule[]): Promise<Map<string, string[]>> {
+        const subtrees = new Map<string, string[]>();
+        for (const rule of rules) {
+            if (rule.categoryId && !subtrees.has(rule.categoryId)) {
+                subtrees.set(rule.categoryId, await this.categoryService.getSubtreeIds(rule.categoryId));
+            }
+        }
+        return subtrees;
+    }
+
+    private selectRules(
+        rules: TaxRule[],
+        jurisdictions: string[],
+        categoryId: string | null,
+        subtrees: Map<string, string[]>
+    ): TaxRule[] {
+        const best = new Map<string, { rule: TaxRule; score: number }>();
+
+        for (const rule of rules) {
+            if (rule.jurisdiction !== null && !jurisdictions.includes(rule.jurisdiction)) {
+                continue;
+            }
+
+            if (rule.categoryId && (!categoryId || !subtrees.get(rule.categoryId)?.includes(categoryId))) {
+                continue;
+            }
+
+            // jurisdictions runs most specific first; a rule without one matches anywhere
+            const jurisdictionRank = rule.jurisdiction === null
+                ? 0
+                : jurisdictions.length - jurisdictions.indexOf(rule.jurisdiction);
+            const score = jurisdictionRank * 2 + (rule.categoryId ? 1 : 0);
+            const current = best.get(rule.taxType);
+            if (!current || score > current.score) {
+                best.set(rule.taxType, { rule, score });
+            }
+        }
+
+        return Array.from(best.values(), entry => entry.rule);
+    }
+
+    private async requireCategory(categoryId: string, tenantId: string | null): Promise<void> {
+        if (!await this.categoryService.getCategoryById(categoryId, tenantId)) {
+            throw new ValidationError(`Category ${categoryId} not found`, 'categoryId', categoryId);
+        }
+    }
+
+    private toAmount(value: number): number {
+        return Math.round(value * 100) / 100;
+    }
+
+    private mapRowToTaxRule(row: any): TaxRule {
+        return {
+            id: row.id,
+            tenantId: row.tenant_id || null,
+            name: row.name,
+            taxType: row.tax_type,
+            jurisdiction: row.jurisdiction,
+            categoryId: row.category_id || null,
+            rate: parseFloat(row.rate),
+            isActive: row.is_active,
+            createdAt: new Date(row.created_at),
+            updatedAt: new Date(row.updated_at)
+        };
+    }
+
+    private mapRowToOrderTax(row: any): OrderTax {
+        return {
+            id: row.id,
+            orderId: row.order_id,
+            taxRuleId: row.tax_rule_id,
+            taxType: row.tax_type,
+            jurisdiction: row.jurisdiction,
+            taxRate: parseFloat(row.tax_rate),
+            taxAmount: parseFloat(row.tax_amount),
+            taxableAmount: parseFloat(row.taxable_amount)
+        };
+    }
+}
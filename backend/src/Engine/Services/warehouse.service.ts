@@ -0,0 +1,287 @@
+// engine/services/warehouse.service.ts
+import { DatabaseService } from './database.service';
+import { EventStoreService } from './eventStore.service';
+import { logger } from '../../utils/logger';
+import { config } from '../../config/config';
+import {
+    ConflictError,
+    CreateWarehouseRequest,
+    StockLocation,
+    UpdateWarehouseRequest,
+    ValidationError,
+    Warehouse
+} from '../../types';
+import { v4 as uuidv4 } from 'uuid';
+
+const WAREHOUSE_UPDATE_COLUMNS: Record<keyof UpdateWarehouseRequest, string> = {
+    name: 'name',
+    address: 'address',
+    priority: 'priority',
+    status: 'status'
+};
+
+/**
+ * Warehouses and the per-location split of item stock. customer_items keeps the
+ * totals; callers change a location in the same transaction as the total, after
+ * taking the item row lock, so the two never drift apart.
+ */
+export class WarehouseService {
+    private eventStoreService: EventStoreService;
+    private defaultWarehouseId: string | null = null;
+
+    constructor(private databaseService: DatabaseService) {
+        this.eventStoreService = new EventStoreService(databaseService);
+    }
+
+    public async createWarehouse(data: CreateWarehouseRequest): Promise<Warehouse> {
+        try {
+            const warehouse = await this.databaseService.executeTransaction(async () => {
+                const result = await this.databaseService.executeQuery<any>(`
+                    INSERT INTO warehouses (id, code, name, address, priority)
+                    VALUES ($1, $2, $3, $4, $5)
+                    ON CONFLICT (code) DO NOTHING
+                    RETURNING *
+                `, [uuidv4(), data.code, data.name, data.address || null, data.priority ?? 100]);
+
+                if (!result.rows[0]) {
+                    throw new ConflictError(`Warehouse with code ${data.code} already exists`);
+                }
+
+                await this.eventStoreService.appendReferenceChange('WAREHOUSE', result.rows[0].id);
+                return this.mapRowToWarehouse(result.rows[0]);
+            });
+            logger.info(`Warehouse created:`, { warehouseId: warehouse.id, code: warehouse.code });
+
+            return warehouse;
+
+        } catch (error) {
+            logger.error('Error creating warehouse:', error);
+            throw error;
+        }
+    }
+
+    public async getWarehouses(includeInactive: boolean = false): Promise<Warehouse[]> {
+        const result = await this.databaseService.executeQuery<any>(`
+            SELECT * FROM warehouses
+            ${includeInactive ? '' : `WHERE status = 'ACTIVE'`}
+            ORDER BY priority, code
+        `);
+
+        return result.rows.map(row => this.mapRowToWarehouse(row));
+    }
+
+    public async getWarehouseById(id: string): Promise<Warehouse | null> {
+        const result = await this.databaseService.executeQuery<any>('SELECT * FROM warehouses WHERE id = $1', [id]);
+        return result.rows[0] ? this.mapRowToWarehouse(result.rows[0]) : null;
+    }
+
+    public async updateWarehouse(id: string, updates: UpdateWarehouseRequest): Promise<Warehouse | null> {
+        try {
+            const existing = await this.getWarehouseById(id);
+            if (!existing) {
+                return null;
+            }
+
+            if (existing.isDefault && updates.status === 'INACTIVE') {
+                throw new ConflictError('The default warehouse cannot be deactivated');
+            }
+
+            const updateFields: string[] = [];
+            const values: any[] = [id];
+
+            for (const [key, value] of Object.entries(updates)) {
+                const column = WAREHOUSE_UPDATE_COLUMNS[key as keyof UpdateWarehouseRequest];
+                if (column && value !== undefined) {
+                    values.push(value);
+                    updateFields.push(`${column} = $${values.length}`);
+                }
+            }
+
+            if (updateFields.length === 0) {
+                return existing;
+            }
+
+            const warehouse = await this.databaseService.executeTransaction(async () => {
+                const result = await this.databaseService.executeQuery<any>(`
+                    UPDATE warehouses
+                    SET ${updateFields.join(', ')}, updated_at = CURRENT_TIMESTAMP
+                    WHERE id = $1
+                    RETURNING *
+                `, values);
+
+                await this.eventStoreService.appendReferenceChange('WAREHOUSE', id);
+                return this.mapRowToWarehouse(result.rows[0]);
+            });
+
+            logger.info(`Warehouse updated:`, { warehouseId: id, updatedFields: Object.keys(updates) });
+
+            return warehouse;
+
+        } catch (error) {
+            logger.error('Error updating warehouse:', error);
+            throw error;
+        }
+    }
+
+    public async getDefaultWarehouseId(): Promise<string> {
+        if (!this.defaultWarehouseId) {
+            const result = await this.databaseService.executeQuery<{ id: string }>(
+                'SELECT id FROM warehouses WHERE code = $1',
+                [config.inventory.defaultWarehouseCode]
+            );
+            if (!result.rows[0]) {
+                throw new Error(`Default warehouse ${config.inventory.defaultWarehouseCode} not found`);
+            }
+            this.defaultWarehouseId = result.rows[0].id;
+        }
+
+        return this.defaultWarehouseId;
+    }
+
+    // Resolves the location a stock change targets: the given warehouse, which must be active, or the default
+    public async resolveWarehouseId(warehouseId?: string | null): Promise<string> {
+        if (!warehouseId) {
+            return await this.getDefaultWarehouseId();
+        }
+
+        const warehouse = await this.getWarehouseById(warehouseId);
+        if (!warehouse || warehouse.status !== 'ACTIVE') {
+            throw new ValidationError(`Warehouse ${warehouseId} not found or inactive`, 'warehouseId', warehouseId);
+        }
+
+        return warehouse.id;
+    }
+
+    // Best active location that can ship the whole quantity on its own, by priority then available stock
+    public async findFulfilmentLocation(itemId: string, quantity: number): Promise<string | null> {
+        const result = await this.databaseService.executeQuery<{ warehouse_id: string }>(`
+            SELECT ws.warehouse_id
+            FROM warehouse_stock ws
+            JOIN warehouses w ON w.id = ws.warehouse_id
+            WHERE ws.item_id = $1
+              AND w.status = 'ACTIVE'
+              AND ws.quantity - ws.reserved_quantity >= $2
+            ORDER BY w.priority, ws.quantity - ws.reserved_quantity DESC, w.code
+            LIMIT 1
+        `, [itemId, quantity]);
+
+        return result.rows[0]?.warehouse_id || null;
+    }
+
+    /**
+     * Applies a stock delta to one location. Returns false, changing nothing, when
+     * the location would end up with more reserved than on hand. Only additions
+     * create a missing location row.
+     */
+    public async moveStock(
+        itemId: string,
+        warehouseId: string,
+        quantityDelta: number,
+        reservedDelta: number
+    ): Promise<boolean> {
+        const result = await this.databaseService.executeQuery(`
+            UPDATE warehouse_stock
+            SET quantity = quantity + $3,
+                reserved_quantity = reserved_quantity + $4,
+                updated_at = CURRENT_TIMESTAMP
+            WHERE item_id = $1 AND warehouse_id = $2
+              AND quantity + $3 >= reserved_quantity + $4
+              AND reserved_quantity + $4 >= 0
+        `, [itemId, warehouseId, quantityDelta, reservedDelta]);
+
+        if (result.rowCount > 0) {
+            return true;
+        }
+
+        if (quantityDelta < 0 || reservedDelta !== 0) {
+            return false;
+        }
+
+        const inserted = await this.databaseService.executeQuery(`
+            INSERT INTO warehouse_stock (item_id, warehouse_id, quantity)
+            VALUES ($1, $2, $3)
+            ON CONFLICT (item_id, warehouse_id) DO UPDATE
+            SET quantity = warehouse_stock.quantity + EXCLUDED.quantity, updated_at = CURRENT_TIMESTAMP
+        `, [itemId, warehouseId, quantityDelta]);
+
+        return inserted.rowCount > 0;
+    }
+
+    /**
+     * Sets, adds to or subtracts from one location's stock, never below what that
+     * location has reserved. Returns the location's quantity before and after, or
+     * null when the change is not possible.
+     */
+    public async adjustStock(
+        itemId: string,
+        warehouseId: string,
+        quantity: number,
+        operation: 'set' | 'add' | 'subtract'
+    ): Promise<{ previousQuantity: number; quantity: number } | null> {
+        const current = await this.databaseService.executeQuery<{ quantity: number; reserved_quantity: number }>(`
+            SELECT quantity, reserved_quantity FROM warehouse_stock
+            WHERE item_id = $1 AND warehouse_id = $2
+            FOR UPDATE
+        `, [itemId, warehouseId]);
+
+        const previousQuantity = current.rows[0]?.quantity ?? 0;
+        const reserved = current.rows[0]?.reserved_quantity ?? 0;
+        const newQuantity = operation === 'add'
+            ? previousQuantity + quantity
+            : operation === 'subtract' ? previousQuantity - quantity : quantity;
+
+        if (newQuantity < reserved) {
+            return null;
+        }
+
+        if (!await this.moveStock(itemId, warehouseId, newQuantity - previousQuantity, 0)) {
+            return null;
+        }
+
+        return { previousQuantity, quantity: newQuantity };
+    }
+
+    public async getStockLocations(itemIds: string[]): Promise<Map<string, StockLocation[]>> {
+        const locations = new Map<string, StockLocation[]>();
+        if (itemIds.length === 0) {
+            return locations;
+        }
+
+        const result = await this.databaseService.executeQuery<any>(`
+            SELECT ws.item_id, ws.warehouse_id, ws.quantity, ws.reserved_quantity, w.code, w.name
+            FROM warehouse_stock ws
+            JOIN warehouses w ON w.id = ws.warehouse_id
+            WHERE ws.item_id = ANY($1)
+            ORDER BY w.priority, w.code
+        `, [itemIds]);
+
+        for (const row of result.rows) {
+            const itemLocations = locations.get(row.item_id) || [];
+            itemLocations.push({
+                warehouseId: row.warehouse_id,
+                warehouseCode: row.code,
+                warehouseName: row.name,
+                quantity: row.quantity,
+                reservedQuantity: row.reserved_quantity,
+                availableQuantity: row.quantity - row.reserved_quantity
+            });
+            locations.set(row.item_id, itemLocations);
+        }
+
+        return locations;
+    }
+
+    private mapRowToWarehouse(row: any): Warehouse {
+        return {
+            id: row.id,
+            code: row.code,
+            name: row.name,
+            address: row.address || null,
+            priority: row.priority,
+            status: row.status,
+            isDefault: row.code === config.inventory.defaultWarehouseCode,
+            createdAt: new Date(row.created_at),
+            updatedAt: new Date(row.updated_at)
+        };
+    }
+}
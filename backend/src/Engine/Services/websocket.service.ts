@@ -22,7 +22,6 @@ export class WebSocketService {
         if (!WebSocketService.instance) {
             WebSocketService.instance = new WebSocketService();
         }
-        console.log('testing');
         return WebSocketService.instance;
     }
 
@@ -1,7 +1,7 @@
 // src/cache/redis.service.ts - Updated with Items and Orders caching
 import Redis from 'ioredis';
 import { logger } from '../utils/logger';
-import { Customer, CustomerItem, Order, CacheOptions } from '../types';
+import { Customer, CustomerItem, Order, CacheOptions, OperationRecord, IdempotencyRecord, ImportJob } from '../types';
 
 export class RedisService {
     private static instance: RedisService;
@@ -295,6 +295,55 @@ public getClient(): Redis {
         return await this.get<{ orders: Order[]; total: number }>(key);
     }
 
+    // ===================
+    // OPERATION TRACKING
+    // ===================
+    public async cacheOperation(operation: OperationRecord): Promise<boolean> {
+        const key = this.getOperationKey(operation.correlationId);
+        return await this.set(key, operation, this.getTTL('operation'));
+    }
+
+    public async getCachedOperation(correlationId: string): Promise<OperationRecord | null> {
+        const key = this.getOperationKey(correlationId);
+        return await this.get<OperationRecord>(key);
+    }
+
+    public async cacheImportJob(job: ImportJob): Promise<boolean> {
+        return await this.set(this.getImportJobKey(job.id), job, this.getTTL('importJob'));
+    }
+
+    public async getCachedImportJob(jobId: string): Promise<ImportJob | null> {
+        return await this.get<ImportJob>(this.getImportJobKey(jobId));
+    }
+
+    // ===================
+    // IDEMPOTENCY KEYS
+    // ===================
+    // SET NX so only the first of two concurrent requests with the same key proceeds. The
+    // reservation expires soon, so a key whose request never finished is freed again
+    public async reserveIdempotencyKey(record: IdempotencyRecord): Promise<boolean> {
+        const key = this.getIdempotencyKey(record.key);
+        try {
+            const result = await this.redis.set(key, JSON.stringify(record), 'EX', this.getTTL('idempotencyInProgress'), 'NX');
+            return result === 'OK';
+        } catch (error) {
+            logger.error(`Error reserving idempotency key ${key}:`, error);
+            throw error;
+        }
+    }
+
+    public async getIdempotencyRecord(idempotencyKey: string): Promise<IdempotencyRecord | null> {
+        return await this.get<IdempotencyRecord>(this.getIdempotencyKey(idempotencyKey));
+    }
+
+    public async saveIdempotencyRecord(record: IdempotencyRecord): Promise<boolean> {
+        return await this.set(this.getIdempotencyKey(record.key), record, this.getTTL('idempotency'));
+    }
+
+    public async releaseIdempotencyKey(idempotencyKey: string): Promise<boolean> {
+        return await this.delete(this.getIdempotencyKey(idempotencyKey));
+    }
+
     // ===================
     // CACHE KEY GENERATORS
     // ===================
@@ -327,6 +376,18 @@ public getClient(): Redis {
         return `order:${orderId}`;
     }
 
+    private getOperationKey(correlationId: string): string {
+        return `operation:${correlationId}`;
+    }
+
+    private getImportJobKey(jobId: string): string {
+        return `import:${jobId}`;
+    }
+
+    private getIdempotencyKey(idempotencyKey: string): string {
+        return `idempotency:${idempotencyKey}`;
+    }
+
     private getCustomerOrdersListKey(
         customerId: string,
         page: number,
@@ -362,7 +423,11 @@ public getClient(): Redis {
             item: 1800,          // 30 minutes
             itemList: 600,       // 10 minutes
             order: 900,          // 15 minutes
-            orderList: 300       // 5 minutes
+            orderList: 300,      // 5 minutes
+            operation: 86400,    // 24 hours
+            idempotency: 86400,  // 24 hours
+            idempotencyInProgress: 300, // 5 minutes
+            importJob: 86400     // 24 hours
         };
         return ttls[type as keyof typeof ttls] || 3600;
     }
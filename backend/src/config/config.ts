@@ -18,6 +18,54 @@ export const config = {
         maxConnections: parseInt(process.env.DB_MAX_CONNECTIONS || '20'),
     },
 
+    // Event store replay (npm run replay -- <schema>)
+    eventStore: {
+        replayBatchSize: parseInt(process.env.EVENT_REPLAY_BATCH_SIZE || '500'),
+        referenceTopic: 'reference-data', // Stored topic of reference snapshots; nothing is published on it
+    },
+
+    // Stock reservations held by pending orders
+    inventory: {
+        reservationTtl: parseInt(process.env.INVENTORY_RESERVATION_TTL || '1800000'), // 30 minutes
+        sweepInterval: parseInt(process.env.INVENTORY_SWEEP_INTERVAL || '60000'),
+        sweepBatchSize: parseInt(process.env.INVENTORY_SWEEP_BATCH_SIZE || '100'),
+        // Holds stock from before warehouses existed and stock changes that name no location
+        defaultWarehouseCode: process.env.DEFAULT_WAREHOUSE_CODE || 'MAIN',
+        // Restock policy per order status: FULL, INSPECTION or NONE
+        restockRules: {
+            CANCELLED: process.env.RESTOCK_ON_CANCEL || 'FULL',
+            RETURNED: process.env.RESTOCK_ON_RETURN || 'INSPECTION',
+            FAILED: process.env.RESTOCK_ON_FAILED_DELIVERY || 'FULL',
+        } as Record<string, string>,
+    },
+
+    // Scheduled item price changes, applied by the Engine
+    pricing: {
+        scheduleInterval: parseInt(process.env.PRICE_SCHEDULE_INTERVAL || '60000'),
+        scheduleBatchSize: parseInt(process.env.PRICE_SCHEDULE_BATCH_SIZE || '100'),
+    },
+
+    shipping: {
+        // Rates of tenants that have no shipping rates of their own
+        freeThreshold: parseFloat(process.env.SHIPPING_FREE_THRESHOLD || '100'),
+        reducedThreshold: parseFloat(process.env.SHIPPING_REDUCED_THRESHOLD || '50'),
+        reducedCost: parseFloat(process.env.SHIPPING_REDUCED_COST || '5'),
+        standardCost: parseFloat(process.env.SHIPPING_STANDARD_COST || '10'),
+    },
+
+    tax: {
+        // Percent charged by tenants that have no tax rules of their own
+        defaultRate: parseFloat(process.env.TAX_DEFAULT_RATE || '10'),
+        defaultType: process.env.TAX_DEFAULT_TYPE || 'SALES',
+    },
+
+    payments: {
+        // Adapter name in the Engine's gateway registry; 'fake' approves locally
+        gateway: process.env.PAYMENT_GATEWAY || 'fake',
+        // The fake gateway declines authorizations above this amount (0 declines none)
+        fakeDeclineAbove: parseFloat(process.env.FAKE_GATEWAY_DECLINE_ABOVE || '0'),
+    },
+
     // Redis configuration (NEW)
     redis: {
         host: process.env.REDIS_HOST || 'localhost',
@@ -31,6 +79,10 @@ export const config = {
             itemList: parseInt(process.env.CACHE_TTL_ITEM_LIST || '600'),     // 10 minutes
             order: parseInt(process.env.CACHE_TTL_ORDER || '900'),            // 15 minutes
             orderList: parseInt(process.env.CACHE_TTL_ORDER_LIST || '300'),   // 5 minutes
+            operation: parseInt(process.env.CACHE_TTL_OPERATION || '86400'),  // 24 hours
+            idempotency: parseInt(process.env.CACHE_TTL_IDEMPOTENCY || '86400'), // 24 hours
+            idempotencyInProgress: parseInt(process.env.CACHE_TTL_IDEMPOTENCY_IN_PROGRESS || '300'), // 5 minutes
+            importJob: parseInt(process.env.CACHE_TTL_IMPORT_JOB || '86400'),  // 24 hours
         }
     },
 
@@ -41,6 +93,16 @@ export const config = {
         rateLimit: {
             windowMs: parseInt(process.env.RATE_LIMIT_WINDOW || '900000'), // 15 minutes
             maxRequests: parseInt(process.env.RATE_LIMIT_MAX || '100'),
+        },
+        // "Prefer: wait=N" / "?sync=true" on write endpoints
+        syncWait: {
+            defaultSeconds: parseInt(process.env.SYNC_WAIT_DEFAULT_SECONDS || '10'),
+            maxSeconds: parseInt(process.env.SYNC_WAIT_MAX_SECONDS || '25'), // keep below requestTimeout
+            pollInterval: parseInt(process.env.SYNC_WAIT_POLL_INTERVAL || '500'),
+        },
+        // POST /api/items/import
+        itemImport: {
+            maxRows: parseInt(process.env.ITEM_IMPORT_MAX_ROWS || '5000'),
         }
     },
 
@@ -58,6 +120,39 @@ export const config = {
             itemUpdates: 'item-updates',
             orderUpdates: 'order-updates',
             cacheInvalidation: 'cache-invalidation', // NEW for cache updates
+            deadLetter: 'dead-letter-events',
+        },
+
+        // Engine retry policy for retryable processing errors (exponential backoff)
+        retry: {
+            maxRetries: parseInt(process.env.KAFKA_MAX_RETRIES || '5'),
+            initialDelay: parseInt(process.env.KAFKA_RETRY_INITIAL_DELAY || '500'),
+            maxDelay: parseInt(process.env.KAFKA_RETRY_MAX_DELAY || '10000'),
+            multiplier: parseFloat(process.env.KAFKA_RETRY_MULTIPLIER || '2'),
+            // Retries wait in the event_retries table instead of blocking the partition
+            pollInterval: parseInt(process.env.KAFKA_RETRY_POLL_INTERVAL || '500'),
+            batchSize: parseInt(process.env.KAFKA_RETRY_BATCH_SIZE || '50'),
+            // How long a claimed retry stays hidden from other Engine instances
+            claimTimeout: parseInt(process.env.KAFKA_RETRY_CLAIM_TIMEOUT || '60000'),
+        },
+
+        // Message keys are the aggregate id, optionally prefixed with the tenant id
+        partitioning: {
+            tenantPrefix: process.env.KAFKA_KEY_TENANT_PREFIX === 'true',
+        },
+
+        // Relay that publishes Engine update events from the outbox table
+        outbox: {
+            pollInterval: parseInt(process.env.OUTBOX_POLL_INTERVAL || '1000'),
+            batchSize: parseInt(process.env.OUTBOX_BATCH_SIZE || '100'),
+        },
+
+        // Deletes processed_events claims and sent outbox rows once they are this old (ms)
+        retention: {
+            interval: parseInt(process.env.RETENTION_INTERVAL || '3600000'), // 1 hour
+            batchSize: parseInt(process.env.RETENTION_BATCH_SIZE || '1000'),
+            processedEventsAge: parseInt(process.env.RETENTION_PROCESSED_EVENTS_AGE || '604800000'), // 7 days
+            sentOutboxAge: parseInt(process.env.RETENTION_SENT_OUTBOX_AGE || '86400000'), // 1 day
         },
 
         producer: {
@@ -0,0 +1,203 @@
+// src/controllers/category.controller.ts
+import { Request, Response } from 'express';
+import Joi from 'joi';
+import { RedisService } from '../cache/redies.service';
+import { DatabaseService } from '../Engine/Services/database.service';
+import { CategoryService } from '../Engine/Services/category.service';
+import { logger } from '../utils/logger';
+import { ApiResponse } from '../types';
+
+const slug = Joi.string().max(100).pattern(/^[a-z0-9]+(-[a-z0-9]+)*$/);
+
+const createCategorySchema = Joi.object({
+    name: Joi.string().min(1).max(100).required(),
+    slug: slug.optional(),
+    parentId: Joi.string().uuid().allow(null).optional()
+});
+
+const updateCategorySchema = Joi.object({
+    name: Joi.string().min(1).max(100).optional(),
+    slug: slug.optional(),
+    parentId: Joi.string().uuid().allow(null).optional()
+}).min(1);
+
+const tenantSchema = Joi.string().uuid().optional();
+
+/**
+ * The category tree of the tenant named in x-tenant-id. Applied synchronously,
+ * like warehouses: categories are reference data and move no stock. Item list
+ * caches carry category facets, so every write drops them.
+ */
+export class CategoryController {
+    private static databaseService = new DatabaseService();
+    private static categoryService = new CategoryService(CategoryController.databaseService);
+    private static redisService = RedisService.getInstance();
+
+    private static async ensureConnected(): Promise<void> {
+        if (!CategoryController.databaseService.isConnected()) {
+            await CategoryController.databaseService.connect();
+        }
+    }
+
+    public static async getCategories(req: Request, res: Response): Promise<void> {
+        try {
+            const { error, value: tenantId } = tenantSchema.validate(req.headers['x-tenant-id']);
+            if (error) {
+                CategoryController.sendValidationError(res, error);
+                return;
+            }
+
+            await CategoryController.ensureConnected();
+
+            const categories = await CategoryController.categoryService.getCategoryTree(tenantId || null);
+
+            res.status(200).json({
+                success: true,
+                data: categories,
+                message: 'Categories retrieved successfully',
+                timestamp: new Date()
+            });
+        } catch (error) {
+            logger.error('Error getting categories:', error);
+            throw error;
+        }
+    }
+
+    public static async getCategoryById(req: Request, res: Response): Promise<void> {
+        try {
+            const { error: idError, value: id } = Joi.string().uuid().validate(req.params.id);
+            const { error, value: tenantId } = tenantSchema.validate(req.headers['x-tenant-id']);
+            if (idError || error) {
+                CategoryController.sendValidationError(res, (idError || error)!);
+                return;
+            }
+
+            await CategoryController.ensureConnected();
+
+            const category = await CategoryController.categoryService.getCategoryById(id, tenantId || null);
+            if (!category) {
+                CategoryController.sendNotFound(res);
+                return;
+            }
+
+            res.status(200).json({
+                success: true,
+                data: category,
+                message: 'Category retrieved successfully',
+                timestamp: new Date()
+            });
+        } catch (error) {
+            logger.error('Error getting category:', error);
+            throw error;
+        }
+    }
+
+    public static async createCategory(req: Request, res: Response): Promise<void> {
+        try {
+            const { error: tenantError, value: tenantId } = tenantSchema.validate(req.headers['x-tenant-id']);
+            const { error, value } = createCategorySchema.validate(req.body);
+            if (tenantError || error) {
+                CategoryController.sendValidationError(res, (tenantError || error)!);
+                return;
+            }
+
+            await CategoryController.ensureConnected();
+
+            const category = await CategoryController.categoryService.createCategory(value, tenantId || null);
+            await CategoryController.invalidateItemLists();
+
+            res.status(201).json({
+                success: true,
+                data: category,
+                message: 'Category created successfully',
+                timestamp: new Date()
+            });
+        } catch (error) {
+            logger.error('Error creating category:', error);
+            throw error;
+        }
+    }
+
+    public static async updateCategory(req: Request, res: Response): Promise<void> {
+        try {
+            const { error: idError, value: id } = Joi.string().uuid().validate(req.params.id);
+            const { error: tenantError, value: tenantId } = tenantSchema.validate(req.headers['x-tenant-id']);
+            const { error, value } = updateCategorySchema.validate(req.body);
+            if (idError || tenantError || error) {
+                CategoryController.sendValidationError(res, (idError || tenantError || error)!);
+                return;
+            }
+
+            await CategoryController.ensureConnected();
+
+            const category = await CategoryController.categoryService.updateCategory(id, value, tenantId || null);
+            if (!category) {
+                CategoryController.sendNotFound(res);
+                return;
+            }
+            await CategoryController.invalidateItemLists();
+
+            res.status(200).json({
+                success: true,
+                data: category,
+                message: 'Category updated successfully',
+                timestamp: new Date()
+            });
+        } catch (error) {
+            logger.error('Error updating category:', error);
+            throw error;
+        }
+    }
+
+    public static async deleteCategory(req: Request, res: Response): Promise<void> {
+        try {
+            const { error: idError, value: id } = Joi.string().uuid().validate(req.params.id);
+            const { error, value: tenantId } = tenantSchema.validate(req.headers['x-tenant-id']);
+            if (idError || error) {
+                CategoryController.sendValidationError(res, (idError || error)!);
+                return;
+            }
+
+            await CategoryController.ensureConnected();
+
+            const deleted = await CategoryController.categoryService.deleteCategory(id, tenantId || null);
+            if (!deleted) {
+                CategoryController.sendNotFound(res);
+                return;
+            }
+            await CategoryController.invalidateItemLists();
+
+            res.status(200).json({
+                success: true,
+                message: 'Category deleted successfully',
+                timestamp: new Date()
+            });
+        } catch (error) {
+            logger.error('Error deleting category:', error);
+            throw error;
+        }
+    }
+
+    private static async invalidateItemLists(): Promise<void> {
+        await CategoryController.redisService.deletePattern('items:list:*');
+        await CategoryController.redisService.deletePattern('items:customer:*');
+    }
+
+    private static sendNotFound(res: Response): void {
+        res.status(404).json({
+            success: false,
+            message: 'Category not found',
+            timestamp: new Date()
+        });
+    }
+
+    private static sendValidationError(res: Response, error: Joi.ValidationError): void {
+        const response: ApiResponse = {
+            success: false,
+            message: 'Validation failed',
+            errors: error.details.map(detail => detail.message),
+            timestamp: new Date()
+        };
+        res.status(400).json(response);
+    }
+}
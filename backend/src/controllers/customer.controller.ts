@@ -3,14 +3,17 @@ import { Request, Response } from 'express';
 import { KafkaService } from '../kafka';
 import { RedisService } from '../cache/redies.service';
 import { DatabaseService } from '../Engine/Services/database.service';
+import { OperationService } from '../Engine/Services/operation.service';
 import { logger } from '../utils/logger';
+import { sendWriteResponse } from '../utils/syncWrite';
 import { v4 as uuidv4 } from 'uuid';
-import { CreateCustomerRequest } from '../types';
+import { CreateCustomerRequest, EventValidationError } from '../types';
 
 export class CustomerController {
     private static kafkaService = KafkaService.getInstance();
     private static redisService = RedisService.getInstance();
     private static databaseService = new DatabaseService();
+    private static operationService = OperationService.getInstance();
 
     // WRITE OPERATIONS (Async via Kafka)
     public static async createCustomer(req: Request, res: Response): Promise<void> {
@@ -29,6 +32,8 @@ export class CustomerController {
                 return;
             }
 
+            await CustomerController.operationService.recordAccepted(correlationId, 'CUSTOMER_CREATE_REQUESTED', 'CUSTOMER', customerId);
+
             // Publish to Kafka for async processing
             await CustomerController.kafkaService.publishCustomerEvent('CUSTOMER_CREATE_REQUESTED', {
                 id: customerId,
@@ -39,18 +44,22 @@ export class CustomerController {
                 tenantId: req.headers['x-tenant-id']
             });
 
-            res.status(202).json({
+            await sendWriteResponse(req, res, correlationId, {
                 success: true,
                 data: {
                     id: customerId,
-                    correlationId
+                    correlationId,
+                    statusUrl: `/api/operations/${correlationId}`
                 },
                 message: 'Customer creation initiated. You will receive real-time updates.',
                 timestamp: new Date()
-            });
+            }, 201);
 
         } catch (error) {
             logger.error('Error creating customer:', error);
+            if (error instanceof EventValidationError) {
+                throw error;
+            }
             res.status(500).json({
                 success: false,
                 message: 'Failed to initiate customer creation',
@@ -65,6 +74,8 @@ export class CustomerController {
             const updateData = req.body;
             const correlationId = req.headers['x-correlation-id'] as string || uuidv4();
 
+            await CustomerController.operationService.recordAccepted(correlationId, 'CUSTOMER_UPDATE_REQUESTED', 'CUSTOMER', customerId);
+
             // Publish to Kafka for async processing
             await CustomerController.kafkaService.publishCustomerEvent('CUSTOMER_UPDATE_REQUESTED', {
                 id: customerId,
@@ -75,18 +86,22 @@ export class CustomerController {
                 tenantId: req.headers['x-tenant-id']
             });
 
-            res.status(202).json({
+            await sendWriteResponse(req, res, correlationId, {
                 success: true,
                 data: {
                     id: customerId,
-                    correlationId
+                    correlationId,
+                    statusUrl: `/api/operations/${correlationId}`
                 },
                 message: 'Customer update initiated. You will receive real-time updates.',
                 timestamp: new Date()
-            });
+            }, 200);
 
         } catch (error) {
             logger.error('Error updating customer:', error);
+            if (error instanceof EventValidationError) {
+                throw error;
+            }
             res.status(500).json({
                 success: false,
                 message: 'Failed to initiate customer update',
@@ -100,6 +115,8 @@ export class CustomerController {
             const customerId = req.params.id as string;
             const correlationId = req.headers['x-correlation-id'] as string || uuidv4();
 
+            await CustomerController.operationService.recordAccepted(correlationId, 'CUSTOMER_DELETE_REQUESTED', 'CUSTOMER', customerId);
+
             // Publish to Kafka for async processing
             await CustomerController.kafkaService.publishCustomerEvent('CUSTOMER_DELETE_REQUESTED', {
                 id: customerId
@@ -109,18 +126,22 @@ export class CustomerController {
                 tenantId: req.headers['x-tenant-id']
             });
 
-            res.status(202).json({
+            await sendWriteResponse(req, res, correlationId, {
                 success: true,
                 data: {
                     id: customerId,
-                    correlationId
+                    correlationId,
+                    statusUrl: `/api/operations/${correlationId}`
                 },
                 message: 'Customer deletion initiated. You will receive real-time updates.',
                 timestamp: new Date()
-            });
+            }, 200);
 
         } catch (error) {
             logger.error('Error deleting customer:', error);
+            if (error instanceof EventValidationError) {
+                throw error;
+            }
             res.status(500).json({
                 success: false,
                 message: 'Failed to initiate customer deletion',
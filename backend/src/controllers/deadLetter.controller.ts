@@ -0,0 +1,146 @@
+// src/controllers/deadLetter.controller.ts
+import { Request, Response } from 'express';
+import { DatabaseService } from '../Engine/Services/database.service';
+import { DeadLetterService } from '../Engine/Services/deadLetter.service';
+import { logger } from '../utils/logger';
+import { ConflictError, DeadLetterStatus } from '../types';
+
+const DEAD_LETTER_STATUSES: DeadLetterStatus[] = ['PENDING', 'REQUEUED', 'DISCARDED'];
+
+export class DeadLetterController {
+    private static databaseService = new DatabaseService();
+    private static deadLetterService = new DeadLetterService(DeadLetterController.databaseService);
+
+    private static async ensureConnected(): Promise<void> {
+        if (!DeadLetterController.databaseService.isConnected()) {
+            await DeadLetterController.databaseService.connect();
+        }
+    }
+
+    public static async getDeadLetters(req: Request, res: Response): Promise<void> {
+        try {
+            const page = parseInt(req.query.page as string) || 1;
+            const limit = parseInt(req.query.limit as string) || 20;
+            const status = req.query.status as DeadLetterStatus | undefined;
+
+            if (status && !DEAD_LETTER_STATUSES.includes(status)) {
+                res.status(400).json({
+                    success: false,
+                    message: `Status must be one of ${DEAD_LETTER_STATUSES.join(', ')}`,
+                    timestamp: new Date()
+                });
+                return;
+            }
+
+            await DeadLetterController.ensureConnected();
+
+            const result = await DeadLetterController.deadLetterService.getDeadLetters(page, limit, status);
+            const totalPages = Math.ceil(result.total / limit);
+
+            res.status(200).json({
+                success: true,
+                data: result.deadLetters,
+                message: 'Dead-lettered events retrieved successfully',
+                pagination: {
+                    page,
+                    limit,
+                    total: result.total,
+                    totalPages,
+                    hasNext: page < totalPages,
+                    hasPrevious: page > 1
+                },
+                timestamp: new Date()
+            });
+
+        } catch (error) {
+            logger.error('Error getting dead-lettered events:', error);
+            res.status(500).json({
+                success: false,
+                message: 'Failed to retrieve dead-lettered events',
+                timestamp: new Date()
+            });
+        }
+    }
+
+    public static async getDeadLetterById(req: Request, res: Response): Promise<void> {
+        try {
+            const id = req.params.id as string;
+
+            await DeadLetterController.ensureConnected();
+
+            const deadLetter = await DeadLetterController.deadLetterService.getDeadLetterById(id);
+
+            if (!deadLetter) {
+                res.status(404).json({
+                    success: false,
+                    message: 'Dead-lettered event not found',
+                    timestamp: new Date()
+                });
+                return;
+            }
+
+            res.status(200).json({
+                success: true,
+                data: deadLetter,
+                message: 'Dead-lettered event retrieved successfully',
+                timestamp: new Date()
+            });
+
+        } catch (error) {
+            logger.error('Error getting dead-lettered event:', error);
+            res.status(500).json({
+                success: false,
+                message: 'Failed to retrieve dead-lettered event',
+                timestamp: new Date()
+            });
+        }
+    }
+
+    public static async requeueDeadLetter(req: Request, res: Response): Promise<void> {
+        await DeadLetterController.resolveDeadLetter(req, res, 'REQUEUED');
+    }
+
+    public static async discardDeadLetter(req: Request, res: Response): Promise<void> {
+        await DeadLetterController.resolveDeadLetter(req, res, 'DISCARDED');
+    }
+
+    private static async resolveDeadLetter(req: Request, res: Response, status: 'REQUEUED' | 'DISCARDED'): Promise<void> {
+        try {
+            const id = req.params.id as string;
+            const userId = req.headers['x-user-id'] as string | undefined;
+
+            await DeadLetterController.ensureConnected();
+
+            const deadLetter = status === 'REQUEUED'
+                ? await DeadLetterController.deadLetterService.requeue(id, userId)
+                : await DeadLetterController.deadLetterService.discard(id, userId);
+
+            if (!deadLetter) {
+                res.status(404).json({
+                    success: false,
+                    message: 'Dead-lettered event not found',
+                    timestamp: new Date()
+                });
+                return;
+            }
+
+            res.status(200).json({
+                success: true,
+                data: deadLetter,
+                message: status === 'REQUEUED'
+                    ? 'Dead-lettered event requeued to its source topic'
+                    : 'Dead-lettered event discarded',
+                timestamp: new Date()
+            });
+
+        } catch (error) {
+            logger.error(`Error resolving dead-lettered event as ${status}:`, error);
+            const message = error instanceof Error ? error.message : 'Failed to resolve dead-lettered event';
+            res.status(error instanceof ConflictError ? 409 : 500).json({
+                success: false,
+                message,
+                timestamp: new Date()
+            });
+        }
+    }
+}
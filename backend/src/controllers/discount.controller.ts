@@ -0,0 +1,208 @@
+// src/controllers/discount.controller.ts
+import { Request, Response } from 'express';
+import Joi from 'joi';
+import { DatabaseService } from '../Engine/Services/database.service';
+import { DiscountService } from '../Engine/Services/discount.service';
+import { logger } from '../utils/logger';
+import { ApiResponse, DiscountType } from '../types';
+
+const discountFields = {
+    code: Joi.string().max(50).pattern(/^[A-Za-z0-9_-]+$/),
+    description: Joi.string().max(500).allow('', null),
+    discountType: Joi.string().valid(...Object.values(DiscountType)),
+    discountValue: Joi.number().min(0).precision(2),
+    validFrom: Joi.date().iso().allow(null),
+    validUntil: Joi.date().iso().allow(null),
+    usageLimit: Joi.number().integer().min(1).allow(null),
+    perCustomerLimit: Joi.number().integer().min(1).allow(null),
+    minOrderValue: Joi.number().min(0).precision(2),
+    eligibleCustomerIds: Joi.array().items(Joi.string().uuid()).unique(),
+    isActive: Joi.boolean()
+};
+
+const createDiscountCodeSchema = Joi.object({
+    ...discountFields,
+    code: discountFields.code.required(),
+    discountType: discountFields.discountType.required(),
+    discountValue: discountFields.discountValue.when('discountType', {
+        is: Joi.valid(DiscountType.PERCENTAGE, DiscountType.FIXED_AMOUNT),
+        then: Joi.required()
+    }),
+    validUntil: discountFields.validUntil.when('validFrom', {
+        is: Joi.date().required(),
+        then: Joi.date().greater(Joi.ref('validFrom'))
+    })
+});
+
+const updateDiscountCodeSchema = Joi.object(discountFields).min(1);
+
+const tenantSchema = Joi.string().uuid().optional();
+
+/**
+ * Discount codes of the tenant named in x-tenant-id. Applied synchronously, like
+ * categories: codes are reference data; orders pick them up when they are created.
+ */
+export class DiscountController {
+    private static databaseService = new DatabaseService();
+    private static discountService = new DiscountService(DiscountController.databaseService);
+
+    private static async ensureConnected(): Promise<void> {
+        if (!DiscountController.databaseService.isConnected()) {
+            await DiscountController.databaseService.connect();
+        }
+    }
+
+    public static async getDiscountCodes(req: Request, res: Response): Promise<void> {
+        try {
+            const { error, value: tenantId } = tenantSchema.validate(req.headers['x-tenant-id']);
+            if (error) {
+                DiscountController.sendValidationError(res, error);
+                return;
+            }
+
+            await DiscountController.ensureConnected();
+
+            const discountCodes = await DiscountController.discountService.getDiscountCodes(tenantId || null);
+
+            res.status(200).json({
+                success: true,
+                data: discountCodes,
+                message: 'Discount codes retrieved successfully',
+                timestamp: new Date()
+            });
+        } catch (error) {
+            logger.error('Error getting discount codes:', error);
+            throw error;
+        }
+    }
+
+    public static async getDiscountCodeById(req: Request, res: Response): Promise<void> {
+        try {
+            const { error: idError, value: id } = Joi.string().uuid().validate(req.params.id);
+            const { error, value: tenantId } = tenantSchema.validate(req.headers['x-tenant-id']);
+            if (idError || error) {
+                DiscountController.sendValidationError(res, (idError || error)!);
+                return;
+            }
+
+            await DiscountController.ensureConnected();
+
+            const discountCode = await DiscountController.discountService.getDiscountCodeById(id, tenantId || null);
+            if (!discountCode) {
+                DiscountController.sendNotFound(res);
+                return;
+            }
+
+            res.status(200).json({
+                success: true,
+                data: discountCode,
+                message: 'Discount code retrieved successfully',
+                timestamp: new Date()
+            });
+        } catch (error) {
+            logger.error('Error getting discount code:', error);
+            throw error;
+        }
+    }
+
+    public static async createDiscountCode(req: Request, res: Response): Promise<void> {
+        try {
+            const { error: tenantError, value: tenantId } = tenantSchema.validate(req.headers['x-tenant-id']);
+            const { error, value } = createDiscountCodeSchema.validate(req.body);
+            if (tenantError || error) {
+                DiscountController.sendValidationError(res, (tenantError || error)!);
+                return;
+            }
+
+            await DiscountController.ensureConnected();
+
+            const discountCode = await DiscountController.discountService.createDiscountCode(value, tenantId || null);
+
+            res.status(201).json({
+                success: true,
+                data: discountCode,
+                message: 'Discount code created successfully',
+                timestamp: new Date()
+            });
+        } catch (error) {
+            logger.error('Error creating discount code:', error);
+            throw error;
+        }
+    }
+
+    public static async updateDiscountCode(req: Request, res: Response): Promise<void> {
+        try {
+            const { error: idError, value: id } = Joi.string().uuid().validate(req.params.id);
+            const { error: tenantError, value: tenantId } = tenantSchema.validate(req.headers['x-tenant-id']);
+            const { error, value } = updateDiscountCodeSchema.validate(req.body);
+            if (idError || tenantError || error) {
+                DiscountController.sendValidationError(res, (idError || tenantError || error)!);
+                return;
+            }
+
+            await DiscountController.ensureConnected();
+
+            const discountCode = await DiscountController.discountService.updateDiscountCode(id, value, tenantId || null);
+            if (!discountCode) {
+                DiscountController.sendNotFound(res);
+                return;
+            }
+
+            res.status(200).json({
+                success: true,
+                data: discountCode,
+                message: 'Discount code updated successfully',
+                timestamp: new Date()
+            });
+        } catch (error) {
+            logger.error('Error updating discount code:', error);
+            throw error;
+        }
+    }
+
+    public static async deleteDiscountCode(req: Request, res: Response): Promise<void> {
+        try {
+            const { error: idError, value: id } = Joi.string().uuid().validate(req.params.id);
+            const { error, value: tenantId } = tenantSchema.validate(req.headers['x-tenant-id']);
+            if (idError || error) {
+                DiscountController.sendValidationError(res, (idError || error)!);
+                return;
+            }
+
+            await DiscountController.ensureConnected();
+
+            const deleted = await DiscountController.discountService.deleteDiscountCode(id, tenantId || null);
+            if (!deleted) {
+                DiscountController.sendNotFound(res);
+                return;
+            }
+
+            res.status(200).json({
+                success: true,
+                message: 'Discount code deleted successfully',
+                timestamp: new Date()
+            });
+        } catch (error) {
+            logger.error('Error deleting discount code:', error);
+            throw error;
+        }
+    }
+
+    private static sendNotFound(res: Response): void {
+        res.status(404).json({
+            success: false,
+            message: 'Discount code not found',
+            timestamp: new Date()
+        });
+    }
+
+    private static sendValidationError(res: Response, error: Joi.ValidationError): void {
+        const response: ApiResponse = {
+            success: false,
+            message: 'Validation failed',
+            errors: error.details.map(detail => detail.message),
+            timestamp: new Date()
+        };
+        res.status(400).json(response);
+    }
+}
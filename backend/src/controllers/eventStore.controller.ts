@@ -0,0 +1,62 @@
+// src/controllers/eventStore.controller.ts
+import { Request, Response } from 'express';
+import { DatabaseService } from '../Engine/Services/database.service';
+import { EventStoreService } from '../Engine/Services/eventStore.service';
+import { logger } from '../utils/logger';
+import { AggregateType, ReferenceType } from '../types';
+
+const AGGREGATE_TYPES: (AggregateType | ReferenceType)[] = [
+    'CUSTOMER', 'ITEM', 'ORDER', 'WAREHOUSE', 'CATEGORY', 'DISCOUNT_CODE', 'TAX_RULE', 'SHIPPING_RATE'
+];
+
+export class EventStoreController {
+    private static databaseService = new DatabaseService();
+    private static eventStoreService = new EventStoreService(EventStoreController.databaseService);
+
+    // Full event history of one aggregate, oldest version first
+    public static async getAggregateEvents(req: Request, res: Response): Promise<void> {
+        try {
+            const aggregateType = (req.params.aggregateType as string).toUpperCase() as AggregateType | ReferenceType;
+            const aggregateId = req.params.aggregateId as string;
+
+            if (!AGGREGATE_TYPES.includes(aggregateType)) {
+                res.status(400).json({
+                    success: false,
+                    message: `Aggregate type must be one of ${AGGREGATE_TYPES.join(', ')}`,
+                    timestamp: new Date()
+                });
+                return;
+            }
+
+            if (!EventStoreController.databaseService.isConnected()) {
+                await EventStoreController.databaseService.connect();
+            }
+
+            const events = await EventStoreController.eventStoreService.getAggregateEvents(aggregateType, aggregateId);
+
+            if (events.length === 0) {
+                res.status(404).json({
+                    success: false,
+                    message: 'No events found for aggregate',
+                    timestamp: new Date()
+                });
+                return;
+            }
+
+            res.status(200).json({
+                success: true,
+                data: events,
+                message: 'Aggregate events retrieved successfully',
+                timestamp: new Date()
+            });
+
+        } catch (error) {
+            logger.error('Error getting aggregate events:', error);
+            res.status(500).json({
+                success: false,
+                message: 'Failed to retrieve aggregate events',
+                timestamp: new Date()
+            });
+        }
+    }
+}
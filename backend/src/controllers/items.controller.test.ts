@@ -0,0 +1,72 @@
+// src/controllers/items.controller.test.ts
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { itemController } from './items.controller';
+import { FakeDatabase } from '../testing/fakeDatabase';
+
+const CUSTOMER_ID = '0c000000-0000-4000-8000-000000000001';
+const OTHER_CUSTOMER_ID = '0c000000-0000-4000-8000-000000000002';
+const MISSING_CUSTOMER_ID = '0c000000-0000-4000-8000-000000000009';
+
+// Customers that exist, with every lookup counted
+function setup(customerIds: string[]) {
+    const lookups: string[] = [];
+    const database = new FakeDatabase();
+    Object.assign(database, {
+        getCustomerById: async (id: string) => {
+            lookups.push(id);
+            return customerIds.includes(id) ? { id } : null;
+        }
+    });
+    itemController['databaseService'] = database.asService();
+    return { lookups, validate: itemController['validateImportRows'].bind(itemController) };
+}
+
+describe('itemController.validateImportRows', () => {
+    const columns = ['customerId', 'name', 'price', 'quantity', 'sku'];
+
+    it('converts valid rows, leaving blank cells out and filling in the default customer', async () => {
+        const { validate } = setup([CUSTOMER_ID]);
+
+        const { valid, errors } = await validate(columns, [
+            ['', ' Widget ', '9.99', '5', 'W-1'],
+            [CUSTOMER_ID, 'Gadget', '5', '0', '']
+        ], CUSTOMER_ID);
+
+        assert.deepEqual(errors, []);
+        assert.deepEqual(valid, [
+            { row: 1, value: { customerId: CUSTOMER_ID, name: 'Widget', price: 9.99, quantity: 5, sku: 'W-1' } },
+            { row: 2, value: { customerId: CUSTOMER_ID, name: 'Gadget', price: 5, quantity: 0 } }
+        ]);
+    });
+
+    it('reports every problem of a row against its 1-based data row number', async () => {
+        const { validate } = setup([CUSTOMER_ID]);
+
+        const { valid, errors } = await validate(columns, [
+            [CUSTOMER_ID, 'Widget', '9.99', '5', 'W-1'],
+            [CUSTOMER_ID, 'W', '-1', '5'],
+            [CUSTOMER_ID, 'W', '-1', 'many', 'W 2'],
+            [MISSING_CUSTOMER_ID, 'Gadget', '5', '1', 'G-1'],
+            [CUSTOMER_ID, 'Widget again', '9.99', '5', 'W-1']
+        ], undefined);
+
+        assert.deepEqual(valid.map(({ row }) => row), [1]);
+        assert.deepEqual(errors.map(({ row, errors }) => [row, errors.length]), [[2, 1], [3, 4], [4, 1], [5, 1]]);
+        assert.deepEqual(errors[0]?.errors, ['Expected 5 columns, got 4']);
+        assert.deepEqual(errors[2]?.errors, [`Customer with ID ${MISSING_CUSTOMER_ID} not found`]);
+        assert.deepEqual(errors[3]?.errors, ['SKU W-1 is already used by row 1']);
+    });
+
+    it('looks each customer up once', async () => {
+        const { lookups, validate } = setup([CUSTOMER_ID, OTHER_CUSTOMER_ID]);
+
+        await validate(columns, [
+            [CUSTOMER_ID, 'Widget', '9.99', '5', ''],
+            [OTHER_CUSTOMER_ID, 'Gadget', '5', '1', ''],
+            [CUSTOMER_ID, 'Gizmo', '1', '1', '']
+        ], undefined);
+
+        assert.deepEqual(lookups, [CUSTOMER_ID, OTHER_CUSTOMER_ID]);
+    });
+});
@@ -3,8 +3,26 @@ import { Request, Response } from 'express';
 import { RedisService } from '../cache/redies.service';
 import { DatabaseService } from '../Engine/Services/database.service';
 import { ItemService } from '../Engine/Services/item.service';
+import { OperationService } from '../Engine/Services/operation.service';
 import { logger } from '../utils/logger';
-import { ApiResponse, CreateCustomerItemRequest, UpdateCustomerItemRequest, CustomerItem } from '../types';
+import { sendWriteResponse } from '../utils/syncWrite';
+import { formatCsv, parseCsv } from '../utils/csv';
+import { config } from '../config/config';
+import {
+    ApiResponse,
+    CategoryFacet,
+    CreateCustomerItemRequest,
+    CreateItemVariantRequest,
+    UpdateCustomerItemRequest,
+    CustomerItem,
+    ImportJob,
+    ImportJobRow,
+    ImportRowError,
+    ItemAttributes,
+    OperationStatus,
+    PaginatedResponse,
+    StockMovement
+} from '../types';
 import { v4 as uuidv4 } from 'uuid';
 import Joi from 'joi';
 import { KafkaService } from '../kafka';
@@ -17,7 +35,12 @@ const createCustomerItemSchema = Joi.object({
     description: Joi.string().max(1000).optional(),
     price: Joi.number().positive().precision(2).required(),
     quantity: Joi.number().integer().min(0).required(),
-    category: Joi.string().max(100).optional()
+    category: Joi.string().max(100).optional(),
+    minStockLevel: Joi.number().integer().min(0).optional(),
+    weight: Joi.number().min(0).precision(3).optional(),
+    sku: Joi.string().max(100).pattern(/^[A-Za-z0-9._-]+$/).optional(),
+    warehouseId: Joi.string().uuid().optional(),
+    categoryId: Joi.string().uuid().optional()
 });
 
 const updateCustomerItemSchema = Joi.object({
@@ -25,14 +48,76 @@ const updateCustomerItemSchema = Joi.object({
     description: Joi.string().max(1000).optional(),
     price: Joi.number().positive().precision(2).optional(),
     quantity: Joi.number().integer().min(0).optional(),
-    category: Joi.string().max(100).optional()
+    category: Joi.string().max(100).optional(),
+    minStockLevel: Joi.number().integer().min(0).optional(),
+    weight: Joi.number().min(0).precision(3).allow(null).optional(),
+    sku: Joi.string().max(100).pattern(/^[A-Za-z0-9._-]+$/).allow(null).optional(),
+    categoryId: Joi.string().uuid().allow(null).optional(),
+    attributes: Joi.object().pattern(Joi.string().max(50), Joi.string().max(100)).min(1).optional(),
+    priceOverride: Joi.number().positive().precision(2).allow(null).optional()
 }).min(1);
 
+const createItemVariantSchema = Joi.object({
+    attributes: Joi.object().pattern(Joi.string().max(50), Joi.string().max(100)).min(1).required(),
+    quantity: Joi.number().integer().min(0).required(),
+    price: Joi.number().positive().precision(2).optional(),
+    name: Joi.string().min(2).max(200).optional(),
+    sku: Joi.string().max(100).pattern(/^[A-Za-z0-9._-]+$/).optional(),
+    minStockLevel: Joi.number().integer().min(0).optional(),
+    weight: Joi.number().min(0).precision(3).optional(),
+    warehouseId: Joi.string().uuid().optional()
+});
+
+// ?attributes=size:M,colour:red
+const attributeFilterSchema = Joi.string().pattern(/^[^:,]+:[^:,]+(,[^:,]+:[^:,]+)*$/).optional();
+
+const listFilterSchema = Joi.object({
+    attributes: attributeFilterSchema,
+    categoryId: Joi.string().uuid().optional()
+}).unknown(true);
+
+const schedulePriceSchema = Joi.object({
+    price: Joi.number().positive().precision(2).required(),
+    effectiveFrom: Joi.date().iso().greater('now').required()
+});
+
+const priceQuerySchema = Joi.object({
+    id: Joi.string().uuid().required(),
+    at: Joi.date().iso()
+});
+
+// Columns of the bulk import/export CSV, as named in its header row
+const ITEM_CSV_COLUMNS: Array<keyof CreateCustomerItemRequest> = [
+    'customerId', 'name', 'description', 'price', 'quantity',
+    'category', 'categoryId', 'minStockLevel', 'weight', 'sku', 'warehouseId'
+];
+
+const importQuerySchema = Joi.object({
+    customerId: Joi.string().uuid().optional(), // For files without a customerId column
+    dryRun: Joi.boolean().default(false)
+}).unknown(true);
+
+type ItemListResult = { items: CustomerItem[]; total: number; facets?: { categories: CategoryFacet[] } };
+
+const lowStockQuerySchema = Joi.object({
+    customerId: Joi.string().uuid().optional(),
+    page: Joi.number().integer().min(1).default(1),
+    limit: Joi.number().integer().min(1).max(100).default(20)
+});
+
+const stockQuerySchema = Joi.object({
+    id: Joi.string().uuid().required(),
+    page: Joi.number().integer().min(1).default(1),
+    limit: Joi.number().integer().min(1).max(100).default(20),
+    asOf: Joi.date().iso()
+});
+
 export class itemController {
     // Add Redis service instance
     private static redisService = RedisService.getInstance();
     private static databaseService = new DatabaseService();
     private static itemService = new ItemService(itemController.databaseService);
+    private static operationService = OperationService.getInstance();
 
     public static async createCustomerItem(req: Request, res: Response): Promise<void> {
         try {
@@ -50,6 +135,7 @@ export class itemController {
 
             const itemData: CreateCustomerItemRequest = value;
             const itemId = uuidv4();
+            const correlationId = req.headers['x-correlation-id'] as string || uuidv4();
 
             const itemWithId = {
                 id: itemId,
@@ -58,11 +144,13 @@ export class itemController {
                 updatedAt: new Date()
             };
 
+            await itemController.operationService.recordAccepted(correlationId, 'ITEM_CREATE_REQUESTED', 'ITEM', itemId);
+
             await kafkaService.publishCustomerItemEvent(
-                'ITEM_CREATED',
+                'ITEM_CREATE_REQUESTED',
                 itemWithId,
                 {
-                    correlationId: uuidv4(),
+                    correlationId,
                     userId: req.headers['x-user-id'] as string,
                     tenantId: req.headers['x-tenant-id'] as string
                 }
@@ -79,13 +167,15 @@ export class itemController {
                 data: {
                     id: itemId,
                     customerId: itemData.customerId,
+                    correlationId,
+                    statusUrl: `/api/operations/${correlationId}`,
                     message: 'Customer item creation initiated'
                 },
                 message: 'Customer item will be created shortly',
                 timestamp: new Date()
             };
 
-            res.status(202).json(response);
+            await sendWriteResponse(req, res, correlationId, response, 201);
         } catch (error) {
             logger.error('Error in createCustomerItem:', error);
             throw error;
@@ -102,6 +192,20 @@ export class itemController {
             const category = req.query.category as string || '';
             const search = req.query.search as string || '';
 
+            const { error: filterError, value: filters } = listFilterSchema.validate(req.query);
+            if (filterError) {
+                const response: ApiResponse = {
+                    success: false,
+                    message: 'Validation failed',
+                    errors: filterError.details.map(detail => detail.message),
+                    timestamp: new Date()
+                };
+                res.status(400).json(response);
+                return;
+            }
+            const attributes = itemController.parseAttributeFilter(filters.attributes);
+            const categoryId: string | undefined = filters.categoryId;
+
             if (!customerId) {
                 const response: ApiResponse = {
                     success: false,
@@ -112,11 +216,11 @@ export class itemController {
                 return;
             }
 
-            let result: { items: CustomerItem[]; total: number } | null = null;
+            let result: ItemListResult | null = null;
             let cacheHit = false;
 
-            // Step 1: Check Redis cache first
-            result = await itemController.redisService.getCachedCustomerItemsList(
+            // Step 1: Check Redis cache first (lists filtered by variant attributes or category tree are not cached)
+            result = attributes || categoryId ? null : await itemController.redisService.getCachedCustomerItemsList(
                 customerId, page, limit, category, search
             );
 
@@ -138,7 +242,8 @@ export class itemController {
                         total: result.total,
                         page,
                         limit,
-                        totalPages: Math.ceil(result.total / limit)
+                        totalPages: Math.ceil(result.total / limit),
+                        facets: result.facets
                     },
                     message: 'Customer items retrieved successfully from cache',
                     timestamp: new Date(),
@@ -162,15 +267,17 @@ export class itemController {
 
             // Get data from database directly for immediate response
             result = await itemController.itemService.getCustomerItems(
-                customerId, page, limit, category, search
+                customerId, page, limit, category, search, attributes, categoryId
             );
 
             if (result) {
                 // Step 3: Update cache for future requests
-                await itemController.redisService.cacheCustomerItemsList(
-                    customerId, page, limit, category, search, result
-                );
-                logger.debug(`Cached customer items list after DB fetch`);
+                if (!attributes && !categoryId) {
+                    await itemController.redisService.cacheCustomerItemsList(
+                        customerId, page, limit, category, search, result
+                    );
+                    logger.debug(`Cached customer items list after DB fetch`);
+                }
 
                 const responseTime = Date.now() - startTime;
 
@@ -181,7 +288,8 @@ export class itemController {
                         total: result.total,
                         page,
                         limit,
-                        totalPages: Math.ceil(result.total / limit)
+                        totalPages: Math.ceil(result.total / limit),
+                        facets: result.facets
                     },
                     message: 'Customer items retrieved successfully from database',
                     timestamp: new Date(),
@@ -275,12 +383,26 @@ export class itemController {
             const search = req.query.search as string | undefined || '';
             const customerId = req.query.customerId as string | undefined || '';
 
-            let result: { items: CustomerItem[]; total: number } | null = null;
+            const { error: filterError, value: filters } = listFilterSchema.validate(req.query);
+            if (filterError) {
+                const response: ApiResponse = {
+                    success: false,
+                    message: 'Validation failed',
+                    errors: filterError.details.map(detail => detail.message),
+                    timestamp: new Date()
+                };
+                res.status(400).json(response);
+                return;
+            }
+            const attributes = itemController.parseAttributeFilter(filters.attributes);
+            const categoryId: string | undefined = filters.categoryId;
+
+            let result: ItemListResult | null = null;
             let cacheHit = false;
 
-            // Step 1: Check Redis cache first
+            // Step 1: Check Redis cache first (lists filtered by variant attributes or category tree are not cached)
             const cacheKey = itemController.getItemsListCacheKey(page, limit, category, search, customerId);
-            result = await itemController.redisService.get<{ items: CustomerItem[]; total: number }>(cacheKey);
+            result = attributes || categoryId ? null : await itemController.redisService.get<ItemListResult>(cacheKey);
 
             
             if (result) {
@@ -301,7 +423,8 @@ export class itemController {
                         page, 
                         limit,
                         totalPages: Math.ceil(result.total / limit),
-                        filters: { category, search, customerId }
+                        facets: result.facets,
+                        filters: { category, categoryId, search, customerId, attributes }
                     },
                     message: 'Items retrieved successfully from cache',
                     timestamp: new Date(),
@@ -325,17 +448,19 @@ export class itemController {
 
             // Get data from database directly for immediate response
             result = await itemController.itemService.getAllItems(
-                page, limit, category, search, customerId
+                page, limit, category, search, customerId, attributes, categoryId
             );
 
             if (result) {
                 // Step 3: Update cache for future requests
-                await itemController.redisService.set(
-                    cacheKey,
-                    result,
-                    itemController.redisService.getTTL('itemList')
-                );
-                logger.debug(`Cached all items list after DB fetch`);
+                if (!attributes && !categoryId) {
+                    await itemController.redisService.set(
+                        cacheKey,
+                        result,
+                        itemController.redisService.getTTL('itemList')
+                    );
+                    logger.debug(`Cached all items list after DB fetch`);
+                }
 
                 const responseTime = Date.now() - startTime;
 
@@ -347,7 +472,8 @@ export class itemController {
                         page,
                         limit,
                         totalPages: Math.ceil(result.total / limit),
-                        filters: { category, search, customerId }
+                        facets: result.facets,
+                        filters: { category, categoryId, search, customerId, attributes }
                     },
                     message: 'Items retrieved successfully from database',
                     timestamp: new Date(),
@@ -597,16 +723,19 @@ export class itemController {
             }
 
             const updateData: UpdateCustomerItemRequest = value;
+            const correlationId = req.headers['x-correlation-id'] as string || uuidv4();
+
+            await itemController.operationService.recordAccepted(correlationId, 'ITEM_UPDATE_REQUESTED', 'ITEM', itemId);
 
             await kafkaService.publishCustomerItemEvent(
-                'ITEM_UPDATED',
+                'ITEM_UPDATE_REQUESTED',
                 {
                     id: itemId,
                     ...updateData,
                     updatedAt: new Date()
                 },
                 {
-                    correlationId: uuidv4(),
+                    correlationId,
                     userId: req.headers['x-user-id'] as string,
                     tenantId: req.headers['x-tenant-id'] as string
                 }
@@ -621,13 +750,15 @@ export class itemController {
                 success: true,
                 data: {
                     id: itemId,
+                    correlationId,
+                    statusUrl: `/api/operations/${correlationId}`,
                     message: 'Customer item update initiated'
                 },
                 message: 'Customer item will be updated shortly',
                 timestamp: new Date()
             };
 
-            res.status(202).json(response);
+            await sendWriteResponse(req, res, correlationId, response, 200);
         } catch (error) {
             logger.error('Error in updateCustomerItem:', error);
             throw error;
@@ -648,14 +779,18 @@ export class itemController {
                 return;
             }
 
+            const correlationId = req.headers['x-correlation-id'] as string || uuidv4();
+
+            await itemController.operationService.recordAccepted(correlationId, 'ITEM_DELETE_REQUESTED', 'ITEM', itemId);
+
             await kafkaService.publishCustomerItemEvent(
-                'ITEM_DELETED',
+                'ITEM_DELETE_REQUESTED',
                 {
                     id: itemId,
                     deletedAt: new Date()
                 },
                 {
-                    correlationId: uuidv4(),
+                    correlationId,
                     userId: req.headers['x-user-id'] as string,
                     tenantId: req.headers['x-tenant-id'] as string
                 }
@@ -670,13 +805,15 @@ export class itemController {
                 success: true,
                 data: {
                     id: itemId,
+                    correlationId,
+                    statusUrl: `/api/operations/${correlationId}`,
                     message: 'Customer item deletion initiated'
                 },
                 message: 'Customer item will be deleted shortly',
                 timestamp: new Date()
             };
 
-            res.status(202).json(response);
+            await sendWriteResponse(req, res, correlationId, response, 200);
         } catch (error) {
             logger.error('Error in deleteCustomerItem:', error);
             throw error;
@@ -686,7 +823,7 @@ export class itemController {
     public static async updateItemQuantity(req: Request, res: Response): Promise<void> {
         try {
             const itemId = req.params.id;
-            const { quantity, operation } = req.body;
+            const { quantity, operation, warehouseId } = req.body;
 
             if (!itemId) {
                 const response: ApiResponse = {
@@ -700,10 +837,11 @@ export class itemController {
 
             const quantitySchema = Joi.object({
                 quantity: Joi.number().integer().min(0).required(),
-                operation: Joi.string().valid('set', 'add', 'subtract').default('set')
+                operation: Joi.string().valid('set', 'add', 'subtract').default('set'),
+                warehouseId: Joi.string().uuid().optional()
             });
 
-            const { error, value } = quantitySchema.validate({ quantity, operation });
+            const { error, value } = quantitySchema.validate({ quantity, operation, warehouseId });
             if (error) {
                 const response: ApiResponse = {
                     success: false,
@@ -715,16 +853,21 @@ export class itemController {
                 return;
             }
 
+            const correlationId = req.headers['x-correlation-id'] as string || uuidv4();
+
+            await itemController.operationService.recordAccepted(correlationId, 'ITEM_QUANTITY_UPDATE_REQUESTED', 'ITEM', itemId);
+
             await kafkaService.publishCustomerItemEvent(
-                'ITEM_QUANTITY_UPDATED',
+                'ITEM_QUANTITY_UPDATE_REQUESTED',
                 {
                     id: itemId,
                     quantity: value.quantity,
                     operation: value.operation,
+                    warehouseId: value.warehouseId || null,
                     updatedAt: new Date()
                 },
                 {
-                    correlationId: uuidv4(),
+                    correlationId,
                     userId: req.headers['x-user-id'] as string,
                     tenantId: req.headers['x-tenant-id'] as string
                 }
@@ -741,19 +884,613 @@ export class itemController {
                     id: itemId,
                     quantity: value.quantity,
                     operation: value.operation,
+                    correlationId,
+                    statusUrl: `/api/operations/${correlationId}`,
                     message: 'Item quantity update initiated'
                 },
                 message: 'Item quantity will be updated shortly',
                 timestamp: new Date()
             };
 
-            res.status(202).json(response);
+            await sendWriteResponse(req, res, correlationId, response, 200);
         } catch (error) {
             logger.error('Error in updateItemQuantity:', error);
             throw error;
         }
     }
 
+    // Barcode lookup; SKUs are unique within the caller's tenant (x-tenant-id)
+    public static async getCustomerItemBySku(req: Request, res: Response): Promise<void> {
+        try {
+            const sku = req.params.sku as string;
+            const tenantId = req.headers['x-tenant-id'] as string | undefined;
+
+            if (!itemController.databaseService.isConnected()) {
+                await itemController.databaseService.connect();
+            }
+
+            const item = await itemController.itemService.getCustomerItemBySku(sku, tenantId || null);
+            if (!item) {
+                res.status(404).json({
+                    success: false,
+                    message: `Item with SKU ${sku} not found`,
+                    timestamp: new Date()
+                });
+                return;
+            }
+
+            await itemController.redisService.cacheCustomerItem(item);
+
+            res.status(200).json({
+                success: true,
+                data: item,
+                message: 'Item retrieved successfully',
+                timestamp: new Date()
+            });
+        } catch (error) {
+            logger.error('Error in getCustomerItemBySku:', error);
+            throw error;
+        }
+    }
+
+    // Items at or below their own minStockLevel; read from the database so it is never stale
+    public static async getLowStockItems(req: Request, res: Response): Promise<void> {
+        try {
+            const { error, value } = lowStockQuerySchema.validate(req.query);
+            if (error) {
+                const response: ApiResponse = {
+                    success: false,
+                    message: 'Validation failed',
+                    errors: error.details.map(detail => detail.message),
+                    timestamp: new Date()
+                };
+                res.status(400).json(response);
+                return;
+            }
+
+            const result = await itemController.itemService.getLowStockItems(value.customerId, value.page, value.limit);
+
+            const response: PaginatedResponse<CustomerItem & { shortfall: number }> = {
+                success: true,
+                data: result.items.map(item => ({
+                    ...item,
+                    shortfall: (item.minStockLevel || 0) - item.quantity
+                })),
+                message: 'Low-stock items retrieved successfully',
+                timestamp: new Date(),
+                pagination: {
+                    page: result.page,
+                    limit: result.limit,
+                    total: result.total,
+                    totalPages: result.totalPages,
+                    hasNext: result.page < result.totalPages,
+                    hasPrevious: result.page > 1
+                }
+            };
+
+            res.status(200).json(response);
+        } catch (error) {
+            logger.error('Error in getLowStockItems:', error);
+            throw error;
+        }
+    }
+
+    /**
+     * Bulk create from a CSV body (Content-Type: text/csv). Every row is checked
+     * against createCustomerItemSchema; with ?dryRun=true only the report comes
+     * back, otherwise each valid row is published as its own ITEM_CREATE_REQUESTED
+     * and the rows are tracked together as an import job.
+     */
+    public static async importItems(req: Request, res: Response): Promise<void> {
+        try {
+            const { error: queryError, value: query } = importQuerySchema.validate(req.query);
+            if (queryError) {
+                itemController.sendValidationError(res, queryError.details.map(detail => detail.message));
+                return;
+            }
+
+            if (typeof req.body !== 'string' || req.body.trim() === '') {
+                itemController.sendValidationError(res, ['Send the CSV file as the request body with Content-Type: text/csv']);
+                return;
+            }
+
+            let rows: string[][];
+            try {
+                rows = parseCsv(req.body);
+            } catch (parseError) {
+                itemController.sendValidationError(res, [(parseError as Error).message]);
+                return;
+            }
+
+            const [header = [], ...dataRows] = rows;
+            const columns = header.map(column => column.trim());
+            const unknownColumns = columns.filter(column => !ITEM_CSV_COLUMNS.includes(column as keyof CreateCustomerItemRequest));
+            if (unknownColumns.length > 0) {
+                itemController.sendValidationError(res, [
+                    `Unknown columns: ${unknownColumns.join(', ')}. Expected: ${ITEM_CSV_COLUMNS.join(', ')}`
+                ]);
+                return;
+            }
+
+            if (dataRows.length === 0 || dataRows.length > config.api.itemImport.maxRows) {
+                itemController.sendValidationError(res, [
+                    `The CSV must have between 1 and ${config.api.itemImport.maxRows} data rows`
+                ]);
+                return;
+            }
+
+            if (!itemController.databaseService.isConnected()) {
+                await itemController.databaseService.connect();
+            }
+
+            const { valid, errors } = await itemController.validateImportRows(columns, dataRows, query.customerId);
+
+            const job: ImportJob = {
+                id: uuidv4(),
+                status: query.dryRun ? 'DRY_RUN' : 'ACCEPTED',
+                customerId: query.customerId,
+                totalRows: dataRows.length,
+                validRows: valid.length,
+                invalidRows: errors.length,
+                errors,
+                rows: [],
+                createdAt: new Date()
+            };
+
+            if (query.dryRun) {
+                res.status(200).json({
+                    success: errors.length === 0,
+                    data: job,
+                    message: `Dry run: ${valid.length} of ${dataRows.length} rows would be imported`,
+                    timestamp: new Date()
+                });
+                return;
+            }
+
+            job.rows = valid.map(({ row }) => ({ row, itemId: uuidv4(), correlationId: uuidv4() }));
+            await itemController.redisService.cacheImportJob(job);
+
+            for (const [index, { value }] of valid.entries()) {
+                const { itemId, correlationId } = job.rows[index]!;
+
+                await itemController.operationService.recordAccepted(correlationId, 'ITEM_CREATE_REQUESTED', 'ITEM', itemId);
+
+                await kafkaService.publishCustomerItemEvent(
+                    'ITEM_CREATE_REQUESTED',
+                    {
+                        id: itemId,
+                        ...value,
+                        createdAt: new Date(),
+                        updatedAt: new Date()
+                    },
+                    {
+                        correlationId,
+                        userId: req.headers['x-user-id'] as string,
+                        tenantId: req.headers['x-tenant-id'] as string
+                    }
+                );
+            }
+
+            await itemController.redisService.deletePattern('items:list:*');
+            for (const customerId of new Set(valid.map(({ value }) => value.customerId))) {
+                await itemController.redisService.deletePattern(`items:customer:${customerId}*`);
+            }
+
+            logger.info(`Item import job accepted:`, {
+                jobId: job.id,
+                totalRows: job.totalRows,
+                validRows: job.validRows,
+                invalidRows: job.invalidRows
+            });
+
+            res.status(202).json({
+                success: true,
+                data: {
+                    ...job,
+                    statusUrl: `/api/items/import/${job.id}`
+                },
+                message: `${valid.length} of ${dataRows.length} rows accepted for import`,
+                timestamp: new Date()
+            });
+        } catch (error) {
+            logger.error('Error in importItems:', error);
+            throw error;
+        }
+    }
+
+    // The job with each row's operation status; it is COMPLETED once every row has succeeded or failed
+    public static async getImportJob(req: Request, res: Response): Promise<void> {
+        try {
+            const { error, value: jobId } = Joi.string().uuid().required().validate(req.params.jobId);
+            if (error) {
+                itemController.sendValidationError(res, error.details.map(detail => detail.message));
+                return;
+            }
+
+            const job = await itemController.redisService.getCachedImportJob(jobId);
+            if (!job) {
+                res.status(404).json({
+                    success: false,
+                    message: 'Import job not found',
+                    timestamp: new Date()
+                });
+                return;
+            }
+
+            const progress: Record<OperationStatus, number> = { ACCEPTED: 0, PROCESSING: 0, COMPLETED: 0, FAILED: 0 };
+            const rows: ImportJobRow[] = [];
+            for (const row of job.rows) {
+                const operation = await itemController.operationService.getOperation(row.correlationId);
+                const status = operation?.status || 'ACCEPTED';
+                progress[status]++;
+                rows.push({ ...row, status, error: operation?.error });
+            }
+
+            const finished = progress.COMPLETED + progress.FAILED;
+            const status = finished === rows.length
+                ? 'COMPLETED'
+                : finished > 0 || progress.PROCESSING > 0 ? 'PROCESSING' : 'ACCEPTED';
+
+            res.status(200).json({
+                success: true,
+                data: { ...job, status, rows, progress },
+                message: 'Import job retrieved successfully',
+                timestamp: new Date()
+            });
+        } catch (error) {
+            logger.error('Error in getImportJob:', error);
+            throw error;
+        }
+    }
+
+    // Same columns as the import, so an export can be edited and imported again
+    public static async exportItems(req: Request, res: Response): Promise<void> {
+        try {
+            const { error, value: customerId } = Joi.string().uuid().required().validate(req.query.customerId);
+            if (error) {
+                itemController.sendValidationError(res, error.details.map(detail => detail.message));
+                return;
+            }
+
+            if (!itemController.databaseService.isConnected()) {
+                await itemController.databaseService.connect();
+            }
+
+            const items = await itemController.itemService.exportCustomerItems(customerId);
+
+            // Stock exports as the item's total; the per-warehouse split is not part of the format
+            const csv = formatCsv([
+                ITEM_CSV_COLUMNS,
+                ...items.map(item => ITEM_CSV_COLUMNS.map(column =>
+                    column === 'warehouseId' ? null : item[column as keyof CustomerItem]
+                ))
+            ]);
+
+            logger.info(`Exported customer items:`, { customerId, count: items.length });
+
+            res.status(200)
+                .type('text/csv')
+                .attachment(`items-${customerId}.csv`)
+                .send(csv);
+        } catch (error) {
+            logger.error('Error in exportItems:', error);
+            throw error;
+        }
+    }
+
+    // Variants are created through the same ITEM_CREATE_REQUESTED command, naming the parent
+    public static async createItemVariant(req: Request, res: Response): Promise<void> {
+        try {
+            const { error: idError, value: parentItemId } = Joi.string().uuid().required().validate(req.params.id);
+            const { error, value } = createItemVariantSchema.validate(req.body);
+            if (idError || error) {
+                const response: ApiResponse = {
+                    success: false,
+                    message: 'Validation failed',
+                    errors: (idError || error)!.details.map(detail => detail.message),
+                    timestamp: new Date()
+                };
+                res.status(400).json(response);
+                return;
+            }
+
+            const variantData: CreateItemVariantRequest = value;
+            const itemId = uuidv4();
+            const correlationId = req.headers['x-correlation-id'] as string || uuidv4();
+
+            await itemController.operationService.recordAccepted(correlationId, 'ITEM_CREATE_REQUESTED', 'ITEM', itemId);
+
+            await kafkaService.publishCustomerItemEvent(
+                'ITEM_CREATE_REQUESTED',
+                {
+                    id: itemId,
+                    parentItemId,
+                    ...variantData
+                },
+                {
+                    correlationId,
+                    userId: req.headers['x-user-id'] as string,
+                    tenantId: req.headers['x-tenant-id'] as string
+                }
+            );
+
+            logger.info(`Item variant creation event published for ID: ${itemId}`, { parentItemId });
+
+            const response: ApiResponse = {
+                success: true,
+                data: {
+                    id: itemId,
+                    parentItemId,
+                    correlationId,
+                    statusUrl: `/api/operations/${correlationId}`,
+                    message: 'Item variant creation initiated'
+                },
+                message: 'Item variant will be created shortly',
+                timestamp: new Date()
+            };
+
+            await sendWriteResponse(req, res, correlationId, response, 201);
+        } catch (error) {
+            logger.error('Error in createItemVariant:', error);
+            throw error;
+        }
+    }
+
+    // Read straight from the database: variant stock moves with every order
+    public static async getItemVariants(req: Request, res: Response): Promise<void> {
+        try {
+            const { error: idError, value: itemId } = Joi.string().uuid().required().validate(req.params.id);
+            const { error, value: attributeFilter } = attributeFilterSchema.validate(req.query.attributes);
+            if (idError || error) {
+                const response: ApiResponse = {
+                    success: false,
+                    message: 'Validation failed',
+                    errors: (idError || error)!.details.map(detail => detail.message),
+                    timestamp: new Date()
+                };
+                res.status(400).json(response);
+                return;
+            }
+
+            if (!itemController.databaseService.isConnected()) {
+                await itemController.databaseService.connect();
+            }
+
+            const item = await itemController.itemService.getCustomerItemById(itemId);
+            if (!item) {
+                res.status(404).json({
+                    success: false,
+                    message: 'Item not found',
+                    timestamp: new Date()
+                });
+                return;
+            }
+
+            const variants = await itemController.itemService.getItemVariants(
+                itemId,
+                itemController.parseAttributeFilter(attributeFilter)
+            );
+
+            res.status(200).json({
+                success: true,
+                data: variants,
+                message: 'Item variants retrieved successfully',
+                timestamp: new Date()
+            });
+        } catch (error) {
+            logger.error('Error in getItemVariants:', error);
+            throw error;
+        }
+    }
+
+    // Stock ledger (read straight from the database; history is never cached)
+    public static async getStockMovements(req: Request, res: Response): Promise<void> {
+        try {
+            const itemId = req.params.id;
+
+            const { error, value } = stockQuerySchema.validate({
+                id: itemId,
+                page: req.query.page,
+                limit: req.query.limit
+            });
+            if (error) {
+                const response: ApiResponse = {
+                    success: false,
+                    message: 'Validation failed',
+                    errors: error.details.map(detail => detail.message),
+                    timestamp: new Date()
+                };
+                res.status(400).json(response);
+                return;
+            }
+
+            const item = await itemController.itemService.getCustomerItemById(value.id);
+            if (!item) {
+                res.status(404).json({
+                    success: false,
+                    message: 'Item not found',
+                    timestamp: new Date()
+                });
+                return;
+            }
+
+            const result = await itemController.itemService.getStockMovements(value.id, value.page, value.limit);
+
+            const response: PaginatedResponse<StockMovement> = {
+                success: true,
+                data: result.movements,
+                message: 'Stock movements retrieved successfully',
+                timestamp: new Date(),
+                pagination: {
+                    page: result.page,
+                    limit: result.limit,
+                    total: result.total,
+                    totalPages: result.totalPages,
+                    hasNext: result.page < result.totalPages,
+                    hasPrevious: result.page > 1
+                }
+            };
+
+            res.status(200).json(response);
+        } catch (error) {
+            logger.error('Error in getStockMovements:', error);
+            throw error;
+        }
+    }
+
+    public static async getStockAsOf(req: Request, res: Response): Promise<void> {
+        try {
+            const { error, value } = stockQuerySchema.validate({
+                id: req.params.id,
+                asOf: req.query.asOf
+            });
+            if (error) {
+                const response: ApiResponse = {
+                    success: false,
+                    message: 'Validation failed',
+                    errors: error.details.map(detail => detail.message),
+                    timestamp: new Date()
+                };
+                res.status(400).json(response);
+                return;
+            }
+
+            const stock = await itemController.itemService.getStockAsOf(value.id, value.asOf || new Date());
+            if (!stock) {
+                res.status(404).json({
+                    success: false,
+                    message: 'Item not found',
+                    timestamp: new Date()
+                });
+                return;
+            }
+
+            res.status(200).json({
+                success: true,
+                data: stock,
+                message: 'Stock level retrieved successfully',
+                timestamp: new Date()
+            });
+        } catch (error) {
+            logger.error('Error in getStockAsOf:', error);
+            throw error;
+        }
+    }
+
+    // Price history and scheduled changes (read straight from the database, like the stock ledger)
+    public static async getPriceHistory(req: Request, res: Response): Promise<void> {
+        try {
+            const { error, value } = priceQuerySchema.validate({ id: req.params.id });
+            if (error) {
+                itemController.sendValidationError(res, error.details.map(detail => detail.message));
+                return;
+            }
+
+            const item = await itemController.itemService.getCustomerItemById(value.id);
+            if (!item) {
+                res.status(404).json({
+                    success: false,
+                    message: 'Item not found',
+                    timestamp: new Date()
+                });
+                return;
+            }
+
+            const prices = await itemController.itemService.getPriceHistory(value.id);
+
+            res.status(200).json({
+                success: true,
+                data: prices,
+                message: 'Price history retrieved successfully',
+                timestamp: new Date()
+            });
+        } catch (error) {
+            logger.error('Error in getPriceHistory:', error);
+            throw error;
+        }
+    }
+
+    public static async getPriceAt(req: Request, res: Response): Promise<void> {
+        try {
+            const { error, value } = priceQuerySchema.validate({
+                id: req.params.id,
+                at: req.query.at
+            });
+            if (error) {
+                itemController.sendValidationError(res, error.details.map(detail => detail.message));
+                return;
+            }
+
+            const price = await itemController.itemService.getPriceAt(value.id, value.at || new Date());
+            if (!price) {
+                res.status(404).json({
+                    success: false,
+                    message: 'No price recorded for this item at that date',
+                    timestamp: new Date()
+                });
+                return;
+            }
+
+            res.status(200).json({
+                success: true,
+                data: price,
+                message: 'Item price retrieved successfully',
+                timestamp: new Date()
+            });
+        } catch (error) {
+            logger.error('Error in getPriceAt:', error);
+            throw error;
+        }
+    }
+
+    public static async scheduleItemPrice(req: Request, res: Response): Promise<void> {
+        try {
+            const { error: idError, value: itemId } = Joi.string().uuid().required().validate(req.params.id);
+            const { error, value } = schedulePriceSchema.validate(req.body);
+            if (idError || error) {
+                itemController.sendValidationError(res, (idError || error)!.details.map(detail => detail.message));
+                return;
+            }
+
+            const correlationId = req.headers['x-correlation-id'] as string || uuidv4();
+
+            await itemController.operationService.recordAccepted(correlationId, 'ITEM_PRICE_SCHEDULE_REQUESTED', 'ITEM', itemId);
+
+            await kafkaService.publishCustomerItemEvent(
+                'ITEM_PRICE_SCHEDULE_REQUESTED',
+                {
+                    id: itemId,
+                    price: value.price,
+                    effectiveFrom: value.effectiveFrom
+                },
+                {
+                    correlationId,
+                    userId: req.headers['x-user-id'] as string,
+                    tenantId: req.headers['x-tenant-id'] as string
+                }
+            );
+
+            logger.info(`Item price schedule event published for ID: ${itemId}`, { effectiveFrom: value.effectiveFrom });
+
+            const response: ApiResponse = {
+                success: true,
+                data: {
+                    id: itemId,
+                    correlationId,
+                    statusUrl: `/api/operations/${correlationId}`,
+                    message: 'Item price change scheduling initiated'
+                },
+                message: 'Item price change will be scheduled shortly',
+                timestamp: new Date()
+            };
+
+            await sendWriteResponse(req, res, correlationId, response, 201);
+        } catch (error) {
+            logger.error('Error in scheduleItemPrice:', error);
+            throw error;
+        }
+    }
+
     // Cache Management Operations
     public static async invalidateItemCache(req: Request, res: Response): Promise<void> {
         try {
@@ -780,6 +1517,90 @@ export class itemController {
     }
 
     // Helper Methods
+    private static async validateImportRows(
+        columns: string[],
+        dataRows: string[][],
+        defaultCustomerId: string | undefined
+    ): Promise<{ valid: Array<{ row: number; value: CreateCustomerItemRequest }>; errors: ImportRowError[] }> {
+        const valid: Array<{ row: number; value: CreateCustomerItemRequest }> = [];
+        const errors: ImportRowError[] = [];
+        const seenSkus = new Map<string, number>();
+        const customerExists = new Map<string, boolean>();
+
+        for (const [index, cells] of dataRows.entries()) {
+            const row = index + 1;
+
+            if (cells.length !== columns.length) {
+                errors.push({ row, errors: [`Expected ${columns.length} columns, got ${cells.length}`] });
+                continue;
+            }
+
+            // Empty cells are omitted, so optional columns can be left blank
+            const data: Record<string, string> = {};
+            columns.forEach((column, i) => {
+                const cell = cells[i]!.trim();
+                if (cell !== '') {
+                    data[column] = cell;
+                }
+            });
+            if (!data.customerId && defaultCustomerId) {
+                data.customerId = defaultCustomerId;
+            }
+
+            const { error, value } = createCustomerItemSchema.validate(data, { abortEarly: false });
+            const rowErrors = error ? error.details.map(detail => detail.message) : [];
+
+            if (!error) {
+                if (!customerExists.has(value.customerId)) {
+                    customerExists.set(value.customerId, !!(await itemController.databaseService.getCustomerById(value.customerId)));
+                }
+                if (!customerExists.get(value.customerId)) {
+                    rowErrors.push(`Customer with ID ${value.customerId} not found`);
+                }
+
+                if (value.sku) {
+                    const firstRow = seenSkus.get(value.sku);
+                    if (firstRow !== undefined) {
+                        rowErrors.push(`SKU ${value.sku} is already used by row ${firstRow}`);
+                    } else {
+                        seenSkus.set(value.sku, row);
+                    }
+                }
+            }
+
+            if (rowErrors.length > 0) {
+                errors.push({ row, errors: rowErrors });
+            } else {
+                valid.push({ row, value });
+            }
+        }
+
+        return { valid, errors };
+    }
+
+    private static sendValidationError(res: Response, errors: string[]): void {
+        const response: ApiResponse = {
+            success: false,
+            message: 'Validation failed',
+            errors,
+            timestamp: new Date()
+        };
+        res.status(400).json(response);
+    }
+
+    private static parseAttributeFilter(filter: string | undefined): ItemAttributes | undefined {
+        if (!filter) {
+            return undefined;
+        }
+
+        const attributes: ItemAttributes = {};
+        for (const pair of filter.split(',')) {
+            const [name, value] = pair.split(':');
+            attributes[name!.trim()] = value!.trim();
+        }
+        return attributes;
+    }
+
     private static getItemsListCacheKey(
         page: number,
         limit: number,
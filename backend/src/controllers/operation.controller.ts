@@ -0,0 +1,50 @@
+// src/controllers/operation.controller.ts
+import { Request, Response } from 'express';
+import { OperationService } from '../Engine/Services/operation.service';
+import { logger } from '../utils/logger';
+
+export class OperationController {
+    private static operationService = OperationService.getInstance();
+
+    public static async getOperation(req: Request, res: Response): Promise<void> {
+        try {
+            const correlationId = req.params.correlationId as string;
+
+            if (!correlationId) {
+                res.status(400).json({
+                    success: false,
+                    message: 'Correlation ID is required',
+                    timestamp: new Date()
+                });
+                return;
+            }
+
+            const operation = await OperationController.operationService.getOperation(correlationId);
+
+            if (!operation) {
+                res.status(404).json({
+                    success: false,
+                    message: 'Operation not found or expired',
+                    timestamp: new Date()
+                });
+                return;
+            }
+
+            res.status(200).json({
+                success: true,
+                data: operation,
+                message: 'Operation status retrieved successfully',
+                timestamp: new Date(),
+                correlationId
+            });
+
+        } catch (error) {
+            logger.error('Error getting operation status:', error);
+            res.status(500).json({
+                success: false,
+                message: 'Failed to retrieve operation status',
+                timestamp: new Date()
+            });
+        }
+    }
+}
@@ -3,55 +3,148 @@ import { Request, Response } from 'express';
 import { KafkaService } from '../kafka';
 import { RedisService } from '../cache/redies.service';
 import { DatabaseService } from '../Engine/Services/database.service';
+import { OperationService } from '../Engine/Services/operation.service';
+import { ItemService } from '../Engine/Services/item.service';
+import { InventoryService } from '../Engine/Services/inventory.service';
+import { OrderService } from '../Engine/Services/order.service';
+import { PaymentService } from '../Engine/Services/payment.service';
 import { logger } from '../utils/logger';
+import { sendWriteResponse } from '../utils/syncWrite';
 import { v4 as uuidv4 } from 'uuid';
-import { CreateOrderRequest } from '../types';
-import { string } from 'joi';
+import Joi from 'joi';
+import {
+    ApiResponse,
+    CreateOrderRequest,
+    EventValidationError,
+    OrderCommandType,
+    OrderPriority,
+    PaymentMethod,
+    ShipmentStatus
+} from '../types';
+
+// Omitted means the whole amount still open
+const paymentAmount = Joi.number().positive().precision(2).optional();
+
+const authorizePaymentSchema = Joi.object({
+    amount: paymentAmount,
+    paymentMethod: Joi.string().valid(...Object.values(PaymentMethod)).required()
+});
+
+const paymentAmountSchema = Joi.object({
+    amount: paymentAmount
+});
+
+const addressSchema = Joi.object({
+    street: Joi.string().required(),
+    city: Joi.string().required(),
+    state: Joi.string().allow('').optional(),
+    postalCode: Joi.string().required(),
+    country: Joi.string().required(),
+    phone: Joi.string().allow('', null).optional(),
+    instructions: Joi.string().allow('', null).optional()
+});
+
+const shipmentSchema = Joi.object({
+    carrier: Joi.string().min(1).max(100).required(),
+    trackingNumber: Joi.string().min(1).max(100).required(),
+    items: Joi.array().min(1).items(Joi.object({
+        itemId: Joi.string().uuid().required(),
+        quantity: Joi.number().integer().min(1).required()
+    })).optional(),
+    estimatedDelivery: Joi.date().iso().allow(null).optional(),
+    shippingCost: Joi.number().min(0).precision(2).optional(),
+    shippingAddress: addressSchema.allow(null).optional()
+});
+
+// Each part names what it carries; together they may not exceed the order
+const splitShipmentSchema = Joi.object({
+    shipments: Joi.array().min(2).items(shipmentSchema.keys({
+        items: Joi.array().min(1).items(Joi.object({
+            itemId: Joi.string().uuid().required(),
+            quantity: Joi.number().integer().min(1).required()
+        })).required()
+    })).required()
+});
+
+// Everything a client may send; what the Engine resolves for the order (see ResolvedOrder) is not among it
+const createOrderSchema = Joi.object({
+    customerId: Joi.string().uuid().required(),
+    items: Joi.array().min(1).items(Joi.object({
+        itemId: Joi.string().uuid(),
+        sku: Joi.string().max(100).pattern(/^[A-Za-z0-9._-]+$/),
+        quantity: Joi.number().integer().min(1).required(),
+        warehouseId: Joi.string().uuid().allow(null).optional(),
+        specialInstructions: Joi.string().max(1000).allow('', null).optional()
+    }).or('itemId', 'sku')).required(),
+    shippingAddress: Joi.alternatives(Joi.string().allow('', null), addressSchema).optional(),
+    deliveryDate: Joi.date().iso().allow(null).optional(),
+    notes: Joi.string().max(1000).allow('', null).optional(),
+    specialInstructions: Joi.string().max(1000).allow('', null).optional(),
+    priority: Joi.string().valid(...Object.values(OrderPriority)).default(OrderPriority.NORMAL),
+    carrier: Joi.string().max(100).allow('', null).optional(),
+    discountCode: Joi.string().max(50).allow('', null).optional()
+});
+
+const trackingUpdateSchema = Joi.object({
+    status: Joi.string().valid(...Object.values(ShipmentStatus)).required(),
+    location: Joi.string().max(255).allow('', null).optional(),
+    description: Joi.string().max(1000).allow('', null).optional(),
+    occurredAt: Joi.date().iso().max('now').optional()
+});
 
 export class OrderController {
     private static kafkaService = KafkaService.getInstance();
     private static redisService = RedisService.getInstance();
     private static databaseService = new DatabaseService();
+    private static operationService = OperationService.getInstance();
+    private static orderService = new OrderService(
+        OrderController.databaseService,
+        new ItemService(OrderController.databaseService),
+        new InventoryService(OrderController.databaseService)
+    );
+    private static paymentService = new PaymentService(OrderController.databaseService, OrderController.orderService);
 
     // WRITE OPERATIONS (Async via Kafka)
     public static async createOrder(req: Request, res: Response): Promise<void> {
         try {
-            const orderData: CreateOrderRequest = req.body;
+            const { error, value } = createOrderSchema.validate(req.body);
+            if (error) {
+                OrderController.sendValidationError(res, error);
+                return;
+            }
+
+            const orderData: CreateOrderRequest = value;
             const orderId = uuidv4();
             const correlationId = req.headers['x-correlation-id'] as string || uuidv4();
 
-            // Validate required fields
-            if (!orderData.customerId || !orderData.items || orderData.items.length === 0) {
-                res.status(400).json({
-                    success: false,
-                    message: 'CustomerId and items array are required',
-                    timestamp: new Date()
-                });
-                return;
-            }
+            await OrderController.operationService.recordAccepted(correlationId, 'ORDER_CREATE_REQUESTED', 'ORDER', orderId);
 
             // Publish to Kafka for async processing
             await OrderController.kafkaService.publishOrderEvent('ORDER_CREATE_REQUESTED', {
-                id: orderId,
-                ...orderData
+                ...orderData,
+                id: orderId
             }, {
                 correlationId,
                 userId: req.headers['x-user-id'],
                 tenantId: req.headers['x-tenant-id']
             });
 
-            res.status(202).json({
+            await sendWriteResponse(req, res, correlationId, {
                 success: true,
                 data: {
                     id: orderId,
-                    correlationId
+                    correlationId,
+                    statusUrl: `/api/operations/${correlationId}`
                 },
                 message: 'Order creation initiated. You will receive real-time updates.',
                 timestamp: new Date()
-            });
+            }, 201);
 
         } catch (error) {
             logger.error('Error creating order:', error);
+            if (error instanceof EventValidationError) {
+                throw error;
+            }
             res.status(500).json({
                 success: false,
                 message: 'Failed to initiate order creation',
@@ -66,6 +159,8 @@ export class OrderController {
             const updateData = req.body;
             const correlationId = req.headers['x-correlation-id'] as string || uuidv4();
 
+            await OrderController.operationService.recordAccepted(correlationId, 'ORDER_UPDATE_REQUESTED', 'ORDER', orderId);
+
             // Publish to Kafka for async processing
             await OrderController.kafkaService.publishOrderEvent('ORDER_UPDATE_REQUESTED', {
                 id: orderId,
@@ -76,18 +171,22 @@ export class OrderController {
                 tenantId: req.headers['x-tenant-id']
             });
 
-            res.status(202).json({
+            await sendWriteResponse(req, res, correlationId, {
                 success: true,
                 data: {
                     id: orderId,
-                    correlationId
+                    correlationId,
+                    statusUrl: `/api/operations/${correlationId}`
                 },
                 message: 'Order update initiated. You will receive real-time updates.',
                 timestamp: new Date()
-            });
+            }, 200);
 
         } catch (error) {
             logger.error('Error updating order:', error);
+            if (error instanceof EventValidationError) {
+                throw error;
+            }
             res.status(500).json({
                 success: false,
                 message: 'Failed to initiate order update',
@@ -101,6 +200,8 @@ export class OrderController {
             const orderId = req.params.id;
             const correlationId = req.headers['x-correlation-id'] as string || uuidv4();
 
+            await OrderController.operationService.recordAccepted(correlationId, 'ORDER_CANCEL_REQUESTED', 'ORDER', orderId);
+
             // Publish to Kafka for async processing
             await OrderController.kafkaService.publishOrderEvent('ORDER_CANCEL_REQUESTED', {
                 id: orderId
@@ -110,18 +211,22 @@ export class OrderController {
                 tenantId: req.headers['x-tenant-id']
             });
 
-            res.status(202).json({
+            await sendWriteResponse(req, res, correlationId, {
                 success: true,
                 data: {
                     id: orderId,
-                    correlationId
+                    correlationId,
+                    statusUrl: `/api/operations/${correlationId}`
                 },
                 message: 'Order cancellation initiated. You will receive real-time updates.',
                 timestamp: new Date()
-            });
+            }, 200);
 
         } catch (error) {
             logger.error('Error cancelling order:', error);
+            if (error instanceof EventValidationError) {
+                throw error;
+            }
             res.status(500).json({
                 success: false,
                 message: 'Failed to initiate order cancellation',
@@ -135,6 +240,8 @@ export class OrderController {
             const orderId = req.params.id;
             const correlationId = req.headers['x-correlation-id'] as string || uuidv4();
 
+            await OrderController.operationService.recordAccepted(correlationId, 'ORDER_DELETE_REQUESTED', 'ORDER', orderId);
+
             // Publish to Kafka for async processing
             await OrderController.kafkaService.publishOrderEvent('ORDER_DELETE_REQUESTED', {
                 id: orderId
@@ -144,18 +251,22 @@ export class OrderController {
                 tenantId: req.headers['x-tenant-id']
             });
 
-            res.status(202).json({
+            await sendWriteResponse(req, res, correlationId, {
                 success: true,
                 data: {
                     id: orderId,
-                    correlationId
+                    correlationId,
+                    statusUrl: `/api/operations/${correlationId}`
                 },
                 message: 'Order deletion initiated. You will receive real-time updates.',
                 timestamp: new Date()
-            });
+            }, 200);
 
         } catch (error) {
             logger.error('Error deleting order:', error);
+            if (error instanceof EventValidationError) {
+                throw error;
+            }
             res.status(500).json({
                 success: false,
                 message: 'Failed to initiate order deletion',
@@ -164,6 +275,206 @@ export class OrderController {
         }
     }
 
+    // Authorizes the amount given, or all that is not yet paid or held, through the payment gateway
+    public static async authorizePayment(req: Request, res: Response): Promise<void> {
+        const { error, value } = authorizePaymentSchema.validate(req.body || {});
+        if (error) {
+            OrderController.sendValidationError(res, error);
+            return;
+        }
+
+        const paymentId = uuidv4();
+        await OrderController.acceptOrderCommand(req, res, 'ORDER_PAYMENT_AUTHORIZE_REQUESTED', {
+            ...value,
+            paymentId
+        }, 'payment authorization', { paymentId });
+    }
+
+    public static async capturePayment(req: Request, res: Response): Promise<void> {
+        const { error, value } = paymentAmountSchema.validate(req.body || {});
+        if (error) {
+            OrderController.sendValidationError(res, error);
+            return;
+        }
+
+        await OrderController.acceptOrderCommand(req, res, 'ORDER_PAYMENT_CAPTURE_REQUESTED', {
+            ...value,
+            paymentId: req.params.paymentId
+        }, 'payment capture');
+    }
+
+    public static async voidPayment(req: Request, res: Response): Promise<void> {
+        await OrderController.acceptOrderCommand(req, res, 'ORDER_PAYMENT_VOID_REQUESTED', {
+            paymentId: req.params.paymentId
+        }, 'payment void');
+    }
+
+    public static async refundPayment(req: Request, res: Response): Promise<void> {
+        const { error, value } = paymentAmountSchema.validate(req.body || {});
+        if (error) {
+            OrderController.sendValidationError(res, error);
+            return;
+        }
+
+        const refundId = uuidv4();
+        await OrderController.acceptOrderCommand(req, res, 'ORDER_PAYMENT_REFUND_REQUESTED', {
+            ...value,
+            paymentId: req.params.paymentId,
+            refundId
+        }, 'refund', { refundId });
+    }
+
+    public static async createShipment(req: Request, res: Response): Promise<void> {
+        const { error, value } = shipmentSchema.validate(req.body || {});
+        if (error) {
+            OrderController.sendValidationError(res, error);
+            return;
+        }
+
+        const shipmentId = uuidv4();
+        await OrderController.acceptOrderCommand(req, res, 'ORDER_SHIPMENT_CREATE_REQUESTED', {
+            shipments: [{ ...value, shipmentId }]
+        }, 'shipment creation', { shipmentIds: [shipmentId] });
+    }
+
+    // Ships the order in several parcels in one go
+    public static async splitShipments(req: Request, res: Response): Promise<void> {
+        const { error, value } = splitShipmentSchema.validate(req.body || {});
+        if (error) {
+            OrderController.sendValidationError(res, error);
+            return;
+        }
+
+        const shipments = value.shipments.map((shipment: Record<string, any>) => ({ ...shipment, shipmentId: uuidv4() }));
+        await OrderController.acceptOrderCommand(req, res, 'ORDER_SHIPMENT_CREATE_REQUESTED', {
+            shipments
+        }, 'shipment split', { shipmentIds: shipments.map((shipment: Record<string, any>) => shipment.shipmentId) });
+    }
+
+    // Carrier scans; the order follows its shipments to SHIPPED, OUT_FOR_DELIVERY, DELIVERED or FAILED
+    public static async trackShipment(req: Request, res: Response): Promise<void> {
+        const { error, value } = trackingUpdateSchema.validate(req.body || {});
+        if (error) {
+            OrderController.sendValidationError(res, error);
+            return;
+        }
+
+        await OrderController.acceptOrderCommand(req, res, 'ORDER_SHIPMENT_TRACK_REQUESTED', {
+            ...value,
+            shipmentId: req.params.shipmentId
+        }, 'tracking update');
+    }
+
+    public static async shipOrder(req: Request, res: Response): Promise<void> {
+        await OrderController.acceptOrderCommand(req, res, 'ORDER_SHIP_REQUESTED', {
+            trackingNumber: req.body?.trackingNumber || null
+        }, 'shipment');
+    }
+
+    public static async deliverOrder(req: Request, res: Response): Promise<void> {
+        await OrderController.acceptOrderCommand(req, res, 'ORDER_DELIVER_REQUESTED', {}, 'delivery');
+    }
+
+    public static async returnOrder(req: Request, res: Response): Promise<void> {
+        await OrderController.acceptOrderCommand(req, res, 'ORDER_RETURN_REQUESTED', {
+            reason: req.body?.reason || null
+        }, 'return');
+    }
+
+    // Restocks what passed inspection on an order waiting for it (see config.inventory.restockRules)
+    public static async inspectOrder(req: Request, res: Response): Promise<void> {
+        await OrderController.acceptOrderCommand(req, res, 'ORDER_INSPECT_REQUESTED', {
+            ...(req.body?.items ? { items: req.body.items } : {}),
+            notes: req.body?.notes || null
+        }, 'inspection');
+    }
+
+    // Publishes a command for an existing order and answers 202 (or waits, see sendWriteResponse)
+    private static async acceptOrderCommand(
+        req: Request,
+        res: Response,
+        eventType: OrderCommandType,
+        data: Record<string, any>,
+        action: string,
+        responseData: Record<string, any> = {}
+    ): Promise<void> {
+        try {
+            const orderId = req.params.id as string;
+            const correlationId = req.headers['x-correlation-id'] as string || uuidv4();
+
+            await OrderController.operationService.recordAccepted(correlationId, eventType, 'ORDER', orderId);
+
+            await OrderController.kafkaService.publishOrderEvent(eventType, {
+                ...data,
+                id: orderId
+            }, {
+                correlationId,
+                userId: req.headers['x-user-id'],
+                tenantId: req.headers['x-tenant-id']
+            });
+
+            await sendWriteResponse(req, res, correlationId, {
+                success: true,
+                data: {
+                    id: orderId,
+                    ...responseData,
+                    correlationId,
+                    statusUrl: `/api/operations/${correlationId}`
+                },
+                message: `Order ${action} initiated. You will receive real-time updates.`,
+                timestamp: new Date()
+            }, 200);
+
+        } catch (error) {
+            logger.error(`Error requesting order ${action}:`, error);
+            if (error instanceof EventValidationError) {
+                throw error;
+            }
+            res.status(500).json({
+                success: false,
+                message: `Failed to initiate order ${action}`,
+                timestamp: new Date()
+            });
+        }
+    }
+
+    // Prices an order synchronously without creating it; nothing is published or held
+    public static async quoteOrder(req: Request, res: Response): Promise<void> {
+        try {
+            // The order as it would be sent to POST /api/orders
+            const { error, value } = createOrderSchema.validate(req.body);
+            if (error) {
+                OrderController.sendValidationError(res, error);
+                return;
+            }
+
+            if (!OrderController.databaseService.isConnected()) {
+                await OrderController.databaseService.connect();
+            }
+
+            const quote = await OrderController.orderService.quoteOrder(value);
+            if (!quote) {
+                res.status(404).json({
+                    success: false,
+                    message: 'Customer not found',
+                    timestamp: new Date()
+                });
+                return;
+            }
+
+            res.status(200).json({
+                success: true,
+                data: quote,
+                message: 'Order quoted successfully',
+                timestamp: new Date()
+            });
+
+        } catch (error) {
+            logger.error('Error quoting order:', error);
+            throw error;
+        }
+    }
+
     // READ OPERATIONS (Sync with Cache-First Pattern)
     public static async getOrderById(req: Request, res: Response): Promise<void> {
         const startTime = Date.now();
@@ -252,6 +563,86 @@ export class OrderController {
         }
     }
 
+    // Read straight from the database: payments change outside the cached order document
+    public static async getOrderPayments(req: Request, res: Response): Promise<void> {
+        try {
+            const { error, value: orderId } = Joi.string().uuid().validate(req.params.id);
+            if (error) {
+                OrderController.sendValidationError(res, error);
+                return;
+            }
+
+            if (!OrderController.databaseService.isConnected()) {
+                await OrderController.databaseService.connect();
+            }
+
+            const order = await OrderController.paymentService.getOrderWithPayments(orderId);
+            if (!order) {
+                res.status(404).json({
+                    success: false,
+                    message: 'Order not found',
+                    timestamp: new Date()
+                });
+                return;
+            }
+
+            res.status(200).json({
+                success: true,
+                data: {
+                    orderId,
+                    paymentStatus: order.paymentStatus,
+                    totalAmount: order.totalAmount,
+                    payments: order.payments
+                },
+                message: 'Order payments retrieved successfully',
+                timestamp: new Date()
+            });
+
+        } catch (error) {
+            logger.error('Error getting order payments:', error);
+            throw error;
+        }
+    }
+
+    public static async getOrderShipments(req: Request, res: Response): Promise<void> {
+        try {
+            const { error, value: orderId } = Joi.string().uuid().validate(req.params.id);
+            if (error) {
+                OrderController.sendValidationError(res, error);
+                return;
+            }
+
+            if (!OrderController.databaseService.isConnected()) {
+                await OrderController.databaseService.connect();
+            }
+
+            const order = await OrderController.orderService.getOrderWithShipments(orderId);
+            if (!order) {
+                res.status(404).json({
+                    success: false,
+                    message: 'Order not found',
+                    timestamp: new Date()
+                });
+                return;
+            }
+
+            res.status(200).json({
+                success: true,
+                data: {
+                    orderId,
+                    status: order.status,
+                    shipments: order.shipments
+                },
+                message: 'Order shipments retrieved successfully',
+                timestamp: new Date()
+            });
+
+        } catch (error) {
+            logger.error('Error getting order shipments:', error);
+            throw error;
+        }
+    }
+
     public static async getOrdersByCustomerId(req: Request, res: Response): Promise<void> {
         const startTime = Date.now();
 
@@ -473,4 +864,14 @@ export class OrderController {
             });
         }
     }
+
+    private static sendValidationError(res: Response, error: Joi.ValidationError): void {
+        const response: ApiResponse = {
+            success: false,
+            message: 'Validation failed',
+            errors: error.details.map(detail => detail.message),
+            timestamp: new Date()
+        };
+        res.status(400).json(response);
+    }
 }
\ No newline at end of file
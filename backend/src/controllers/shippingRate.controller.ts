@@ -0,0 +1,205 @@
+// src/controllers/shippingRate.controller.ts
+import { Request, Response } from 'express';
+import Joi from 'joi';
+import { DatabaseService } from '../Engine/Services/database.service';
+import { ShippingRateService } from '../Engine/Services/shippingRate.service';
+import { logger } from '../utils/logger';
+import { ApiResponse, ShippingRateBasis, ShippingServiceLevel } from '../types';
+
+const shippingRateFields = {
+    name: Joi.string().min(1).max(100),
+    carrier: Joi.string().max(100).allow(null),
+    zone: Joi.string().max(50).pattern(/^[A-Za-z]{2}(-[A-Za-z0-9]{1,10})?$/).allow(null),
+    serviceLevel: Joi.string().valid(...Object.values(ShippingServiceLevel)),
+    basis: Joi.string().valid(...Object.values(ShippingRateBasis)),
+    minValue: Joi.number().min(0).precision(3),
+    maxValue: Joi.number().positive().precision(3).allow(null),
+    baseCost: Joi.number().min(0).precision(2),
+    perUnitCost: Joi.number().min(0).precision(2),
+    freeShippingThreshold: Joi.number().min(0).precision(2).allow(null),
+    isActive: Joi.boolean()
+};
+
+const createShippingRateSchema = Joi.object({
+    ...shippingRateFields,
+    name: shippingRateFields.name.required(),
+    basis: shippingRateFields.basis.required(),
+    baseCost: shippingRateFields.baseCost.required(),
+    maxValue: shippingRateFields.maxValue.when('minValue', {
+        is: Joi.number().required(),
+        then: Joi.number().greater(Joi.ref('minValue'))
+    })
+});
+
+const updateShippingRateSchema = Joi.object(shippingRateFields).min(1);
+
+const tenantSchema = Joi.string().uuid().optional();
+
+/**
+ * Shipping rate tables of the tenant named in x-tenant-id. Applied synchronously,
+ * like tax rules: orders and quotes pick rates up when they are priced.
+ */
+export class ShippingRateController {
+    private static databaseService = new DatabaseService();
+    private static shippingRateService = new ShippingRateService(ShippingRateController.databaseService);
+
+    private static async ensureConnected(): Promise<void> {
+        if (!ShippingRateController.databaseService.isConnected()) {
+            await ShippingRateController.databaseService.connect();
+        }
+    }
+
+    public static async getShippingRates(req: Request, res: Response): Promise<void> {
+        try {
+            const { error, value: tenantId } = tenantSchema.validate(req.headers['x-tenant-id']);
+            if (error) {
+                ShippingRateController.sendValidationError(res, error);
+                return;
+            }
+
+            await ShippingRateController.ensureConnected();
+
+            const shippingRates = await ShippingRateController.shippingRateService.getShippingRates(tenantId || null);
+
+            res.status(200).json({
+                success: true,
+                data: shippingRates,
+                message: 'Shipping rates retrieved successfully',
+                timestamp: new Date()
+            });
+        } catch (error) {
+            logger.error('Error getting shipping rates:', error);
+            throw error;
+        }
+    }
+
+    public static async getShippingRateById(req: Request, res: Response): Promise<void> {
+        try {
+            const { error: idError, value: id } = Joi.string().uuid().validate(req.params.id);
+            const { error, value: tenantId } = tenantSchema.validate(req.headers['x-tenant-id']);
+            if (idError || error) {
+                ShippingRateController.sendValidationError(res, (idError || error)!);
+                return;
+            }
+
+            await ShippingRateController.ensureConnected();
+
+            const shippingRate = await ShippingRateController.shippingRateService.getShippingRateById(id, tenantId || null);
+            if (!shippingRate) {
+                ShippingRateController.sendNotFound(res);
+                return;
+            }
+
+            res.status(200).json({
+                success: true,
+                data: shippingRate,
+                message: 'Shipping rate retrieved successfully',
+                timestamp: new Date()
+            });
+        } catch (error) {
+            logger.error('Error getting shipping rate:', error);
+            throw error;
+        }
+    }
+
+    public static async createShippingRate(req: Request, res: Response): Promise<void> {
+        try {
+            const { error: tenantError, value: tenantId } = tenantSchema.validate(req.headers['x-tenant-id']);
+            const { error, value } = createShippingRateSchema.validate(req.body);
+            if (tenantError || error) {
+                ShippingRateController.sendValidationError(res, (tenantError || error)!);
+                return;
+            }
+
+            await ShippingRateController.ensureConnected();
+
+            const shippingRate = await ShippingRateController.shippingRateService.createShippingRate(value, tenantId || null);
+
+            res.status(201).json({
+                success: true,
+                data: shippingRate,
+                message: 'Shipping rate created successfully',
+                timestamp: new Date()
+            });
+        } catch (error) {
+            logger.error('Error creating shipping rate:', error);
+            throw error;
+        }
+    }
+
+    public static async updateShippingRate(req: Request, res: Response): Promise<void> {
+        try {
+            const { error: idError, value: id } = Joi.string().uuid().validate(req.params.id);
+            const { error: tenantError, value: tenantId } = tenantSchema.validate(req.headers['x-tenant-id']);
+            const { error, value } = updateShippingRateSchema.validate(req.body);
+            if (idError || tenantError || error) {
+                ShippingRateController.sendValidationError(res, (idError || tenantError || error)!);
+                return;
+            }
+
+            await ShippingRateController.ensureConnected();
+
+            const shippingRate = await ShippingRateController.shippingRateService.updateShippingRate(id, value, tenantId || null);
+            if (!shippingRate) {
+                ShippingRateController.sendNotFound(res);
+                return;
+            }
+
+            res.status(200).json({
+                success: true,
+                data: shippingRate,
+                message: 'Shipping rate updated successfully',
+                timestamp: new Date()
+            });
+        } catch (error) {
+            logger.error('Error updating shipping rate:', error);
+            throw error;
+        }
+    }
+
+    public static async deleteShippingRate(req: Request, res: Response): Promise<void> {
+        try {
+            const { error: idError, value: id } = Joi.string().uuid().validate(req.params.id);
+            const { error, value: tenantId } = tenantSchema.validate(req.headers['x-tenant-id']);
+            if (idError || error) {
+                ShippingRateController.sendValidationError(res, (idError || error)!);
+                return;
+            }
+
+            await ShippingRateController.ensureConnected();
+
+            const deleted = await ShippingRateController.shippingRateService.deleteShippingRate(id, tenantId || null);
+            if (!deleted) {
+                ShippingRateController.sendNotFound(res);
+                return;
+            }
+
+            res.status(200).json({
+                success: true,
+                message: 'Shipping rate deleted successfully',
+                timestamp: new Date()
+            });
+        } catch (error) {
+            logger.error('Error deleting shipping rate:', error);
+            throw error;
+        }
+    }
+
+    private static sendNotFound(res: Response): void {
+        res.status(404).json({
+            success: false,
+            message: 'Shipping rate not found',
+            timestamp: new Date()
+        });
+    }
+
+    private static sendValidationError(res: Response, error: Joi.ValidationError): void {
+        const response: ApiResponse = {
+            success: false,
+            message: 'Validation failed',
+            errors: error.details.map(detail => detail.message),
+            timestamp: new Date()
+        };
+        res.status(400).json(response);
+    }
+}
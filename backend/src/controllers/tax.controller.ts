@@ -0,0 +1,227 @@
+// src/controllers/tax.controller.ts
+import { Request, Response } from 'express';
+import Joi from 'joi';
+import { DatabaseService } from '../Engine/Services/database.service';
+import { TaxService } from '../Engine/Services/tax.service';
+import { logger } from '../utils/logger';
+import { ApiResponse } from '../types';
+
+const taxRuleFields = {
+    name: Joi.string().min(1).max(100),
+    taxType: Joi.string().max(50).pattern(/^[A-Za-z0-9_-]+$/),
+    jurisdiction: Joi.string().max(50).pattern(/^[A-Za-z]{2}(-[A-Za-z0-9]{1,10})?$/).allow(null),
+    categoryId: Joi.string().uuid().allow(null),
+    rate: Joi.number().min(0).max(100).precision(3),
+    isActive: Joi.boolean()
+};
+
+const createTaxRuleSchema = Joi.object({
+    ...taxRuleFields,
+    name: taxRuleFields.name.required(),
+    taxType: taxRuleFields.taxType.required(),
+    rate: taxRuleFields.rate.required()
+});
+
+const updateTaxRuleSchema = Joi.object(taxRuleFields).min(1);
+
+const taxReportSchema = Joi.object({
+    from: Joi.date().iso().required(),
+    to: Joi.date().iso().greater(Joi.ref('from')).required()
+});
+
+const tenantSchema = Joi.string().uuid().optional();
+
+/**
+ * Tax rules of the tenant named in x-tenant-id, and what they collected. Applied
+ * synchronously, like discount codes: orders pick rules up when they are created.
+ */
+export class TaxController {
+    private static databaseService = new DatabaseService();
+    private static taxService = new TaxService(TaxController.databaseService);
+
+    private static async ensureConnected(): Promise<void> {
+        if (!TaxController.databaseService.isConnected()) {
+            await TaxController.databaseService.connect();
+        }
+    }
+
+    public static async getTaxRules(req: Request, res: Response): Promise<void> {
+        try {
+            const { error, value: tenantId } = tenantSchema.validate(req.headers['x-tenant-id']);
+            if (error) {
+                TaxController.sendValidationError(res, error);
+                return;
+            }
+
+            await TaxController.ensureConnected();
+
+            const taxRules = await TaxController.taxService.getTaxRules(tenantId || null);
+
+            res.status(200).json({
+                success: true,
+                data: taxRules,
+                message: 'Tax rules retrieved successfully',
+                timestamp: new Date()
+            });
+        } catch (error) {
+            logger.error('Error getting tax rules:', error);
+            throw error;
+        }
+    }
+
+    public static async getTaxRuleById(req: Request, res: Response): Promise<void> {
+        try {
+            const { error: idError, value: id } = Joi.string().uuid().validate(req.params.id);
+            const { error, value: tenantId } = tenantSchema.validate(req.headers['x-tenant-id']);
+            if (idError || error) {
+                TaxController.sendValidationError(res, (idError || error)!);
+                return;
+            }
+
+            await TaxController.ensureConnected();
+
+            const taxRule = await TaxController.taxService.getTaxRuleById(id, tenantId || null);
+            if (!taxRule) {
+                TaxController.sendNotFound(res);
+                return;
+            }
+
+            res.status(200).json({
+                success: true,
+                data: taxRule,
+                message: 'Tax rule retrieved successfully',
+                timestamp: new Date()
+            });
+        } catch (error) {
+            logger.error('Error getting tax rule:', error);
+            throw error;
+        }
+    }
+
+    public static async createTaxRule(req: Request, res: Response): Promise<void> {
+        try {
+            const { error: tenantError, value: tenantId } = tenantSchema.validate(req.headers['x-tenant-id']);
+            const { error, value } = createTaxRuleSchema.validate(req.body);
+            if (tenantError || error) {
+                TaxController.sendValidationError(res, (tenantError || error)!);
+                return;
+            }
+
+            await TaxController.ensureConnected();
+
+            const taxRule = await TaxController.taxService.createTaxRule(value, tenantId || null);
+
+            res.status(201).json({
+                success: true,
+                data: taxRule,
+                message: 'Tax rule created successfully',
+                timestamp: new Date()
+            });
+        } catch (error) {
+            logger.error('Error creating tax rule:', error);
+            throw error;
+        }
+    }
+
+    public static async updateTaxRule(req: Request, res: Response): Promise<void> {
+        try {
+            const { error: idError, value: id } = Joi.string().uuid().validate(req.params.id);
+            const { error: tenantError, value: tenantId } = tenantSchema.validate(req.headers['x-tenant-id']);
+            const { error, value } = updateTaxRuleSchema.validate(req.body);
+            if (idError || tenantError || error) {
+                TaxController.sendValidationError(res, (idError || tenantError || error)!);
+                return;
+            }
+
+            await TaxController.ensureConnected();
+
+            const taxRule = await TaxController.taxService.updateTaxRule(id, value, tenantId || null);
+            if (!taxRule) {
+                TaxController.sendNotFound(res);
+                return;
+            }
+
+            res.status(200).json({
+                success: true,
+                data: taxRule,
+                message: 'Tax rule updated successfully',
+                timestamp: new Date()
+            });
+        } catch (error) {
+            logger.error('Error updating tax rule:', error);
+            throw error;
+        }
+    }
+
+    public static async deleteTaxRule(req: Request, res: Response): Promise<void> {
+        try {
+            const { error: idError, value: id } = Joi.string().uuid().validate(req.params.id);
+            const { error, value: tenantId } = tenantSchema.validate(req.headers['x-tenant-id']);
+            if (idError || error) {
+                TaxController.sendValidationError(res, (idError || error)!);
+                return;
+            }
+
+            await TaxController.ensureConnected();
+
+            const deleted = await TaxController.taxService.deleteTaxRule(id, tenantId || null);
+            if (!deleted) {
+                TaxController.sendNotFound(res);
+                return;
+            }
+
+            res.status(200).json({
+                success: true,
+                message: 'Tax rule deleted successfully',
+                timestamp: new Date()
+            });
+        } catch (error) {
+            logger.error('Error deleting tax rule:', error);
+            throw error;
+        }
+    }
+
+    // Tax collected per type, rate and jurisdiction on orders placed in [from, to)
+    public static async getTaxReport(req: Request, res: Response): Promise<void> {
+        try {
+            const { error: tenantError, value: tenantId } = tenantSchema.validate(req.headers['x-tenant-id']);
+            const { error, value } = taxReportSchema.validate(req.query);
+            if (tenantError || error) {
+                TaxController.sendValidationError(res, (tenantError || error)!);
+                return;
+            }
+
+            await TaxController.ensureConnected();
+
+            const report = await TaxController.taxService.getTaxReport(tenantId || null, value.from, value.to);
+
+            res.status(200).json({
+                success: true,
+                data: report,
+                message: 'Tax report retrieved successfully',
+                timestamp: new Date()
+            });
+        } catch (error) {
+            logger.error('Error getting tax report:', error);
+            throw error;
+        }
+    }
+
+    private static sendNotFound(res: Response): void {
+        res.status(404).json({
+            success: false,
+            message: 'Tax rule not found',
+            timestamp: new Date()
+        });
+    }
+
+    private static sendValidationError(res: Response, error: Joi.ValidationError): void {
+        const response: ApiResponse = {
+            success: false,
+            message: 'Validation failed',
+            errors: error.details.map(detail => detail.message),
+            timestamp: new Date()
+        };
+        res.status(400).json(response);
+    }
+}
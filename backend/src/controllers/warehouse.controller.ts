@@ -0,0 +1,153 @@
+// src/controllers/warehouse.controller.ts
+import { Request, Response } from 'express';
+import Joi from 'joi';
+import { DatabaseService } from '../Engine/Services/database.service';
+import { WarehouseService } from '../Engine/Services/warehouse.service';
+import { logger } from '../utils/logger';
+import { ApiResponse } from '../types';
+
+const createWarehouseSchema = Joi.object({
+    code: Joi.string().max(50).pattern(/^[A-Za-z0-9_-]+$/).required(),
+    name: Joi.string().min(1).max(200).required(),
+    address: Joi.string().max(1000).allow(null).optional(),
+    priority: Joi.number().integer().min(0).optional()
+});
+
+const updateWarehouseSchema = Joi.object({
+    name: Joi.string().min(1).max(200).optional(),
+    address: Joi.string().max(1000).allow(null).optional(),
+    priority: Joi.number().integer().min(0).optional(),
+    status: Joi.string().valid('ACTIVE', 'INACTIVE').optional()
+}).min(1);
+
+/**
+ * Warehouse reference data. Unlike item and order writes these are applied
+ * synchronously: they change no stock, only where fulfilment routing may look.
+ */
+export class WarehouseController {
+    private static databaseService = new DatabaseService();
+    private static warehouseService = new WarehouseService(WarehouseController.databaseService);
+
+    private static async ensureConnected(): Promise<void> {
+        if (!WarehouseController.databaseService.isConnected()) {
+            await WarehouseController.databaseService.connect();
+        }
+    }
+
+    public static async getWarehouses(req: Request, res: Response): Promise<void> {
+        try {
+            await WarehouseController.ensureConnected();
+
+            const warehouses = await WarehouseController.warehouseService.getWarehouses(req.query.includeInactive === 'true');
+
+            res.status(200).json({
+                success: true,
+                data: warehouses,
+                message: 'Warehouses retrieved successfully',
+                timestamp: new Date()
+            });
+        } catch (error) {
+            logger.error('Error getting warehouses:', error);
+            throw error;
+        }
+    }
+
+    public static async getWarehouseById(req: Request, res: Response): Promise<void> {
+        try {
+            const { error, value: id } = Joi.string().uuid().validate(req.params.id);
+            if (error) {
+                WarehouseController.sendValidationError(res, error);
+                return;
+            }
+
+            await WarehouseController.ensureConnected();
+
+            const warehouse = await WarehouseController.warehouseService.getWarehouseById(id);
+            if (!warehouse) {
+                res.status(404).json({
+                    success: false,
+                    message: 'Warehouse not found',
+                    timestamp: new Date()
+                });
+                return;
+            }
+
+            res.status(200).json({
+                success: true,
+                data: warehouse,
+                message: 'Warehouse retrieved successfully',
+                timestamp: new Date()
+            });
+        } catch (error) {
+            logger.error('Error getting warehouse:', error);
+            throw error;
+        }
+    }
+
+    public static async createWarehouse(req: Request, res: Response): Promise<void> {
+        try {
+            const { error, value } = createWarehouseSchema.validate(req.body);
+            if (error) {
+                WarehouseController.sendValidationError(res, error);
+                return;
+            }
+
+            await WarehouseController.ensureConnected();
+
+            const warehouse = await WarehouseController.warehouseService.createWarehouse(value);
+
+            res.status(201).json({
+                success: true,
+                data: warehouse,
+                message: 'Warehouse created successfully',
+                timestamp: new Date()
+            });
+        } catch (error) {
+            logger.error('Error creating warehouse:', error);
+            throw error;
+        }
+    }
+
+    public static async updateWarehouse(req: Request, res: Response): Promise<void> {
+        try {
+            const { error: idError, value: id } = Joi.string().uuid().validate(req.params.id);
+            const { error, value } = updateWarehouseSchema.validate(req.body);
+            if (idError || error) {
+                WarehouseController.sendValidationError(res, (idError || error)!);
+                return;
+            }
+
+            await WarehouseController.ensureConnected();
+
+            const warehouse = await WarehouseController.warehouseService.updateWarehouse(id, value);
+            if (!warehouse) {
+                res.status(404).json({
+                    success: false,
+                    message: 'Warehouse not found',
+                    timestamp: new Date()
+                });
+                return;
+            }
+
+            res.status(200).json({
+                success: true,
+                data: warehouse,
+                message: 'Warehouse updated successfully',
+                timestamp: new Date()
+            });
+        } catch (error) {
+            logger.error('Error updating warehouse:', error);
+            throw error;
+        }
+    }
+
+    private static sendValidationError(res: Response, error: Joi.ValidationError): void {
+        const response: ApiResponse = {
+            success: false,
+            message: 'Validation failed',
+            errors: error.details.map(detail => detail.message),
+            timestamp: new Date()
+        };
+        res.status(400).json(response);
+    }
+}
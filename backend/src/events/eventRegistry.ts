@@ -0,0 +1,99 @@
+// src/events/eventRegistry.ts
+import { eventDefinitions } from './eventSchemas';
+import { EventDefinition, EventValidationError, KafkaEvent } from '../types';
+
+/**
+ * Single source of truth for event payloads. KafkaService validates on publish and
+ * the Engine upcasts + validates on consume; the event replayer upcasts stored events.
+ */
+export class EventRegistry {
+    private static instance: EventRegistry;
+    private definitions: Map<string, EventDefinition> = new Map();
+
+    private constructor() {
+        for (const definition of eventDefinitions) {
+            this.register(definition);
+        }
+    }
+
+    public static getInstance(): EventRegistry {
+        if (!EventRegistry.instance) {
+            EventRegistry.instance = new EventRegistry();
+        }
+        return EventRegistry.instance;
+    }
+
+    public register(definition: EventDefinition): void {
+        if (this.definitions.has(definition.eventType)) {
+            throw new Error(`Event type ${definition.eventType} is already registered`);
+        }
+        this.definitions.set(definition.eventType, definition);
+    }
+
+    public isRegistered(eventType: string): boolean {
+        return this.definitions.has(eventType);
+    }
+
+    // Renames retired event types and runs upcasters up to the current schema version
+    public upcast(event: KafkaEvent): KafkaEvent {
+        let definition = this.getDefinition(event);
+        let upcasted: KafkaEvent = { ...event };
+
+        while (definition.renamedTo) {
+            upcasted = { ...upcasted, eventType: definition.renamedTo };
+            definition = this.getDefinition(upcasted);
+        }
+
+        let version = upcasted.schemaVersion || 1;
+        let data = upcasted.data;
+
+        if (version > definition.version) {
+            throw new EventValidationError(
+                `${upcasted.eventType} schema version ${version} is newer than supported version ${definition.version}`,
+                upcasted.eventType
+            );
+        }
+
+        while (version < definition.version) {
+            const upcaster = definition.upcasters?.[version];
+            if (!upcaster) {
+                throw new EventValidationError(
+                    `No upcaster for ${upcasted.eventType} from schema version ${version}`,
+                    upcasted.eventType
+                );
+            }
+            data = upcaster(data);
+            version++;
+        }
+
+        return { ...upcasted, data, schemaVersion: version };
+    }
+
+    public validate(event: KafkaEvent): void {
+        const definition = this.getDefinition(event);
+        const { error } = definition.schema.validate(event.data, { abortEarly: false });
+
+        if (error) {
+            throw new EventValidationError(
+                `Invalid ${event.eventType} payload: ${error.message}`,
+                event.eventType,
+                error.details.map(detail => detail.message)
+            );
+        }
+    }
+
+    // Stamps the current schema version on outgoing events and validates them
+    public prepareForPublish(event: KafkaEvent): KafkaEvent {
+        const prepared = this.upcast(event);
+        this.validate(prepared);
+        return prepared;
+    }
+
+    private getDefinition(event: KafkaEvent): EventDefinition {
+        const definition = this.definitions.get(event.eventType);
+        if (!definition) {
+            throw new EventValidationError(`Unknown event type: ${event.eventType}`, event.eventType || 'UNKNOWN');
+        }
+        return definition;
+    }
+}
@@ -0,0 +1,294 @@
+// src/events/eventSchemas.ts - Payload contracts for every event type on the bus
+import Joi from 'joi';
+import {
+    CustomerCommandType,
+    EventDefinition,
+    InventoryEventType,
+    ItemCommandType,
+    ItemQueryType,
+    LegacyItemCommandType,
+    OrderCommandType,
+    OrderPriority,
+    PaymentMethod,
+    ShipmentStatus
+} from '../types';
+
+// Payloads may carry extra fields; only what the Engine relies on is checked
+const payload = (keys: Joi.PartialSchemaMap) => Joi.object(keys).unknown(true);
+
+const id = Joi.string().uuid().required();
+const optionalText = Joi.string().allow('', null);
+const sku = Joi.string().max(100).pattern(/^[A-Za-z0-9._-]+$/);
+const address = Joi.object({
+    street: Joi.string().required(),
+    city: Joi.string().required(),
+    state: Joi.string().allow(''),
+    postalCode: Joi.string().required(),
+    country: Joi.string().required(),
+    phone: optionalText,
+    instructions: optionalText
+});
+
+// Omitted means the whole amount still open
+const paymentAmount = Joi.number().positive().precision(2).allow(null);
+
+// Added by the Engine before a payment command is stored (see CommandDispatcher.prepare)
+const gatewayResult = Joi.object({
+    success: Joi.boolean().required(),
+    transactionId: Joi.string().allow(null).required(),
+    failureReason: Joi.string().allow(null).required(),
+    gateway: Joi.string().required(),
+    amount: Joi.number().positive().required()
+}).allow(null);
+
+const customerFields = {
+    name: Joi.string().min(1).max(255),
+    email: Joi.string().email(),
+    phone: optionalText,
+    address: optionalText,
+    tenantId: optionalText,
+    taxExempt: Joi.boolean()
+};
+
+const itemFields = {
+    customerId: Joi.string().uuid(),
+    name: Joi.string().min(1).max(200),
+    description: optionalText,
+    price: Joi.number().min(0),
+    quantity: Joi.number().integer().min(0),
+    category: optionalText,
+    minStockLevel: Joi.number().integer().min(0),
+    weight: Joi.number().min(0).allow(null),
+    sku: sku.allow(null),
+    warehouseId: Joi.string().uuid().allow(null),
+    categoryId: Joi.string().uuid().allow(null),
+    attributes: Joi.object().pattern(Joi.string(), Joi.string()).min(1),
+    priceOverride: Joi.number().min(0).allow(null)
+};
+
+// Variants take their customer, name and price from the parent item
+const unlessVariant = (schema: Joi.Schema) =>
+    schema.when('parentItemId', { is: Joi.exist(), otherwise: Joi.required() });
+
+const commandSchemas: {
+    customer: Record<CustomerCommandType, Joi.ObjectSchema>;
+    item: Record<ItemCommandType | ItemQueryType, Joi.ObjectSchema>;
+    order: Record<OrderCommandType, Joi.ObjectSchema>;
+} = {
+    customer: {
+        CUSTOMER_CREATE_REQUESTED: payload({
+            id,
+            ...customerFields,
+            name: customerFields.name.required(),
+            email: customerFields.email.required()
+        }),
+        CUSTOMER_UPDATE_REQUESTED: payload({ id, ...customerFields }),
+        CUSTOMER_DELETE_REQUESTED: payload({ id })
+    },
+    item: {
+        ITEM_CREATE_REQUESTED: payload({
+            id,
+            ...itemFields,
+            parentItemId: Joi.string().uuid(),
+            attributes: itemFields.attributes.when('parentItemId', { is: Joi.exist(), then: Joi.required() }),
+            customerId: unlessVariant(itemFields.customerId),
+            name: unlessVariant(itemFields.name),
+            price: unlessVariant(itemFields.price),
+            quantity: itemFields.quantity.required()
+        }),
+        ITEM_UPDATE_REQUESTED: payload({ id, ...itemFields }),
+        ITEM_DELETE_REQUESTED: payload({ id }),
+        ITEM_QUANTITY_UPDATE_REQUESTED: payload({
+            id,
+            quantity: Joi.number().integer().min(0).required(),
+            operation: Joi.string().valid('set', 'add', 'subtract'),
+            warehouseId: Joi.string().uuid().allow(null)
+        }),
+        ITEM_PRICE_SCHEDULE_REQUESTED: payload({
+            id,
+            price: itemFields.price.required(),
+            effectiveFrom: Joi.date().iso().required()
+        }),
+        ITEM_REQUESTED: payload({ id: Joi.string(), itemId: Joi.string() }).or('id', 'itemId'),
+        ITEMS_REQUESTED: payload({ customerId: Joi.string().required() }),
+        ALL_ITEMS_REQUESTED: payload({})
+    },
+    order: {
+        ORDER_CREATE_REQUESTED: payload({
+            id,
+            customerId: Joi.string().uuid().required(),
+            items: Joi.array().min(1).items(payload({
+                itemId: Joi.string().uuid(),
+                sku,
+                quantity: Joi.number().integer().min(1).required(),
+                warehouseId: Joi.string().uuid().allow(null)
+            }).or('itemId', 'sku')).required(),
+            shippingAddress: Joi.alternatives(optionalText, address),
+            priority: Joi.string().valid(...Object.values(OrderPriority)),
+            carrier: Joi.string().max(100).allow('', null),
+            discountCode: Joi.string().max(50).allow('', null),
+            // Added by the Engine when the command is stored (see ResolvedOrder)
+            resolved: payload({
+                orderNumber: Joi.string().required(),
+                orderDate: Joi.date().iso().required(),
+                items: Joi.array().min(1).required(),
+                shipping: Joi.object().required(),
+                totalAmount: Joi.number().min(0).required()
+            })
+        }),
+        ORDER_UPDATE_REQUESTED: payload({ id }),
+        ORDER_CANCEL_REQUESTED: payload({ id, reason: optionalText }),
+        ORDER_DELETE_REQUESTED: payload({ id }),
+        // Written to the event store by the ReservationSweeper, never published
+        ORDER_EXPIRE_REQUESTED: payload({ id }),
+        ORDER_PAYMENT_AUTHORIZE_REQUESTED: payload({
+            id,
+            paymentId: id,
+            amount: paymentAmount,
+            paymentMethod: Joi.string().valid(...Object.values(PaymentMethod)).required(),
+            gatewayResult
+        }),
+        ORDER_PAYMENT_CAPTURE_REQUESTED: payload({ id, paymentId: id, amount: paymentAmount, gatewayResult }),
+        ORDER_PAYMENT_VOID_REQUESTED: payload({ id, paymentId: id, gatewayResult }),
+        ORDER_PAYMENT_REFUND_REQUESTED: payload({ id, paymentId: id, refundId: id, amount: paymentAmount, gatewayResult }),
+        ORDER_SHIPMENT_CREATE_REQUESTED: payload({
+            id,
+            shipments: Joi.array().min(1).items(payload({
+                shipmentId: id,
+                carrier: Joi.string().min(1).max(100).required(),
+                trackingNumber: Joi.string().min(1).max(100).required(),
+                items: Joi.array().min(1).items(payload({
+                    itemId: Joi.string().uuid().required(),
+                    quantity: Joi.number().integer().min(1).required()
+                })),
+                estimatedDelivery: Joi.date().iso().allow(null),
+                shippingCost: Joi.number().min(0),
+                shippingAddress: address.allow(null)
+            })).required()
+        }),
+        ORDER_SHIPMENT_TRACK_REQUESTED: payload({
+            id,
+            shipmentId: id,
+            status: Joi.string().valid(...Object.values(ShipmentStatus)).required(),
+            location: optionalText,
+            description: optionalText,
+            occurredAt: Joi.date().iso()
+        }),
+        ORDER_SHIP_REQUESTED: payload({ id, trackingNumber: optionalText }),
+        ORDER_DELIVER_REQUESTED: payload({ id }),
+        ORDER_RETURN_REQUESTED: payload({ id, reason: optionalText }),
+        ORDER_INSPECT_REQUESTED: payload({
+            id,
+            items: Joi.array().items(payload({
+                itemId: Joi.string().uuid().required(),
+                quantity: Joi.number().integer().min(0).required()
+            })),
+            notes: optionalText
+        })
+    }
+};
+
+const legacyItemCommands: Record<LegacyItemCommandType, ItemCommandType> = {
+    ITEM_CREATED: 'ITEM_CREATE_REQUESTED',
+    ITEM_UPDATED: 'ITEM_UPDATE_REQUESTED',
+    ITEM_DELETED: 'ITEM_DELETE_REQUESTED',
+    ITEM_QUANTITY_UPDATED: 'ITEM_QUANTITY_UPDATE_REQUESTED'
+};
+
+// Engine responses on the update topics (see EventProcessor.applyCommand / handleProcessingError)
+const updateSchema = payload({
+    success: Joi.boolean().required(),
+    data: Joi.any(),
+    error: Joi.any(),
+    errorCode: Joi.string().valid('NOT_FOUND', 'CONFLICT', 'VALIDATION', 'INTERNAL'),
+    originalEventId: Joi.string().required()
+});
+
+// Stock changes published by the InventoryService (see Engine/Services/inventory.service.ts)
+const inventorySchema = payload({
+    itemId: id,
+    orderId: id,
+    reservationId: id,
+    quantity: Joi.number().integer().min(1).required(),
+    status: Joi.string().valid('HELD', 'COMMITTED', 'RELEASED', 'EXPIRED').required(),
+    reason: optionalText,
+    stockQuantity: Joi.number().integer().min(0).required(),
+    reservedQuantity: Joi.number().integer().min(0).required(),
+    availableQuantity: Joi.number().integer().min(0).required()
+});
+
+// Stock put back from a cancelled, returned or undelivered order (see InventoryService.restockForOrder)
+const restockSchema = payload({
+    itemId: id,
+    orderId: id,
+    quantity: Joi.number().integer().min(1).required(),
+    reason: Joi.string().valid('CANCEL', 'RETURN', 'FAILED_DELIVERY').required(),
+    stockQuantity: Joi.number().integer().min(0).required(),
+    reservedQuantity: Joi.number().integer().min(0).required(),
+    availableQuantity: Joi.number().integer().required()
+});
+
+const lowStockAlertSchema = payload({
+    itemId: id,
+    customerId: id,
+    name: Joi.string().required(),
+    previousQuantity: Joi.number().integer().min(0).required(),
+    quantity: Joi.number().integer().min(0).required(),
+    reservedQuantity: Joi.number().integer().min(0).required(),
+    availableQuantity: Joi.number().integer().required(),
+    minStockLevel: Joi.number().integer().min(0).required()
+});
+
+// A scheduled price taking effect (see Engine/Processors/price.scheduler.ts)
+const priceChangedSchema = payload({
+    itemId: id,
+    customerId: id,
+    previousPrice: Joi.number().min(0).required(),
+    price: Joi.number().min(0).required(),
+    effectiveFrom: Joi.date().iso().required()
+});
+
+const inventoryEventTypes: InventoryEventType[] = ['INVENTORY_RESERVED', 'INVENTORY_COMMITTED', 'INVENTORY_RELEASED'];
+
+const deadLetterSchema = payload({
+    id,
+    eventId: Joi.string().required(),
+    eventType: Joi.string().required(),
+    sourceTopic: Joi.string().required(),
+    event: Joi.object().required(),
+    error: Joi.string().allow(''),
+    retryCount: Joi.number().integer().min(0).required(),
+    retryable: Joi.boolean().required()
+});
+
+const commandDefinitions: EventDefinition[] = Object.values(commandSchemas)
+    .flatMap(schemas => Object.entries(schemas))
+    .map(([eventType, schema]) => ({ eventType, version: 1, schema }));
+
+const updateDefinitions: EventDefinition[] = commandDefinitions.flatMap(({ eventType }) => [
+    { eventType: eventType.replace('_REQUESTED', '_COMPLETED'), version: 1, schema: updateSchema },
+    { eventType: eventType.replace('_REQUESTED', '_FAILED'), version: 1, schema: updateSchema }
+]);
+
+const legacyDefinitions: EventDefinition[] = Object.entries(legacyItemCommands)
+    .map(([eventType, renamedTo]) => ({
+        eventType,
+        version: 1,
+        schema: commandSchemas.item[renamedTo],
+        renamedTo
+    }));
+
+/**
+ * Bump `version` and add an upcaster from the previous version whenever a payload
+ * changes shape, so events already in Kafka and the event store keep working.
+ */
+export const eventDefinitions: EventDefinition[] = [
+    ...commandDefinitions,
+    ...updateDefinitions,
+    ...legacyDefinitions,
+    ...inventoryEventTypes.map(eventType => ({ eventType, version: 1, schema: inventorySchema })),
+    { eventType: 'ITEM_RESTOCKED', version: 1, schema: restockSchema },
+    { eventType: 'ITEM_LOW_STOCK_ALERT', version: 1, schema: lowStockAlertSchema },
+    { eventType: 'ITEM_PRICE_CHANGED', version: 1, schema: priceChangedSchema },
+    { eventType: 'EVENT_DEAD_LETTERED', version: 1, schema: deadLetterSchema }
+];
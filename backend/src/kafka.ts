@@ -3,16 +3,29 @@ import { Kafka, Producer, Consumer, EachMessagePayload } from 'kafkajs';
 import { config } from './config/config';
 import { logger } from './utils/logger';
 import { KafkaEvent } from './types';
+import { EventRegistry } from './events/eventRegistry';
 import { v4 as uuidv4 } from 'uuid';
 
+/**
+ * Ordering guarantee: every message is keyed by its aggregate id (customer, item or
+ * order id, see getMessageKey), so all events for one aggregate go to the same
+ * partition and are consumed in the order they were published. There is no ordering
+ * across aggregates. Retries keep it: an event that fails with a retryable error waits
+ * in the event_retries table, and later events with the same ordering key (topic and
+ * aggregate) are queued behind it instead of being processed first (see
+ * RetryQueueService). The guarantee does not survive changing the partition count or
+ * KAFKA_KEY_TENANT_PREFIX, which remaps keys.
+ * Events without an aggregate id fall back to the eventId as key (no ordering).
+ */
 export class KafkaService {
     private static instance: KafkaService;
     private kafka: Kafka;
     private producer: Producer | null = null;
     private consumer: Consumer | null = null;
     private isConnected: boolean = false;
-    private messageHandlers: Map<string, (payload: EachMessagePayload) => Promise<void>> = new Map();
+    private messageHandlers: Map<string, Array<(payload: EachMessagePayload) => Promise<void>>> = new Map();
     private consumerRunning: boolean = false;
+    private eventRegistry: EventRegistry = EventRegistry.getInstance();
 
     private constructor() {
         this.kafka = new Kafka({
@@ -110,14 +123,17 @@ export class KafkaService {
         }
     }
 
+    // Throws EventValidationError (before anything is sent) if the payload breaks its contract
     public async publishEvent(topic: string, event: KafkaEvent): Promise<void> {
         if (!this.producer || !this.isConnected) {
             throw new Error('Kafka producer not connected');
         }
 
+        event = this.eventRegistry.prepareForPublish(event);
+
         try {
             const message = {
-                key: event.eventId,
+                key: this.getMessageKey(event),
                 value: JSON.stringify(event),
                 timestamp: event.timestamp.getTime().toString(),
                 headers: {
@@ -133,7 +149,8 @@ export class KafkaService {
 
             logger.info(`Published event to topic ${topic}:`, {
                 eventId: event.eventId,
-                eventType: event.eventType
+                eventType: event.eventType,
+                key: message.key
             });
         } catch (error) {
             logger.error(`Failed to publish event to topic ${topic}:`, error);
@@ -150,11 +167,15 @@ export class KafkaService {
         }
 
         try {
-            // Subscribe to the topic
-            await this.consumer.subscribe({ topic, fromBeginning: false });
-            
-            // Store the message handler for this topic
-            this.messageHandlers.set(topic, messageHandler);
+            // Several services may listen to the same topic (e.g. WebSocket and operation tracking),
+            // so only subscribe the consumer once and keep every handler
+            const handlers = this.messageHandlers.get(topic);
+            if (handlers) {
+                handlers.push(messageHandler);
+            } else {
+                await this.consumer.subscribe({ topic, fromBeginning: false });
+                this.messageHandlers.set(topic, [messageHandler]);
+            }
 
             logger.info(`Subscribed to topic: ${topic}`);
         } catch (error) {
@@ -183,9 +204,11 @@ export class KafkaService {
                             key: payload.message.key?.toString()
                         });
 
-                        const handler = this.messageHandlers.get(payload.topic);
-                        if (handler) {
-                            await handler(payload);
+                        const handlers = this.messageHandlers.get(payload.topic);
+                        if (handlers) {
+                            for (const handler of handlers) {
+                                await handler(payload);
+                            }
                         } else {
                             logger.warn(`No handler found for topic: ${payload.topic}`);
                         }
@@ -204,10 +227,22 @@ export class KafkaService {
         }
     }
 
+    private getMessageKey(event: KafkaEvent): string {
+        if (!event.aggregateId) {
+            return event.eventId;
+        }
+
+        const tenantId = event.metadata?.tenantId;
+        return config.Kafka.partitioning.tenantPrefix && tenantId
+            ? `${tenantId}:${event.aggregateId}`
+            : event.aggregateId;
+    }
+
     public async publishCustomerEvent(eventType: string, data: any, metadata?: any): Promise<void> {
         const event: KafkaEvent = {
             eventId: uuidv4(),
             eventType,
+            aggregateId: data?.id,
             timestamp: new Date(),
             data,
             metadata
@@ -220,6 +255,7 @@ export class KafkaService {
         const event: KafkaEvent = {
             eventId: uuidv4(),
             eventType,
+            aggregateId: data?.id || data?.itemId,
             timestamp: new Date(),
             data,
             metadata
@@ -232,6 +268,7 @@ export class KafkaService {
         const event: KafkaEvent = {
             eventId: uuidv4(),
             eventType,
+            aggregateId: data?.id,
             timestamp: new Date(),
             data,
             metadata 
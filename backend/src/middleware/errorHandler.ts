@@ -1,7 +1,7 @@
 //errorhandler
 import { Request, Response, NextFunction } from 'express';
 import { logger } from '../utils/logger';
-import { ApiResponse } from '../types';
+import { ApiResponse, EventValidationError } from '../types';
 
 export class AppError extends Error {
     public statusCode: number;
@@ -43,6 +43,26 @@ export const errorHandler = (
         errors = [error.message];
     }
 
+    else if (error.name === 'EventValidationError') {
+        statusCode = 400;
+        message = 'Validation Error';
+        errors = (error as EventValidationError).details.length > 0
+            ? (error as EventValidationError).details
+            : [error.message];
+    }
+
+    else if (error.name === 'NotFoundError') {
+        statusCode = 404;
+        message = 'Not Found';
+        errors = [error.message];
+    }
+
+    else if (error.name === 'ConflictError') {
+        statusCode = 409;
+        message = 'Conflict';
+        errors = [error.message];
+    }
+
     else if (error instanceof SyntaxError && 'body' in error) {
         statusCode = 400;
         message = 'Invalid JSON format';
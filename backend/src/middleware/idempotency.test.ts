@@ -0,0 +1,181 @@
+// idempotency tests
+import { after, before, beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { AddressInfo } from 'net';
+import { Server } from 'http';
+import express from 'express';
+import { idempotency } from './idempotency';
+import { errorHandler } from './errorHandler';
+import { RedisService } from '../cache/redies.service';
+import { IdempotencyRecord } from '../types';
+
+// Redis as far as the middleware uses it; records go through JSON like the real one
+class FakeIdempotencyStore {
+    public records = new Map<string, string>();
+
+    public async reserveIdempotencyKey(record: IdempotencyRecord): Promise<boolean> {
+        if (this.records.has(record.key)) {
+            return false;
+        }
+        this.records.set(record.key, JSON.stringify(record));
+        return true;
+    }
+
+    public async getIdempotencyRecord(key: string): Promise<IdempotencyRecord | null> {
+        const record = this.records.get(key);
+        return record ? JSON.parse(record) : null;
+    }
+
+    public async saveIdempotencyRecord(record: IdempotencyRecord): Promise<boolean> {
+        this.records.set(record.key, JSON.stringify(record));
+        return true;
+    }
+
+    public async releaseIdempotencyKey(key: string): Promise<boolean> {
+        return this.records.delete(key);
+    }
+}
+
+describe('idempotency middleware', () => {
+    const getRedis = RedisService.getInstance;
+    const store = new FakeIdempotencyStore();
+    let server: Server;
+    let baseUrl: string;
+    let calls: number;
+    let release: () => void = () => {};
+
+    before(async () => {
+        RedisService.getInstance = () => store as unknown as RedisService;
+
+        const app = express();
+        app.use(express.json());
+        app.use('/api', idempotency);
+        app.post('/api/orders', async (req, res) => {
+            calls++;
+            if (req.body.wait) {
+                await new Promise<void>(resolve => { release = resolve; });
+            }
+            res.status(req.body.status ?? 202).json({ success: true, data: { call: calls, correlationId: `correlation-${calls}` } });
+        });
+        app.use(errorHandler);
+
+        server = app.listen(0);
+        await new Promise(resolve => server.once('listening', resolve));
+        baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    });
+
+    after(async () => {
+        RedisService.getInstance = getRedis;
+        await new Promise(resolve => server.close(resolve));
+    });
+
+    beforeEach(() => {
+        store.records.clear();
+        calls = 0;
+    });
+
+    function post(body: any, headers: Record<string, string> = {}, path = '/api/orders', signal: AbortSignal | null = null) {
+        return fetch(`${baseUrl}${path}`, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json', ...headers },
+            body: JSON.stringify(body),
+            signal
+        });
+    }
+
+    // The server side of a request finishes after the client has moved on
+    async function until(condition: () => boolean) {
+        for (let attempt = 0; !condition(); attempt++) {
+            assert.ok(attempt < 200, 'Timed out waiting for the server');
+            await new Promise(resolve => setTimeout(resolve, 5));
+        }
+    }
+
+    it('replays the first response for a retry without running the handler again', async () => {
+        const first = await post({ customerId: 'c-1', items: [1, 2] }, { 'Idempotency-Key': 'key-1' });
+        const retry = await post({ items: [1, 2], customerId: 'c-1' }, { 'Idempotency-Key': 'key-1' });
+
+        assert.equal(first.status, 202);
+        assert.equal(retry.status, 202);
+        assert.equal(retry.headers.get('Idempotent-Replayed'), 'true');
+        assert.deepEqual(await retry.json(), await first.json());
+        assert.equal(calls, 1);
+
+        const [record] = [...store.records.values()].map(value => JSON.parse(value));
+        assert.equal(record.status, 'COMPLETED');
+        assert.equal(record.correlationId, 'correlation-1');
+    });
+
+    it('rejects a key reused with a different request', async () => {
+        await post({ customerId: 'c-1' }, { 'Idempotency-Key': 'key-1' });
+        const reused = await post({ customerId: 'c-2' }, { 'Idempotency-Key': 'key-1' });
+
+        assert.equal(reused.status, 409);
+        assert.match((await reused.json()).errors[0], /different request/);
+        assert.equal(calls, 1);
+    });
+
+    it('rejects a retry while the first request is still running', async () => {
+        const first = post({ wait: true }, { 'Idempotency-Key': 'key-1' });
+        while (calls === 0) {
+            await new Promise(resolve => setImmediate(resolve));
+        }
+
+        const retry = await post({ wait: true }, { 'Idempotency-Key': 'key-1' });
+        release();
+
+        assert.equal(retry.status, 409);
+        assert.match((await retry.json()).errors[0], /still being processed/);
+        assert.equal((await first).status, 202);
+        assert.equal(calls, 1);
+    });
+
+    it('keeps the same key apart for different tenants', async () => {
+        await post({ customerId: 'c-1' }, { 'Idempotency-Key': 'key-1', 'x-tenant-id': 'tenant-a' });
+        const other = await post({ customerId: 'c-1' }, { 'Idempotency-Key': 'key-1', 'x-tenant-id': 'tenant-b' });
+
+        assert.equal(other.headers.get('Idempotent-Replayed'), null);
+        assert.equal(calls, 2);
+    });
+
+    it('frees the key after a server error so the client can retry', async () => {
+        const failed = await post({ status: 503 }, { 'Idempotency-Key': 'key-1' });
+        const retry = await post({ status: 503 }, { 'Idempotency-Key': 'key-1' });
+
+        assert.equal(failed.status, 503);
+        assert.equal(retry.headers.get('Idempotent-Replayed'), null);
+        assert.equal(calls, 2);
+    });
+
+    it('frees the key when the response is cut off before it is sent', async () => {
+        const client = new AbortController();
+        const first = post({ wait: true }, { 'Idempotency-Key': 'key-1' }, '/api/orders', client.signal).catch(() => null);
+        await until(() => calls === 1);
+
+        client.abort();
+        await first;
+        await until(() => store.records.size === 0);
+        release();
+
+        const retry = post({ wait: true }, { 'Idempotency-Key': 'key-1' });
+        await until(() => calls === 2);
+        release();
+
+        assert.equal((await retry).status, 202);
+    });
+
+    it('leaves requests without a key alone', async () => {
+        await post({ customerId: 'c-1' });
+        await post({ customerId: 'c-1' });
+
+        assert.equal(calls, 2);
+        assert.equal(store.records.size, 0);
+    });
+
+    it('rejects an overlong key', async () => {
+        const response = await post({}, { 'Idempotency-Key': 'k'.repeat(256) });
+
+        assert.equal(response.status, 400);
+        assert.equal(calls, 0);
+    });
+});
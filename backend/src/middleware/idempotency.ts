@@ -0,0 +1,120 @@
+//idempotency
+import { Request, Response, NextFunction } from 'express';
+import { createHash } from 'crypto';
+import { RedisService } from '../cache/redies.service';
+import { logger } from '../utils/logger';
+import { AppError, asyncHandler } from './errorHandler';
+import { ConflictError, IdempotencyRecord } from '../types';
+
+const IDEMPOTENT_METHODS = ['POST', 'PUT'];
+const MAX_KEY_LENGTH = 255;
+
+// Key order must not change the hash, so objects are serialized with sorted keys
+const stableStringify = (value: any): string => {
+    if (Array.isArray(value)) {
+        return `[${value.map(stableStringify).join(',')}]`;
+    }
+    if (value && typeof value === 'object') {
+        return `{${Object.keys(value).sort().map(key => `${JSON.stringify(key)}:${stableStringify(value[key])}`).join(',')}}`;
+    }
+    return JSON.stringify(value) ?? 'null';
+};
+
+const hashRequest = (req: Request): string => {
+    return createHash('sha256')
+        .update(`${req.method} ${req.baseUrl}${req.path}\n${stableStringify(req.body ?? null)}`)
+        .digest('hex');
+};
+
+// A key only matches retries from the same tenant to the same endpoint
+const scopeKey = (req: Request, idempotencyKey: string): string => {
+    return createHash('sha256')
+        .update(JSON.stringify([req.get('x-tenant-id') || '', req.method, `${req.baseUrl}${req.path}`, idempotencyKey]))
+        .digest('hex');
+};
+
+/**
+ * Idempotency-Key support for POST/PUT. The first response for a key is stored in
+ * Redis and replayed for retries, so a retried write is not published twice. Reusing
+ * a key with a different request, or while the first one is in flight, is a 409.
+ * The response is stored once it has been sent; until then the key is only reserved
+ * for a few minutes, so a request that never completes does not hold it for a day.
+ */
+export const idempotency = asyncHandler(async (req: Request, res: Response, next: NextFunction) => {
+    const idempotencyKey = req.get('Idempotency-Key');
+
+    if (!idempotencyKey || !IDEMPOTENT_METHODS.includes(req.method)) {
+        return next();
+    }
+
+    if (idempotencyKey.length > MAX_KEY_LENGTH) {
+        throw new AppError(`Idempotency-Key must be at most ${MAX_KEY_LENGTH} characters`, 400);
+    }
+
+    const redisService = RedisService.getInstance();
+    const requestHash = hashRequest(req);
+    const scopedKey = scopeKey(req, idempotencyKey);
+    const record: IdempotencyRecord = {
+        key: scopedKey,
+        requestHash,
+        status: 'IN_PROGRESS',
+        createdAt: new Date()
+    };
+
+    if (!(await redisService.reserveIdempotencyKey(record))) {
+        const existing = await redisService.getIdempotencyRecord(scopedKey);
+
+        if (existing && existing.requestHash !== requestHash) {
+            throw new ConflictError('Idempotency-Key was already used with a different request');
+        }
+
+        if (!existing || existing.status !== 'COMPLETED') {
+            throw new ConflictError('A request with this Idempotency-Key is still being processed');
+        }
+
+        logger.info('Replaying idempotent response:', {
+            idempotencyKey,
+            correlationId: existing.correlationId,
+            url: req.originalUrl
+        });
+
+        res.set('Idempotent-Replayed', 'true');
+        res.status(existing.statusCode || 200).json(existing.body);
+        return;
+    }
+
+    let body: any;
+    const originalJson = res.json.bind(res);
+    res.json = (responseBody: any): Response => {
+        body = responseBody;
+        return originalJson(responseBody);
+    };
+
+    let finalised = false;
+    const finalise = () => {
+        if (finalised) {
+            return;
+        }
+        finalised = true;
+
+        // Server errors, timeouts and responses cut off before they were sent are not
+        // final - free the key so the client can retry
+        const store = !res.writableFinished || res.statusCode >= 500 || res.statusCode === 408
+            ? redisService.releaseIdempotencyKey(scopedKey)
+            : redisService.saveIdempotencyRecord({
+                ...record,
+                status: 'COMPLETED',
+                statusCode: res.statusCode,
+                body,
+                // Sync-wait responses carry it at the top level, accepted (202) ones under data
+                correlationId: body?.correlationId ?? body?.data?.correlationId
+            });
+
+        store.catch(error => logger.error('Error storing idempotent response:', { idempotencyKey, error }));
+    };
+
+    res.on('finish', finalise);
+    res.on('close', finalise);
+
+    next();
+});
@@ -0,0 +1,14 @@
+import { Router } from 'express';
+import { asyncHandler } from '../middleware/errorHandler';
+import { DeadLetterController } from '../controllers/deadLetter.controller';
+import { EventStoreController } from '../controllers/eventStore.controller';
+
+const router = Router();
+
+router.get('/dead-letters', asyncHandler(DeadLetterController.getDeadLetters));
+router.get('/dead-letters/:id', asyncHandler(DeadLetterController.getDeadLetterById));
+router.post('/dead-letters/:id/requeue', asyncHandler(DeadLetterController.requeueDeadLetter));
+router.delete('/dead-letters/:id', asyncHandler(DeadLetterController.discardDeadLetter));
+router.get('/events/:aggregateType/:aggregateId', asyncHandler(EventStoreController.getAggregateEvents));
+
+export default router;
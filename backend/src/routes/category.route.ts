@@ -0,0 +1,13 @@
+import { Router } from 'express';
+import { asyncHandler } from '../middleware/errorHandler';
+import { CategoryController } from '../controllers/category.controller';
+
+const router = Router();
+
+router.get('/', asyncHandler(CategoryController.getCategories));
+router.post('/', asyncHandler(CategoryController.createCategory));
+router.get('/:id', asyncHandler(CategoryController.getCategoryById));
+router.put('/:id', asyncHandler(CategoryController.updateCategory));
+router.delete('/:id', asyncHandler(CategoryController.deleteCategory));
+
+export default router;
@@ -0,0 +1,13 @@
+import { Router } from 'express';
+import { asyncHandler } from '../middleware/errorHandler';
+import { DiscountController } from '../controllers/discount.controller';
+
+const router = Router();
+
+router.get('/', asyncHandler(DiscountController.getDiscountCodes));
+router.post('/', asyncHandler(DiscountController.createDiscountCode));
+router.get('/:id', asyncHandler(DiscountController.getDiscountCodeById));
+router.put('/:id', asyncHandler(DiscountController.updateDiscountCode));
+router.delete('/:id', asyncHandler(DiscountController.deleteDiscountCode));
+
+export default router;
@@ -6,10 +6,22 @@ const router = Router();
 
 router.get('/', asyncHandler(itemController.getAllItems));
 router.post('/', asyncHandler(itemController.createCustomerItem));
+router.get('/low-stock', asyncHandler(itemController.getLowStockItems));
+router.get('/sku/:sku', asyncHandler(itemController.getCustomerItemBySku));
+router.post('/import', asyncHandler(itemController.importItems));
+router.get('/import/:jobId', asyncHandler(itemController.getImportJob));
+router.get('/export', asyncHandler(itemController.exportItems));
 router.get('/item/:id', asyncHandler(itemController.getCustomerItemById));
 router.put('/item/:id', asyncHandler(itemController.updateCustomerItem));
 router.patch('/item/:id/quantity', asyncHandler(itemController.updateItemQuantity));
 router.delete('/item/:id', asyncHandler(itemController.deleteCustomerItem));
+router.get('/item/:id/movements', asyncHandler(itemController.getStockMovements));
+router.get('/item/:id/stock', asyncHandler(itemController.getStockAsOf));
+router.get('/item/:id/prices', asyncHandler(itemController.getPriceHistory));
+router.post('/item/:id/prices', asyncHandler(itemController.scheduleItemPrice));
+router.get('/item/:id/price', asyncHandler(itemController.getPriceAt));
+router.get('/item/:id/variants', asyncHandler(itemController.getItemVariants));
+router.post('/item/:id/variants', asyncHandler(itemController.createItemVariant));
 
 router.get('/customer/:customerId', asyncHandler(itemController.getCustomerItems));
 
@@ -0,0 +1,9 @@
+import { Router } from 'express';
+import { asyncHandler } from '../middleware/errorHandler';
+import { OperationController } from '../controllers/operation.controller';
+
+const router = Router();
+
+router.get('/:correlationId', asyncHandler(OperationController.getOperation));
+
+export default router;
@@ -7,6 +7,8 @@ const router = Router();
  
 router.post('/', asyncHandler(OrderController.createOrder));
 
+router.post('/quote', asyncHandler(OrderController.quoteOrder));
+
 router.get('/', asyncHandler(OrderController.getAllOrders));
 
 router.get('/customer/:customerId', asyncHandler(OrderController.getOrdersByCustomerId));
@@ -18,6 +20,32 @@ router.put('/:id', asyncHandler(OrderController.updateOrder));
 
 router.post('/:id/cancel', asyncHandler(OrderController.cancelOrder));
 
+router.get('/:id/payments', asyncHandler(OrderController.getOrderPayments));
+
+router.post('/:id/payments', asyncHandler(OrderController.authorizePayment));
+
+router.post('/:id/payments/:paymentId/capture', asyncHandler(OrderController.capturePayment));
+
+router.post('/:id/payments/:paymentId/void', asyncHandler(OrderController.voidPayment));
+
+router.post('/:id/payments/:paymentId/refund', asyncHandler(OrderController.refundPayment));
+
+router.post('/:id/ship', asyncHandler(OrderController.shipOrder));
+
+router.get('/:id/shipments', asyncHandler(OrderController.getOrderShipments));
+
+router.post('/:id/shipments', asyncHandler(OrderController.createShipment));
+
+router.post('/:id/shipments/split', asyncHandler(OrderController.splitShipments));
+
+router.post('/:id/shipments/:shipmentId/tracking', asyncHandler(OrderController.trackShipment));
+
+router.post('/:id/deliver', asyncHandler(OrderController.deliverOrder));
+
+router.post('/:id/return', asyncHandler(OrderController.returnOrder));
+
+router.post('/:id/inspect', asyncHandler(OrderController.inspectOrder));
+
 router.delete('/:id', asyncHandler(OrderController.deleteOrder));
 
 export default router; 
\ No newline at end of file
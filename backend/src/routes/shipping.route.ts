@@ -0,0 +1,13 @@
+import { Router } from 'express';
+import { asyncHandler } from '../middleware/errorHandler';
+import { ShippingRateController } from '../controllers/shippingRate.controller';
+
+const router = Router();
+
+router.get('/rates', asyncHandler(ShippingRateController.getShippingRates));
+router.post('/rates', asyncHandler(ShippingRateController.createShippingRate));
+router.get('/rates/:id', asyncHandler(ShippingRateController.getShippingRateById));
+router.put('/rates/:id', asyncHandler(ShippingRateController.updateShippingRate));
+router.delete('/rates/:id', asyncHandler(ShippingRateController.deleteShippingRate));
+
+export default router;
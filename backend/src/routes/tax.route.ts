@@ -0,0 +1,14 @@
+import { Router } from 'express';
+import { asyncHandler } from '../middleware/errorHandler';
+import { TaxController } from '../controllers/tax.controller';
+
+const router = Router();
+
+router.get('/rules', asyncHandler(TaxController.getTaxRules));
+router.post('/rules', asyncHandler(TaxController.createTaxRule));
+router.get('/rules/:id', asyncHandler(TaxController.getTaxRuleById));
+router.put('/rules/:id', asyncHandler(TaxController.updateTaxRule));
+router.delete('/rules/:id', asyncHandler(TaxController.deleteTaxRule));
+router.get('/report', asyncHandler(TaxController.getTaxReport));
+
+export default router;
@@ -0,0 +1,12 @@
+import { Router } from 'express';
+import { asyncHandler } from '../middleware/errorHandler';
+import { WarehouseController } from '../controllers/warehouse.controller';
+
+const router = Router();
+
+router.get('/', asyncHandler(WarehouseController.getWarehouses));
+router.post('/', asyncHandler(WarehouseController.createWarehouse));
+router.get('/:id', asyncHandler(WarehouseController.getWarehouseById));
+router.put('/:id', asyncHandler(WarehouseController.updateWarehouse));
+
+export default router;
@@ -1,5 +1,6 @@
 // src/server.ts - Updated with Redis Integration
 import express from 'express';
+import { createServer } from 'http';
 import cors from 'cors';
 import helmet from 'helmet';
 import compression from 'compression';
@@ -8,19 +9,31 @@ import { logger } from './utils/logger';
 import { KafkaService } from './kafka';
 import { Engine } from './Engine/Engine';
 import { RedisService } from './cache/redies.service'; // NEW
+import { OperationService } from './Engine/Services/operation.service';
+import { WebSocketService } from './Engine/Services/websocket.service';
 import { errorHandler } from './middleware/errorHandler';
 import { requestLogger } from './middleware/requestLogger';
+import { idempotency } from './middleware/idempotency';
 
 // Import routes
 import customerRoutes from './routes/customer.route';
 import orderRoutes from './routes/order.route';
 import itemsRoutes from './routes/items.route';
+import operationRoutes from './routes/operation.route';
+import adminRoutes from './routes/admin.route';
+import warehouseRoutes from './routes/warehouse.route';
+import categoryRoutes from './routes/category.route';
+import discountRoutes from './routes/discount.route';
+import taxRoutes from './routes/tax.route';
+import shippingRoutes from './routes/shipping.route';
 
 class App {
     public app: express.Application;
     private kafkaService: KafkaService;
     private engine: Engine;
     private redisService: RedisService;
+    private operationService: OperationService;
+    private webSocketService: WebSocketService;
     private isSystemReady: boolean = false;
 
     constructor() {
@@ -28,6 +41,8 @@ class App {
         this.kafkaService = KafkaService.getInstance();
         this.engine = Engine.getInstance();
         this.redisService = RedisService.getInstance(); // NEW
+        this.operationService = OperationService.getInstance();
+        this.webSocketService = WebSocketService.getInstance();
         this.initializeMiddlewares();
         this.initializeRoutes();
         this.initializeErrorHandling();
@@ -40,7 +55,8 @@ class App {
             origin: process.env.ALLOWED_ORIGINS?.split(',') || ['http://localhost:3000', 'http://localhost:3001'],
             credentials: true,
             methods: ['GET', 'POST', 'PUT', 'DELETE', 'PATCH', 'OPTIONS'],
-            allowedHeaders: ['Content-Type', 'Authorization', 'x-user-id', 'x-tenant-id', 'x-correlation-id']
+            allowedHeaders: ['Content-Type', 'Authorization', 'x-user-id', 'x-tenant-id', 'x-correlation-id', 'Prefer', 'Idempotency-Key'],
+            exposedHeaders: ['Preference-Applied', 'Idempotent-Replayed']
         }));
 
         this.app.use(compression());
@@ -53,6 +69,11 @@ class App {
             extended: true,
             limit: config.api.maxRequestSize
         }));
+        // Bulk item import takes the CSV file as the raw request body
+        this.app.use(express.text({
+            type: 'text/csv',
+            limit: config.api.maxRequestSize
+        }));
 
         this.app.use(requestLogger);
 
@@ -99,6 +120,7 @@ class App {
                     eventProcessor: engineStatus.eventProcessor ? 'healthy' : 'unhealthy',
                     database: engineStatus.services?.database ? 'healthy' : 'unhealthy'
                 },
+                eventMetrics: engineStatus.metrics,
                 systemReady: this.isSystemReady
             });
         });
@@ -167,7 +189,15 @@ class App {
                 endpoints: {
                     customers: '/api/customers',
                     customerItems: '/api/items',
-                    orders: '/api/orders'
+                    orders: '/api/orders',
+                    warehouses: '/api/warehouses',
+                    categories: '/api/categories',
+                    discounts: '/api/discounts',
+                    taxes: '/api/taxes',
+                    shipping: '/api/shipping',
+                    operations: '/api/operations/:correlationId',
+                    deadLetters: '/api/admin/dead-letters',
+                    events: '/api/admin/events/:aggregateType/:aggregateId'
                 },
                 monitoring: {
                     health: '/health',
@@ -179,14 +209,22 @@ class App {
         });
 
         // Route validation
-        if (!customerRoutes || !itemsRoutes || !orderRoutes) {
+        if (!customerRoutes || !itemsRoutes || !orderRoutes || !operationRoutes || !adminRoutes || !warehouseRoutes || !categoryRoutes || !discountRoutes || !taxRoutes || !shippingRoutes) {
             logger.error('Route modules failed to load properly');
             throw new Error('Route modules not loaded');
         }
 
+        this.app.use('/api', idempotency);
         this.app.use('/api/customers', customerRoutes);
         this.app.use('/api/items', itemsRoutes);
         this.app.use('/api/orders', orderRoutes);
+        this.app.use('/api/warehouses', warehouseRoutes);
+        this.app.use('/api/categories', categoryRoutes);
+        this.app.use('/api/discounts', discountRoutes);
+        this.app.use('/api/taxes', taxRoutes);
+        this.app.use('/api/shipping', shippingRoutes);
+        this.app.use('/api/operations', operationRoutes);
+        this.app.use('/api/admin', adminRoutes);
 
         logger.info('Routes initialized successfully');
 
@@ -218,6 +256,12 @@ class App {
             await this.kafkaService.connect();
             logger.info('Kafka service initialized successfully');
 
+            // Operation tracking and the WebSocket push listen on the update topics, so
+            // they must subscribe before the Engine starts the shared consumer
+            const server = createServer(this.app);
+            await this.operationService.initialize();
+            await this.webSocketService.initialize(server);
+
             // Step 3: Start Engine (Event Processor)
             logger.info('Step 3: Starting Engine (Event Processor)...');
             await this.engine.start();
@@ -236,7 +280,7 @@ class App {
 
             // Step 6: Start API Server
             logger.info('Step 6: Starting API Server...');
-            const server = this.app.listen(config.port, () => {
+            server.listen(config.port, () => {
                 logger.info('SYSTEM STARTUP COMPLETE!', {
                     port: config.port,
                     environment: config.nodeEnv,
@@ -262,13 +306,15 @@ class App {
                     apiInfo: `http://localhost:${config.port}/api`,
                     healthCheck: `http://localhost:${config.port}/health`,
                     readinessCheck: `http://localhost:${config.port}/ready`,
-                    cacheStats: `http://localhost:${config.port}/cache/stats`
+                    cacheStats: `http://localhost:${config.port}/cache/stats`,
+                    webSocket: `ws://localhost:${config.port}/ws`
                 });
 
                 logger.info('Available Endpoints:', {
                     customers: `http://localhost:${config.port}/api/customers`,
                     items: `http://localhost:${config.port}/api/items`,
-                    orders: `http://localhost:${config.port}/api/orders`
+                    orders: `http://localhost:${config.port}/api/orders`,
+                    operations: `http://localhost:${config.port}/api/operations/:correlationId`
                 });
 
                 logger.info('System Flow:', {
@@ -331,6 +377,9 @@ class App {
             await this.engine.stop();
             logger.info('Engine stopped successfully');
 
+            // Close WebSocket clients before the update topics go away
+            await this.webSocketService.shutdown();
+
             // Disconnect Redis
             logger.info('Disconnecting Redis...');
             await this.redisService.disconnect();
@@ -0,0 +1,60 @@
+// src/testing/fakeDatabase.ts
+import { DatabaseService } from '../Engine/Services/database.service';
+
+export interface RecordedQuery {
+    text: string;
+    params: any[];
+}
+
+type QueryResult = { rows: any[]; rowCount: number };
+type Responder = (params: any[], text: string) => any[] | QueryResult;
+
+/**
+ * Stands in for DatabaseService in tests. Every query is recorded and answered by
+ * the most recently added responder whose pattern matches its text; anything else
+ * returns no rows. Transactions run their callback on a client that answers the same
+ * way, so services behave as they would inside one.
+ */
+export class FakeDatabase {
+    public queries: RecordedQuery[] = [];
+    // Above 0 while a transaction callback runs
+    public transactionDepth = 0;
+    private responders: { pattern: RegExp; respond: Responder }[] = [];
+    private client = { query: (text: string, params?: any[]) => this.executeQuery(text, params) };
+
+    // Fixed rows, or a function of the query's parameters
+    public on(pattern: RegExp, respond: Responder | any[]): this {
+        this.responders.unshift({ pattern, respond: Array.isArray(respond) ? () => respond : respond });
+        return this;
+    }
+
+    public async executeQuery<T = any>(text: string, params: any[] = []): Promise<{ rows: T[]; rowCount: number }> {
+        this.queries.push({ text, params });
+
+        const responder = this.responders.find(({ pattern }) => pattern.test(text));
+        const result = responder ? responder.respond(params, text) : [];
+        return Array.isArray(result) ? { rows: result, rowCount: result.length } : result;
+    }
+
+    public async executeTransaction<T>(callback: (client: any) => Promise<T>): Promise<T> {
+        this.transactionDepth++;
+        try {
+            return await callback(this.client);
+        } finally {
+            this.transactionDepth--;
+        }
+    }
+
+    public async isEventProcessed(): Promise<boolean> {
+        return false;
+    }
+
+    // Recorded queries whose text matches, in the order they ran
+    public find(pattern: RegExp): RecordedQuery[] {
+        return this.queries.filter(query => pattern.test(query.text));
+    }
+
+    public asService(): DatabaseService {
+        return this as unknown as DatabaseService;
+    }
+}
@@ -1,4 +1,5 @@
 // types/index.ts - Complete Enhanced Types
+import { ObjectSchema } from 'joi';
 
 // Base entity interface for all entities
 export interface BaseEntity {
@@ -15,6 +16,7 @@ export interface Customer extends BaseEntity {
     phone?: string | undefined;
     address?: string | undefined;
     status: 'ACTIVE' | 'INACTIVE' | 'SUSPENDED';
+    taxExempt?: boolean; // Orders for the customer are not taxed
 }
 
 export interface CreateCustomerRequest {
@@ -23,6 +25,7 @@ export interface CreateCustomerRequest {
     phone?: string;
     address?: string;
     tenantId?: string;
+    taxExempt?: boolean;
 }
 
 export interface UpdateCustomerRequest {
@@ -31,6 +34,7 @@ export interface UpdateCustomerRequest {
     phone?: string;
     address?: string;
     status?: 'ACTIVE' | 'INACTIVE' | 'SUSPENDED';
+    taxExempt?: boolean;
 }
 
 // Customer Item interfaces
@@ -40,9 +44,19 @@ export interface CustomerItem extends BaseEntity {
     description?: string | undefined;
     price: number;
     quantity: number;
-    category?: string | undefined;
+    reservedQuantity?: number | undefined; // Held by pending orders, still part of quantity
+    availableQuantity?: number | undefined; // quantity - reservedQuantity
+    category?: string | undefined; // Free-text label; the category's name when categoryId is set
+    categoryId?: string | null | undefined;
     status: 'ACTIVE' | 'INACTIVE' | 'OUT_OF_STOCK';
     minStockLevel?: number | undefined; // For inventory alerts
+    weight?: number | null | undefined; // Per unit, in kg; used by weight-banded shipping rates
+    sku?: string | undefined; // Unique per tenant
+    parentItemId?: string | undefined; // Set on variants; the parent groups them and holds no stock
+    attributes?: ItemAttributes | undefined; // Variant attributes, e.g. { size: 'M', colour: 'red' }
+    priceOverride?: number | null | undefined; // Variant price; null inherits the parent's price
+    variants?: CustomerItem[] | undefined; // On parents in item lists
+    locations?: StockLocation[] | undefined; // Per-warehouse split of quantity on item reads
 }
 
 export interface CreateCustomerItemRequest {
@@ -52,8 +66,26 @@ export interface CreateCustomerItemRequest {
     price: number;
     quantity: number;
     category?: string;
+    categoryId?: string;
     minStockLevel?: number;
+    weight?: number;
     tenantId?: string;
+    sku?: string;
+    warehouseId?: string; // Where the initial stock is; the default warehouse when omitted
+}
+
+export type ItemAttributes = Record<string, string>;
+
+// A size/colour/... combination of an existing item, which becomes its parent
+export interface CreateItemVariantRequest {
+    attributes: ItemAttributes;
+    quantity: number;
+    price?: number; // Overrides the parent's price
+    name?: string; // Defaults to the parent's name with the attribute values
+    sku?: string;
+    minStockLevel?: number;
+    weight?: number; // Defaults to the parent's weight
+    warehouseId?: string;
 }
 
 export interface UpdateCustomerItemRequest {
@@ -62,8 +94,13 @@ export interface UpdateCustomerItemRequest {
     price?: number;
     quantity?: number;
     category?: string;
+    categoryId?: string | null;
     status?: 'ACTIVE' | 'INACTIVE' | 'OUT_OF_STOCK';
     minStockLevel?: number;
+    weight?: number | null;
+    sku?: string | null;
+    attributes?: ItemAttributes;
+    priceOverride?: number | null;
 }
 
 // Order interfaces
@@ -80,8 +117,16 @@ export interface Order extends BaseEntity {
     discount: number;
     taxAmount: number;
     shippingCost: number;
+    shippingRateId?: string | null;
+    shippingCarrier?: string | null;
+    shippingServiceLevel?: ShippingServiceLevel | null;
     orderNumber: string;
     priority: OrderPriority;
+    restockStatus?: RestockStatus | null;
+    payments?: OrderPayment[];
+    shipments?: OrderShipment[];
+    discounts?: OrderDiscount[];
+    taxes?: OrderTax[];
 }
 
 export interface OrderItem {
@@ -95,32 +140,55 @@ export interface OrderItem {
     discountAmount: number;
     taxAmount: number;
     sku: string | null;
+    warehouseId?: string | null;
+    attributes?: ItemAttributes | null; // The variant ordered, as it was at order time
 }
 
 export interface CreateOrderRequest {
+    id?: string;
     status: OrderStatus;
     customerId: string;
     items: CreateOrderItemRequest[];
     notes: string | null;
     deliveryDate: Date | null;
-    shippingAddress: string | null;
+    shippingAddress: OrderAddress | string | null; // Stored as text; see utils/address
     tenantId: string | null;
     priority: OrderPriority;
     discountCode: string | null;
+    carrier: string | null; // Prices shipping with this carrier's rates; any carrier when null
     specialInstructions: string | null;
+    resolved?: ResolvedOrder; // Set on stored commands; see ResolvedOrder
+}
+
+// What createOrder worked out for a new order: its number, date, priced and routed
+// lines, shipping, discount, tax and reservation expiry. It is stored with the create
+// command, and a replay applies it as it was instead of working it out again.
+export interface ResolvedOrder {
+    orderNumber: string;
+    orderDate: Date;
+    items: OrderItem[];
+    shipping: ShippingQuote;
+    discountAmount: number;
+    taxAmount: number;
+    totalAmount: number;
+    discounts: OrderDiscount[];
+    taxes: OrderTax[];
+    reservationExpiresAt: Date | null;
 }
 
+// Lines name the item by itemId or by its SKU in the customer's tenant
 export interface CreateOrderItemRequest {
-    itemId: string;
+    itemId?: string;
+    sku?: string;
     quantity: number;
     specialInstructions: string | null;
+    warehouseId?: string | null; // Source location; picked by fulfilment routing when omitted
 }
 
 export interface UpdateOrderRequest {
     status: OrderStatus | null;
     deliveryDate: Date | null;
     notes: string | null;
-    paymentStatus: PaymentStatus | null;
     shippingAddress: string | null;
     priority: OrderPriority | null;
     trackingNumber: string | null;
@@ -171,17 +239,23 @@ export interface OrderStatusHistory {
     notes: string | null;
 }
 
+// One authorization against an order: amount is what was authorized, capturedAmount
+// what was taken of it and refundAmount what has been given back since
 export interface OrderPayment {
     id: string;
     orderId: string;
     amount: number;
+    capturedAmount: number;
     paymentMethod: PaymentMethod;
     paymentStatus: PaymentStatus;
+    gateway: string;
     transactionId: string | null;
     processedAt: Date | null;
     failureReason: string | null;
     refundAmount: number;
     refundedAt: Date | null;
+    createdAt: Date;
+    updatedAt: Date;
 }
 
 export enum PaymentMethod {
@@ -195,6 +269,46 @@ export enum PaymentMethod {
     CRYPTOCURRENCY = 'CRYPTOCURRENCY'
 }
 
+export interface AuthorizePaymentRequest {
+    paymentId: string;
+    amount?: number;
+    paymentMethod: PaymentMethod;
+}
+
+export interface GatewayAuthorization {
+    // Idempotency key: gateways answer a repeated reference with the original outcome
+    reference: string;
+    amount: number;
+    paymentMethod: PaymentMethod;
+    orderId: string;
+}
+
+export interface GatewayResult {
+    success: boolean;
+    transactionId: string | null;
+    failureReason: string | null;
+}
+
+// A gateway call's outcome as stored with its payment command (data.gatewayResult)
+export interface RecordedGatewayResult extends GatewayResult {
+    gateway: string;
+    amount: number;
+}
+
+/**
+ * Adapter to a payment provider. Calls are made before the command's transaction and
+ * must be idempotent per reference: a command that fails afterwards is retried and
+ * calls again. Replays record the stored outcome and never call.
+ */
+export interface PaymentGateway {
+    readonly name: string;
+    authorize(request: GatewayAuthorization): Promise<GatewayResult>;
+    capture(transactionId: string, amount: number, reference: string): Promise<GatewayResult>;
+    void(transactionId: string, reference: string): Promise<GatewayResult>;
+    refund(transactionId: string, amount: number, reference: string): Promise<GatewayResult>;
+}
+
+// A parcel carrying all or part of an order; shippingAddress is null when it goes to the order's address
 export interface OrderShipment {
     id: string;
     orderId: string;
@@ -204,8 +318,45 @@ export interface OrderShipment {
     estimatedDelivery: Date | null;
     actualDelivery: Date | null;
     shippingCost: number;
-    shippingAddress: OrderAddress;
+    shippingAddress: OrderAddress | null;
+    status: ShipmentStatus;
+    items: ShipmentItem[];
+    history: ShipmentTrackingEvent[];
+    createdAt: Date;
+    updatedAt: Date;
+}
+
+export interface ShipmentItem {
+    itemId: string;
+    quantity: number;
+}
+
+// One carrier scan; the latest by occurredAt is the shipment's status
+export interface ShipmentTrackingEvent {
+    id: string;
+    shipmentId: string;
     status: ShipmentStatus;
+    location: string | null;
+    description: string | null;
+    occurredAt: Date;
+    createdAt: Date;
+}
+
+export interface CreateShipmentRequest {
+    shipmentId?: string;
+    carrier: string;
+    trackingNumber: string;
+    items?: ShipmentItem[]; // Everything not yet in a shipment when omitted
+    estimatedDelivery?: Date | null;
+    shippingCost?: number;
+    shippingAddress?: OrderAddress | null;
+}
+
+export interface ShipmentTrackingUpdate {
+    status: ShipmentStatus;
+    location?: string | null;
+    description?: string | null;
+    occurredAt?: Date;
 }
 
 export enum ShipmentStatus {
@@ -230,9 +381,11 @@ export interface OrderAddress {
     instructions: string | null;
 }
 
+// A code as applied to an order, kept as it was even if the code later changes or goes
 export interface OrderDiscount {
     id: string;
     orderId: string;
+    discountCodeId: string | null;
     discountCode: string;
     discountType: DiscountType;
     discountValue: number;
@@ -240,6 +393,60 @@ export interface OrderDiscount {
     description: string;
 }
 
+// A tenant's promotion code. Codes match case-insensitively; null limits and
+// windows are unbounded, and an empty eligibleCustomerIds lets every customer use it
+export interface DiscountCode {
+    id: string;
+    tenantId: string | null;
+    code: string;
+    description: string | null;
+    discountType: DiscountType;
+    discountValue: number; // Percent for PERCENTAGE, money for FIXED_AMOUNT, unused otherwise
+    validFrom: Date | null;
+    validUntil: Date | null;
+    usageLimit: number | null;
+    perCustomerLimit: number | null;
+    minOrderValue: number;
+    eligibleCustomerIds: string[];
+    isActive: boolean;
+    timesUsed?: number; // Orders using it, cancelled ones excepted
+    createdAt: Date;
+    updatedAt: Date;
+}
+
+export interface CreateDiscountCodeRequest {
+    code: string;
+    description?: string | null;
+    discountType: DiscountType;
+    discountValue?: number;
+    validFrom?: Date | null;
+    validUntil?: Date | null;
+    usageLimit?: number | null;
+    perCustomerLimit?: number | null;
+    minOrderValue?: number;
+    eligibleCustomerIds?: string[];
+    isActive?: boolean;
+}
+
+export type UpdateDiscountCodeRequest = Partial<CreateDiscountCodeRequest>;
+
+// The order a code is being applied to, priced but not yet discounted
+export interface DiscountContext {
+    tenantId: string | null;
+    customerId: string;
+    lines: OrderItem[];
+    shippingCost: number;
+    at: Date;
+}
+
+// What a code takes off an order: per line, in line order, and off shipping
+export interface DiscountApplication {
+    discountCode: DiscountCode;
+    lineDiscounts: number[];
+    shippingDiscount: number;
+    appliedAmount: number;
+}
+
 export enum DiscountType {
     PERCENTAGE = 'PERCENTAGE',
     FIXED_AMOUNT = 'FIXED_AMOUNT',
@@ -247,15 +454,149 @@ export enum DiscountType {
     FREE_SHIPPING = 'FREE_SHIPPING'
 }
 
+// One tax charged on an order: per rule, over every line the rule applied to
 export interface OrderTax {
     id: string;
     orderId: string;
+    taxRuleId: string | null; // Null for the default rate
     taxType: string;
+    jurisdiction: string | null;
     taxRate: number;
     taxAmount: number;
     taxableAmount: number;
 }
 
+// A tax rate in percent. Null jurisdiction or category matches any; per tax type the
+// most specific matching rule applies (jurisdiction first, then category), and rules
+// of different types add up. A category rule covers the category's whole subtree
+export interface TaxRule {
+    id: string;
+    tenantId: string | null;
+    name: string;
+    taxType: string;
+    jurisdiction: string | null; // "DE", or "US-CA" for a region
+    categoryId: string | null;
+    rate: number;
+    isActive: boolean;
+    createdAt: Date;
+    updatedAt: Date;
+}
+
+export interface CreateTaxRuleRequest {
+    name: string;
+    taxType: string;
+    jurisdiction?: string | null;
+    categoryId?: string | null;
+    rate: number;
+    isActive?: boolean;
+}
+
+export type UpdateTaxRuleRequest = Partial<CreateTaxRuleRequest>;
+
+// The order being taxed: discounted lines, with each line's item category in line order
+export interface TaxContext {
+    tenantId: string | null;
+    taxExempt: boolean;
+    shippingAddress: OrderAddress | string | null;
+    lines: OrderItem[];
+    categoryIds: (string | null)[];
+}
+
+export interface TaxCalculation {
+    lineTaxes: number[];
+    breakdown: Omit<OrderTax, 'id' | 'orderId'>[];
+}
+
+// Tax collected per type and rate over a period
+export interface TaxReportRow {
+    taxType: string;
+    taxRate: number;
+    jurisdiction: string | null;
+    orderCount: number;
+    taxableAmount: number;
+    taxAmount: number;
+}
+
+export enum ShippingServiceLevel {
+    STANDARD = 'STANDARD',
+    EXPRESS = 'EXPRESS' // Used for URGENT orders
+}
+
+// What a shipping rate's band is measured in: total weight in kg or number of units
+export enum ShippingRateBasis {
+    WEIGHT = 'WEIGHT',
+    QUANTITY = 'QUANTITY'
+}
+
+// Shipping for orders whose weight or unit count falls in [minValue, maxValue): baseCost
+// plus perUnitCost per kg or unit, free from freeShippingThreshold of order subtotal.
+// Null zone or carrier matches any; zones are jurisdiction codes as for TaxRule
+export interface ShippingRate {
+    id: string;
+    tenantId: string | null;
+    name: string;
+    carrier: string | null;
+    zone: string | null;
+    serviceLevel: ShippingServiceLevel;
+    basis: ShippingRateBasis;
+    minValue: number;
+    maxValue: number | null;
+    baseCost: number;
+    perUnitCost: number;
+    freeShippingThreshold: number | null;
+    isActive: boolean;
+    createdAt: Date;
+    updatedAt: Date;
+}
+
+export interface CreateShippingRateRequest {
+    name: string;
+    carrier?: string | null;
+    zone?: string | null;
+    serviceLevel?: ShippingServiceLevel;
+    basis: ShippingRateBasis;
+    minValue?: number;
+    maxValue?: number | null;
+    baseCost: number;
+    perUnitCost?: number;
+    freeShippingThreshold?: number | null;
+    isActive?: boolean;
+}
+
+export type UpdateShippingRateRequest = Partial<CreateShippingRateRequest>;
+
+// The order being shipped, measured before discounts
+export interface ShippingContext {
+    tenantId: string | null;
+    shippingAddress: OrderAddress | string | null;
+    priority: OrderPriority;
+    carrier: string | null;
+    subtotal: number;
+    quantity: number;
+    weight: number;
+}
+
+export interface ShippingQuote {
+    shippingRateId: string | null; // Null for the default rates
+    carrier: string | null;
+    zone: string | null;
+    serviceLevel: ShippingServiceLevel;
+    cost: number;
+}
+
+// An order priced as it would be created now, without creating it
+export interface OrderQuote {
+    customerId: string;
+    items: OrderItem[];
+    subtotal: number;
+    shipping: ShippingQuote;
+    discountCode: string | null;
+    discountAmount: number;
+    taxes: TaxCalculation['breakdown'];
+    taxAmount: number;
+    totalAmount: number;
+}
+
 export interface OrderAnalytics {
     totalOrders: number;
     totalRevenue: number;
@@ -331,78 +672,56 @@ export interface KafkaEventMetadata {
 export interface KafkaEvent {
     eventId: string;
     eventType: string;
+    schemaVersion?: number | undefined; // Payload schema version, see src/events (missing = 1)
+    aggregateId?: string | undefined; // Customer, item or order id; used as the message key
     timestamp: Date;
     data: any;
     metadata?: KafkaEventMetadata;
 }
 
-// Specific event types for better type safety
-export type CustomerEventType = 
-    | 'CUSTOMER_CREATED' 
-    | 'CUSTOMER_UPDATED' 
-    | 'CUSTOMER_DELETED'
-    | 'CUSTOMER_REQUESTED'
-    | 'CUSTOMERS_REQUESTED'
-    | 'CUSTOMER_STATUS_CHANGED';
+// Specific event types for better type safety. Commands are published by the API as
+// <AGGREGATE>_<COMMAND>_REQUESTED; the Engine answers on the update topics with
+// <AGGREGATE>_<COMMAND>_COMPLETED, or _FAILED when processing gave up.
+export type CustomerCommand = 'CREATE' | 'UPDATE' | 'DELETE';
+export type CustomerCommandType = `CUSTOMER_${CustomerCommand}_REQUESTED`;
+export type CustomerEventType = CustomerCommandType;
 
 export type CustomerUpdateEventType = 
-    | 'CUSTOMER_CREATED_SUCCESS'
-    | 'CUSTOMER_CREATED_FAILED'
-    | 'CUSTOMER_UPDATED_SUCCESS'
-    | 'CUSTOMER_UPDATED_FAILED'
-    | 'CUSTOMER_DELETED_SUCCESS'
-    | 'CUSTOMER_DELETED_FAILED'
-    | 'CUSTOMER_FOUND'
-    | 'CUSTOMER_NOT_FOUND'
-    | 'CUSTOMERS_LIST_RESPONSE';
+    | `CUSTOMER_${CustomerCommand}_COMPLETED`
+    | `CUSTOMER_${CustomerCommand}_FAILED`;
+
+export type ItemCommand = 'CREATE' | 'UPDATE' | 'DELETE' | 'QUANTITY_UPDATE' | 'PRICE_SCHEDULE';
+export type ItemCommandType = `ITEM_${ItemCommand}_REQUESTED`;
+// Names published before the _REQUESTED convention; upcast to ItemCommandType on consume
+export type LegacyItemCommandType = 'ITEM_CREATED' | 'ITEM_UPDATED' | 'ITEM_DELETED' | 'ITEM_QUANTITY_UPDATED';
+export type ItemQueryType = 'ITEM_REQUESTED' | 'ITEMS_REQUESTED' | 'ALL_ITEMS_REQUESTED';
 
 export type ItemEventType = 
-    | 'ITEM_CREATED' 
-    | 'ITEM_UPDATED' 
-    | 'ITEM_DELETED'
-    | 'ITEM_REQUESTED'
-    | 'ITEMS_REQUESTED'
-    | 'ALL_ITEMS_REQUESTED'
-    | 'ITEM_QUANTITY_UPDATED'
-    | 'ITEM_LOW_STOCK_ALERT';
+    | ItemCommandType
+    | LegacyItemCommandType
+    | ItemQueryType;
 
 export type ItemUpdateEventType = 
-    | 'ITEM_CREATED_SUCCESS'
-    | 'ITEM_CREATED_FAILED'
-    | 'ITEM_UPDATED_SUCCESS'
-    | 'ITEM_UPDATED_FAILED'
-    | 'ITEM_DELETED_SUCCESS'
-    | 'ITEM_DELETED_FAILED'
-    | 'ITEM_FOUND'
-    | 'ITEM_NOT_FOUND'
-    | 'CUSTOMER_ITEMS_RESPONSE'
-    | 'ALL_ITEMS_RESPONSE'
-    | 'ITEM_QUANTITY_UPDATED_SUCCESS'
-    | 'ITEM_QUANTITY_UPDATED_FAILED';
-
-export type OrderEventType = 
-    | 'ORDER_CREATED' 
-    | 'ORDER_UPDATED' 
-    | 'ORDER_CANCELLED'
-    | 'ORDER_REQUESTED'
-    | 'CUSTOMER_ORDERS_REQUESTED'
-    | 'ALL_ORDERS_REQUESTED'
-    | 'ORDER_DELETED'
-    | 'ORDER_PAYMENT_UPDATED';
+    | `ITEM_${ItemCommand}_COMPLETED`
+    | `ITEM_${ItemCommand}_FAILED`
+    | 'ITEM_COMPLETED'
+    | 'ITEM_FAILED'
+    | 'ITEM_LOW_STOCK_ALERT' // Stock fell to or below the item's minStockLevel
+    | 'ITEM_RESTOCKED' // Stock came back from a cancelled, returned or undelivered order
+    | 'ITEM_PRICE_CHANGED'; // A scheduled price took effect
+
+export type OrderCommand = 'CREATE' | 'UPDATE' | 'CANCEL' | 'DELETE' | 'EXPIRE'
+    | 'PAYMENT_AUTHORIZE' | 'PAYMENT_CAPTURE' | 'PAYMENT_VOID' | 'PAYMENT_REFUND'
+    | 'SHIPMENT_CREATE' | 'SHIPMENT_TRACK' | 'SHIP' | 'DELIVER' | 'RETURN' | 'INSPECT';
+export type OrderCommandType = `ORDER_${OrderCommand}_REQUESTED`;
+export type OrderEventType = OrderCommandType;
 
 export type OrderUpdateEventType = 
-    | 'ORDER_CREATED_SUCCESS'
-    | 'ORDER_CREATED_FAILED'
-    | 'ORDER_UPDATED_SUCCESS'
-    | 'ORDER_UPDATED_FAILED'
-    | 'ORDER_CANCELLED_SUCCESS'
-    | 'ORDER_CANCEL_FAILED'
-    | 'ORDER_FOUND'
-    | 'ORDER_NOT_FOUND'
-    | 'CUSTOMER_ORDERS_RESPONSE'
-    | 'ALL_ORDERS_RESPONSE'
-    | 'ORDER_DELETED_SUCCESS'
-    | 'ORDER_DELETE_FAILED';
+    | `ORDER_${OrderCommand}_COMPLETED`
+    | `ORDER_${OrderCommand}_FAILED`;
+
+// Stock changes made by the Engine on behalf of orders, published on the item update topic
+export type InventoryEventType = 'INVENTORY_RESERVED' | 'INVENTORY_COMMITTED' | 'INVENTORY_RELEASED';
 
 export interface CustomerEvent extends KafkaEvent {
     eventType: CustomerEventType;
@@ -496,6 +815,313 @@ export interface EventProcessingResult {
     retryable?: boolean;
 }
 
+// Result of applying one command event to the services (shared by the Engine and replay)
+export interface CommandResult {
+    handled: boolean;
+    success: boolean;
+    data: any;
+    resolved?: any; // Stored with the command for replays to apply, e.g. a ResolvedOrder
+}
+
+// Aggregates whose commands flow through the Engine
+export type AggregateType = 'CUSTOMER' | 'ITEM' | 'ORDER';
+
+// Reference data the API writes directly; the event store keeps a snapshot of the row
+// after every write (see EventStoreService.appendReferenceChange)
+export type ReferenceType = 'WAREHOUSE' | 'CATEGORY' | 'DISCOUNT_CODE' | 'TAX_RULE' | 'SHIPPING_RATE';
+
+// Versioned payload contract for one event type (see src/events/eventRegistry.ts)
+export interface EventDefinition {
+    eventType: string;
+    version: number;
+    schema: ObjectSchema;
+    // upcasters[n] turns a version n payload into version n + 1
+    upcasters?: Record<number, (data: any) => any>;
+    // Event type this (retired) type is upcast to before validation
+    renamedTo?: string;
+}
+
+// Durable copy of a command or update event, versioned per aggregate
+export interface StoredEvent {
+    sequence: string;
+    eventId: string;
+    eventType: string;
+    aggregateType: AggregateType | ReferenceType;
+    aggregateId: string;
+    version: number;
+    tenantId?: string | undefined;
+    topic: string;
+    event: KafkaEvent;
+    recordedAt: Date;
+}
+
+export interface ReplaySummary {
+    schema: string;
+    applied: number;
+    failed: number;
+    lastSequence: string;
+}
+
+// Operation tracking for async (202 Accepted) writes
+export type OperationStatus = 'ACCEPTED' | 'PROCESSING' | 'COMPLETED' | 'FAILED';
+
+// Why a command failed, carried on its update event so callers need not parse the message
+export type CommandErrorCode = 'NOT_FOUND' | 'CONFLICT' | 'VALIDATION' | 'INTERNAL';
+
+export interface OperationRecord {
+    correlationId: string;
+    status: OperationStatus;
+    operationType: string;
+    entityType: AggregateType;
+    entityId?: string | undefined;
+    result?: any;
+    error?: string | undefined;
+    errorCode?: CommandErrorCode | undefined;
+    acceptedAt: Date;
+    updatedAt: Date;
+    completedAt?: Date | undefined;
+    history: Array<{
+        status: OperationStatus;
+        eventType?: string | undefined;
+        timestamp: Date;
+    }>;
+}
+
+// Bulk CSV item import. Each valid row becomes an ITEM_CREATE_REQUESTED operation;
+// the job groups them and reports per-row validation errors
+export type ImportJobStatus = 'DRY_RUN' | 'ACCEPTED' | 'PROCESSING' | 'COMPLETED';
+
+export interface ImportRowError {
+    row: number; // 1-based data row, not counting the header
+    errors: string[];
+}
+
+export interface ImportJobRow {
+    row: number;
+    itemId: string;
+    correlationId: string;
+    status?: OperationStatus | undefined;
+    error?: string | undefined;
+}
+
+export interface ImportJob {
+    id: string;
+    status: ImportJobStatus;
+    customerId?: string | undefined;
+    totalRows: number;
+    validRows: number;
+    invalidRows: number;
+    errors: ImportRowError[];
+    rows: ImportJobRow[];
+    progress?: Record<OperationStatus, number> | undefined;
+    createdAt: Date;
+}
+
+// Engine update events waiting in the transactional outbox
+export interface OutboxMessage {
+    id: string;
+    eventId: string;
+    topic: string;
+    event: KafkaEvent;
+    attempts: number;
+}
+
+// Stock held for an order: HELD at creation, COMMITTED on confirmation,
+// RELEASED on cancel or once taken stock is restocked or written off, EXPIRED when never confirmed
+export type ReservationStatus = 'HELD' | 'COMMITTED' | 'RELEASED' | 'EXPIRED';
+
+export interface InventoryReservation {
+    id: string;
+    orderId: string;
+    itemId: string;
+    quantity: number;
+    status: ReservationStatus;
+    warehouseId?: string | undefined;
+    expiresAt: Date;
+    reason?: string | undefined;
+    createdAt: Date;
+    updatedAt: Date;
+}
+
+export interface ReservationLine {
+    itemId: string;
+    quantity: number;
+    warehouseId?: string | null | undefined;
+}
+
+// Restock rule for an order status (see config.inventory.restockRules): FULL puts
+// shipped stock back with the status change, INSPECTION waits for the inspect
+// command, NONE writes it off. Held stock is always released.
+export type RestockPolicy = 'FULL' | 'INSPECTION' | 'NONE';
+
+export type RestockStatus = 'RESTOCKED' | 'PENDING_INSPECTION' | 'INSPECTED' | 'NOT_RESTOCKED';
+
+// Ledger of on-hand stock changes. Reservations do not move stock; ORDER rows are
+// written when an order's reservation is committed on confirmation.
+export type StockMovementReason =
+    | 'INITIAL'
+    | 'ORDER'
+    | 'CANCEL'
+    | 'MANUAL_ADJUSTMENT'
+    | 'RETURN'
+    | 'FAILED_DELIVERY'
+    | 'COUNT_CORRECTION';
+
+export interface StockMovement {
+    id: string;
+    itemId: string;
+    delta: number;
+    quantityAfter: number;
+    reason: StockMovementReason;
+    referenceId?: string | undefined;
+    warehouseId?: string | undefined;
+    userId?: string | undefined;
+    tenantId?: string | undefined;
+    createdAt: Date;
+}
+
+export interface StockMovementInput {
+    itemId: string;
+    delta: number;
+    quantityAfter: number;
+    reason: StockMovementReason;
+    referenceId?: string | null | undefined;
+    warehouseId?: string | null | undefined;
+}
+
+// One range of an item's price history; effectiveTo is null for the latest price.
+// Ranges are contiguous, and those starting in the future are scheduled changes
+export interface ItemPrice {
+    id: string;
+    itemId: string;
+    price: number;
+    effectiveFrom: Date;
+    effectiveTo: Date | null;
+    createdAt: Date;
+}
+
+export interface StockLevel {
+    itemId: string;
+    asOf: Date;
+    quantity: number;
+}
+
+// Stock locations. customer_items.quantity and reserved_quantity stay the totals
+// across warehouses; warehouse_stock holds the split. Lower priority ships first.
+export type WarehouseStatus = 'ACTIVE' | 'INACTIVE';
+
+export interface Warehouse {
+    id: string;
+    code: string;
+    name: string;
+    address: string | null;
+    priority: number;
+    status: WarehouseStatus;
+    isDefault: boolean;
+    createdAt: Date;
+    updatedAt: Date;
+}
+
+export interface CreateWarehouseRequest {
+    code: string;
+    name: string;
+    address?: string | null;
+    priority?: number;
+}
+
+export interface UpdateWarehouseRequest {
+    name?: string;
+    address?: string | null;
+    priority?: number;
+    status?: WarehouseStatus;
+}
+
+// Managed item categories: a tree per tenant, slugs unique within the tenant
+export interface Category {
+    id: string;
+    tenantId: string | null;
+    parentId: string | null;
+    name: string;
+    slug: string;
+    createdAt: Date;
+    updatedAt: Date;
+    children?: Category[];
+}
+
+export interface CreateCategoryRequest {
+    name: string;
+    slug?: string; // Derived from the name when omitted
+    parentId?: string | null;
+}
+
+export interface UpdateCategoryRequest {
+    name?: string;
+    slug?: string;
+    parentId?: string | null;
+}
+
+// Items per category in a list, counting each item under its category and every ancestor
+export interface CategoryFacet {
+    categoryId: string;
+    parentId: string | null;
+    name: string;
+    slug: string;
+    count: number;
+}
+
+export interface StockLocation {
+    warehouseId: string;
+    warehouseCode: string;
+    warehouseName: string;
+    quantity: number;
+    reservedQuantity: number;
+    availableQuantity: number;
+}
+
+// Idempotency-Key replay records for POST/PUT requests
+export type IdempotencyStatus = 'IN_PROGRESS' | 'COMPLETED';
+
+export interface IdempotencyRecord {
+    key: string; // Idempotency-Key scoped to tenant, method and route (see middleware/idempotency)
+    requestHash: string;
+    status: IdempotencyStatus;
+    statusCode?: number | undefined;
+    body?: any;
+    correlationId?: string | undefined;
+    createdAt: Date;
+}
+
+// Dead-letter handling for events that exhausted their retries
+export type DeadLetterStatus = 'PENDING' | 'REQUEUED' | 'DISCARDED';
+
+export interface DeadLetterEvent {
+    id: string;
+    eventId: string;
+    eventType: string;
+    sourceTopic: string;
+    event: KafkaEvent;
+    error: string;
+    retryCount: number;
+    retryable: boolean;
+    status: DeadLetterStatus;
+    failedAt: Date;
+    resolvedAt?: Date | undefined;
+    resolvedBy?: string | undefined;
+}
+
+// A consumed event waiting in the retry queue, either to be retried or behind
+// an earlier event of the same aggregate that is (see RetryQueueService)
+export interface RetryEntry {
+    id: string;
+    eventId: string;
+    topic: string;
+    orderingKey: string;
+    event: any; // The message as consumed
+    retryCount: number;
+    nextAttemptAt: Date;
+    lastError: string | null;
+}
+
 // WebSocket message types
 export interface WebSocketMessage {
     type: 'EVENT_UPDATE' | 'SUBSCRIPTION_ACK' | 'ERROR' | 'HEARTBEAT' | 'CONNECTION_ACK'| 'PONG';
@@ -685,6 +1311,13 @@ export class ValidationError extends Error {
     }
 }
 
+export class EventValidationError extends Error {
+    constructor(message: string, public eventType: string, public details: string[] = []) {
+        super(message);
+        this.name = 'EventValidationError';
+    }
+}
+
 export class NotFoundError extends Error {
     constructor(message: string, public entityType: string, public entityId: string) {
         super(message);
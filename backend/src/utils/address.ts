@@ -0,0 +1,38 @@
+// utils/address.ts - Shipping addresses as stored on orders and the tax jurisdictions and shipping zones they fall in
+import { OrderAddress } from '../types';
+
+// Orders keep their address as text, in the layout getJurisdictions reads back
+export const formatAddress = (address: OrderAddress): string => {
+    const region = [address.state, address.postalCode].filter(Boolean).join(' ');
+    return [address.street, address.city, region, address.country].filter(Boolean).join(', ');
+};
+
+/**
+ * Jurisdiction codes an address falls in, most specific first: "COUNTRY-REGION",
+ * then "COUNTRY". Free-text addresses are read as "..., <region> <postcode>, <country>",
+ * the layout formatAddress writes.
+ */
+export const getJurisdictions = (address: OrderAddress | string | null | undefined): string[] => {
+    if (!address) {
+        return [];
+    }
+
+    let country: string | undefined;
+    let region: string | undefined;
+
+    if (typeof address === 'string') {
+        const parts = address.split(/[,\n]/).map(part => part.trim()).filter(Boolean);
+        country = parts[parts.length - 1];
+        region = parts.length > 2 ? parts[parts.length - 2]?.split(/\s+/)[0] : undefined;
+    } else {
+        country = address.country;
+        region = address.state || undefined;
+    }
+
+    if (!country) {
+        return [];
+    }
+
+    const countryCode = country.toUpperCase();
+    return region ? [`${countryCode}-${region.toUpperCase()}`, countryCode] : [countryCode];
+};
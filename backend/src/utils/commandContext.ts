@@ -0,0 +1,11 @@
+// utils/commandContext.ts - Who issued the command the Engine is currently applying
+import { AsyncLocalStorage } from 'async_hooks';
+import { KafkaEventMetadata } from '../types';
+
+const commandContext = new AsyncLocalStorage<KafkaEventMetadata>();
+
+// Services deep in a command (e.g. the stock ledger) read the user and tenant from here
+export const runWithCommandContext = <T>(metadata: KafkaEventMetadata | undefined, callback: () => Promise<T>): Promise<T> =>
+    commandContext.run(metadata || {}, callback);
+
+export const getCommandContext = (): KafkaEventMetadata => commandContext.getStore() || {};
@@ -0,0 +1,64 @@
+// utils/csv.test.ts
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { formatCsv, parseCsv } from './csv';
+
+describe('parseCsv', () => {
+    it('splits rows and cells', () => {
+        assert.deepEqual(parseCsv('name,price\nWidget,9.99\nGadget,5\n'), [
+            ['name', 'price'],
+            ['Widget', '9.99'],
+            ['Gadget', '5']
+        ]);
+    });
+
+    it('reads quoted cells with commas, line breaks and doubled quotes as one cell', () => {
+        assert.deepEqual(parseCsv('name,description\n"Widget, large","Says ""hi""\nand bye"\n'), [
+            ['name', 'description'],
+            ['Widget, large', 'Says "hi"\nand bye']
+        ]);
+    });
+
+    it('takes CRLF line endings, a leading BOM and a last row without a line ending', () => {
+        assert.deepEqual(parseCsv('\uFEFFname,price\r\nWidget,9.99\r\nGadget,5'), [
+            ['name', 'price'],
+            ['Widget', '9.99'],
+            ['Gadget', '5']
+        ]);
+    });
+
+    it('keeps empty cells and drops blank lines', () => {
+        assert.deepEqual(parseCsv('name,sku,price\n\nWidget,,9.99\n\r\n,,\n'), [
+            ['name', 'sku', 'price'],
+            ['Widget', '', '9.99'],
+            ['', '', '']
+        ]);
+    });
+
+    it('rejects a quoted cell that is never closed', () => {
+        assert.throws(() => parseCsv('name\n"Widget\nGadget\n'), /unterminated quoted field/);
+    });
+});
+
+describe('formatCsv', () => {
+    it('quotes only the cells that need it and ends every row with CRLF', () => {
+        assert.equal(
+            formatCsv([['name', 'price', 'sku'], ['Widget, large', 9.99, null], ['Says "hi"', 0, undefined]]),
+            'name,price,sku\r\n"Widget, large",9.99,\r\n"Says ""hi""",0,\r\n'
+        );
+    });
+
+    it('keeps spreadsheets from running text cells as formulas', () => {
+        assert.equal(
+            formatCsv([['=HYPERLINK("http://x")', '+1', '-1', '@SUM(A1)', '\tcmd', 'a=b']]),
+            '"\'=HYPERLINK(""http://x"")",\'+1,\'-1,\'@SUM(A1),\'\tcmd,a=b\r\n'
+        );
+        assert.equal(formatCsv([[-5, -0.5]]), '-5,-0.5\r\n');
+    });
+
+    it('reads back what it wrote', () => {
+        const rows = [['name', 'description'], ['Widget, large', 'Says "hi"\r\nand bye'], ['', '']];
+
+        assert.deepEqual(parseCsv(formatCsv(rows)), rows);
+    });
+});
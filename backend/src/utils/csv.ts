@@ -0,0 +1,78 @@
+// utils/csv.ts - Minimal RFC 4180 reading and writing for bulk item import/export
+
+/**
+ * Splits CSV text into rows of cells. Handles quoted cells with embedded commas,
+ * line breaks and doubled quotes, CRLF or LF line endings, and a leading BOM.
+ * Blank lines are dropped.
+ */
+export const parseCsv = (text: string): string[][] => {
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let cell = '';
+    let quoted = false;
+    const input = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+
+    const endRow = () => {
+        row.push(cell);
+        if (row.length > 1 || row[0] !== '') {
+            rows.push(row);
+        }
+        row = [];
+        cell = '';
+    };
+
+    for (let i = 0; i < input.length; i++) {
+        const char = input[i];
+
+        if (quoted) {
+            if (char === '"' && input[i + 1] === '"') {
+                cell += '"';
+                i++;
+            } else if (char === '"') {
+                quoted = false;
+            } else {
+                cell += char;
+            }
+            continue;
+        }
+
+        if (char === '"') {
+            quoted = true;
+        } else if (char === ',') {
+            row.push(cell);
+            cell = '';
+        } else if (char === '\n') {
+            endRow();
+        } else if (char !== '\r') {
+            cell += char;
+        }
+    }
+
+    if (quoted) {
+        throw new Error('Malformed CSV: unterminated quoted field');
+    }
+
+    if (cell !== '' || row.length > 0) {
+        endRow();
+    }
+
+    return rows;
+};
+
+// Spreadsheet apps evaluate a cell that starts with one of these as a formula
+const FORMULA_START = /^[=+\-@\t\r]/;
+
+const formatCell = (value: unknown): string => {
+    if (value === null || value === undefined) {
+        return '';
+    }
+
+    // A leading quote makes spreadsheets show such text as it is instead of running it;
+    // numbers are written unchanged, negative ones included
+    const text = typeof value === 'string' && FORMULA_START.test(value) ? `'${value}` : String(value);
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const formatCsv = (rows: unknown[][]): string => {
+    return rows.map(row => row.map(formatCell).join(',')).join('\r\n') + '\r\n';
+};
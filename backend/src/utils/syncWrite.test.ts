@@ -0,0 +1,200 @@
+// utils/syncWrite.test.ts
+import { after, afterEach, before, beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { Request, Response } from 'express';
+import { EachMessagePayload } from 'kafkajs';
+import { getSyncWaitMs, sendWriteResponse } from './syncWrite';
+import { OperationService } from '../Engine/Services/operation.service';
+import { KafkaService } from '../kafka';
+import { RedisService } from '../cache/redies.service';
+import { config } from '../config/config';
+import { OperationRecord } from '../types';
+
+const ACCEPTED = { success: true, data: { id: 'order-1', correlationId: 'correlation-1' } };
+
+function request(headers: Record<string, string> = {}, query: Record<string, string> = {}): Request {
+    return { get: (name: string) => headers[name], query } as unknown as Request;
+}
+
+// Keeps what the handler sent
+function response() {
+    const sent = { status: 0, headers: {} as Record<string, string>, body: null as any };
+    const res = {
+        status: (code: number) => { sent.status = code; return res; },
+        set: (name: string, value: string) => { sent.headers[name] = value; return res; },
+        json: (body: any) => { sent.body = body; return res; }
+    };
+    return { res: res as unknown as Response, sent };
+}
+
+function operation(overrides: Partial<OperationRecord>): OperationRecord {
+    return {
+        correlationId: 'correlation-1',
+        status: 'COMPLETED',
+        operationType: 'ORDER_CREATE_REQUESTED',
+        entityType: 'ORDER',
+        acceptedAt: new Date('2026-03-01T12:00:00Z'),
+        updatedAt: new Date('2026-03-01T12:00:01Z'),
+        history: [],
+        ...overrides
+    };
+}
+
+describe('getSyncWaitMs', () => {
+    const { defaultSeconds, maxSeconds } = config.api.syncWait;
+
+    it('reads Prefer: wait=N, capped at the configured maximum', () => {
+        assert.equal(getSyncWaitMs(request({ Prefer: 'wait=3' })), 3000);
+        assert.equal(getSyncWaitMs(request({ Prefer: 'respond-async, wait=4' })), 4000);
+        assert.equal(getSyncWaitMs(request({ Prefer: `wait=${maxSeconds + 60}` })), maxSeconds * 1000);
+    });
+
+    it('waits the default time for ?sync=true and not at all otherwise', () => {
+        assert.equal(getSyncWaitMs(request({}, { sync: 'true' })), Math.min(defaultSeconds, maxSeconds) * 1000);
+        assert.equal(getSyncWaitMs(request({}, { sync: 'false' })), 0);
+        assert.equal(getSyncWaitMs(request({ Prefer: 'return=minimal' })), 0);
+        assert.equal(getSyncWaitMs(request()), 0);
+    });
+});
+
+describe('sendWriteResponse', () => {
+    const getOperations = OperationService.getInstance;
+    let outcome: OperationRecord | null;
+    let waits: Array<[string, number]>;
+
+    beforeEach(() => {
+        outcome = null;
+        waits = [];
+        OperationService.getInstance = () => ({
+            waitForCompletion: async (correlationId: string, timeoutMs: number) => {
+                waits.push([correlationId, timeoutMs]);
+                return outcome;
+            }
+        }) as unknown as OperationService;
+    });
+
+    afterEach(() => {
+        OperationService.getInstance = getOperations;
+    });
+
+    it('answers 202 right away when the client did not ask to wait', async () => {
+        const { res, sent } = response();
+
+        await sendWriteResponse(request(), res, 'correlation-1', ACCEPTED, 201);
+
+        assert.deepEqual([sent.status, sent.body], [202, ACCEPTED]);
+        assert.deepEqual(waits, []);
+    });
+
+    it('falls back to 202 when the Engine has not finished in time', async () => {
+        const { res, sent } = response();
+
+        await sendWriteResponse(request({ Prefer: 'wait=2' }), res, 'correlation-1', ACCEPTED, 201);
+
+        assert.deepEqual(waits, [['correlation-1', 2000]]);
+        assert.deepEqual([sent.status, sent.body], [202, ACCEPTED]);
+        assert.equal(sent.headers['Preference-Applied'], undefined);
+    });
+
+    it('answers with the entity once the operation completed', async () => {
+        const { res, sent } = response();
+        outcome = operation({ result: { id: 'order-1', status: 'PENDING' } });
+
+        await sendWriteResponse(request({ Prefer: 'wait=2' }), res, 'correlation-1', ACCEPTED, 201);
+
+        assert.equal(sent.status, 201);
+        assert.equal(sent.headers['Preference-Applied'], 'wait=2');
+        assert.deepEqual(sent.body.data, { id: 'order-1', status: 'PENDING' });
+        assert.equal(sent.body.correlationId, 'correlation-1');
+    });
+
+    it('answers a failed operation with the status for its error code', async () => {
+        const statuses: Array<[string | undefined, number]> = [];
+
+        for (const errorCode of ['NOT_FOUND', 'CONFLICT', 'VALIDATION', 'INTERNAL', undefined] as const) {
+            const { res, sent } = response();
+            outcome = operation({ status: 'FAILED', error: 'Insufficient stock', ...(errorCode && { errorCode }) });
+
+            await sendWriteResponse(request({}, { sync: 'true' }), res, 'correlation-1', ACCEPTED, 201);
+
+            statuses.push([errorCode, sent.status]);
+            assert.deepEqual(sent.body.errors, ['Insufficient stock']);
+        }
+
+        // Operations recorded before error codes existed keep the old 422
+        assert.deepEqual(statuses, [['NOT_FOUND', 404], ['CONFLICT', 409], ['VALIDATION', 400], ['INTERNAL', 500], [undefined, 422]]);
+    });
+});
+
+describe('OperationService.waitForCompletion', () => {
+    const getKafka = KafkaService.getInstance;
+    const getRedis = RedisService.getInstance;
+    const stored = new Map<string, OperationRecord>();
+    let failReads = false;
+    let operations: OperationService;
+
+    before(() => {
+        KafkaService.getInstance = () => ({}) as KafkaService;
+        RedisService.getInstance = () => ({
+            getCachedOperation: async (correlationId: string) => {
+                if (failReads) {
+                    throw new Error('Redis unavailable');
+                }
+                return stored.get(correlationId) ?? null;
+            },
+            cacheOperation: async (record: OperationRecord) => { stored.set(record.correlationId, record); return true; }
+        }) as unknown as RedisService;
+        operations = OperationService.getInstance();
+    });
+
+    after(() => {
+        KafkaService.getInstance = getKafka;
+        RedisService.getInstance = getRedis;
+    });
+
+    beforeEach(() => {
+        stored.clear();
+        failReads = false;
+    });
+
+    function updateEvent(correlationId: string, data: any): EachMessagePayload {
+        const event = { eventType: 'ORDER_CREATE_COMPLETED', data, metadata: { correlationId } };
+        return { message: { value: Buffer.from(JSON.stringify(event)) } } as unknown as EachMessagePayload;
+    }
+
+    it('resolves as soon as this instance consumes the update event', async () => {
+        await operations.recordAccepted('correlation-1', 'ORDER_CREATE_REQUESTED', 'ORDER');
+        const waiting = operations.waitForCompletion('correlation-1', 5000);
+
+        await operations['handleUpdateEvent']('ORDER', updateEvent('correlation-1', { success: true, data: { id: 'order-1' } }));
+
+        const operation = await waiting;
+        assert.equal(operation?.status, 'COMPLETED');
+        assert.deepEqual(operation?.result, { id: 'order-1' });
+    });
+
+    it('resolves straight away for an operation that already finished', async () => {
+        stored.set('correlation-1', operation({ status: 'FAILED', errorCode: 'CONFLICT' }));
+
+        const started = Date.now();
+        const finished = await operations.waitForCompletion('correlation-1', 5000);
+
+        assert.equal(finished?.errorCode, 'CONFLICT');
+        assert.ok(Date.now() - started < config.api.syncWait.pollInterval);
+    });
+
+    it('gives up with null once the time is up', async () => {
+        await operations.recordAccepted('correlation-1', 'ORDER_CREATE_REQUESTED', 'ORDER');
+
+        assert.equal(await operations.waitForCompletion('correlation-1', 20), null);
+        assert.equal(operations['completionEmitter'].listenerCount('correlation-1'), 0);
+    });
+
+    it('ends the wait with null when the operation cannot be read', async () => {
+        failReads = true;
+
+        const started = Date.now();
+        assert.equal(await operations.waitForCompletion('correlation-1', 5000), null);
+        assert.ok(Date.now() - started < config.api.syncWait.pollInterval);
+    });
+});
@@ -0,0 +1,83 @@
+// utils/syncWrite.ts - Optional "wait for result" mode for async write endpoints
+import { Request, Response } from 'express';
+import { config } from '../config/config';
+import { OperationService } from '../Engine/Services/operation.service';
+import { logger } from './logger';
+import { CommandErrorCode } from '../types';
+
+/**
+ * Returns how long the client asked to wait for the Engine, in ms, or 0 for the
+ * default async flow. Supports `Prefer: wait=N` (RFC 7240) and `?sync=true`.
+ */
+export const getSyncWaitMs = (req: Request): number => {
+    const maxSeconds = config.api.syncWait.maxSeconds;
+    const prefer = req.get('Prefer');
+    const match = prefer ? /(?:^|[,;\s])wait=(\d+)/i.exec(prefer) : null;
+
+    if (match && match[1]) {
+        return Math.min(parseInt(match[1]), maxSeconds) * 1000;
+    }
+
+    if (req.query.sync === 'true') {
+        return Math.min(config.api.syncWait.defaultSeconds, maxSeconds) * 1000;
+    }
+
+    return 0;
+};
+
+// Operations recorded before error codes existed carry none and keep the old 422
+const FAILURE_STATUS_CODES: Record<CommandErrorCode, number> = {
+    NOT_FOUND: 404,
+    CONFLICT: 409,
+    VALIDATION: 400,
+    INTERNAL: 500
+};
+
+/**
+ * Sends the normal 202 body, or - when the client asked to wait - blocks until
+ * the Engine publishes the matching update event and answers with the real
+ * entity (successStatus) or the status for the operation's errorCode. Falls back to the 202 body on timeout.
+ */
+export const sendWriteResponse = async (
+    req: Request,
+    res: Response,
+    correlationId: string,
+    acceptedBody: any,
+    successStatus: number = 200
+): Promise<void> => {
+    const waitMs = getSyncWaitMs(req);
+
+    if (waitMs === 0) {
+        res.status(202).json(acceptedBody);
+        return;
+    }
+
+    const operation = await OperationService.getInstance().waitForCompletion(correlationId, waitMs);
+
+    if (!operation) {
+        logger.info(`Sync wait timed out, falling back to 202`, { correlationId, waitMs });
+        res.status(202).json(acceptedBody);
+        return;
+    }
+
+    res.set('Preference-Applied', `wait=${waitMs / 1000}`);
+
+    if (operation.status === 'COMPLETED') {
+        res.status(successStatus).json({
+            success: true,
+            data: operation.result,
+            message: 'Operation completed successfully',
+            timestamp: new Date(),
+            correlationId
+        });
+        return;
+    }
+
+    res.status(operation.errorCode ? FAILURE_STATUS_CODES[operation.errorCode] : 422).json({
+        success: false,
+        message: operation.error || 'Operation failed',
+        errors: operation.error ? [operation.error] : [],
+        timestamp: new Date(),
+        correlationId
+    });
+};